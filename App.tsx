@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { Download, Upload, Play, Zap, LayoutDashboard, Lock, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Download, Upload, Play, Zap, LayoutDashboard, Loader2 } from 'lucide-react';
 import ImporterList from './components/ImporterList';
 import ChatInterface from './components/ChatInterface';
 import BulkImportModal from './components/BulkImportModal';
@@ -8,22 +8,38 @@ import SettingsModal from './components/SettingsModal';
 import ReportConfigModal from './components/ReportConfigModal';
 import AnalyticsDashboard from './components/AnalyticsDashboard';
 import LoginScreen from './components/LoginScreen';
+import LockScreen from './components/LockScreen';
 import Navigation from './components/Navigation';
 import SetupWizard from './components/SetupWizard';
 import HelpModal from './components/HelpModal';
 import CampaignManager from './components/CampaignManager';
 import CalendarView from './components/CalendarView';
-
-import { Importer, LeadStatus, Message, Channel, AppTemplates, DEFAULT_TEMPLATES, ReportConfig, SalesForecast, User, Language, canExportData, canSendMessages, PlatformConnection, MessageStatus, NotificationConfig, DEFAULT_NOTIFICATIONS, Campaign, CalendarEvent } from './types';
-import { generateIntroMessage, generateAgentReply, analyzeLeadQuality, simulateImporterResponse, generateSalesForecast } from './services/geminiService';
-import { simulateNetworkValidation, getOptimalChannel } from './services/validationService';
-import { logSecurityEvent, loadUserSession, saveUserSession, clearUserSession, loadPlatformConnections, savePlatformConnections, refreshPlatformTokens } from './services/securityService';
-import { MessagingService } from './services/messagingService';
+import QuotationModal from './components/QuotationModal';
+
+import { Importer, LeadStatus, Message, Channel, AnalysisResult, AppTemplates, DEFAULT_TEMPLATES, ReportConfig, User, Language, Permission, hasPermission, PlatformConnection, MessageStatus, SendOptions, NotificationConfig, DEFAULT_NOTIFICATIONS, Campaign, CalendarEvent, Product, Quotation, MessageAttachment, Deal, ExchangeRate, StatusActor, AssignmentRule, TeamMember } from './types';
+import { generateIntroMessage, generateAgentReply, analyzeLeadQuality, simulateImporterResponse } from './services/geminiService';
+import { verifyContactReachability, getOptimalChannel, getInitialValidationState } from './services/validationService';
+import { splitSms } from './services/smsSegments';
+import { planWhatsAppSend, templateValues, getSessionWindow, INTRO_TEMPLATE } from './services/whatsappTemplates';
+import { logSecurityEvent, clearUserSession, loadPlatformConnections, savePlatformConnections, refreshPlatformTokens } from './services/securityService';
+import { MessagingService, isStatusAdvance } from './services/messagingService';
+import { OutgoingTemplate } from './services/channels/types';
+import { RealtimeService } from './services/realtimeService';
 import { StorageService } from './services/storageService';
+import { findImporterByContact, findDuplicate, mergeImporters } from './services/dedupeService';
+import { buildInboundLead } from './services/inboundLeadService';
+import { RepositoryService } from './services/repositoryService';
 import { CampaignService } from './services/campaignService';
 import { CalendarService } from './services/calendarService';
+import { describeCatalog } from './services/catalogService';
+import { QuoteRequest, issueQuotation, quotationTitle, quotationSummary, renderQuotationText, generateQuotationPdf } from './services/quotationService';
+import { MediaService } from './services/mediaService';
+import { dealFromQuotation } from './services/dealService';
+import { applyAssignmentRules, reassignLead } from './services/assignmentService';
 import { t } from './services/i18n';
 import { isDesktop, PlatformService } from './services/platformService';
+import { AuthService } from './services/authService';
+import { ApiClient } from './services/apiClient';
 
 // Mock Data
 const MOCK_IMPORTERS: Importer[] = [
@@ -69,7 +85,8 @@ const DEFAULT_REPORT_CONFIG: ReportConfig = {
     timeFrame: '30d',
     kpis: { revenue: true, conversion: true, leads: true },
     exportSchedule: 'weekly',
-    emailRecipients: ''
+    emailRecipients: '',
+    baseCurrency: 'USD'
 };
 
 const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
@@ -77,6 +94,7 @@ const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [isLocked, setIsLocked] = useState(false);
+  const [signedOutNotice, setSignedOutNotice] = useState<string | null>(null);
   const [lastActivity, setLastActivity] = useState(Date.now());
   const [connectedPlatforms, setConnectedPlatforms] = useState<PlatformConnection[]>([]);
   const [importers, setImporters] = useState<Importer[]>([]);
@@ -89,12 +107,11 @@ const App: React.FC = () => {
   const [showSettingsModal, setShowSettingsModal] = useState<boolean>(false);
   const [showReportConfig, setShowReportConfig] = useState<boolean>(false);
   const [showHelpModal, setShowHelpModal] = useState<boolean>(false);
+  const [showQuotationModal, setShowQuotationModal] = useState<boolean>(false);
   const [templates, setTemplates] = useState<AppTemplates>(DEFAULT_TEMPLATES);
   const [reportConfig, setReportConfig] = useState<ReportConfig>(DEFAULT_REPORT_CONFIG);
   const [notificationConfig, setNotificationConfig] = useState<NotificationConfig>(DEFAULT_NOTIFICATIONS);
   const [language, setLanguage] = useState<Language>('en');
-  const [forecastData, setForecastData] = useState<SalesForecast[] | null>(null);
-  const [isForecasting, setIsForecasting] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
   
@@ -105,6 +122,33 @@ const App: React.FC = () => {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
 
+  // Product catalog & quotations
+  const [products, setProducts] = useState<Product[]>([]);
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+
+  // Lead ownership
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [assignmentRules, setAssignmentRules] = useState<AssignmentRule[]>([]);
+
+  // Persistence: 'remote' = backend repository (per-record writes), 'local' = localStorage fallback.
+  // The refs hold the last persisted snapshot so each state change is diffed into minimal writes.
+  const persistenceMode = useRef<'remote' | 'local' | null>(null);
+  const syncedImporters = useRef<Importer[]>([]);
+  const syncedCampaigns = useRef<Campaign[]>([]);
+  const syncedCalendarEvents = useRef<CalendarEvent[]>([]);
+  const syncedProducts = useRef<Product[]>([]);
+  const syncedQuotations = useRef<Quotation[]>([]);
+  const syncedDeals = useRef<Deal[]>([]);
+  const syncedExchangeRates = useRef<ExchangeRate[]>([]);
+  const syncedAssignmentRules = useRef<AssignmentRule[]>([]);
+  const workspaceLoaded = useRef(false);
+  // Inbound leads already sent through analyzeLeadQuality (or in flight), so each gets one pass
+  const analyzedInboundLeads = useRef<Set<string>>(new Set());
+  const isAnalyzingInbound = useRef(false);
+  const [inboundAnalysisTick, setInboundAnalysisTick] = useState(0);
+
   // --- Effects ---
 
   useEffect(() => {
@@ -113,19 +157,82 @@ const App: React.FC = () => {
             // Check configuration first
             const setupStatus = await PlatformService.getAppConfig('setupComplete', false);
             console.log("[App] Loaded Setup Status:", setupStatus);
-            setIsSetupComplete(setupStatus === true);
+            // Installs from before server accounts existed go through the wizard once more to create an admin
+            const authStatus = await AuthService.status().catch(() => null);
+            const ready = setupStatus === true && !authStatus?.needsSetup;
+            setIsSetupComplete(ready);
 
-            // If setup is complete, load other data
-            if (setupStatus === true) {
-                const savedUser = await loadUserSession();
+            if (ready) {
+                const savedUser = authStatus?.user;
                 if (savedUser) {
                     setUser(savedUser);
-                    logSecurityEvent('SESSION_RESTORE', savedUser.id, 'Restored from secure storage');
+                    // The storage key only lives in memory, so a restored session starts locked
+                    if (!StorageService.isUnlocked()) setIsLocked(true);
+                    logSecurityEvent('SESSION_RESTORE', 'Restored from server session');
                 }
-                const savedPlatforms = await loadPlatformConnections();
-                if (savedPlatforms.length > 0) setConnectedPlatforms(savedPlatforms);
+            }
+        } catch (e) {
+            console.error("Initialization failed", e);
+            setIsSetupComplete(false); // Default to running setup if error
+        }
+    };
+    init();
+  }, []);
+
+  // Workspace data is encrypted at rest, so it is loaded once storage has been unlocked
+  useEffect(() => {
+    if (!user || isLocked || workspaceLoaded.current) return;
+    workspaceLoaded.current = true;
 
-                const savedImporters = StorageService.loadImporters();
+    const loadWorkspace = async () => {
+        try {
+            const savedPlatforms = await loadPlatformConnections();
+            if (savedPlatforms.length > 0) setConnectedPlatforms(savedPlatforms);
+            const baseCurrency = await PlatformService.getAppConfig('baseCurrency', DEFAULT_REPORT_CONFIG.baseCurrency);
+            setReportConfig(prev => ({ ...prev, baseCurrency }));
+
+            if (await RepositoryService.isAvailable()) {
+                AuthService.listTeam().then(setTeam).catch(e => console.error("Failed to load team", e));
+                let savedImporters = await RepositoryService.loadImporters();
+                if (savedImporters.length === 0) {
+                    // One-time migration of the legacy localStorage blob into the backend
+                    const legacy = await StorageService.loadImporters();
+                    if (legacy && legacy.length > 0) {
+                        await RepositoryService.bulkSaveImporters(legacy);
+                        StorageService.clearStorage();
+                        savedImporters = legacy;
+                    }
+                }
+                const [savedCampaigns, savedEvents, savedProducts, savedQuotations, savedDeals, savedRates, savedRules] = await Promise.all([
+                    RepositoryService.list<Campaign>('campaigns'),
+                    RepositoryService.list<CalendarEvent>('calendarEvents'),
+                    RepositoryService.list<Product>('products'),
+                    RepositoryService.list<Quotation>('quotations'),
+                    RepositoryService.list<Deal>('deals'),
+                    RepositoryService.list<ExchangeRate>('exchangeRates'),
+                    RepositoryService.list<AssignmentRule>('assignmentRules')
+                ]);
+
+                persistenceMode.current = 'remote';
+                syncedImporters.current = savedImporters;
+                syncedCampaigns.current = savedCampaigns;
+                syncedCalendarEvents.current = savedEvents;
+                syncedProducts.current = savedProducts;
+                syncedQuotations.current = savedQuotations;
+                syncedDeals.current = savedDeals;
+                syncedExchangeRates.current = savedRates;
+                syncedAssignmentRules.current = savedRules;
+                setCampaigns(savedCampaigns);
+                setCalendarEvents(savedEvents);
+                setProducts(savedProducts);
+                setQuotations(savedQuotations);
+                setDeals(savedDeals);
+                setExchangeRates(savedRates);
+                setAssignmentRules(savedRules);
+                setImporters(savedImporters.length > 0 ? savedImporters : MOCK_IMPORTERS);
+            } else {
+                const savedImporters = await StorageService.loadImporters();
+                persistenceMode.current = 'local';
                 if (savedImporters && savedImporters.length > 0) {
                     setImporters(savedImporters);
                 } else {
@@ -133,12 +240,12 @@ const App: React.FC = () => {
                 }
             }
         } catch (e) {
-            console.error("Initialization failed", e);
-            setIsSetupComplete(false); // Default to running setup if error
+            // Leave persistence disabled so unreadable data is never overwritten
+            console.error("Failed to load workspace", e);
         }
     };
-    init();
-  }, []);
+    loadWorkspace();
+  }, [user, isLocked]);
 
   useEffect(() => {
       // Background Token Refresh Loop
@@ -152,25 +259,55 @@ const App: React.FC = () => {
   }, [user, connectedPlatforms]);
 
   useEffect(() => {
-    if (importers.length > 0) StorageService.saveImporters(importers);
+    if (persistenceMode.current === 'remote') {
+        RepositoryService.syncImporters(syncedImporters.current, importers);
+        syncedImporters.current = importers;
+    } else if (persistenceMode.current === 'local' && importers.length > 0) {
+        StorageService.saveImporters(importers);
+    }
   }, [importers]);
 
-  // Campaign Heartbeat
   useEffect(() => {
-      const interval = setInterval(async () => {
-          const { importers: updatedImporters, events: newEvents } = await CampaignService.processCampaigns(
-              importers, 
-              campaigns, 
-              templates, 
-              (imp, msg, ch) => sendMessage(imp, msg, ch)
-          );
-          
-          if (updatedImporters) setImporters(updatedImporters);
-          if (newEvents.length > 0) setCalendarEvents(prev => [...prev, ...newEvents]);
-
-      }, 60000); // Check every minute
-      return () => clearInterval(interval);
-  }, [importers, campaigns, templates]);
+    if (persistenceMode.current !== 'remote') return;
+    RepositoryService.syncCollection('campaigns', syncedCampaigns.current, campaigns);
+    syncedCampaigns.current = campaigns;
+  }, [campaigns]);
+
+  useEffect(() => {
+    if (persistenceMode.current !== 'remote') return;
+    RepositoryService.syncCollection('calendarEvents', syncedCalendarEvents.current, calendarEvents);
+    syncedCalendarEvents.current = calendarEvents;
+  }, [calendarEvents]);
+
+  useEffect(() => {
+    if (persistenceMode.current !== 'remote') return;
+    RepositoryService.syncCollection('products', syncedProducts.current, products);
+    syncedProducts.current = products;
+  }, [products]);
+
+  useEffect(() => {
+    if (persistenceMode.current !== 'remote') return;
+    RepositoryService.syncCollection('quotations', syncedQuotations.current, quotations);
+    syncedQuotations.current = quotations;
+  }, [quotations]);
+
+  useEffect(() => {
+    if (persistenceMode.current !== 'remote') return;
+    RepositoryService.syncCollection('deals', syncedDeals.current, deals);
+    syncedDeals.current = deals;
+  }, [deals]);
+
+  useEffect(() => {
+    if (persistenceMode.current !== 'remote') return;
+    RepositoryService.syncCollection('exchangeRates', syncedExchangeRates.current, exchangeRates);
+    syncedExchangeRates.current = exchangeRates;
+  }, [exchangeRates]);
+
+  useEffect(() => {
+    if (persistenceMode.current !== 'remote') return;
+    RepositoryService.syncCollection('assignmentRules', syncedAssignmentRules.current, assignmentRules);
+    syncedAssignmentRules.current = assignmentRules;
+  }, [assignmentRules]);
 
   useEffect(() => {
     const handleResize = () => setIsMobile(window.innerWidth < 768);
@@ -182,6 +319,53 @@ const App: React.FC = () => {
     if (!isMobile && !selectedId && importers.length > 0) setSelectedId(importers[0].id);
   }, [isMobile, importers, selectedId]);
 
+  // A revoked or expired session shows up as a 401 on the next request: back to sign-in
+  useEffect(() => ApiClient.onSessionExpired(() => {
+      StorageService.lock();
+      workspaceLoaded.current = false;
+      setIsLocked(false);
+      setUser(null);
+      setSignedOutNotice('Your session has ended or was signed out from another device. Sign in again to continue.');
+  }), []);
+
+  // Server push: inbound messages & delivery receipts from the webhook pipeline,
+  // plus records the backend writes itself (campaign scheduler sends, calendar entries)
+  useEffect(() => {
+      if (!user) return;
+      RealtimeService.connect();
+      MessagingService.syncProviders();
+      const unsubscribe = RealtimeService.onRecordChanged(async (change) => {
+          if (persistenceMode.current !== 'remote') return;
+          try {
+              if ((change.collection === 'messages' || change.collection === 'importers') && change.importerId) {
+                  const fresh = await RepositoryService.get<Importer>('importers', change.importerId);
+                  // Already persisted server-side: record it as synced so it isn't written back
+                  // Unknown ids are leads the server created for new inbound senders
+                  const isNew = !syncedImporters.current.some(i => i.id === fresh.id);
+                  const upsert = (list: Importer[]) => list.some(i => i.id === fresh.id) ? list.map(i => i.id === fresh.id ? fresh : i) : [fresh, ...list];
+                  syncedImporters.current = upsert(syncedImporters.current);
+                  setImporters(upsert);
+                  if (isNew && fresh.ownerId) {
+                      // The server assigned it by rule and advanced that rule's round-robin cursor
+                      const rules = await RepositoryService.list<AssignmentRule>('assignmentRules');
+                      syncedAssignmentRules.current = rules;
+                      setAssignmentRules(rules);
+                  }
+              } else if (change.collection === 'calendarEvents') {
+                  const event = await RepositoryService.get<CalendarEvent>('calendarEvents', change.id);
+                  syncedCalendarEvents.current = [...syncedCalendarEvents.current.filter(e => e.id !== event.id), event];
+                  setCalendarEvents(prev => [...prev.filter(e => e.id !== event.id), event]);
+              }
+          } catch (e) {
+              console.warn('[App] Failed to refresh changed record', change, e);
+          }
+      });
+      return () => {
+          unsubscribe();
+          RealtimeService.disconnect();
+      };
+  }, [user]);
+
   // Auto-Update & Webhook Listener (Desktop Only)
   useEffect(() => {
       if (isDesktop() && window.electronAPI) {
@@ -191,58 +375,32 @@ const App: React.FC = () => {
               }
           });
 
-          window.electronAPI.onWebhookPayload((_event, { channel, payload, timestamp }) => {
+          // Raw webhook bodies from the local server are parsed by the channel's provider and
+          // reach the same inbound handler as every other channel
+          window.electronAPI.onWebhookPayload((_event, { channel, payload }) => {
               console.log("Received Webhook:", channel, payload);
-              let content = '';
-              let contact = '';
-
-              if (channel === 'WhatsApp') {
-                  const msg = payload?.entry?.[0]?.changes?.[0]?.value?.messages?.[0];
-                  if (msg) {
-                      content = msg.text?.body || '[Media]';
-                      contact = msg.from;
-                  } else if (payload.message) {
-                      content = payload.message;
-                      contact = payload.from;
-                  }
-              } else if (channel === 'WeChat') {
-                  content = payload.Content;
-                  contact = payload.FromUserName;
-              }
-
-              if (content && contact) {
-                  setImporters(prev => {
-                      const existing = prev.find(i => i.contactDetail.includes(contact) || contact.includes(i.contactDetail));
-                      
-                      if (existing) {
-                           // STOP Campaign on Reply
-                           CampaignService.stopEnrollment(existing.id);
-
-                           const newMessage: Message = {
-                               id: `wh-${Date.now()}`,
-                               content: content,
-                               sender: 'importer',
-                               timestamp: timestamp || Date.now(),
-                               channel: channel === 'WhatsApp' ? Channel.WHATSAPP : Channel.WECHAT,
-                               status: MessageStatus.DELIVERED
-                           };
-                           return prev.map(i => i.id === existing.id ? { 
-                               ...i, 
-                               status: LeadStatus.ENGAGED,
-                               chatHistory: [...i.chatHistory, newMessage],
-                               lastContacted: Date.now(),
-                               activityLog: [...i.activityLog, { id: `log-${Date.now()}`, timestamp: Date.now(), type: 'system', description: `Incoming ${channel} message` }]
-                           } : i);
-                      } else {
-                          // Create new Pending Lead logic could go here...
-                          return prev;
-                      }
-                  });
-              }
+              MessagingService.receiveWebhook(channel === 'WhatsApp' ? Channel.WHATSAPP : Channel.WECHAT, payload);
           });
       }
   }, []);
 
+  // One analyzeLeadQuality pass per new inbound lead, run one at a time to respect the AI rate limit
+  useEffect(() => {
+      if (isAnalyzingInbound.current) return;
+      const next = importers.find(i => i.needsTriage && i.leadScore === undefined && !analyzedInboundLeads.current.has(i.id));
+      if (!next || next.chatHistory.length === 0) return;
+
+      analyzedInboundLeads.current.add(next.id);
+      isAnalyzingInbound.current = true;
+      analyzeLeadQuality(next.chatHistory)
+          .then(analysis => applyLeadAnalysis(next.id, analysis))
+          .catch(e => console.error('[App] Inbound lead analysis failed', e))
+          .finally(() => {
+              isAnalyzingInbound.current = false;
+              setInboundAnalysisTick(t => t + 1);
+          });
+  }, [importers, inboundAnalysisTick]);
+
   useEffect(() => {
     if (!user) return;
     const resetTimer = () => setLastActivity(Date.now());
@@ -251,8 +409,9 @@ const App: React.FC = () => {
     window.addEventListener('click', resetTimer);
     const interval = setInterval(() => {
         if (Date.now() - lastActivity > LOCK_TIMEOUT_MS && !isLocked) {
+            StorageService.lock();
             setIsLocked(true);
-            logSecurityEvent('SESSION_LOCK', user.id, 'Inactivity timeout');
+            logSecurityEvent('SESSION_LOCK', 'Inactivity timeout');
         }
     }, 10000);
     return () => {
@@ -265,91 +424,157 @@ const App: React.FC = () => {
 
   // Messaging Listeners
   useEffect(() => {
-      MessagingService.onMessageStatusUpdate((messageId, status) => {
+      const unsubscribers = [
+      MessagingService.onMessageStatusUpdate(({ messageId, status }) => {
           setImporters(prev => prev.map(imp => {
-              const msgExists = imp.chatHistory.find(m => m.id === messageId);
-              if (msgExists) {
-                  return { ...imp, chatHistory: imp.chatHistory.map(m => m.id === messageId ? { ...m, status } : m) };
+              const isTarget = (m: Message) => m.id === messageId || m.externalId === messageId;
+              const msgExists = imp.chatHistory.find(isTarget);
+              if (msgExists && isStatusAdvance(msgExists.status, status)) {
+                  return { ...imp, chatHistory: imp.chatHistory.map(m => isTarget(m) ? { ...m, status } : m) };
               }
               return imp;
           }));
-      });
-      MessagingService.onTypingStatus((importerId, isTyping) => {
+      }),
+      MessagingService.onTypingStatus(({ importerId, isTyping }) => {
         setImporterTypingMap(prev => ({ ...prev, [importerId]: isTyping }));
-      });
-      MessagingService.onIncomingMessage(async (importerId, contact, content, channel) => {
-          const targetId = importerId || selectedId;
-          if (targetId) {
-              // Stop campaigns
-              CampaignService.stopEnrollment(targetId);
-
-              addMessage(targetId, content, 'importer', channel);
-              const imp = importers.find(i => i.id === targetId);
-              if (imp) {
-                  const analysis = await analyzeLeadQuality([...imp.chatHistory, { id: 'temp', content: content, sender: 'importer', timestamp: Date.now(), channel }]);
-                  
-                  updateImporter(targetId, {
-                      status: analysis.status, 
-                      conversationSummary: analysis.summary, 
-                      nextStep: analysis.nextStep,
-                      interestShownIn: analysis.interestShownIn, 
-                      needsHumanReview: analysis.requiresHumanReview,
-                      leadScore: analysis.leadScore, 
-                      satisfactionIndex: analysis.satisfactionIndex,
-                      sentimentAnalysis: analysis.sentiment, 
-                      detectedEmotions: analysis.emotions    
-                  });
-
-                  // CRITICAL ALERT LOGIC
-                  if (analysis.sentiment.label === 'Critical' && notificationConfig.criticalAlerts) {
-                      // Browser Notification
-                      if (Notification.permission === 'granted') {
-                          new Notification('Critical Lead Alert', { 
-                              body: `${imp.companyName} is exhibiting critical sentiment. Immediate attention required.`,
-                              icon: '/assets/icon.png' 
-                          });
-                      } else if (Notification.permission !== 'denied') {
-                           Notification.requestPermission().then(perm => {
-                               if (perm === 'granted') {
-                                   new Notification('Critical Lead Alert', { 
-                                      body: `${imp.companyName} is exhibiting critical sentiment. Immediate attention required.` 
-                                  });
-                               }
-                           });
-                      }
+      }),
+      MessagingService.onIncomingMessage(async ({ importerId, contact, content, channel, messageId, attachments }) => {
+          // The realtime catch-up replays messages this tab may already hold
+          if (messageId && importers.some(i => i.chatHistory.some(m => m.id === messageId))) return;
+          const targetId = importerId || findImporterByContact(importers, contact)?.id;
+          if (!targetId) {
+              // Unknown sender; analysis is picked up by the inbound queue
+              const { leads: [lead], rules } = applyAssignmentRules([buildInboundLead(contact, channel)], assignmentRules, team);
+              const message: Message = { id: messageId || Date.now().toString(), content, sender: 'importer', timestamp: Date.now(), channel, status: MessageStatus.DELIVERED, attachments };
+              setAssignmentRules(rules);
+              setImporters(prev => [{ ...lead, chatHistory: [message] }, ...prev]);
+              return;
+          }
+          // Stop campaigns
+          CampaignService.stopEnrollment(targetId);
+
+          addMessage(targetId, content, 'importer', channel, undefined, messageId, { attachments });
+          const imp = importers.find(i => i.id === targetId);
+          if (imp) {
+              const analysis = await analyzeLeadQuality([...imp.chatHistory, { id: 'temp', content: content, sender: 'importer', timestamp: Date.now(), channel }]);
+              
+              applyLeadAnalysis(targetId, analysis);
+
+              // CRITICAL ALERT LOGIC
+              if (analysis.sentiment.label === 'Critical' && notificationConfig.criticalAlerts) {
+                  // Browser Notification
+                  if (Notification.permission === 'granted') {
+                      new Notification('Critical Lead Alert', { 
+                          body: `${imp.companyName} is exhibiting critical sentiment. Immediate attention required.`,
+                          icon: '/assets/icon.png' 
+                      });
+                  } else if (Notification.permission !== 'denied') {
+                       Notification.requestPermission().then(perm => {
+                           if (perm === 'granted') {
+                               new Notification('Critical Lead Alert', { 
+                                  body: `${imp.companyName} is exhibiting critical sentiment. Immediate attention required.` 
+                              });
+                           }
+                       });
                   }
               }
           }
-      });
-  }, [selectedId, importers, notificationConfig]); 
+      })
+      ];
+      return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [selectedId, importers, notificationConfig, assignmentRules, team]); 
 
   // --- Handlers ---
 
   const handleLogin = (loggedInUser: User) => {
     setUser(loggedInUser);
-    saveUserSession(loggedInUser);
-    logSecurityEvent('LOGIN_SUCCESS', loggedInUser.id, `Role: ${loggedInUser.role}`);
+    setSignedOutNotice(null);
   };
 
   const handleLogout = () => {
       clearUserSession();
+      StorageService.lock();
+      workspaceLoaded.current = false;
+      setIsLocked(false);
       setUser(null);
   };
 
+  const handleUnlock = () => {
+      setIsLocked(false);
+      setLastActivity(Date.now());
+      if (user) logSecurityEvent('SESSION_UNLOCK', 'Storage unlocked with passphrase');
+  };
+
+  const handleBulkImport = (newItems: Importer[], mergedItems: Importer[]) => {
+      const merged = new Map(mergedItems.map(i => [i.id, i]));
+      const { leads, rules } = applyAssignmentRules(newItems, assignmentRules, team);
+      setAssignmentRules(rules);
+      setImporters(prev => [...prev.map(i => merged.get(i.id) || i), ...leads]);
+      verifyContacts(leads);
+  };
+
+  const handleReassign = (ownerId: string | undefined) => {
+      if (!user || !selectedId) return;
+      setImporters(prev => prev.map(i => i.id === selectedId ? reassignLead(i, ownerId, team, user.name) : i));
+  };
+
+  // MX / disposable / role checks for emails, WhatsApp screening by phone type for numbers.
+  // One at a time in the background; the backend caches per domain
+  const verifyContacts = async (items: Importer[]) => {
+      for (const item of items) {
+          if (!item.validation.isValid) continue;
+          const channel = item.contactDetail.includes('@') ? Channel.EMAIL : Channel.WHATSAPP;
+          const result = await verifyContactReachability(item.contactDetail, channel, item.validation.phoneType);
+          setImporters(prev => prev.map(i => i.id === item.id ? { ...i, validation: { ...i.validation, ...result } } : i));
+      }
+  };
+
+  // Folds the duplicate into the selected lead; the duplicate's record is removed
+  const handleMergeDuplicate = (duplicateId: string) => {
+      if (!selectedId) return;
+      setImporters(prev => {
+          const primary = prev.find(i => i.id === selectedId);
+          const secondary = prev.find(i => i.id === duplicateId);
+          if (!primary || !secondary) return prev;
+          const merged = mergeImporters(primary, secondary);
+          return prev.filter(i => i.id !== duplicateId).map(i => i.id === selectedId ? merged : i);
+      });
+      if (user) logSecurityEvent('LEAD_MERGE', `${duplicateId} merged into ${selectedId}`, selectedId);
+  };
+
+  const handleReportConfigSave = (config: ReportConfig) => {
+      setReportConfig(config);
+      PlatformService.setAppConfig('baseCurrency', config.baseCurrency);
+  };
+
   const handlePlatformUpdate = (newConn: PlatformConnection) => {
       setConnectedPlatforms(prev => {
           const updated = [...prev.filter(p => p.channel !== newConn.channel), newConn];
           savePlatformConnections(updated);
           return updated;
       });
+      // A channel linked or dropped on the backend switches between its live provider and the simulator
+      MessagingService.syncProviders();
   };
 
-  const updateImporter = (id: string, updates: Partial<Importer>, logDescription?: string) => {
+  const updateImporter = (id: string, updates: Partial<Importer>, logDescription?: string, actor: StatusActor = 'user') => {
+    // A new contact detail makes the old reachability results meaningless
+    const current = importers.find(i => i.id === id);
+    if (current && updates.contactDetail !== undefined && updates.contactDetail !== current.contactDetail) {
+        updates = { ...updates, validation: getInitialValidationState(updates.contactDetail, updates.country ?? current.country) };
+        verifyContacts([{ ...current, ...updates }]);
+    }
     setImporters(prev => prev.map(imp => {
         if (imp.id === id) {
             const updatedImp = { ...imp, ...updates };
-            if (logDescription) {
-                updatedImp.activityLog = [...updatedImp.activityLog, { id: `act-${Date.now()}`, timestamp: Date.now(), type: 'status_change', description: logDescription }];
+            const now = Date.now();
+            const moved = updates.status !== undefined && updates.status !== imp.status;
+            if (moved) {
+                updatedImp.statusHistory = [...(imp.statusHistory || []), { from: imp.status, to: updates.status!, at: now, actor }];
+            }
+            const description = logDescription || (moved ? `Status changed to ${updates.status}` : undefined);
+            if (description) {
+                updatedImp.activityLog = [...updatedImp.activityLog, { id: `act-${now}-${Math.random().toString(36).slice(2, 8)}`, timestamp: now, type: 'status_change', description }];
             }
             return updatedImp;
         }
@@ -357,6 +582,20 @@ const App: React.FC = () => {
     }));
   };
 
+  const applyLeadAnalysis = (id: string, analysis: AnalysisResult) => {
+    updateImporter(id, {
+        status: analysis.status, 
+        conversationSummary: analysis.summary, 
+        nextStep: analysis.nextStep,
+        interestShownIn: analysis.interestShownIn, 
+        needsHumanReview: analysis.requiresHumanReview,
+        leadScore: analysis.leadScore, 
+        satisfactionIndex: analysis.satisfactionIndex,
+        sentimentAnalysis: analysis.sentiment, 
+        detectedEmotions: analysis.emotions    
+    }, undefined, 'ai');
+  };
+
   const handleMessageFeedback = (messageId: string, isHelpful: boolean) => {
       setImporters(prev => prev.map(imp => {
           if (!imp.chatHistory.some(m => m.id === messageId)) return imp;
@@ -372,15 +611,15 @@ const App: React.FC = () => {
   const handleDataRestore = (restoredImporters: Importer[]) => {
       setImporters(restoredImporters);
       if (restoredImporters.length > 0) setSelectedId(restoredImporters[0].id);
-      logSecurityEvent('DATA_RESTORE', user?.id || 'system', `Restored ${restoredImporters.length} records`);
+      logSecurityEvent('DATA_RESTORE', `Restored ${restoredImporters.length} records`);
   };
 
-  const addMessage = (importerId: string, content: string, sender: 'agent' | 'importer' | 'system', channelOverride?: Channel, initialStatus?: MessageStatus) => {
+  const addMessage = (importerId: string, content: string, sender: 'agent' | 'importer' | 'system', channelOverride?: Channel, initialStatus?: MessageStatus, messageId?: string, extras: Pick<Message, 'templateName' | 'attachments'> = {}) => {
     const newMessage: Message = {
-      id: Date.now().toString(), content, sender, timestamp: Date.now(), channel: channelOverride || Channel.EMAIL, status: initialStatus
+      id: messageId || Date.now().toString(), content, sender, timestamp: Date.now(), channel: channelOverride || Channel.EMAIL, status: initialStatus, ...extras
     };
     setImporters(prev => prev.map(imp => {
-      if (imp.id !== importerId) return imp;
+      if (imp.id !== importerId || imp.chatHistory.some(m => m.id === newMessage.id)) return imp;
       const logs = [...imp.activityLog];
       if (sender === 'agent') logs.push({ id: `msg-${newMessage.id}`, timestamp: Date.now(), type: 'system', description: `Outbound via ${channelOverride}`});
       else if (sender === 'importer') logs.push({ id: `msg-${newMessage.id}`, timestamp: Date.now(), type: 'system', description: `Inbound via ${channelOverride}`});
@@ -389,40 +628,80 @@ const App: React.FC = () => {
     return newMessage;
   };
 
-  const sendMessage = async (importer: Importer, content: string, channel: Channel) => {
-      const msg = addMessage(importer.id, content, 'agent', channel, MessageStatus.SENDING);
-      const result = await MessagingService.sendMessage(msg.id, importer.contactDetail, content, channel);
+  const sendMessage = async (importer: Importer, content: string, channel: Channel, options: SendOptions = {}): Promise<{ success: boolean; messageId?: string }> => {
+      const { templateName, attachments } = options;
+      // Long SMS (typically AI replies) go out as several shorter texts instead of one long concatenation
+      if (channel === Channel.SMS) {
+          const parts = splitSms(content);
+          if (parts.length > 1) {
+              for (const part of parts) {
+                  const result = await sendMessage(importer, part, channel);
+                  if (!result.success) return result;
+              }
+              return { success: true };
+          }
+      }
+      // Outside the 24-hour window WhatsApp only delivers approved templates
+      let template: OutgoingTemplate | undefined;
+      if (channel === Channel.WHATSAPP) {
+          const plan = planWhatsAppSend(importer, { templateName, values: templateValues(importer, "Global Exports", describeCatalog(products, "Agri-Products")) });
+          if (plan.type === 'blocked') {
+              alert(plan.reason);
+              return { success: false };
+          }
+          if (plan.type === 'template') {
+              if (attachments?.length) {
+                  alert('Attachments can only be sent on WhatsApp within 24 hours of the importer\'s last message.');
+                  return { success: false };
+              }
+              content = plan.preview;
+              template = { name: plan.template.name, language: plan.template.language, parameters: plan.parameters };
+          }
+      }
+      const msg = addMessage(importer.id, content, 'agent', channel, MessageStatus.SENDING, undefined, { templateName: template?.name, attachments });
+      const result = await MessagingService.sendMessage(msg.id, importer.contactDetail, content, channel, importer.id, { template, attachments });
       if (!result.success) {
           setImporters(prev => prev.map(i => i.id === importer.id ? { ...i, chatHistory: i.chatHistory.map(m => m.id === msg.id ? { ...m, status: MessageStatus.FAILED } : m) } : i));
           alert(`Failed to send: ${result.error}`);
       }
-      return { success: result.success };
+      return { success: result.success, messageId: msg.id };
+  };
+
+  // Auto mode follows the validation results; null when no channel reaches the lead
+  // (a landline-only contact) and someone has to pick one in the chat header first
+  const channelFor = (importer: Importer): Channel | null => {
+      const channel = importer.channelSelectionMode === 'manual' ? importer.preferredChannel : getOptimalChannel(importer.validation, importer.contactDetail);
+      if (!channel) alert(`${importer.companyName} only has a landline. Choose a channel for this lead before messaging it.`);
+      return channel;
   };
 
+  // The intro message goes out through the same channels as a manual send
+  const canStartCampaign = hasPermission(user, Permission.RUN_CAMPAIGNS) && hasPermission(user, Permission.SEND_MESSAGES);
+
   const handleStartCampaign = async () => {
-    if (!user || !canSendMessages(user.role) || !selectedId) return;
+    if (!canStartCampaign || !selectedId) return;
     setIsProcessing(true);
     const importer = importers.find(i => i.id === selectedId);
-    if (importer) {
-        let channel = importer.preferredChannel;
-        if (importer.channelSelectionMode !== 'manual') channel = getOptimalChannel(importer.validation);
-        const msgText = await generateIntroMessage(importer, "Global Exports", "Agri-Products", templates.introTemplate, channel);
+    const channel = importer && channelFor(importer);
+    if (importer && channel) {
+        // A cold WhatsApp lead can only receive the intro template, so there is nothing to generate
+        const templateOnly = channel === Channel.WHATSAPP && !getSessionWindow(importer).open;
+        const msgText = templateOnly ? '' : await generateIntroMessage(importer, "Global Exports", describeCatalog(products, "Agri-Products"), templates.introTemplate, channel);
         if (msgText.startsWith("Error:")) alert(msgText);
         else {
-             await sendMessage(importer, msgText, channel);
-             updateImporter(selectedId, { status: LeadStatus.CONTACTED, preferredChannel: channel }, `Campaign initiated`);
+             const result = await sendMessage(importer, msgText, channel, { templateName: INTRO_TEMPLATE });
+             if (result.success) updateImporter(selectedId, { status: LeadStatus.CONTACTED, preferredChannel: channel }, `Campaign initiated`);
         }
     }
     setIsProcessing(false);
   };
 
   const handleAgentReply = async () => {
-    if (!user || !canSendMessages(user.role) || !selectedId) return;
+    if (!hasPermission(user, Permission.SEND_MESSAGES) || !selectedId) return;
     setIsProcessing(true);
     const importer = importers.find(i => i.id === selectedId);
-    if (importer) {
-        let channel = importer.preferredChannel;
-        if (importer.channelSelectionMode !== 'manual') channel = getOptimalChannel(importer.validation);
+    const channel = importer && channelFor(importer);
+    if (importer && channel) {
         const reply = await generateAgentReply(importer, importer.chatHistory, "Global Exports", templates.agentSystemInstruction, channel);
         if (reply.startsWith("Error:")) alert(reply);
         else await sendMessage(importer, reply, channel);
@@ -433,20 +712,62 @@ const App: React.FC = () => {
   const handleSimulateResponse = async () => {
     if (!selectedId) return;
     const importer = importers.find(i => i.id === selectedId);
-    if (importer) {
+    // A landline lead without a chosen channel answers on whichever channel last reached it
+    const channel = importer && (importer.preferredChannel ?? importer.chatHistory[importer.chatHistory.length - 1]?.channel);
+    if (importer && channel) {
         const reply = await simulateImporterResponse(importer, importer.chatHistory);
-        MessagingService.receiveMockReply(importer.id, reply, importer.preferredChannel);
+        MessagingService.receiveMockReply(importer.id, reply, channel);
     }
   };
 
-  const handleManualSend = async (text: string, channel: Channel) => {
+  const handleManualSend = async (text: string, channel: Channel, options?: SendOptions) => {
     if (!selectedId) return;
     const importer = importers.find(i => i.id === selectedId);
-    if (importer) await sendMessage(importer, text, channel);
+    if (importer) await sendMessage(importer, text, channel, options);
   };
 
+  // Sent as a PDF where the channel carries files (WeChat only takes images), otherwise as plain text
+  const handleIssueQuotation = async (request: QuoteRequest): Promise<boolean> => {
+    if (!hasPermission(user, Permission.SEND_MESSAGES) || !selectedId) return false;
+    const importer = importers.find(i => i.id === selectedId);
+    const channel = importer && channelFor(importer);
+    if (!importer || !channel) return false;
+
+    const { quotation, superseded } = issueQuotation(importer, products, request, quotations, Date.now(), exchangeRates);
+    const text = renderQuotationText(quotation, importer, "Global Exports");
+    let content = channel === Channel.EMAIL ? `Subject: ${quotationTitle(quotation)}\n\n${text}` : text;
+    let attachments: MessageAttachment[] | undefined;
+    if (MessagingService.getCapabilities(channel)?.media && channel !== Channel.WECHAT) {
+        try {
+            const pdf = await generateQuotationPdf(quotation, importer, "Global Exports");
+            attachments = [await MediaService.upload(new File([pdf], `${quotation.id}.pdf`, { type: 'application/pdf' }))];
+            if (channel !== Channel.EMAIL) content = quotationSummary(quotation);
+        } catch (e) {
+            console.warn("Quotation PDF unavailable, sending plain text", e);
+        }
+    }
+
+    const result = await sendMessage(importer, content, channel, { attachments });
+    if (!result.success) return false;
+    setQuotations(prev => [...prev.map(q => superseded && q.id === superseded.id ? superseded : q), { ...quotation, messageId: result.messageId }]);
+    // A revision re-prices the deal its previous version opened; a new quote number opens another
+    setDeals(prev => {
+        const existing = superseded && prev.find(d => d.quotationId === superseded.id && d.stage === 'open');
+        const deal = dealFromQuotation(quotation, existing);
+        return existing ? prev.map(d => d.id === existing.id ? deal : d) : [...prev, deal];
+    });
+    updateImporter(importer.id, { status: LeadStatus.NEGOTIATION }, `${quotationTitle(quotation)} sent via ${channel}`);
+    return true;
+  };
+
+  const selectedImporter = importers.find(i => i.id === selectedId);
+  const selectedDuplicate = useMemo(
+      () => selectedImporter ? findDuplicate(selectedImporter, importers)?.importer : undefined,
+      [selectedImporter, importers]
+  );
+
   const renderMainView = () => {
-      if (activeView === 'campaigns') return <CampaignManager campaigns={campaigns} onChange={setCampaigns} importers={importers} />;
+      if (activeView === 'campaigns') return <CampaignManager campaigns={campaigns} onChange={setCampaigns} importers={importers} readOnly={!hasPermission(user, Permission.RUN_CAMPAIGNS)} />;
       if (activeView === 'calendar') return <CalendarView events={calendarEvents} onEventClick={(id) => alert(`Event ${id}`)} />;
       
       // Dashboard (Default)
@@ -454,7 +775,7 @@ const App: React.FC = () => {
         <div className="flex-1 flex overflow-hidden p-0 md:p-6 gap-6 bg-slate-100 relative h-full">
             {/* Importer List Panel - Slide Logic */}
             <div className={`w-full md:w-1/3 flex flex-col min-w-[320px] max-w-full md:max-w-[450px] shadow-sm absolute md:relative top-0 left-0 right-0 bottom-16 md:bottom-0 z-10 md:z-auto bg-slate-100 transition-transform duration-300 ${isMobile && selectedId ? '-translate-x-full' : 'translate-x-0'}`}>
-                <ImporterList importers={importers} selectedId={selectedId} onSelect={setSelectedId} statusFilter={statusFilter} onStatusFilterChange={setStatusFilter} language={language} />
+                <ImporterList importers={importers} selectedId={selectedId} onSelect={setSelectedId} statusFilter={statusFilter} onStatusFilterChange={setStatusFilter} language={language} currentUserId={user?.id} />
             </div>
             
             {/* Chat Interface Panel - Slide Logic */}
@@ -468,10 +789,18 @@ const App: React.FC = () => {
                     onSimulateResponse={handleSimulateResponse} 
                     onAutoReply={handleAgentReply} 
                     onBack={() => setSelectedId(null)} 
-                    readOnly={!canSendMessages(user!.role)} 
+                    readOnly={!hasPermission(user, Permission.SEND_MESSAGES)} 
                     language={language} 
                     onUpdateImporter={updateImporter} 
                     onMessageFeedback={handleMessageFeedback} 
+                    duplicateOf={selectedDuplicate}
+                    onMergeDuplicate={handleMergeDuplicate}
+                    onCreateQuote={() => setShowQuotationModal(true)}
+                    deals={deals}
+                    products={products}
+                    onDealsChange={setDeals}
+                    team={team}
+                    onReassign={hasPermission(user, Permission.EDIT_LEADS) ? handleReassign : undefined}
                   /> 
                   : 
                   <div className="hidden md:flex h-full bg-white rounded-xl border border-slate-200 items-center justify-center text-slate-400 shadow-sm">
@@ -502,27 +831,21 @@ const App: React.FC = () => {
 
   // 2. Setup Wizard (First Run)
   if (!isSetupComplete) {
-      return <SetupWizard onComplete={() => setIsSetupComplete(true)} />;
+      return <SetupWizard onComplete={(admin) => { setIsSetupComplete(true); if (admin) handleLogin(admin); }} />;
   }
 
   // 3. Login Screen (Not Authenticated)
-  if (!user) return <LoginScreen onLogin={handleLogin} />;
+  if (!user) return <LoginScreen onLogin={handleLogin} notice={signedOutNotice} />;
 
   // 4. Locked State (Security Timeout)
   if (isLocked) {
-      return (
-          <div className="fixed inset-0 bg-slate-900 z-[200] flex flex-col items-center justify-center text-white">
-              <Lock className="w-12 h-12 mb-4 text-red-500" />
-              <h2 className="text-xl font-bold mb-6">Session Locked</h2>
-              <button onClick={() => { setIsLocked(false); setLastActivity(Date.now()); }} className="px-6 py-2 bg-indigo-600 rounded-lg">Resume</button>
-          </div>
-      );
+      return <LockScreen userName={user.name} onUnlock={handleUnlock} onLogout={handleLogout} />;
   }
 
   // 5. Main Application
   return (
     <div className="flex h-full w-full bg-slate-100 text-slate-900 relative overflow-hidden">
-        <BulkImportModal isOpen={showImportModal} onClose={() => setShowImportModal(false)} onImport={(newItems) => setImporters(prev => [...prev, ...newItems])} />
+        <BulkImportModal isOpen={showImportModal} onClose={() => setShowImportModal(false)} existingImporters={importers} onImport={handleBulkImport} />
         <SettingsModal 
             isOpen={showSettingsModal} 
             onClose={() => setShowSettingsModal(false)} 
@@ -537,9 +860,30 @@ const App: React.FC = () => {
             onSaveNotifications={setNotificationConfig}
             importers={importers}
             onRestoreData={handleDataRestore}
+            products={products}
+            onProductsChange={setProducts}
+            exchangeRates={exchangeRates}
+            onExchangeRatesChange={setExchangeRates}
+            assignmentRules={assignmentRules}
+            onAssignmentRulesChange={setAssignmentRules}
+            team={team}
+            currentUser={user}
+            onUserChange={setUser}
         />
-        <ReportConfigModal isOpen={showReportConfig} onClose={() => setShowReportConfig(false)} config={reportConfig} onSave={setReportConfig} />
+        <ReportConfigModal isOpen={showReportConfig} onClose={() => setShowReportConfig(false)} config={reportConfig} onSave={handleReportConfigSave} />
         <HelpModal isOpen={showHelpModal} onClose={() => setShowHelpModal(false)} />
+        {selectedImporter && (
+            <QuotationModal
+                isOpen={showQuotationModal}
+                onClose={() => setShowQuotationModal(false)}
+                importer={selectedImporter}
+                products={products}
+                quotations={quotations}
+                exchangeRates={exchangeRates}
+                sellerName="Global Exports"
+                onIssue={handleIssueQuotation}
+            />
+        )}
 
       <Navigation 
         user={user} 
@@ -553,21 +897,23 @@ const App: React.FC = () => {
         onLogout={handleLogout} 
         language={language} 
       />
-      <div className={`fixed md:absolute top-0 bottom-16 md:bottom-0 left-0 md:left-20 w-full md:w-96 bg-white border-r border-slate-200 shadow-2xl z-40 transition-transform duration-300 ${showAnalytics ? 'translate-x-0' : '-translate-x-[120%] md:-translate-x-full'}`}>
-         <AnalyticsDashboard importers={importers} forecastData={forecastData} reportConfig={reportConfig} onDrillDown={setStatusFilter} onGenerateForecast={async () => { setIsForecasting(true); setForecastData(await generateSalesForecast(importers)); setIsForecasting(false); }} onConfigure={() => setShowReportConfig(true)} onClose={() => setShowAnalytics(false)} isForecasting={isForecasting} />
-      </div>
+      {hasPermission(user, Permission.VIEW_ANALYTICS) && (
+        <div className={`fixed md:absolute top-0 bottom-16 md:bottom-0 left-0 md:left-20 w-full md:w-96 bg-white border-r border-slate-200 shadow-2xl z-40 transition-transform duration-300 ${showAnalytics ? 'translate-x-0' : '-translate-x-[120%] md:-translate-x-full'}`}>
+           <AnalyticsDashboard importers={importers} deals={deals} exchangeRates={exchangeRates} campaigns={campaigns} reportConfig={reportConfig} onDrillDown={setStatusFilter} onConfigure={() => setShowReportConfig(true)} onClose={() => setShowAnalytics(false)} canExport={hasPermission(user, Permission.EXPORT_DATA)} team={team} currentUserId={user.id} />
+        </div>
+      )}
       <div className="flex-1 flex flex-col overflow-hidden min-w-0 ml-0 relative z-0">
         <header className="h-16 bg-white border-b border-slate-200 flex justify-between items-center px-6 shrink-0 shadow-sm z-10 hidden md:flex">
             <h1 className="text-xl font-bold text-slate-800">GlobalReach <span className="text-indigo-600 font-light">Automator</span></h1>
             <div className="flex gap-3 items-center">
                 <span className="text-sm text-slate-500 mr-2">{t('welcome', language)}, {user.name}</span>
-                {canSendMessages(user.role) && <button onClick={handleStartCampaign} className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all"><Play className="w-4 h-4" /> {t('campaign', language)}</button>}
-                {canExportData(user.role) && <button onClick={() => alert("Export")} className="flex items-center gap-2 border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-all"><Download className="w-4 h-4" /> {t('export', language)}</button>}
+                {canStartCampaign && <button onClick={handleStartCampaign} className="flex items-center gap-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all"><Play className="w-4 h-4" /> {t('campaign', language)}</button>}
+                {hasPermission(user, Permission.EXPORT_DATA) && <button onClick={() => alert("Export")} className="flex items-center gap-2 border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg text-sm font-medium transition-all"><Download className="w-4 h-4" /> {t('export', language)}</button>}
             </div>
         </header>
         <header className="md:hidden h-14 bg-white border-b border-slate-200 flex justify-between items-center px-4 shrink-0 z-10">
              <h1 className="text-lg font-bold text-slate-800">GlobalReach</h1>
-             {canSendMessages(user.role) && !selectedId && <button onClick={handleStartCampaign} className="p-2 bg-slate-900 text-white rounded-lg"><Play className="w-4 h-4" /></button>}
+             {canStartCampaign && !selectedId && <button onClick={handleStartCampaign} className="p-2 bg-slate-900 text-white rounded-lg"><Play className="w-4 h-4" /></button>}
         </header>
         
         {renderMainView()}
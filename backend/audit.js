@@ -0,0 +1,156 @@
+const crypto = require('crypto');
+const express = require('express');
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// Events only the browser knows about; anything else must be recorded by the server itself
+const CLIENT_EVENTS = [
+  'SESSION_RESTORE', 'SESSION_LOCK', 'SESSION_UNLOCK',
+  'DATA_EXPORT', 'BACKUP_CREATED', 'DATA_RESTORE',
+  'SETTINGS_CHANGED', 'LEAD_MERGE'
+];
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * API calls recorded once they succeed; the first matching rule wins. `describe` runs before
+ * the handler so it can still read a record the request is about to delete. Request bodies
+ * are never copied wholesale: channel settings carry credentials.
+ */
+const AUDITED_ROUTES = [
+  {
+    methods: ['POST'], path: /^\/outbound$/, type: 'MESSAGE_SENT',
+    describe: (req) => ({ details: `${req.body?.channel} message to ${req.body?.to}`, target: req.body?.importerId || null })
+  },
+  {
+    methods: ['DELETE'], path: /^\/importers\/([^/]+)$/, type: 'LEAD_DELETED',
+    describe: (req, [, id], store) => {
+      const lead = store.get('importers', id);
+      return { details: lead ? `Deleted ${lead.companyName} (${lead.contactDetail})` : `Deleted lead ${id}`, target: id };
+    }
+  },
+  {
+    methods: ['PUT', 'DELETE'], path: /^\/channels\/(\w+)$/, type: 'SETTINGS_CHANGED',
+    describe: (req, [, channel]) => ({ details: `${req.method === 'DELETE' ? 'Disconnected' : 'Configured'} ${channel} channel` })
+  },
+  {
+    methods: WRITE_METHODS, path: /^\/(products|exchangeRates)(?:\/([^/]+))?$/, type: 'SETTINGS_CHANGED',
+    describe: (req, [, collection, id]) => ({ details: `${req.method} ${collection}${id ? ` ${id}` : ''}`, target: id || null })
+  }
+];
+
+// Every field that goes into the chain, in a fixed order
+const hashEntry = (entry) => crypto.createHash('sha256').update(JSON.stringify([
+  entry.seq, entry.at, entry.type, entry.actorId, entry.actorName, entry.details, entry.target, entry.ip, entry.prevHash
+])).digest('hex');
+
+/**
+ * Append-only security audit log (the `auditLog` collection, not reachable through the
+ * repository routes). Each entry carries the hash of the one before it, so editing, removing
+ * or reordering a stored entry breaks the chain and shows up in verify().
+ */
+class AuditLog {
+  constructor({ store, logger = console }) {
+    this.store = store;
+    this.logger = logger;
+  }
+
+  ordered() {
+    return this.store.list('auditLog').sort((a, b) => a.seq - b.seq);
+  }
+
+  /**
+   * Appends an entry. `actor` is the account responsible, or null for the system itself
+   * (campaign sends, failed sign-ins).
+   */
+  record({ type, actor = null, details = '', target = null, ip = null }, now = Date.now()) {
+    const entries = this.ordered();
+    const last = entries[entries.length - 1];
+    const entry = {
+      seq: last ? last.seq + 1 : 1,
+      at: now,
+      type,
+      actorId: actor ? actor.id : null,
+      actorName: actor ? actor.username || actor.name : 'system',
+      details: String(details),
+      target: target || null,
+      ip: ip || null,
+      prevHash: last ? last.hash : GENESIS_HASH
+    };
+    entry.hash = hashEntry(entry);
+    const saved = this.store.insert('auditLog', { id: `aud-${entry.seq}`, ...entry });
+    this.store.flush();
+    return saved;
+  }
+
+  /**
+   * Newest first. `q` matches details, actor and target case-insensitively.
+   */
+  entries({ type, actorId, from, to, q } = {}) {
+    const needle = q ? String(q).toLowerCase() : null;
+    return this.ordered().reverse().filter(e =>
+      (!type || e.type === type) &&
+      (!actorId || e.actorId === actorId) &&
+      (!from || e.at >= Number(from)) &&
+      (!to || e.at <= Number(to)) &&
+      (!needle || [e.details, e.actorName, e.target].some(v => v && v.toLowerCase().includes(needle)))
+    );
+  }
+
+  /**
+   * Walks the chain from the first entry. `brokenAt` is the seq of the first entry that was
+   * altered, or that follows a removed one.
+   */
+  verify() {
+    const entries = this.ordered();
+    let prevHash = GENESIS_HASH;
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (entry.seq !== i + 1 || entry.prevHash !== prevHash || hashEntry(entry) !== entry.hash) {
+        return { valid: false, checked: entries.length, brokenAt: entry.seq };
+      }
+      prevHash = entry.hash;
+    }
+    return { valid: true, checked: entries.length, brokenAt: null };
+  }
+
+  /**
+   * Middleware: records the AUDITED_ROUTES requests that succeed. Mount after
+   * requireSession() so req.user is the actor.
+   */
+  auditRoutes() {
+    return (req, res, next) => {
+      const rule = AUDITED_ROUTES.find(r => r.methods.includes(req.method) && r.path.test(req.path));
+      if (!rule) return next();
+      const { details, target } = rule.describe(req, req.path.match(rule.path), this.store);
+      res.on('finish', () => {
+        if (res.statusCode >= 400) return;
+        this.record({ type: rule.type, actor: req.user, details, target, ip: req.ip });
+      });
+      next();
+    };
+  }
+}
+
+/**
+ * Audit log API:
+ *   GET    /api/audit              manageUsers; ?type=&actorId=&from=&to=&q=  { entries, integrity }
+ *   POST   /api/audit              { type, details, target? }  browser-side events (CLIENT_EVENTS)
+ */
+function createAuditRouter(audit) {
+  const router = express.Router();
+
+  router.get('/audit', (req, res) => {
+    res.json({ entries: audit.entries(req.query), integrity: audit.verify() });
+  });
+
+  router.post('/audit', (req, res) => {
+    const { type, details, target } = req.body || {};
+    if (!CLIENT_EVENTS.includes(type)) return res.status(400).json({ error: `Unknown audit event ${type}` });
+    res.status(201).json(audit.record({ type, actor: req.user, details: String(details || '').slice(0, 500), target, ip: req.ip }));
+  });
+
+  return router;
+}
+
+module.exports = { AuditLog, createAuditRouter, CLIENT_EVENTS };
@@ -0,0 +1,618 @@
+const crypto = require('crypto');
+const express = require('express');
+const { PERMISSIONS, BUILT_IN_ROLES, requiredPermission } = require('./permissions');
+
+const SESSION_COOKIE = 'gr_session';
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+// How stale a session's lastActive may get before a request refreshes it
+const SESSION_TOUCH_MS = 60 * 1000;
+const MIN_PASSWORD_LENGTH = 10;
+
+// scrypt cost parameters; stored with each hash so they can be raised later
+const SCRYPT = { N: 16384, r: 8, p: 1, keyLength: 64 };
+
+// RFC 6238 defaults understood by every authenticator app
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+class AuthError extends Error {
+  constructor(status, message, code) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// --- Passwords ---
+
+const hashPassword = (password) => {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT.keyLength, { N: SCRYPT.N, r: SCRYPT.r, p: SCRYPT.p });
+  return ['scrypt', SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+const verifyPassword = (password, stored) => {
+  const [scheme, N, r, p, salt, hash] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = crypto.scryptSync(String(password), Buffer.from(salt, 'base64'), expected.length, { N: Number(N), r: Number(r), p: Number(p) });
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+// --- TOTP ---
+
+const base32Encode = (buffer) => {
+  let bits = '';
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+  let out = '';
+  for (let i = 0; i < bits.length; i += 5) out += BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  return out;
+};
+
+const base32Decode = (text) => {
+  const bits = String(text).toUpperCase().replace(/[\s=]/g, '').split('')
+    .map(ch => {
+      const value = BASE32.indexOf(ch);
+      if (value === -1) throw new Error(`Invalid base32 character "${ch}"`);
+      return value.toString(2).padStart(5, '0');
+    })
+    .join('');
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  return Buffer.from(bytes);
+};
+
+const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+/**
+ * HOTP (RFC 4226) over the 30-second time step containing `now`.
+ */
+const totpCode = (secret, now = Date.now()) => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(now / 1000 / TOTP_STEP_SECONDS)));
+  const digest = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Accepts the current code and the ones either side of it to allow for clock drift.
+ */
+const verifyTotp = (secret, code, now = Date.now()) => {
+  const clean = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(clean)) return false;
+  return [-1, 0, 1].some(drift => totpCode(secret, now + drift * TOTP_STEP_SECONDS * 1000) === clean);
+};
+
+const otpauthUrl = (secret, account, issuer = 'GlobalReach') =>
+  `otpauth://totp/${encodeURIComponent(`${issuer}:${account}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+// --- Session tokens ---
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+/**
+ * `<payload>.<signature>`: base64url JSON signed with HMAC-SHA256.
+ */
+const signToken = (payload, secret) => {
+  const body = base64url(JSON.stringify(payload));
+  const signature = crypto.createHmac('sha256', secret).update(body).digest('base64url');
+  return `${body}.${signature}`;
+};
+
+/**
+ * The token's payload, or null when it is malformed, tampered with or expired.
+ */
+const verifyToken = (token, secret, now = Date.now()) => {
+  const [body, signature] = String(token || '').split('.');
+  if (!body || !signature) return null;
+  const expected = crypto.createHmac('sha256', secret).update(body).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' && payload.exp > now ? payload : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const readCookie = (req, name) => {
+  const header = req.headers.cookie || '';
+  const match = header.split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+};
+
+const BROWSERS = [['Edg/', 'Edge'], ['OPR/', 'Opera'], ['CriOS/', 'Chrome'], ['Chrome/', 'Chrome'], ['FxiOS/', 'Firefox'], ['Firefox/', 'Firefox'], ['Safari/', 'Safari']];
+const PLATFORMS = [['iPhone', 'iPhone'], ['iPad', 'iPad'], ['Android', 'Android'], ['Windows', 'Windows'], ['Mac OS X', 'macOS'], ['Linux', 'Linux']];
+
+/**
+ * A short label for the session list, e.g. "Chrome on Windows", from a User-Agent header.
+ */
+const describeDevice = (userAgent) => {
+  const ua = String(userAgent || '');
+  if (!ua) return 'Unknown device';
+  if (ua.includes('Electron/')) return 'GlobalReach Desktop';
+  const browser = BROWSERS.find(([token]) => ua.includes(token));
+  const platform = PLATFORMS.find(([token]) => ua.includes(token));
+  if (!browser) return platform ? platform[1] : ua.split(/[\s/]/)[0];
+  return platform ? `${browser[1]} on ${platform[1]}` : browser[1];
+};
+
+const isBuiltInRole = (name) => Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, name);
+
+const publicUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  role: user.role,
+  totpEnabled: Boolean(user.totpEnabled)
+});
+
+const publicSession = (session, current, users) => ({
+  id: session.id,
+  userId: session.userId,
+  userName: users.get(session.userId)?.name || 'Deleted user',
+  device: session.device,
+  ip: session.ip,
+  createdAt: session.createdAt,
+  lastActive: session.lastActive,
+  isCurrent: session.id === current.id
+});
+
+/**
+ * User accounts (the `users` collection, never exposed through the generic repository
+ * routes) and their sessions (`sessions`). The signing key comes from AUTH_SECRET or is
+ * generated once and kept in the data directory.
+ */
+class AuthService {
+  constructor({ store, events = null, logger = console, secret = null }) {
+    this.store = store;
+    this.events = events;
+    this.logger = logger;
+    this.secret = secret || this.loadSecret();
+  }
+
+  loadSecret() {
+    const saved = this.store.get('authKeys', 'session');
+    if (saved) return saved.secret;
+    const secret = crypto.randomBytes(32).toString('hex');
+    this.store.insert('authKeys', { id: 'session', secret, createdAt: Date.now() });
+    this.store.flush();
+    return secret;
+  }
+
+  dummyHash() {
+    if (!this.placeholderHash) this.placeholderHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+    return this.placeholderHash;
+  }
+
+  needsSetup() {
+    return this.store.list('users').length === 0;
+  }
+
+  findByUsername(username) {
+    const key = String(username || '').trim().toLowerCase();
+    return this.store.findOne('users', u => u.username === key);
+  }
+
+  createUser({ username, name, password, role }) {
+    const key = String(username || '').trim().toLowerCase();
+    if (!/^[a-z0-9._@-]{3,64}$/.test(key)) throw new AuthError(400, 'Username must be 3-64 letters, digits or . _ @ -');
+    if (this.findByUsername(key)) throw new AuthError(409, `Username ${key} is already taken`);
+    if (!this.permissionsFor(role)) throw new AuthError(400, `Unknown role ${role}`);
+    if (String(password || '').length < MIN_PASSWORD_LENGTH) throw new AuthError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+
+    const now = Date.now();
+    const user = this.store.insert('users', {
+      id: `usr-${now}-${crypto.randomBytes(3).toString('hex')}`,
+      username: key,
+      name: String(name || '').trim() || key,
+      role,
+      passwordHash: hashPassword(password),
+      totpEnabled: false,
+      createdAt: now
+    });
+    this.store.flush();
+    return user;
+  }
+
+  /**
+   * The account behind a username and password (and TOTP code when enabled). Failures
+   * don't say whether the username exists.
+   */
+  authenticate({ username, password, code }, now = Date.now()) {
+    const user = this.findByUsername(username);
+    // Unknown usernames still pay for a hash so response times don't reveal which accounts exist
+    if (!verifyPassword(password, user ? user.passwordHash : this.dummyHash()) || !user) {
+      throw new AuthError(401, 'Incorrect username or password', 'invalid_credentials');
+    }
+    if (user.totpEnabled) {
+      if (!code) throw new AuthError(401, 'Enter the 6-digit code from your authenticator app', 'totp_required');
+      if (!verifyTotp(user.totpSecret, code, now)) throw new AuthError(401, 'That code is not valid. Check your device clock and try again', 'invalid_totp');
+    }
+    this.store.update('users', user.id, { lastLoginAt: now });
+    return user;
+  }
+
+  /**
+   * Records a session for the signing-in device and returns its token. The token is only
+   * honoured while that record exists, so removing it revokes the token.
+   */
+  issueToken(user, { userAgent, ip } = {}, now = Date.now()) {
+    this.store.removeWhere('sessions', s => s.expiresAt <= now);
+    const session = this.store.insert('sessions', {
+      id: `ses-${now}-${crypto.randomBytes(6).toString('hex')}`,
+      userId: user.id,
+      device: describeDevice(userAgent),
+      userAgent: userAgent || null,
+      ip: ip || null,
+      createdAt: now,
+      lastActive: now,
+      expiresAt: now + SESSION_TTL_MS
+    });
+    this.store.flush();
+    return signToken({ sub: user.id, sid: session.id, iat: now, exp: session.expiresAt }, this.secret);
+  }
+
+  /**
+   * The account and session behind a token, or null once it expired or was revoked. Roles
+   * are read from the store, so a change applies to sessions that are already open.
+   */
+  resolveToken(token, now = Date.now()) {
+    const payload = verifyToken(token, this.secret, now);
+    const session = payload && this.store.get('sessions', payload.sid);
+    if (!session || session.userId !== payload.sub) return null;
+    const user = this.store.get('users', payload.sub);
+    if (!user) return null;
+    if (now - session.lastActive >= SESSION_TOUCH_MS) this.store.update('sessions', session.id, { lastActive: now });
+    return { user, session };
+  }
+
+  userForToken(token, now = Date.now()) {
+    return this.resolveToken(token, now)?.user || null;
+  }
+
+  /**
+   * Unexpired sessions, most recently active first; all users' when userId is omitted.
+   */
+  listSessions(userId, now = Date.now()) {
+    return this.store.list('sessions', s => s.expiresAt > now && (!userId || s.userId === userId))
+      .sort((a, b) => b.lastActive - a.lastActive);
+  }
+
+  revokeSession(id) {
+    if (!this.store.get('sessions', id)) throw new AuthError(404, 'Session not found');
+    this.store.remove('sessions', id);
+    this.store.flush();
+    // The device's event stream was authorised when it connected; end it too
+    this.events?.disconnect(req => req.authSession?.id === id, 'sessionRevoked', { sessionId: id });
+  }
+
+  revokeUserSessions(userId, exceptId) {
+    this.store.list('sessions', s => s.userId === userId && s.id !== exceptId).forEach(s => this.revokeSession(s.id));
+  }
+
+  beginTotp(userId) {
+    const user = this.store.get('users', userId);
+    const secret = generateTotpSecret();
+    // Not active until a code from the app confirms it was scanned
+    this.store.update('users', userId, { pendingTotpSecret: secret });
+    return { secret, otpauthUrl: otpauthUrl(secret, user.username) };
+  }
+
+  enableTotp(userId, code, now = Date.now()) {
+    const user = this.store.get('users', userId);
+    if (!user.pendingTotpSecret) throw new AuthError(400, 'Start two-factor setup first');
+    if (!verifyTotp(user.pendingTotpSecret, code, now)) throw new AuthError(400, 'That code is not valid. Check your device clock and try again', 'invalid_totp');
+    return this.store.update('users', userId, { totpEnabled: true, totpSecret: user.pendingTotpSecret, pendingTotpSecret: null });
+  }
+
+  disableTotp(userId, password) {
+    const user = this.store.get('users', userId);
+    if (!verifyPassword(password, user.passwordHash)) throw new AuthError(401, 'Incorrect password', 'invalid_credentials');
+    return this.store.update('users', userId, { totpEnabled: false, totpSecret: null, pendingTotpSecret: null });
+  }
+
+  updateUser(id, { name, role, password }) {
+    const user = this.store.get('users', id);
+    if (!user) throw new AuthError(404, 'User not found');
+    const patch = {};
+    if (name !== undefined) patch.name = String(name).trim() || user.username;
+    if (role !== undefined) {
+      const permissions = this.permissionsFor(role);
+      if (!permissions) throw new AuthError(400, `Unknown role ${role}`);
+      if (this.isLastManager(user) && !permissions.includes('manageUsers')) throw new AuthError(400, 'The last admin cannot be demoted');
+      patch.role = role;
+    }
+    if (password !== undefined) {
+      if (String(password).length < MIN_PASSWORD_LENGTH) throw new AuthError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      patch.passwordHash = hashPassword(password);
+    }
+    const updated = this.store.update('users', id, patch);
+    this.store.flush();
+    return updated;
+  }
+
+  deleteUser(id) {
+    const user = this.store.get('users', id);
+    if (!user) throw new AuthError(404, 'User not found');
+    if (this.isLastManager(user)) throw new AuthError(400, 'The last admin cannot be removed');
+    this.store.remove('users', id);
+    this.revokeUserSessions(id);
+    this.store.flush();
+  }
+
+  // "Admin" here means any account whose role can manage users; one must always remain
+  isLastManager(user) {
+    if (!this.can(user, 'manageUsers')) return false;
+    return this.store.list('users', u => this.can(u, 'manageUsers')).length === 1;
+  }
+
+  // --- Roles ---
+
+  /**
+   * Permissions granted by a built-in or custom role, or null for an unknown role.
+   */
+  permissionsFor(role) {
+    if (isBuiltInRole(role)) return BUILT_IN_ROLES[role];
+    const custom = this.store.get('roles', role);
+    return custom ? custom.permissions : null;
+  }
+
+  /**
+   * Whether the user's role grants the permission; a null permission only needs a session.
+   */
+  can(user, permission) {
+    return permission === null || (this.permissionsFor(user.role) || []).includes(permission);
+  }
+
+  listRoles() {
+    const builtIn = Object.entries(BUILT_IN_ROLES).map(([name, permissions]) => ({ name, permissions, builtIn: true }));
+    const custom = this.store.list('roles').map(r => ({ name: r.name, permissions: r.permissions, builtIn: false }));
+    return [...builtIn, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  /**
+   * Creates a custom role, or replaces the permissions of an existing one. Built-in roles are
+   * fixed and custom roles can't be renamed, since users refer to their role by name.
+   */
+  saveRole({ name, permissions }) {
+    const key = String(name || '').trim();
+    if (!/^[A-Za-z][A-Za-z0-9 _-]{1,31}$/.test(key)) throw new AuthError(400, 'Role names are 2-32 letters, digits, spaces, _ or -, starting with a letter');
+    if (isBuiltInRole(key)) throw new AuthError(400, `${key} is a built-in role and cannot be changed`);
+    const unknown = (permissions || []).filter(p => !PERMISSIONS.includes(p));
+    if (!Array.isArray(permissions) || unknown.length > 0) throw new AuthError(400, `Unknown permissions: ${unknown.join(', ') || 'expected a list'}`);
+    const existing = this.store.get('roles', key);
+    // Taking manageUsers away from a role demotes everyone holding it at once
+    if (existing && existing.permissions.includes('manageUsers') && !permissions.includes('manageUsers')) {
+      const users = this.store.list('users');
+      if (users.some(u => u.role === key) && !users.some(u => u.role !== key && this.can(u, 'manageUsers'))) {
+        throw new AuthError(400, 'The last admin cannot be demoted');
+      }
+    }
+    const role = this.store.upsert('roles', { id: key, name: key, permissions: [...new Set(permissions)], createdAt: existing ? existing.createdAt : Date.now() });
+    this.store.flush();
+    return { name: role.name, permissions: role.permissions, builtIn: false };
+  }
+
+  deleteRole(name) {
+    if (isBuiltInRole(name)) throw new AuthError(400, `${name} is a built-in role and cannot be removed`);
+    if (!this.store.get('roles', name)) throw new AuthError(404, 'Role not found');
+    const holders = this.store.list('users', u => u.role === name).length;
+    if (holders > 0) throw new AuthError(409, `${holders} user${holders === 1 ? '' : 's'} still have the ${name} role`);
+    this.store.remove('roles', name);
+    this.store.flush();
+  }
+
+  /**
+   * The signed-in user as the browser sees it, with the permissions their role grants.
+   */
+  describeUser(user) {
+    return { ...publicUser(user), permissions: this.permissionsFor(user.role) || [] };
+  }
+
+  /**
+   * Middleware: resolves the session cookie (or an `Authorization: Bearer` token) to
+   * req.user and enforces ROUTE_PERMISSIONS (backend/permissions.js). 401 without a valid
+   * session, 403 when the role lacks the permission.
+   */
+  requireSession() {
+    return (req, res, next) => {
+      const bearer = (req.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+      const resolved = this.resolveToken(readCookie(req, SESSION_COOKIE) || bearer);
+      if (!resolved) return res.status(401).json({ error: 'Your session has ended. Sign in to continue', code: 'unauthenticated' });
+      req.user = resolved.user;
+      req.authSession = resolved.session;
+      const permission = requiredPermission(req.method, req.path);
+      if (!this.can(req.user, permission)) {
+        return res.status(403).json({ error: `The ${req.user.role} role does not have the ${permission} permission`, code: 'forbidden' });
+      }
+      next();
+    };
+  }
+}
+
+// Runs a handler, answering AuthErrors with their status; anything else is a bug and propagates
+const respond = (res, fn) => {
+  try {
+    fn();
+  } catch (err) {
+    if (!(err instanceof AuthError)) throw err;
+    res.status(err.status).json({ error: err.message, code: err.code });
+  }
+};
+
+// Account events for the audit log (backend/audit.js); the routers also run without one
+const audited = (audit, req, type, details, { actor = req.user, target = null } = {}) => {
+  if (audit) audit.record({ type, actor, details, target, ip: req.ip });
+};
+
+const startSession = (auth, req, res, user) => {
+  const token = auth.issueToken(user, { userAgent: req.get('User-Agent'), ip: req.ip });
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'strict', secure: req.secure, maxAge: SESSION_TTL_MS, path: '/' });
+};
+
+/**
+ * Sign-in and first-run setup; mounted ahead of requireSession():
+ *   GET    /api/auth/status        { needsSetup, user | null }
+ *   POST   /api/auth/setup         { username, name, password }  first admin; only while no users exist
+ *   POST   /api/auth/login         { username, password, code? }  401 code 'totp_required' asks for the code
+ *   POST   /api/auth/logout
+ */
+function createAuthRouter(auth, audit) {
+  const router = express.Router();
+
+  router.get('/auth/status', (req, res) => {
+    const user = auth.userForToken(readCookie(req, SESSION_COOKIE));
+    res.json({ needsSetup: auth.needsSetup(), user: user ? auth.describeUser(user) : null });
+  });
+
+  router.post('/auth/setup', (req, res) => respond(res, () => {
+    if (!auth.needsSetup()) throw new AuthError(409, 'An admin account already exists');
+    const { username, name, password } = req.body || {};
+    const user = auth.createUser({ username, name, password, role: 'Admin' });
+    auth.logger.info(`[Auth] Created first admin ${user.username}`);
+    audited(audit, req, 'ADMIN_SETUP', `Created first admin ${user.username}`, { actor: user, target: user.id });
+    startSession(auth, req, res, user);
+    res.status(201).json({ user: auth.describeUser(user) });
+  }));
+
+  router.post('/auth/login', (req, res) => respond(res, () => {
+    let user;
+    try {
+      user = auth.authenticate(req.body || {});
+    } catch (err) {
+      // Asking for the TOTP code is a normal step, not a failed attempt
+      if (err instanceof AuthError && err.code !== 'totp_required') {
+        audited(audit, req, 'LOGIN_FAILED', `${err.code} for username "${String(req.body?.username || '').slice(0, 64)}"`, { actor: null });
+      }
+      throw err;
+    }
+    startSession(auth, req, res, user);
+    audited(audit, req, 'LOGIN_SUCCESS', `Role: ${user.role}`, { actor: user });
+    res.json({ user: auth.describeUser(user) });
+  }));
+
+  router.post('/auth/logout', (req, res) => {
+    const resolved = auth.resolveToken(readCookie(req, SESSION_COOKIE));
+    if (resolved) {
+      auth.revokeSession(resolved.session.id);
+      audited(audit, req, 'LOGOUT', resolved.session.device, { actor: resolved.user });
+    }
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+/**
+ * The signed-in user's two-factor settings and sessions, the team directory; user and role
+ * management for accounts with the manageUsers permission (enforced by requireSession):
+ *   POST   /api/auth/totp/setup    { secret, otpauthUrl }
+ *   POST   /api/auth/totp/enable   { code }
+ *   POST   /api/auth/totp/disable  { password }
+ *   GET    /api/sessions           own sessions; every user's for admins
+ *   DELETE /api/sessions/:id       revoke: the device's next request gets 401
+ *   GET    /api/team               [{ id, name, username }]  lead owners, for everyone
+ *   GET    /api/users
+ *   POST   /api/users              { username, name, password, role }
+ *   PATCH  /api/users/:id          { name?, role?, password? }
+ *   DELETE /api/users/:id
+ *   GET    /api/roles              built-in and custom roles with their permissions
+ *   POST   /api/roles              { name, permissions }  create or update a custom role
+ *   DELETE /api/roles/:name        only while no user has the role
+ */
+function createAccountRouter(auth, audit) {
+  const router = express.Router();
+
+  router.post('/auth/totp/setup', (req, res) => res.json(auth.beginTotp(req.user.id)));
+  router.post('/auth/totp/enable', (req, res) => respond(res, () => {
+    const user = auth.enableTotp(req.user.id, req.body?.code);
+    audited(audit, req, 'TOTP_ENABLED', 'Two-factor authentication turned on', { target: user.id });
+    res.json({ user: auth.describeUser(user) });
+  }));
+  router.post('/auth/totp/disable', (req, res) => respond(res, () => {
+    const user = auth.disableTotp(req.user.id, req.body?.password);
+    audited(audit, req, 'TOTP_DISABLED', 'Two-factor authentication turned off', { target: user.id });
+    res.json({ user: auth.describeUser(user) });
+  }));
+
+  router.get('/sessions', (req, res) => {
+    const users = new Map(auth.store.list('users').map(u => [u.id, u]));
+    const sessions = auth.listSessions(auth.can(req.user, 'manageUsers') ? null : req.user.id);
+    res.json(sessions.map(s => publicSession(s, req.authSession, users)));
+  });
+  router.delete('/sessions/:id', (req, res) => respond(res, () => {
+    const session = auth.store.get('sessions', req.params.id);
+    // Someone else's session looks the same as a missing one unless you manage users
+    if (!session || (session.userId !== req.user.id && !auth.can(req.user, 'manageUsers'))) throw new AuthError(404, 'Session not found');
+    auth.revokeSession(session.id);
+    auth.logger.info(`[Auth] ${req.user.username} revoked session ${session.id} (${session.device})`);
+    const owner = auth.store.get('users', session.userId);
+    audited(audit, req, 'SESSION_REVOKED', `${session.device} of ${owner ? owner.username : session.userId}`, { target: session.userId });
+    res.status(204).end();
+  }));
+
+  router.get('/team', (req, res) => res.json(auth.store.list('users').map(({ id, name, username }) => ({ id, name, username }))));
+
+  router.get('/users', (req, res) => res.json(auth.store.list('users').map(publicUser)));
+  router.post('/users', (req, res) => respond(res, () => {
+    const user = auth.createUser(req.body || {});
+    audited(audit, req, 'USER_CREATED', `${user.username} as ${user.role}`, { target: user.id });
+    res.status(201).json(publicUser(user));
+  }));
+  router.patch('/users/:id', (req, res) => respond(res, () => {
+    const before = auth.store.get('users', req.params.id);
+    const user = auth.updateUser(req.params.id, req.body || {});
+    if (before.role !== user.role) audited(audit, req, 'ROLE_CHANGED', `${user.username}: ${before.role} to ${user.role}`, { target: user.id });
+    // A password reset signs the account out everywhere except the admin's own session
+    if (req.body?.password !== undefined) {
+      auth.revokeUserSessions(user.id, req.authSession.id);
+      audited(audit, req, 'PASSWORD_RESET', `Password reset for ${user.username}`, { target: user.id });
+    }
+    res.json(publicUser(user));
+  }));
+  router.delete('/users/:id', (req, res) => respond(res, () => {
+    if (req.params.id === req.user.id) throw new AuthError(400, 'You cannot remove your own account');
+    const user = auth.store.get('users', req.params.id);
+    auth.deleteUser(req.params.id);
+    audited(audit, req, 'USER_DELETED', `${user.username} (${user.role})`, { target: user.id });
+    res.status(204).end();
+  }));
+
+  router.get('/roles', (req, res) => res.json(auth.listRoles()));
+  router.post('/roles', (req, res) => respond(res, () => {
+    const existed = Boolean(auth.store.get('roles', String(req.body?.name || '').trim()));
+    const role = auth.saveRole(req.body || {});
+    audited(audit, req, existed ? 'ROLE_UPDATED' : 'ROLE_CREATED', `${role.name}: ${role.permissions.join(', ') || 'no permissions'}`);
+    res.status(existed ? 200 : 201).json(role);
+  }));
+  router.delete('/roles/:name', (req, res) => respond(res, () => {
+    auth.deleteRole(req.params.name);
+    audited(audit, req, 'ROLE_DELETED', req.params.name);
+    res.status(204).end();
+  }));
+
+  return router;
+}
+
+module.exports = {
+  AuthService,
+  AuthError,
+  createAuthRouter,
+  createAccountRouter,
+  hashPassword,
+  verifyPassword,
+  totpCode,
+  verifyTotp,
+  generateTotpSecret,
+  signToken,
+  verifyToken,
+  describeDevice,
+  SESSION_COOKIE,
+  SESSION_TTL_MS
+};
@@ -0,0 +1,415 @@
+const crypto = require('crypto');
+const express = require('express');
+const { findImporterByContact, createInboundImporter } = require('./repository');
+const { maskSecrets, restoreSecrets } = require('./secrets');
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const CONFIG_ID = 'email';
+const STATE_ID = 'email-imap-state';
+const DEFAULT_SUBJECT = 'Following up';
+const MAX_REFERENCES = 10;
+const SECRET_FIELDS = ['smtp.pass', 'imap.pass'];
+
+// generateIntroMessage puts 'Subject: ...' (sometimes bolded) on the first line of email drafts
+const SUBJECT_LINE = /^\s*\**\s*subject\s*:\s*\**\s*(.+?)\s*\**\s*$/i;
+
+// Transports are loaded lazily so the backend starts without them until email is configured,
+// and tests can inject a local SMTP/IMAP stand-in instead.
+const defaultCreateTransport = (options) => require('nodemailer').createTransport(options);
+const defaultCreateImapClient = (options) => new (require('imapflow').ImapFlow)(options);
+const defaultParseMessage = (source) => require('mailparser').simpleParser(source);
+
+/**
+ * Splits a leading "Subject: ..." line off generated content. Without one, `fallback` is used.
+ */
+const splitSubject = (content, fallback = DEFAULT_SUBJECT) => {
+  const text = String(content || '').replace(/\r\n/g, '\n');
+  const lines = text.split('\n');
+  const first = lines.findIndex(line => line.trim() !== '');
+  const match = first === -1 ? null : lines[first].match(SUBJECT_LINE);
+  if (!match) return { subject: fallback, body: text.trim() };
+  return { subject: match[1], body: lines.slice(first + 1).join('\n').trim() };
+};
+
+const replySubject = (subject) => (/^re:/i.test(subject || '') ? subject : `Re: ${subject || DEFAULT_SUBJECT}`);
+
+/**
+ * Drops the quoted history mail clients append below a reply ("On ... wrote:", "> ..." lines,
+ * Outlook's "-----Original Message-----" / "From:" block).
+ */
+const stripQuotedReply = (text) => {
+  const lines = String(text || '').replace(/\r\n/g, '\n').split('\n');
+  const startsQuote = (line, previous) =>
+    /^On .+wrote:$/.test(line) ||
+    /^-{2,}\s*Original Message/i.test(line) ||
+    (/^From:\s.+/.test(line) && previous === '');
+  const cut = lines.findIndex((line, i) => i > 0 && startsQuote(line.trim(), lines[i - 1].trim()));
+  return (cut === -1 ? lines : lines.slice(0, cut))
+    .filter(line => !line.startsWith('>'))
+    .join('\n')
+    .trim();
+};
+
+const toArray = (value) => (Array.isArray(value) ? value : value ? String(value).split(/\s+/) : []);
+
+/**
+ * Reads SMTP/IMAP settings from the environment (hosted server). Returns null when SMTP_HOST is unset.
+ */
+const emailConfigFromEnv = (env) => {
+  if (!env.SMTP_HOST) return null;
+  const user = env.EMAIL_USER || env.SMTP_USER;
+  const pass = env.EMAIL_PASS || env.SMTP_PASS;
+  return {
+    from: env.EMAIL_FROM || user,
+    fromName: env.EMAIL_FROM_NAME,
+    smtp: { host: env.SMTP_HOST, port: Number(env.SMTP_PORT) || 587, secure: env.SMTP_SECURE === 'true', user, pass },
+    imap: env.IMAP_HOST
+      ? { host: env.IMAP_HOST, port: Number(env.IMAP_PORT) || 993, secure: env.IMAP_SECURE !== 'false', user, pass, mailbox: env.IMAP_MAILBOX }
+      : null
+  };
+};
+
+/**
+ * Email channel: sends through SMTP as an OutboundService transport and polls an IMAP mailbox
+ * for replies. Every message we send or receive is recorded in `emailThreads` keyed by its
+ * Message-ID, so a reply's In-Reply-To/References resolve to the right importer even when the
+ * sender writes from a different address. Unmatched senders become new inbound leads.
+ */
+class EmailChannel {
+  constructor({
+    store,
+    events,
+    outbound,
+    scheduler,
+    media = null,
+    logger = console,
+    createTransport = defaultCreateTransport,
+    createImapClient = defaultCreateImapClient,
+    parseMessage = defaultParseMessage,
+    pollIntervalMs = POLL_INTERVAL_MS
+  }) {
+    this.store = store;
+    this.events = events;
+    this.media = media;
+    this.outbound = outbound;
+    this.scheduler = scheduler;
+    this.logger = logger;
+    this.createTransport = createTransport;
+    this.createImapClient = createImapClient;
+    this.parseMessage = parseMessage;
+    this.pollIntervalMs = pollIntervalMs;
+    this.config = null;
+    this.transporter = null;
+    this.timer = null;
+    this.polling = false;
+    this.lastPollAt = null;
+    this.lastError = null;
+  }
+
+  smtpOptions(smtp) {
+    return {
+      host: smtp.host,
+      port: smtp.port,
+      secure: Boolean(smtp.secure),
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined
+    };
+  }
+
+  imapOptions(imap) {
+    return {
+      host: imap.host,
+      port: imap.port,
+      secure: imap.secure !== false,
+      auth: { user: imap.user, pass: imap.pass },
+      logger: false
+    };
+  }
+
+  /**
+   * Activates a configuration without checking it (saved settings on start-up, environment).
+   */
+  configure(config) {
+    this.config = config;
+    this.transporter = this.createTransport(this.smtpOptions(config.smtp));
+    if (this.outbound) this.outbound.register('Email', this);
+  }
+
+  /**
+   * Restores the settings saved through the connect form, if any.
+   */
+  loadSavedConfig() {
+    const saved = this.store.get('channelConfig', CONFIG_ID);
+    if (saved && saved.config) this.configure(saved.config);
+  }
+
+  /**
+   * Logs in to SMTP (and IMAP when given) before saving, so bad credentials are reported
+   * to the user instead of surfacing later as failed sends.
+   */
+  async connect(config) {
+    if (config) config = restoreSecrets(config, this.config, SECRET_FIELDS);
+    if (!config || !config.from || !config.smtp || !config.smtp.host) throw new Error('from and smtp.host are required');
+
+    const transporter = this.createTransport(this.smtpOptions(config.smtp));
+    await transporter.verify();
+    let mailboxState = null;
+    if (config.imap && config.imap.host) {
+      const client = this.createImapClient(this.imapOptions(config.imap));
+      await client.connect();
+      const lock = await client.getMailboxLock(config.imap.mailbox || 'INBOX');
+      try {
+        // Replies are picked up from this point on; older mail is not imported
+        mailboxState = { uidValidity: String(client.mailbox.uidValidity), lastUid: client.mailbox.uidNext - 1 };
+      } finally {
+        lock.release();
+      }
+      await client.logout();
+    }
+
+    this.store.upsert('channelConfig', { id: CONFIG_ID, config, updatedAt: Date.now() });
+    if (mailboxState) this.store.upsert('channelConfig', { id: STATE_ID, ...mailboxState, updatedAt: Date.now() });
+    else this.store.remove('channelConfig', STATE_ID);
+    this.configure(config);
+    this.lastError = null;
+    return this.status();
+  }
+
+  disconnect() {
+    this.store.remove('channelConfig', CONFIG_ID);
+    this.store.remove('channelConfig', STATE_ID);
+    if (this.outbound) this.outbound.unregister('Email');
+    if (this.transporter && typeof this.transporter.close === 'function') this.transporter.close();
+    this.config = null;
+    this.transporter = null;
+  }
+
+  status() {
+    return {
+      configured: Boolean(this.config),
+      from: this.config ? this.config.from : null,
+      smtpHost: this.config ? this.config.smtp.host : null,
+      imapHost: this.config && this.config.imap ? this.config.imap.host : null,
+      lastPollAt: this.lastPollAt,
+      lastError: this.lastError,
+      config: this.config ? maskSecrets(this.config, SECRET_FIELDS) : null
+    };
+  }
+
+  start() {
+    if (this.timer) return;
+    this.poll();
+    this.timer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  latestThread(importerId) {
+    return this.store
+      .list('emailThreads', t => t.importerId === importerId)
+      .sort((a, b) => b.timestamp - a.timestamp)[0] || null;
+  }
+
+  /**
+   * OutboundService transport. Follow-ups to an existing conversation reply to its latest
+   * message so the importer's mail client keeps them in one thread.
+   */
+  async send({ to, content, importerId, messageId, attachments }) {
+    if (!this.transporter) throw new Error('Email is not configured');
+
+    const previous = importerId ? this.latestThread(importerId) : null;
+    const { subject, body } = splitSubject(content, previous ? replySubject(previous.subject) : DEFAULT_SUBJECT);
+    const domain = this.config.from.split('@')[1] || 'localhost';
+    const header = `<${messageId}.${Date.now().toString(36)}@${domain}>`;
+    const references = previous ? [...(previous.references || []), previous.id].slice(-MAX_REFERENCES) : [];
+
+    await this.transporter.sendMail({
+      from: this.config.fromName ? { name: this.config.fromName, address: this.config.from } : this.config.from,
+      to,
+      subject,
+      text: body,
+      messageId: header,
+      inReplyTo: previous ? previous.id : undefined,
+      references: references.length ? references : undefined,
+      attachments: (attachments || []).map(file => ({ filename: file.fileName, contentType: file.mimeType, path: file.path }))
+    });
+
+    this.store.upsert('emailThreads', {
+      id: header,
+      importerId,
+      messageId,
+      subject,
+      direction: 'outbound',
+      references,
+      timestamp: Date.now()
+    });
+    return { externalId: header };
+  }
+
+  resolveImporter(references, fromAddress) {
+    // Newest reference first: In-Reply-To, then References from the end
+    for (const ref of references) {
+      const thread = this.store.get('emailThreads', ref);
+      const importer = thread && this.store.get('importers', thread.importerId);
+      if (importer) return importer;
+    }
+    return findImporterByContact(this.store, fromAddress);
+  }
+
+  /**
+   * Keeps the files of an inbound email (mailparser attachments). Inline images such as
+   * signature logos and files the media store refuses are left out.
+   */
+  saveAttachments(parsedAttachments, fromAddress) {
+    if (!this.media) return [];
+    return (parsedAttachments || [])
+      .filter(a => a.contentDisposition !== 'inline' && !a.related)
+      .flatMap(a => {
+        try {
+          return [this.media.toAttachment(this.media.save({ data: a.content, fileName: a.filename, mimeType: a.contentType, source: 'email' }))];
+        } catch (err) {
+          this.logger.warn(`Email: skipped attachment "${a.filename}" from ${fromAddress}: ${err.message}`);
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Stores one parsed inbound email. Returns the saved message record, or null when it was
+   * already seen or is a copy of our own outgoing mail.
+   */
+  receive(parsed, uid) {
+    const sender = parsed.from && parsed.from.value && parsed.from.value[0];
+    const fromAddress = sender && sender.address ? sender.address.toLowerCase() : null;
+    if (!fromAddress || fromAddress === this.config.from.toLowerCase()) return null;
+
+    const header = parsed.messageId || `<imap-uid-${uid}@${fromAddress.split('@')[1]}>`;
+    if (this.store.get('emailThreads', header)) return null;
+
+    const references = [...new Set([...toArray(parsed.inReplyTo), ...toArray(parsed.references).reverse()])];
+    let importer = this.resolveImporter(references, fromAddress);
+    const isNewLead = !importer;
+    if (isNewLead) {
+      importer = createInboundImporter(this.store, { contact: fromAddress, channel: 'Email', profileName: sender.name });
+    }
+
+    const subject = parsed.subject || '';
+    const attachments = this.saveAttachments(parsed.attachments, fromAddress);
+    const timestamp = parsed.date ? new Date(parsed.date).getTime() : Date.now();
+    const saved = this.store.insert('messages', {
+      id: `em-${crypto.createHash('sha1').update(header).digest('hex').slice(0, 16)}`,
+      externalId: header,
+      importerId: importer.id,
+      from: fromAddress,
+      subject,
+      content: stripQuotedReply(parsed.text) || subject || (attachments.length ? '[attachment]' : '[empty email]'),
+      attachments: attachments.length ? attachments : undefined,
+      sender: 'importer',
+      channel: 'Email',
+      direction: 'inbound',
+      status: 'delivered',
+      timestamp,
+      updatedAt: Date.now()
+    });
+    this.store.upsert('emailThreads', {
+      id: header,
+      importerId: importer.id,
+      messageId: saved.id,
+      subject,
+      direction: 'inbound',
+      references: references.slice(0, MAX_REFERENCES).reverse(),
+      // When we received it, not the sender's Date header: follow-ups reply to the latest mail we saw
+      timestamp: Date.now()
+    });
+
+    if (isNewLead) this.events.broadcast('changed', { collection: 'importers', id: importer.id, importerId: importer.id });
+    this.events.broadcast('message', saved);
+    // A reply ends any running drip campaign for this lead
+    if (!isNewLead && this.scheduler) this.scheduler.stopForImporter(importer.id, 'Lead replied by email');
+    return saved;
+  }
+
+  /**
+   * Fetches mail that arrived since the last poll. Without a saved position (settings from the
+   * environment, or the mailbox's UIDVALIDITY changed) it starts at the current end of the mailbox.
+   */
+  async poll() {
+    if (this.polling || !this.config || !this.config.imap || !this.config.imap.host) return 0;
+    this.polling = true;
+    let received = 0;
+    const client = this.createImapClient(this.imapOptions(this.config.imap));
+
+    try {
+      await client.connect();
+      const lock = await client.getMailboxLock(this.config.imap.mailbox || 'INBOX');
+      try {
+        const state = this.store.get('channelConfig', STATE_ID);
+        const uidValidity = String(client.mailbox.uidValidity);
+        const startUid = state && state.uidValidity === uidValidity ? state.lastUid + 1 : client.mailbox.uidNext;
+
+        const fetched = [];
+        for await (const msg of client.fetch(`${startUid}:*`, { uid: true, source: true }, { uid: true })) {
+          // "n:*" always returns the newest message, even when its UID is below n
+          if (msg.uid >= startUid) fetched.push(msg);
+        }
+
+        let lastUid = startUid - 1;
+        for (const msg of fetched.sort((a, b) => a.uid - b.uid)) {
+          if (this.receive(await this.parseMessage(msg.source), msg.uid)) received++;
+          lastUid = Math.max(lastUid, msg.uid);
+        }
+        this.store.upsert('channelConfig', { id: STATE_ID, uidValidity, lastUid, updatedAt: Date.now() });
+      } finally {
+        lock.release();
+      }
+      await client.logout();
+      this.lastError = null;
+    } catch (err) {
+      this.lastError = err.message;
+      this.logger.warn(`IMAP poll failed: ${err.message}`);
+      if (typeof client.close === 'function') client.close();
+    } finally {
+      this.lastPollAt = Date.now();
+      this.polling = false;
+    }
+    return received;
+  }
+}
+
+/**
+ * Connection settings for the email channel:
+ *   GET    /api/channels/email        status and saved settings, passwords masked
+ *   PUT    /api/channels/email        verify and save { from, fromName?, smtp, imap? }; a masked password keeps the saved one
+ *   DELETE /api/channels/email
+ *   POST   /api/channels/email/poll   check the mailbox now
+ */
+function createEmailRouter(emailChannel) {
+  const router = express.Router();
+
+  router.get('/channels/email', (req, res) => res.json(emailChannel.status()));
+
+  router.put('/channels/email', async (req, res) => {
+    try {
+      res.json(await emailChannel.connect(req.body));
+    } catch (err) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.delete('/channels/email', (req, res) => {
+    emailChannel.disconnect();
+    res.sendStatus(204);
+  });
+
+  router.post('/channels/email/poll', async (req, res) => {
+    if (!emailChannel.status().configured) return res.status(409).json({ error: 'Email is not configured' });
+    res.json({ received: await emailChannel.poll(), ...emailChannel.status() });
+  });
+
+  return router;
+}
+
+module.exports = { EmailChannel, createEmailRouter, emailConfigFromEnv, splitSubject, stripQuotedReply };
@@ -0,0 +1,142 @@
+const dns = require('dns');
+const express = require('express');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Lookups that failed for transient reasons (timeouts, SERVFAIL) are retried much sooner
+const TRANSIENT_TTL_MS = 5 * 60 * 1000;
+
+// Pragmatic RFC 5322 subset: what real mailboxes use, not every quoted-string edge case
+const EMAIL_PATTERN = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,63}$/;
+
+const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com', '20minutemail.com', 'burnermail.io', 'discard.email', 'dispostable.com',
+  'emailondeck.com', 'fakeinbox.com', 'getairmail.com', 'getnada.com', 'guerrillamail.com',
+  'guerrillamail.net', 'guerrillamailblock.com', 'mailcatch.com', 'maildrop.cc', 'mailinator.com',
+  'mailnesia.com', 'mintemail.com', 'moakt.com', 'mohmal.com', 'mytemp.email', 'sharklasers.com',
+  'spam4.me', 'spamgourmet.com', 'temp-mail.org', 'tempail.com', 'tempmail.com', 'tempmailo.com',
+  'throwawaymail.com', 'trashmail.com', 'trashmail.de', 'yopmail.com', 'yopmail.fr'
+]);
+
+// Shared mailboxes: deliverable, but usually not a decision maker
+const ROLE_ACCOUNTS = new Set([
+  'admin', 'contact', 'enquiry', 'enquiries', 'export', 'exports', 'hello', 'help', 'hr', 'import',
+  'imports', 'info', 'inquiry', 'mail', 'marketing', 'office', 'orders', 'purchase', 'purchasing',
+  'sales', 'service', 'support', 'team', 'trade', 'webmaster'
+]);
+
+const NO_DOMAIN_CODES = new Set([dns.NOTFOUND, 'ENOTFOUND']);
+const NO_RECORD_CODES = new Set([dns.NODATA, 'ENODATA']);
+
+/**
+ * Email deliverability check: syntax, disposable-domain and role-account flags, and a real
+ * DNS MX lookup (falling back to the implicit A-record MX from RFC 5321). MX results are
+ * cached per domain.
+ *
+ * `resolver` is anything with `resolveMx(domain)` (and optionally `resolve4`), so tests can pass
+ * a stub or a `dns.promises.Resolver` pointed at a local server; `servers` builds such a resolver.
+ */
+class EmailVerifier {
+  /**
+   * @param {{ resolver?: { resolveMx: Function, resolve4?: Function }, servers?: string[], ttlMs?: number, now?: () => number, logger?: { warn: Function } }} [options]
+   */
+  constructor({ resolver, servers, ttlMs = DAY_MS, now = Date.now, logger = console } = {}) {
+    if (resolver) {
+      this.resolver = resolver;
+    } else {
+      this.resolver = new dns.promises.Resolver();
+      if (servers && servers.length) this.resolver.setServers(servers);
+    }
+    this.ttlMs = ttlMs;
+    this.now = now;
+    this.logger = logger;
+    this.cache = new Map();
+  }
+
+  async lookupDomain(domain) {
+    const cached = this.cache.get(domain);
+    if (cached && cached.expiresAt > this.now()) return cached.result;
+
+    let result;
+    let ttl = this.ttlMs;
+    try {
+      const records = await this.resolver.resolveMx(domain);
+      const hosts = records
+        .filter(r => r.exchange && r.exchange !== '.')
+        .sort((a, b) => a.priority - b.priority)
+        .map(r => r.exchange);
+      // A lone "." exchange is a null MX (RFC 7505): the domain explicitly accepts no mail
+      result = hosts.length
+        ? { mxValid: true, mxHosts: hosts }
+        : { mxValid: false, mxHosts: [], reason: 'Domain does not accept email (null MX)' };
+    } catch (err) {
+      if (NO_DOMAIN_CODES.has(err.code)) {
+        result = { mxValid: false, mxHosts: [], reason: 'Domain does not exist' };
+      } else if (NO_RECORD_CODES.has(err.code)) {
+        result = await this.lookupImplicitMx(domain);
+      } else {
+        this.logger.warn(`MX lookup for ${domain} failed: ${err.message}`);
+        result = { mxValid: null, mxHosts: [], reason: `DNS lookup failed (${err.code || err.message})` };
+        ttl = Math.min(ttl, TRANSIENT_TTL_MS);
+      }
+    }
+
+    this.cache.set(domain, { result, expiresAt: this.now() + ttl });
+    return result;
+  }
+
+  async lookupImplicitMx(domain) {
+    if (typeof this.resolver.resolve4 !== 'function') {
+      return { mxValid: false, mxHosts: [], reason: 'Domain has no MX records' };
+    }
+    try {
+      const addresses = await this.resolver.resolve4(domain);
+      if (addresses.length) return { mxValid: true, mxHosts: [domain] };
+    } catch (err) {
+      // No A record either
+    }
+    return { mxValid: false, mxHosts: [], reason: 'Domain has no MX records' };
+  }
+
+  async verify(email) {
+    const address = String(email || '').trim().toLowerCase();
+    const at = address.lastIndexOf('@');
+    const local = at > 0 ? address.slice(0, at) : '';
+    const domain = at > 0 ? address.slice(at + 1) : '';
+    const base = {
+      email: address,
+      domain,
+      syntaxValid: EMAIL_PATTERN.test(address) && local.length <= 64 && address.length <= 254,
+      disposable: DISPOSABLE_DOMAINS.has(domain),
+      role: ROLE_ACCOUNTS.has(local.split('+')[0]),
+      checkedAt: this.now()
+    };
+
+    if (!base.syntaxValid) {
+      return { ...base, mxValid: false, mxHosts: [], deliverable: false, reason: 'Invalid email syntax' };
+    }
+
+    const mx = await this.lookupDomain(domain);
+    const reason = mx.reason || (base.disposable ? 'Disposable email domain' : undefined);
+    return {
+      ...base,
+      ...mx,
+      // null when DNS could not answer: unknown rather than undeliverable
+      deliverable: mx.mxValid === null ? null : mx.mxValid && !base.disposable,
+      reason
+    };
+  }
+}
+
+function createVerificationRouter(verifier) {
+  const router = express.Router();
+
+  router.post('/verify/email', async (req, res) => {
+    const { email } = req.body || {};
+    if (!email) return res.status(400).json({ error: 'email is required' });
+    res.json(await verifier.verify(email));
+  });
+
+  return router;
+}
+
+module.exports = { EmailVerifier, createVerificationRouter };
@@ -0,0 +1,49 @@
+/**
+ * Server-Sent Events hub. Browsers subscribe via GET /api/events and receive
+ * inbound messages / delivery receipts as they are persisted.
+ */
+class EventHub {
+  constructor() {
+    this.clients = new Set();
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(res => res.write(': ping\n\n'));
+    }, 25000);
+    this.heartbeat.unref();
+  }
+
+  attach(req, res) {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+    res.write('retry: 5000\n\n');
+
+    this.clients.add(res);
+    req.on('close', () => this.clients.delete(res));
+  }
+
+  broadcast(type, data) {
+    const frame = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+    this.clients.forEach(res => {
+      res.write(frame);
+      // compression() buffers responses; push the frame out immediately
+      if (res.flush) res.flush();
+    });
+  }
+
+  /**
+   * Sends a final event to the streams whose request matches and closes them, e.g. the
+   * streams opened under a session that was just revoked.
+   */
+  disconnect(predicate, type, data) {
+    this.clients.forEach(res => {
+      if (!predicate(res.req)) return;
+      res.end(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      this.clients.delete(res);
+    });
+  }
+}
+
+module.exports = { EventHub };
@@ -0,0 +1,64 @@
+const path = require('path');
+const express = require('express');
+const { JsonStore } = require('./store');
+const { EventHub } = require('./events');
+const { OutboundService, createOutboundRouter } = require('./outbound');
+const { CampaignScheduler, createSchedulerRouter } = require('./scheduler');
+const { createRepositoryRouter } = require('./repository');
+const { EmailVerifier, createVerificationRouter } = require('./emailVerifier');
+const { EmailChannel, createEmailRouter } = require('./email');
+const { SmsChannel, createSmsRouter } = require('./sms');
+const { WeChatChannel, createWeChatRouter } = require('./wechat');
+const { MediaStore, createMediaRouter } = require('./media');
+const { AuthService, createAuthRouter, createAccountRouter } = require('./auth');
+const { AuditLog, createAuditRouter } = require('./audit');
+
+/**
+ * Wires the backend services shared by the hosted server (server.js) and the
+ * Electron local server (electron/main.js).
+ */
+function createBackend({ dataDir, logger = console, authSecret }) {
+  const store = new JsonStore(dataDir);
+  const events = new EventHub();
+  const audit = new AuditLog({ store, logger });
+  const auth = new AuthService({ store, events, logger, secret: authSecret });
+  const media = new MediaStore({ store, dir: path.join(dataDir, 'media') });
+  const outbound = new OutboundService({ store, events, media, logger });
+  const scheduler = new CampaignScheduler({ store, outbound, events, audit, logger });
+  const emailVerifier = new EmailVerifier({ logger });
+  const emailChannel = new EmailChannel({ store, events, outbound, scheduler, media, logger });
+  emailChannel.loadSavedConfig();
+  const smsChannel = new SmsChannel({ store, events, outbound, scheduler, logger });
+  smsChannel.loadSavedConfig();
+  const wechatChannel = new WeChatChannel({ store, events, outbound, scheduler, logger });
+  wechatChannel.loadSavedConfig();
+
+  const apiRouter = express.Router();
+  // Sign-in and first-run admin setup are the only routes reachable without a session
+  apiRouter.use(createAuthRouter(auth, audit));
+  // Everything below needs a signed session whose role grants the route's permission (backend/permissions.js)
+  apiRouter.use(auth.requireSession());
+  // Sends, lead deletions and settings writes land in the hash-chained audit log
+  apiRouter.use(audit.auditRoutes());
+  apiRouter.use(createAuditRouter(audit));
+  apiRouter.use(createAccountRouter(auth, audit));
+  // Browsers subscribe here to receive inbound messages, delivery receipts and record changes
+  apiRouter.get('/events', (req, res) => events.attach(req, res));
+  apiRouter.use(createSchedulerRouter(scheduler));
+  // Sends from the browser for channels whose transport lives on the server (SMTP, ...)
+  apiRouter.use(createOutboundRouter(outbound));
+  apiRouter.use(createEmailRouter(emailChannel));
+  apiRouter.use(createSmsRouter(smsChannel));
+  apiRouter.use(createWeChatRouter(wechatChannel));
+  // Chat attachments: uploads from the composer and files received on WhatsApp / email
+  apiRouter.use(createMediaRouter(media));
+  // Per-record CRUD for importers, messages, activity, campaigns and calendar events.
+  // GET /api/messages?since= doubles as the catch-up feed for clients that were offline.
+  apiRouter.use(createRepositoryRouter(store));
+  // MX / disposable / role-account checks; browsers cannot query DNS themselves
+  apiRouter.use(createVerificationRouter(emailVerifier));
+
+  return { store, auth, audit, events, media, outbound, scheduler, emailVerifier, emailChannel, smsChannel, wechatChannel, apiRouter };
+}
+
+module.exports = { createBackend };
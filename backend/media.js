@@ -0,0 +1,128 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const express = require('express');
+
+// WhatsApp caps documents at 100 MB but images at 5 MB and most mail servers at 20-25 MB
+const MAX_MEDIA_BYTES = 16 * 1024 * 1024;
+
+// Photos, spec sheets, price lists and short clips. Executables, HTML and SVG (which can carry
+// script when opened from /api/media) are refused.
+const ALLOWED_TYPES = [
+  /^image\/(jpeg|png|webp|gif)$/,
+  /^application\/pdf$/,
+  /^text\/(plain|csv)$/,
+  /^application\/(msword|vnd\.ms-excel|vnd\.openxmlformats-officedocument\.(wordprocessingml\.document|spreadsheetml\.sheet|presentationml\.presentation))$/,
+  /^video\/mp4$/,
+  /^audio\/(mpeg|ogg|aac|mp4)$/
+];
+
+const isAllowedType = (mimeType) => ALLOWED_TYPES.some(pattern => pattern.test(mimeType || ''));
+
+// Shown inline by the browser; everything else downloads
+const isInline = (mimeType) => /^image\//.test(mimeType) || mimeType === 'application/pdf';
+
+const safeFileName = (name) => String(name || 'file').replace(/[\\/\0\r\n"]/g, '_').slice(0, 200) || 'file';
+
+/**
+ * Attachment files for chat messages. Bytes live under `dir` (one file per id), metadata in the
+ * store's `media` collection. Messages reference files by id through MessageAttachment records.
+ */
+class MediaStore {
+  constructor({ store, dir }) {
+    this.store = store;
+    this.dir = path.resolve(dir);
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Validates and writes one file. Throws with a user-facing message when it is rejected.
+   */
+  save({ data, fileName, mimeType, source = 'upload' }) {
+    const type = String(mimeType || '').split(';')[0].trim().toLowerCase();
+    if (!data || !data.length) throw new Error('File is empty');
+    if (data.length > MAX_MEDIA_BYTES) throw new Error(`File is larger than ${MAX_MEDIA_BYTES / 1024 / 1024} MB`);
+    if (!isAllowedType(type)) throw new Error(`Files of type ${type || 'unknown'} cannot be attached`);
+
+    const id = `media-${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`;
+    fs.writeFileSync(this.pathFor(id), data);
+    return this.store.insert('media', {
+      id,
+      fileName: safeFileName(fileName),
+      mimeType: type,
+      size: data.length,
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+      source,
+      createdAt: Date.now()
+    });
+  }
+
+  get(id) {
+    return this.store.get('media', id);
+  }
+
+  pathFor(id) {
+    return path.join(this.dir, path.basename(id));
+  }
+
+  /**
+   * The MessageAttachment shape stored on chat messages (see types.ts).
+   */
+  toAttachment(record, caption) {
+    return {
+      id: record.id,
+      fileName: record.fileName,
+      mimeType: record.mimeType,
+      size: record.size,
+      url: `/api/media/${record.id}`,
+      ...(caption ? { caption } : {})
+    };
+  }
+
+  /**
+   * Attachments from a send request, checked against stored files, with their path on disk
+   * for the channel transports.
+   */
+  resolve(attachments) {
+    return (attachments || []).map(attachment => {
+      const record = attachment && this.get(attachment.id);
+      if (!record) throw new Error(`Attachment ${attachment && attachment.id} not found`);
+      return { ...this.toAttachment(record, attachment.caption), path: this.pathFor(record.id) };
+    });
+  }
+}
+
+/**
+ * POST /api/media       raw file body; Content-Type and X-File-Name (URI-encoded) headers
+ * GET  /api/media/:id   the file, inline for images and PDFs
+ */
+function createMediaRouter(media) {
+  const router = express.Router();
+
+  router.post('/media', express.raw({ type: () => true, limit: MAX_MEDIA_BYTES }), (req, res) => {
+    try {
+      const record = media.save({
+        data: Buffer.isBuffer(req.body) ? req.body : null,
+        fileName: decodeURIComponent(req.get('X-File-Name') || 'file'),
+        mimeType: req.get('Content-Type')
+      });
+      res.status(201).json(media.toAttachment(record));
+    } catch (err) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.get('/media/:id', (req, res) => {
+    const record = media.get(req.params.id);
+    if (!record) return res.status(404).json({ error: 'Not found' });
+
+    res.set('Content-Type', record.mimeType);
+    res.set('Content-Disposition', `${isInline(record.mimeType) ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(record.fileName)}`);
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.sendFile(media.pathFor(record.id));
+  });
+
+  return router;
+}
+
+module.exports = { MediaStore, createMediaRouter, MAX_MEDIA_BYTES, isAllowedType };
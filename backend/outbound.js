@@ -0,0 +1,102 @@
+const express = require('express');
+
+/**
+ * Server-side outbound message pipeline. Channel transports (SMTP, SMS gateway, ...)
+ * register themselves per channel; every send is persisted as a chat message record
+ * so the browser picks it up through the repository and the event stream.
+ */
+class OutboundService {
+  constructor({ store, events, media = null, logger = console }) {
+    this.store = store;
+    this.events = events;
+    this.media = media;
+    this.logger = logger;
+    this.transports = new Map();
+  }
+
+  /**
+   * transport: { send({ to, content, importerId, messageId, template, attachments }) => Promise<{ externalId?: string }> }
+   * `template` ({ name, language, parameters }) is only set for WhatsApp template messages.
+   * `attachments` are MessageAttachment records plus `path`, the file on disk.
+   */
+  register(channel, transport) {
+    this.transports.set(channel, transport);
+  }
+
+  unregister(channel) {
+    this.transports.delete(channel);
+  }
+
+  isConfigured(channel) {
+    return this.transports.has(channel);
+  }
+
+  async send({ importerId, to, channel, content, messageId, template, attachments, sender = 'agent' }) {
+    const record = this.store.upsert('messages', {
+      id: messageId || `out-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      importerId,
+      sender,
+      content,
+      channel,
+      to,
+      templateName: template && template.name,
+      attachments: attachments && attachments.length ? attachments : undefined,
+      direction: 'outbound',
+      status: 'sending',
+      timestamp: Date.now(),
+      updatedAt: Date.now()
+    });
+    this.events.broadcast('changed', { collection: 'messages', id: record.id, importerId });
+
+    const transport = this.transports.get(channel);
+    let patch;
+    try {
+      if (!transport) throw new Error(`No transport configured for ${channel}`);
+      const files = attachments && attachments.length ? this.resolveAttachments(attachments) : undefined;
+      const result = await transport.send({ to, content, importerId, messageId: record.id, template, attachments: files });
+      patch = { status: 'sent', externalId: result && result.externalId };
+    } catch (err) {
+      this.logger.warn(`Outbound ${channel} to ${to} failed: ${err.message}`);
+      patch = { status: 'failed', error: err.message };
+    }
+
+    const updated = this.store.update('messages', record.id, { ...patch, updatedAt: Date.now() });
+    this.events.broadcast('status', { messageId: updated.id, externalId: updated.externalId, status: updated.status, error: updated.error });
+    return { success: updated.status === 'sent', message: updated, error: updated.error };
+  }
+
+  resolveAttachments(attachments) {
+    if (!this.media) throw new Error('Attachments are not supported on this server');
+    return this.media.resolve(attachments);
+  }
+}
+
+const CHANNELS = ['WhatsApp', 'WeChat', 'Email', 'SMS'];
+
+/**
+ * GET /api/channels lists which channels have a server-side transport, so the browser can pick
+ * a live provider or fall back to its simulator.
+ * POST /api/outbound { importerId, to, channel, content, messageId, template?, attachments? }
+ * Sends through the server-side transport for the channel. Receipts follow on the event stream.
+ */
+function createOutboundRouter(outbound) {
+  const router = express.Router();
+
+  router.get('/channels', (req, res) => {
+    res.json(CHANNELS.map(channel => ({ channel, configured: outbound.isConfigured(channel) })));
+  });
+
+  router.post('/outbound', async (req, res) => {
+    const { importerId, to, channel, content, messageId, template, attachments } = req.body || {};
+    if (!to || !channel || !(content || (attachments && attachments.length))) {
+      return res.status(400).json({ error: 'to, channel and content or attachments are required' });
+    }
+    if (!outbound.isConfigured(channel)) return res.status(409).json({ error: `${channel} is not connected on the server` });
+    const result = await outbound.send({ importerId, to, channel, content, messageId, template, attachments });
+    res.status(result.success ? 200 : 502).json(result);
+  });
+
+  return router;
+}
+
+module.exports = { OutboundService, createOutboundRouter };
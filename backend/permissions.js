@@ -0,0 +1,62 @@
+/**
+ * Fine-grained permissions. Mirrors the Permission enum and BUILT_IN_ROLES in types.ts.
+ */
+const PERMISSIONS = [
+  'editLeads',
+  'importLeads',
+  'deleteLeads',
+  'sendMessages',
+  'runCampaigns',
+  'editTemplates',
+  'viewAnalytics',
+  'exportData',
+  'manageIntegrations',
+  'manageCatalog',
+  'manageUsers'
+];
+
+// Fixed roles every install starts with; admins add custom roles next to them (`roles` collection)
+const BUILT_IN_ROLES = {
+  Admin: PERMISSIONS,
+  Sales: ['editLeads', 'deleteLeads', 'sendMessages', 'runCampaigns', 'viewAnalytics'],
+  Viewer: ['viewAnalytics']
+};
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const ALL_METHODS = ['GET', ...WRITE_METHODS];
+
+/**
+ * Permission needed per API route; the first matching rule wins and `null` lets any signed-in
+ * user through. Anything not listed is readable by everyone and writable with editLeads.
+ * Bulk imports need importLeads; a single new lead (say, an inbound sender picked up in the
+ * browser) is a PUT /importers/:id and only needs editLeads. editTemplates has no route of its
+ * own (templates live in the browser) and is only checked in the UI. assignmentRules stay on
+ * editLeads too: creating a lead advances a rule's round-robin cursor.
+ */
+const ROUTE_PERMISSIONS = [
+  // Channel credentials, and the product catalog / exchange rates edited in Settings
+  { methods: ['PUT', 'DELETE'], path: /^\/channels\//, permission: 'manageIntegrations' },
+  { methods: WRITE_METHODS, path: /^\/(products|exchangeRates)(\/|$)/, permission: 'manageCatalog' },
+  { methods: ['POST'], path: /^\/(outbound|media)$/, permission: 'sendMessages' },
+  { methods: WRITE_METHODS, path: /^\/messages(\/|$)/, permission: 'sendMessages' },
+  { methods: WRITE_METHODS, path: /^\/(campaigns|enrollments)(\/|$)/, permission: 'runCampaigns' },
+  { methods: ['POST'], path: /^\/importers\/_bulk$/, permission: 'importLeads' },
+  { methods: ['DELETE'], path: /^\/importers\//, permission: 'deleteLeads' },
+  { methods: ALL_METHODS, path: /^\/(users|roles)(\/|$)/, permission: 'manageUsers' },
+  // Anyone may append browser-side events to the audit log; only user managers read it
+  { methods: ['GET'], path: /^\/audit$/, permission: 'manageUsers' },
+  { methods: ['POST'], path: /^\/audit$/, permission: null },
+  // A DNS lookup, not a change
+  { methods: ['POST'], path: /^\/verify\/email$/, permission: null },
+  // Every account manages its own two-factor setup and sessions (others' are checked in the handler)
+  { methods: ['POST'], path: /^\/auth\/totp\//, permission: null },
+  { methods: ['DELETE'], path: /^\/sessions\//, permission: null }
+];
+
+const requiredPermission = (method, path) => {
+  const rule = ROUTE_PERMISSIONS.find(r => r.methods.includes(method) && r.path.test(path));
+  if (rule) return rule.permission;
+  return WRITE_METHODS.includes(method) ? 'editLeads' : null;
+};
+
+module.exports = { PERMISSIONS, BUILT_IN_ROLES, requiredPermission };
@@ -0,0 +1,224 @@
+const express = require('express');
+
+// Collections exposed over /api. Chat history and activity are stored as their own
+// records (keyed by importerId) so a new message is one small write, not a full importer rewrite.
+// Enrollments are owned by the campaign scheduler and have their own routes.
+const COLLECTIONS = ['importers', 'messages', 'activity', 'campaigns', 'calendarEvents', 'products', 'quotations', 'deals', 'exchangeRates', 'assignmentRules'];
+const IMPORTER_CHILDREN = { chatHistory: 'messages', activityLog: 'activity' };
+
+const stripChildren = (importer) => {
+  const { chatHistory, activityLog, ...rest } = importer;
+  return rest;
+};
+
+/**
+ * Upsert that keeps the stored fields the body leaves out. The browser's copy of a record
+ * lacks what only the server writes (a message's direction, externalId, from, updatedAt),
+ * so replacing the record would drop them.
+ */
+const mergeUpsert = (store, collection, record) =>
+  store.upsert(collection, { ...store.get(collection, record.id), ...record });
+
+const hydrateImporter = (store, importer) => ({
+  ...importer,
+  chatHistory: store.list('messages', m => m.importerId === importer.id).sort((a, b) => a.timestamp - b.timestamp),
+  activityLog: store.list('activity', a => a.importerId === importer.id).sort((a, b) => a.timestamp - b.timestamp)
+});
+
+/**
+ * Resolves an inbound sender to a stored importer. Providers report bare digits
+ * (WhatsApp "6421...") while leads are stored formatted, so phones compare on digits;
+ * a shorter number only matches as the full 8+ digit tail of a longer one, and two
+ * "+" numbers must be identical. Mirrors sameContact in services/dedupeService.ts
+ * (tests/unit/repositoryParity.test.ts runs both on the same contacts).
+ */
+const sameContact = (a, b) => {
+  const left = String(a || '').trim();
+  const right = String(b || '').trim();
+  if (!left || !right) return false;
+  if (left.includes('@') || right.includes('@')) return left.toLowerCase() === right.toLowerCase();
+
+  const international = (v) => v.startsWith('+') || v.replace(/\D/g, '').startsWith('00');
+  const digits = (v) => v.replace(/\D/g, '').replace(/^0+/, '');
+  const digitsA = digits(left);
+  const digitsB = digits(right);
+  if (digitsA.length < 7 || digitsB.length < 7) return left === right;
+  if (digitsA === digitsB) return true;
+  if (international(left) && international(right)) return false;
+
+  const [longer, shorter] = digitsA.length >= digitsB.length ? [digitsA, digitsB] : [digitsB, digitsA];
+  return shorter.length >= 8 && longer.endsWith(shorter);
+};
+
+const findImporterByContact = (store, contact) =>
+  store.findOne('importers', i => sameContact(i.contactDetail, contact));
+
+const describeRule = (rule) =>
+  rule.match === 'country' ? `Country: ${rule.value}` : rule.match === 'product' ? `Product: ${rule.value}` : 'Any lead';
+
+const ruleMatches = (rule, importer) => {
+  const value = rule.value.trim().toLowerCase();
+  if (rule.match === 'country') return importer.country.trim().toLowerCase() === value;
+  if (rule.match === 'product') return value !== '' && importer.productsImported.toLowerCase().includes(value);
+  return true;
+};
+
+/**
+ * Gives a new lead an owner from the first matching assignment rule, taking the next of the
+ * rule's owners who still has an account. Mirrors applyAssignmentRules in
+ * services/assignmentService.ts, which covers leads created in the browser (parity tested).
+ */
+const assignOwner = (store, importer, at) => {
+  const users = store.list('users');
+  const onTeam = (id) => users.length === 0 || users.some(u => u.id === id);
+  const rule = store.list('assignmentRules').find(r => r.ownerIds.some(onTeam) && ruleMatches(r, importer));
+  if (!rule) return importer;
+
+  const owners = rule.ownerIds.filter(onTeam);
+  const cursor = rule.nextIndex || 0;
+  const ownerId = owners[cursor % owners.length];
+  store.update('assignmentRules', rule.id, { nextIndex: cursor + 1 });
+  store.insert('activity', {
+    id: `log-assign-${at}-${Math.random().toString(36).slice(2, 8)}`,
+    importerId: importer.id,
+    timestamp: at,
+    type: 'assignment',
+    description: `Assigned to ${users.find(u => u.id === ownerId)?.name ?? 'a removed user'} (rule: ${describeRule(rule)})`
+  });
+  return store.update('importers', importer.id, { ownerId });
+};
+
+/**
+ * Lead for an inbound sender that matched no importer. Mirrors buildInboundLead in
+ * services/inboundLeadService.ts (parity tested): ENGAGED, replies on the sender's channel,
+ * queued for triage, and owned according to the assignment rules.
+ */
+const createInboundImporter = (store, { contact, channel, profileName }) => {
+  const now = Date.now();
+  const importer = store.insert('importers', {
+    id: `inbound-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: profileName || contact,
+    companyName: 'Unknown Co',
+    country: 'Unknown',
+    contactDetail: contact,
+    productsImported: 'General Goods',
+    quantity: '-',
+    priceRange: '-',
+    status: 'Engaged',
+    preferredChannel: channel,
+    channelSelectionMode: 'manual',
+    validation: {
+      isValid: true,
+      errors: [],
+      emailMxValid: null,
+      whatsappAvailable: channel === 'WhatsApp' ? true : null,
+      wechatAvailable: channel === 'WeChat' ? true : null,
+      checkedAt: now
+    },
+    lastContacted: now,
+    source: 'inbound',
+    needsTriage: true,
+    updatedAt: now
+  });
+  store.insert('activity', {
+    id: `log-inbound-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    importerId: importer.id,
+    timestamp: now,
+    type: 'system',
+    description: `Lead created from inbound ${channel} message`
+  });
+  return assignOwner(store, importer, now);
+};
+
+/**
+ * Per-record CRUD for the CRM data:
+ *   GET    /api/:collection            (?importerId=, ?since=, importers also ?expand=history)
+ *   GET    /api/:collection/:id
+ *   PUT    /api/:collection/:id        upsert, merged into the stored record
+ *   PATCH  /api/:collection/:id
+ *   DELETE /api/:collection/:id        (importers cascade to messages + activity)
+ *   POST   /api/:collection/_bulk      merged upsert of many (first-run migration, bulk imports)
+ *
+ * Mount behind a JSON body parser with a limit large enough for bulk imports.
+ */
+function createRepositoryRouter(store) {
+  const router = express.Router();
+
+  router.param('collection', (req, res, next, name) => {
+    if (!COLLECTIONS.includes(name)) return res.status(404).json({ error: `Unknown collection: ${name}` });
+    next();
+  });
+
+  router.get('/health', (req, res) => res.json({ ok: true }));
+
+  router.get('/:collection', (req, res) => {
+    const { collection } = req.params;
+    const since = Number(req.query.since) || 0;
+    const importerId = req.query.importerId;
+
+    let records = store.list(collection, r =>
+      (!importerId || r.importerId === importerId) &&
+      (!since || (r.updatedAt || r.timestamp || 0) > since)
+    );
+    if (collection === 'importers' && req.query.expand === 'history') {
+      records = records.map(i => hydrateImporter(store, i));
+    }
+    res.json(records);
+  });
+
+  router.get('/:collection/:id', (req, res) => {
+    const { collection, id } = req.params;
+    const record = store.get(collection, id);
+    if (!record) return res.sendStatus(404);
+    res.json(collection === 'importers' ? hydrateImporter(store, record) : record);
+  });
+
+  router.post('/:collection/_bulk', (req, res) => {
+    const { collection } = req.params;
+    if (!Array.isArray(req.body)) return res.status(400).json({ error: 'Expected an array of records' });
+
+    let saved = 0;
+    req.body.forEach(record => {
+      if (!record || !record.id) return;
+      if (collection === 'importers') {
+        Object.entries(IMPORTER_CHILDREN).forEach(([field, child]) => {
+          (record[field] || []).forEach(item => mergeUpsert(store, child, { ...item, importerId: record.id }));
+        });
+        mergeUpsert(store, collection, stripChildren(record));
+      } else {
+        mergeUpsert(store, collection, record);
+      }
+      saved++;
+    });
+    res.json({ saved });
+  });
+
+  router.put('/:collection/:id', (req, res) => {
+    const { collection, id } = req.params;
+    const record = { ...(collection === 'importers' ? stripChildren(req.body) : req.body), id };
+    res.json(mergeUpsert(store, collection, record));
+  });
+
+  router.patch('/:collection/:id', (req, res) => {
+    const { collection, id } = req.params;
+    const patch = collection === 'importers' ? stripChildren(req.body) : req.body;
+    const updated = store.update(collection, id, patch);
+    if (!updated) return res.sendStatus(404);
+    res.json(updated);
+  });
+
+  router.delete('/:collection/:id', (req, res) => {
+    const { collection, id } = req.params;
+    if (!store.remove(collection, id)) return res.sendStatus(404);
+    if (collection === 'importers') {
+      Object.values(IMPORTER_CHILDREN).forEach(child => store.removeWhere(child, r => r.importerId === id));
+      store.removeWhere('enrollments', e => e.importerId === id);
+      store.removeWhere('campaignRuns', r => r.id.startsWith(`enr-${id}-`));
+    }
+    res.sendStatus(204);
+  });
+
+  return router;
+}
+
+module.exports = { createRepositoryRouter, sameContact, findImporterByContact, assignOwner, createInboundImporter };
@@ -0,0 +1,297 @@
+const express = require('express');
+const whatsapp = require('./whatsapp');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+
+const DEFAULT_PROFILE = { myCompany: 'Global Exports', myProduct: 'Agri-Products' };
+
+const templateValues = (importer, profile) => ({
+  name: importer.name,
+  importerName: importer.name,
+  companyName: importer.companyName,
+  country: importer.country,
+  productCategory: importer.productsImported,
+  myCompany: profile.myCompany,
+  myProduct: profile.myProduct
+});
+
+// Same placeholder syntax as the client-side templates ({{importerName}}, {{myProduct}}, ...)
+const fillTemplate = (template, importer, profile) => {
+  const values = templateValues(importer, profile);
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] || match);
+};
+
+/**
+ * Durable campaign executor. Enrollments live in the store, so nothing is lost when the
+ * browser is closed, and the first tick after start-up catches up on anything that fell due
+ * while the process was down.
+ *
+ * Exactly-once per step: before a step is sent a `campaignRuns` record keyed by
+ * `<enrollmentId>:<stepIndex>` is written. A run that is already `sent`, or was left `pending`
+ * by a crash mid-send, is never sent again: the enrollment just advances past it.
+ */
+class CampaignScheduler {
+  constructor({ store, outbound, events, audit = null, logger = console, intervalMs = 60000, profile = DEFAULT_PROFILE }) {
+    this.store = store;
+    this.outbound = outbound;
+    this.events = events;
+    this.audit = audit;
+    this.logger = logger;
+    this.intervalMs = intervalMs;
+    this.profile = profile;
+    this.timer = null;
+    this.running = false;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  updateEnrollment(id, patch) {
+    const updated = this.store.update('enrollments', id, { ...patch, updatedAt: Date.now() });
+    if (updated) this.events.broadcast('changed', { collection: 'enrollments', id, importerId: updated.importerId });
+    return updated;
+  }
+
+  enroll(importerId, campaignId) {
+    // One campaign per lead: re-enrolling replaces the previous enrollment
+    this.store.removeWhere('enrollments', e => e.importerId === importerId && e.status !== 'completed');
+
+    const now = Date.now();
+    const enrollment = this.store.insert('enrollments', {
+      id: `enr-${importerId}-${now}`,
+      importerId,
+      campaignId,
+      currentStepIndex: 0,
+      enrolledAt: now,
+      nextRunTime: now, // First step goes out on the next tick; later steps follow their day offsets
+      status: 'active',
+      attempts: 0,
+      updatedAt: now
+    });
+    this.events.broadcast('changed', { collection: 'enrollments', id: enrollment.id, importerId });
+    // Lets funnel analytics compare leads by the campaign that worked them
+    if (this.store.update('importers', importerId, { campaignId })) {
+      this.events.broadcast('changed', { collection: 'importers', id: importerId, importerId });
+    }
+    return enrollment;
+  }
+
+  /**
+   * A lead's first campaign message moves it out of Pending. Recorded as a status transition
+   * like the ones the client writes (see StatusTransition in types.ts).
+   */
+  markContacted(importer, campaign) {
+    if (importer.status !== 'Pending') return;
+    const now = Date.now();
+    const transition = { from: 'Pending', to: 'Contacted', at: now, actor: 'campaign', campaignId: campaign.id };
+    this.store.update('importers', importer.id, { status: 'Contacted', statusHistory: [...(importer.statusHistory || []), transition] });
+    this.store.insert('activity', {
+      id: `act-${now}-${importer.id}`,
+      importerId: importer.id,
+      timestamp: now,
+      type: 'status_change',
+      description: `Contacted by campaign "${campaign.name}"`
+    });
+    this.events.broadcast('changed', { collection: 'importers', id: importer.id, importerId: importer.id });
+  }
+
+  stopForImporter(importerId, reason) {
+    this.store.list('enrollments', e => e.importerId === importerId && (e.status === 'active' || e.status === 'paused'))
+      .forEach(e => {
+        this.updateEnrollment(e.id, { status: 'stopped', stoppedReason: reason });
+        this.logger.info(`[Campaign] Stopped enrollment ${e.id}: ${reason}`);
+      });
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = Date.now();
+      const due = this.store.list('enrollments', e => e.status === 'active' && e.nextRunTime <= now);
+      for (const enrollment of due) {
+        await this.runStep(enrollment);
+      }
+    } catch (err) {
+      this.logger.error(`[Campaign] Scheduler tick failed: ${err.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  advance(enrollment, campaign, step) {
+    const nextIndex = enrollment.currentStepIndex + 1;
+    const nextStep = campaign.steps[nextIndex];
+    if (!nextStep) {
+      return this.updateEnrollment(enrollment.id, { currentStepIndex: nextIndex, status: 'completed', attempts: 0, lastError: null });
+    }
+    // Schedule relative to now so a catch-up after downtime doesn't fire the following steps back-to-back
+    const delayDays = Math.max(0, nextStep.dayOffset - step.dayOffset);
+    return this.updateEnrollment(enrollment.id, {
+      currentStepIndex: nextIndex,
+      nextRunTime: Date.now() + delayDays * DAY_MS,
+      attempts: 0,
+      lastError: null
+    });
+  }
+
+  /**
+   * WhatsApp steps outside the 24-hour window go out as an approved template: the step's own,
+   * or the intro / follow-up template by position.
+   */
+  composeStep(step, stepIndex, importer) {
+    if (step.channel !== 'WhatsApp' || whatsapp.isSessionOpen(this.store, importer.id)) {
+      return { content: fillTemplate(step.template, importer, this.profile) };
+    }
+    const name = step.whatsappTemplate || (stepIndex === 0 ? 'intro_outreach' : 'follow_up');
+    const template = whatsapp.findTemplate(name);
+    if (!template) return { error: `WhatsApp template "${name}" is not registered` };
+    const { parameters, preview } = whatsapp.renderTemplate(template, templateValues(importer, this.profile));
+    return { content: preview, template: { name, language: template.language, parameters } };
+  }
+
+  async runStep(enrollment) {
+    const campaign = this.store.get('campaigns', enrollment.campaignId);
+    if (!campaign || campaign.status !== 'active') return;
+
+    const step = campaign.steps[enrollment.currentStepIndex];
+    if (!step) {
+      this.updateEnrollment(enrollment.id, { status: 'completed' });
+      return;
+    }
+
+    const importer = this.store.get('importers', enrollment.importerId);
+    if (!importer || importer.status === 'Closed' || importer.status === 'Cold') {
+      this.updateEnrollment(enrollment.id, { status: 'stopped', stoppedReason: 'Lead closed or removed' });
+      return;
+    }
+
+    const runId = `${enrollment.id}:${enrollment.currentStepIndex}`;
+    const previousRun = this.store.get('campaignRuns', runId);
+    if (previousRun && previousRun.status !== 'failed') {
+      if (previousRun.status === 'pending') {
+        this.logger.warn(`[Campaign] Step ${runId} was interrupted mid-send; skipping to avoid a duplicate`);
+      }
+      this.advance(enrollment, campaign, step);
+      return;
+    }
+
+    const message = this.composeStep(step, enrollment.currentStepIndex, importer);
+    if (message.error) {
+      this.updateEnrollment(enrollment.id, { status: 'paused', lastError: message.error });
+      return;
+    }
+
+    this.store.upsert('campaignRuns', { id: runId, enrollmentId: enrollment.id, stepId: step.id, status: 'pending', startedAt: Date.now() });
+    this.store.flush();
+
+    this.logger.info(`[Campaign] Executing step ${enrollment.currentStepIndex + 1} of "${campaign.name}" for ${importer.name}`);
+    const result = await this.outbound.send({
+      importerId: importer.id,
+      to: importer.contactDetail,
+      channel: step.channel,
+      content: message.content,
+      template: message.template
+    });
+
+    if (result.success) {
+      this.store.update('campaignRuns', runId, { status: 'sent', messageId: result.message.id, finishedAt: Date.now() });
+      const event = this.store.insert('calendarEvents', {
+        id: `evt-${Date.now()}-${importer.id}`,
+        title: `Campaign Sent: ${campaign.name} (Step ${enrollment.currentStepIndex + 1})`,
+        start: Date.now(),
+        end: Date.now() + 1000 * 60 * 30,
+        importerId: importer.id,
+        type: 'campaign_step',
+        status: 'done'
+      });
+      this.events.broadcast('changed', { collection: 'calendarEvents', id: event.id, importerId: importer.id });
+      if (this.audit) {
+        this.audit.record({ type: 'MESSAGE_SENT', details: `Campaign "${campaign.name}" step ${enrollment.currentStepIndex + 1}: ${step.channel} message to ${importer.contactDetail}`, target: importer.id });
+      }
+      this.markContacted(importer, campaign);
+      this.advance(enrollment, campaign, step);
+      return;
+    }
+
+    // Failed sends never reached the provider, so retrying them is safe
+    this.store.update('campaignRuns', runId, { status: 'failed', error: result.error, finishedAt: Date.now() });
+    const attempts = (enrollment.attempts || 0) + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      this.updateEnrollment(enrollment.id, { status: 'paused', attempts, lastError: result.error });
+    } else {
+      this.updateEnrollment(enrollment.id, { attempts, lastError: result.error, nextRunTime: Date.now() + RETRY_DELAY_MS });
+    }
+  }
+}
+
+/**
+ * Enrollment API:
+ *   GET  /api/enrollments                 (?importerId=, ?campaignId=)
+ *   POST /api/enrollments                 { importerId, campaignId }
+ *   POST /api/enrollments/stop            { importerId, reason }
+ *   POST /api/enrollments/:id/pause
+ *   POST /api/enrollments/:id/resume
+ *   POST /api/enrollments/:id/reschedule  { nextRunTime }
+ */
+function createSchedulerRouter(scheduler) {
+  const router = express.Router();
+  const { store } = scheduler;
+
+  router.get('/enrollments', (req, res) => {
+    const { importerId, campaignId } = req.query;
+    res.json(store.list('enrollments', e =>
+      (!importerId || e.importerId === importerId) && (!campaignId || e.campaignId === campaignId)
+    ));
+  });
+
+  router.post('/enrollments', (req, res) => {
+    const { importerId, campaignId } = req.body || {};
+    if (!importerId || !campaignId) return res.status(400).json({ error: 'importerId and campaignId are required' });
+    if (!store.get('campaigns', campaignId)) return res.status(404).json({ error: 'Campaign not found' });
+    res.status(201).json(scheduler.enroll(importerId, campaignId));
+  });
+
+  router.post('/enrollments/stop', (req, res) => {
+    const { importerId, reason } = req.body || {};
+    if (!importerId) return res.status(400).json({ error: 'importerId is required' });
+    scheduler.stopForImporter(importerId, reason || 'Stopped by user');
+    res.sendStatus(204);
+  });
+
+  router.post('/enrollments/:id/:action', (req, res) => {
+    const enrollment = store.get('enrollments', req.params.id);
+    if (!enrollment) return res.sendStatus(404);
+
+    switch (req.params.action) {
+      case 'pause':
+        if (enrollment.status !== 'active') return res.status(409).json({ error: `Cannot pause a ${enrollment.status} enrollment` });
+        return res.json(scheduler.updateEnrollment(enrollment.id, { status: 'paused' }));
+      case 'resume':
+        if (enrollment.status !== 'paused') return res.status(409).json({ error: `Cannot resume a ${enrollment.status} enrollment` });
+        return res.json(scheduler.updateEnrollment(enrollment.id, { status: 'active', attempts: 0, lastError: null }));
+      case 'reschedule': {
+        const nextRunTime = Number(req.body && req.body.nextRunTime);
+        if (!nextRunTime) return res.status(400).json({ error: 'nextRunTime is required' });
+        return res.json(scheduler.updateEnrollment(enrollment.id, { nextRunTime }));
+      }
+      default:
+        return res.sendStatus(404);
+    }
+  });
+
+  return router;
+}
+
+module.exports = { CampaignScheduler, createSchedulerRouter, fillTemplate };
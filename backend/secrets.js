@@ -0,0 +1,38 @@
+/**
+ * Channel credentials (SMTP/IMAP passwords, the SMS auth token, WeChat's AppSecret, token and
+ * EncodingAESKey) never leave the backend: status responses carry the saved settings with each
+ * secret replaced by SECRET_MASK, and a form that sends the mask back keeps the saved value.
+ *
+ * At rest they sit unencrypted in `<DATA_DIR>/channelConfig.json`, next to the password hashes
+ * and session key: the backend needs them in clear to log in, and a key stored beside them
+ * would add nothing. JsonStore writes its files readable by the server's user only; to keep
+ * credentials off disk entirely, set them through the environment (SMTP_*, SMS_*, WECHAT_*).
+ */
+const SECRET_MASK = '********';
+
+const getField = (obj, field) => field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), obj);
+
+// Copies each object along the path so the caller's config is never modified
+const setField = (obj, field, value) => {
+  const [key, ...rest] = field.split('.');
+  if (!rest.length) return { ...obj, [key]: value };
+  if (obj[key] == null) return obj;
+  return { ...obj, [key]: setField(obj[key], rest.join('.'), value) };
+};
+
+/**
+ * The config with every non-empty secret (dotted paths such as 'smtp.pass') replaced by SECRET_MASK.
+ */
+const maskSecrets = (config, fields) =>
+  fields.reduce((masked, field) => (getField(masked, field) ? setField(masked, field, SECRET_MASK) : masked), config);
+
+/**
+ * Puts the current value back wherever the client returned SECRET_MASK. A mask with nothing
+ * behind it is dropped, so validation reports the secret as missing.
+ */
+const restoreSecrets = (config, current, fields) =>
+  fields.reduce((restored, field) => (
+    getField(restored, field) === SECRET_MASK ? setField(restored, field, getField(current, field)) : restored
+  ), config);
+
+module.exports = { SECRET_MASK, maskSecrets, restoreSecrets };
@@ -0,0 +1,280 @@
+const crypto = require('crypto');
+const express = require('express');
+const { findImporterByContact, createInboundImporter } = require('./repository');
+const { isStatusAdvance } = require('./whatsapp');
+const { maskSecrets, restoreSecrets } = require('./secrets');
+
+const CONFIG_ID = 'sms';
+const DEFAULT_BASE_URL = 'https://api.twilio.com';
+const SECRET_FIELDS = ['authToken'];
+
+// Twilio MessageStatus values; gateways with the same API shape use the same names
+const STATUS_MAP = {
+  accepted: 'sending',
+  scheduled: 'sending',
+  queued: 'sending',
+  sending: 'sending',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  undelivered: 'failed',
+  failed: 'failed',
+  canceled: 'failed'
+};
+
+/**
+ * Verifies X-Twilio-Signature: base64 HMAC-SHA1 (auth token) of the full webhook URL followed
+ * by every POST parameter, sorted by name, as name+value.
+ */
+const verifySignature = (url, params, signatureHeader, authToken) => {
+  if (!signatureHeader || !authToken) return false;
+  const data = Object.keys(params || {}).sort().reduce((acc, key) => acc + key + params[key], url);
+  const expected = crypto.createHmac('sha1', authToken).update(Buffer.from(data, 'utf-8')).digest('base64');
+  if (signatureHeader.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(signatureHeader), Buffer.from(expected));
+};
+
+/**
+ * Reads gateway settings from the environment (hosted server). Returns null when SMS_ACCOUNT_SID is unset.
+ */
+const smsConfigFromEnv = (env) => {
+  if (!env.SMS_ACCOUNT_SID) return null;
+  return {
+    accountSid: env.SMS_ACCOUNT_SID,
+    authToken: env.SMS_AUTH_TOKEN,
+    from: env.SMS_FROM,
+    baseUrl: env.SMS_GATEWAY_URL,
+    webhookBaseUrl: env.PUBLIC_URL
+  };
+};
+
+/**
+ * SMS channel over an HTTP gateway with Twilio's REST shape
+ * (POST {baseUrl}/2010-04-01/Accounts/{sid}/Messages.json, form-encoded, Basic auth).
+ * Sends are an OutboundService transport; delivery reports and replies arrive on
+ * /webhooks/sms/status and /webhooks/sms (see createSmsWebhookRouter).
+ */
+class SmsChannel {
+  constructor({ store, events, outbound, scheduler, logger = console, fetchImpl = globalThis.fetch }) {
+    this.store = store;
+    this.events = events;
+    this.outbound = outbound;
+    this.scheduler = scheduler;
+    this.logger = logger;
+    this.fetch = fetchImpl;
+    this.config = null;
+  }
+
+  /**
+   * Activates a configuration without checking it (saved settings on start-up, environment).
+   */
+  configure(config) {
+    this.config = { ...config, baseUrl: (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '') };
+    if (!this.config.webhookBaseUrl) {
+      this.logger.warn('SMS: no public webhook URL set, so delivery reports and inbound messages are refused.');
+    }
+    if (this.outbound) this.outbound.register('SMS', this);
+  }
+
+  loadSavedConfig() {
+    const saved = this.store.get('channelConfig', CONFIG_ID);
+    if (saved && saved.config) this.configure(saved.config);
+  }
+
+  accountUrl(config = this.config) {
+    return `${(config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')}/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}`;
+  }
+
+  authHeader(config = this.config) {
+    return `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')}`;
+  }
+
+  /**
+   * Checks the credentials against the gateway's account endpoint before saving.
+   */
+  async connect(config) {
+    if (config) config = restoreSecrets(config, this.config, SECRET_FIELDS);
+    if (!config || !config.accountSid || !config.authToken || !config.from) {
+      throw new Error('accountSid, authToken and from are required');
+    }
+
+    const res = await this.fetch(`${this.accountUrl(config)}.json`, { headers: { Authorization: this.authHeader(config) } });
+    if (res.status === 401 || res.status === 403) throw new Error('The SMS gateway rejected these credentials');
+    // Gateways that only implement Messages.json answer 404 here; the first send will tell
+    if (!res.ok && res.status !== 404) throw new Error(`SMS gateway returned HTTP ${res.status}`);
+
+    this.store.upsert('channelConfig', { id: CONFIG_ID, config, updatedAt: Date.now() });
+    this.configure(config);
+    return this.status();
+  }
+
+  disconnect() {
+    this.store.remove('channelConfig', CONFIG_ID);
+    if (this.outbound) this.outbound.unregister('SMS');
+    this.config = null;
+  }
+
+  status() {
+    return {
+      configured: Boolean(this.config),
+      from: this.config ? this.config.from : null,
+      baseUrl: this.config ? this.config.baseUrl : null,
+      deliveryReports: Boolean(this.config && this.config.webhookBaseUrl),
+      // The default gateway is left implicit so the form shows the Twilio preset again
+      config: this.config ? maskSecrets({ ...this.config, baseUrl: this.config.baseUrl === DEFAULT_BASE_URL ? undefined : this.config.baseUrl }, SECRET_FIELDS) : null
+    };
+  }
+
+  webhookUrl(path) {
+    return `${this.config.webhookBaseUrl.replace(/\/+$/, '')}/webhooks/sms${path}`;
+  }
+
+  /**
+   * OutboundService transport. A `from` starting with "MG" is a messaging service SID.
+   */
+  async send({ to, content, attachments }) {
+    if (!this.config) throw new Error('SMS is not configured');
+    // MMS needs publicly reachable file URLs; this channel sends text only
+    if (attachments && attachments.length) throw new Error('SMS cannot carry attachments');
+
+    const form = new URLSearchParams({ To: to, Body: content });
+    form.set(this.config.from.startsWith('MG') ? 'MessagingServiceSid' : 'From', this.config.from);
+    if (this.config.webhookBaseUrl) form.set('StatusCallback', this.webhookUrl('/status'));
+
+    const res = await this.fetch(`${this.accountUrl()}/Messages.json`, {
+      method: 'POST',
+      headers: { Authorization: this.authHeader(), 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form.toString()
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body.message || `SMS gateway returned HTTP ${res.status}`);
+    if (STATUS_MAP[body.status] === 'failed') throw new Error(body.error_message || `Gateway reported ${body.status}`);
+    return { externalId: body.sid };
+  }
+
+  /**
+   * Webhooks are only accepted once they can be verified: the signature covers the exact public
+   * URL the gateway called (which a proxy in front of us may rewrite) and needs the auth token.
+   */
+  acceptsWebhooks() {
+    return Boolean(this.config && this.config.webhookBaseUrl && this.config.authToken);
+  }
+
+  /**
+   * Signature check for webhook requests; always false until acceptsWebhooks().
+   */
+  isAuthentic(req) {
+    if (!this.acceptsWebhooks()) return false;
+    return verifySignature(this.webhookUrl(req.path === '/' ? '' : req.path), req.body, req.get('X-Twilio-Signature'), this.config.authToken);
+  }
+
+  /**
+   * Stores an inbound SMS (From, Body, MessageSid). Returns the saved record, or null for retries.
+   */
+  receive(params) {
+    const from = params.From;
+    if (!from || params.Body === undefined) return null;
+    if (params.MessageSid && this.store.findOne('messages', m => m.externalId === params.MessageSid)) return null;
+
+    let importer = findImporterByContact(this.store, from);
+    const isNewLead = !importer;
+    if (isNewLead) importer = createInboundImporter(this.store, { contact: from, channel: 'SMS' });
+
+    const saved = this.store.insert('messages', {
+      id: params.MessageSid ? `sms-${params.MessageSid}` : undefined,
+      externalId: params.MessageSid,
+      importerId: importer.id,
+      from,
+      content: params.Body || '[empty SMS]',
+      sender: 'importer',
+      channel: 'SMS',
+      direction: 'inbound',
+      status: 'delivered',
+      timestamp: Date.now(),
+      updatedAt: Date.now()
+    });
+    if (isNewLead) this.events.broadcast('changed', { collection: 'importers', id: importer.id, importerId: importer.id });
+    this.events.broadcast('message', saved);
+    if (!isNewLead && this.scheduler) this.scheduler.stopForImporter(importer.id, 'Lead replied by SMS');
+    return saved;
+  }
+
+  /**
+   * Applies a delivery report (MessageSid, MessageStatus, ErrorCode). Returns the updated record,
+   * or null when the message is unknown or the report is stale.
+   */
+  receiveStatus(params) {
+    const status = STATUS_MAP[params.MessageStatus];
+    if (!params.MessageSid || !status) return null;
+    const record = this.store.findOne('messages', m => m.externalId === params.MessageSid);
+    if (!record || !isStatusAdvance(record.status, status)) return null;
+
+    const error = status === 'failed'
+      ? params.ErrorMessage || (params.ErrorCode ? `Gateway error ${params.ErrorCode}` : `Message ${params.MessageStatus}`)
+      : undefined;
+    const updated = this.store.update('messages', record.id, { status, error, updatedAt: Date.now() });
+    this.events.broadcast('status', { messageId: updated.id, externalId: updated.externalId, status: updated.status, error: updated.error });
+    return updated;
+  }
+}
+
+/**
+ * Connection settings for the SMS gateway:
+ *   GET    /api/channels/sms   status and saved settings, auth token masked
+ *   PUT    /api/channels/sms   verify and save { accountSid, authToken, from, baseUrl?, webhookBaseUrl? }; a masked token keeps the saved one
+ *   DELETE /api/channels/sms
+ */
+function createSmsRouter(smsChannel) {
+  const router = express.Router();
+
+  router.get('/channels/sms', (req, res) => res.json(smsChannel.status()));
+
+  router.put('/channels/sms', async (req, res) => {
+    try {
+      res.json(await smsChannel.connect(req.body));
+    } catch (err) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.delete('/channels/sms', (req, res) => {
+    smsChannel.disconnect();
+    res.sendStatus(204);
+  });
+
+  return router;
+}
+
+/**
+ * Gateway callbacks, mounted at /webhooks/sms (form-encoded bodies):
+ *   POST /webhooks/sms          inbound message
+ *   POST /webhooks/sms/status   delivery report
+ */
+function createSmsWebhookRouter(smsChannel) {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    if (!smsChannel.acceptsWebhooks()) {
+      smsChannel.logger.warn('SMS webhook rejected: no public webhook URL or auth token configured');
+      return res.sendStatus(503);
+    }
+    if (smsChannel.isAuthentic(req)) return next();
+    smsChannel.logger.warn('SMS webhook rejected: invalid signature');
+    res.sendStatus(403);
+  });
+
+  router.post('/', (req, res) => {
+    smsChannel.receive(req.body || {});
+    // Empty TwiML: no automatic reply
+    res.type('text/xml').send('<Response></Response>');
+  });
+
+  router.post('/status', (req, res) => {
+    smsChannel.receiveStatus(req.body || {});
+    res.sendStatus(200);
+  });
+
+  return router;
+}
+
+module.exports = { SmsChannel, createSmsRouter, createSmsWebhookRouter, smsConfigFromEnv, verifySignature };
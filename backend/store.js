@@ -0,0 +1,114 @@
+const fs = require('fs');
+const path = require('path');
+
+const FLUSH_DELAY_MS = 100;
+
+/**
+ * Minimal JSON-file document store shared by the hosted server and the Electron backend.
+ * Each collection lives in its own `<name>.json` file as an array of records keyed by `id`,
+ * so saving one chat message never rewrites the whole database. Writes are coalesced and
+ * flushed through a temp file + rename so a crash never leaves a half-written collection.
+ */
+class JsonStore {
+  constructor(dataDir) {
+    this.dataDir = dataDir;
+    this.data = {};
+    this.dirty = new Set();
+    this.flushTimer = null;
+
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true, mode: 0o700 });
+    }
+    process.on('exit', () => this.flush());
+  }
+
+  filePath(name) {
+    return path.join(this.dataDir, `${name}.json`);
+  }
+
+  collection(name) {
+    if (!this.data[name]) {
+      const file = this.filePath(name);
+      this.data[name] = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : [];
+    }
+    return this.data[name];
+  }
+
+  markDirty(name) {
+    this.dirty.add(name);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  flush() {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+    this.dirty.forEach(name => {
+      const file = this.filePath(name);
+      const tmpPath = `${file}.tmp`;
+      // Only the server's user may read them: users, sessions and channel credentials live here
+      fs.writeFileSync(tmpPath, JSON.stringify(this.data[name]), { mode: 0o600 });
+      fs.renameSync(tmpPath, file);
+    });
+    this.dirty.clear();
+  }
+
+  list(name, predicate) {
+    const records = this.collection(name);
+    return predicate ? records.filter(predicate) : [...records];
+  }
+
+  get(name, id) {
+    return this.collection(name).find(r => r.id === id) || null;
+  }
+
+  findOne(name, predicate) {
+    return this.collection(name).find(predicate) || null;
+  }
+
+  insert(name, record) {
+    const saved = { ...record, id: record.id || `${name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+    this.collection(name).push(saved);
+    this.markDirty(name);
+    return saved;
+  }
+
+  update(name, id, patch) {
+    const records = this.collection(name);
+    const index = records.findIndex(r => r.id === id);
+    if (index === -1) return null;
+    records[index] = { ...records[index], ...patch, id };
+    this.markDirty(name);
+    return records[index];
+  }
+
+  /**
+   * Replaces the record with the same id, or inserts it.
+   */
+  upsert(name, record) {
+    const records = this.collection(name);
+    const index = records.findIndex(r => r.id === record.id);
+    if (index === -1) records.push(record);
+    else records[index] = record;
+    this.markDirty(name);
+    return record;
+  }
+
+  remove(name, id) {
+    return this.removeWhere(name, r => r.id === id) > 0;
+  }
+
+  removeWhere(name, predicate) {
+    const records = this.collection(name);
+    const kept = records.filter(r => !predicate(r));
+    const removed = records.length - kept.length;
+    if (removed > 0) {
+      this.data[name] = kept;
+      this.markDirty(name);
+    }
+    return removed;
+  }
+}
+
+module.exports = { JsonStore };
@@ -0,0 +1,463 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const express = require('express');
+const { createInboundImporter } = require('./repository');
+const { maskSecrets, restoreSecrets } = require('./secrets');
+
+const CONFIG_ID = 'wechat';
+const SECRET_FIELDS = ['appSecret', 'token', 'encodingAESKey'];
+const DEFAULT_API_BASE_URL = 'https://api.weixin.qq.com';
+// WeChat drops the passive reply (and retries the push) after 5 seconds; leave room for the network
+const PASSIVE_WINDOW_MS = 4000;
+// access_token is valid for 7200s; refresh a few minutes early
+const TOKEN_MARGIN_MS = 5 * 60 * 1000;
+// Token expired / invalid: fetch a new one and retry once
+const TOKEN_ERRORS = new Set([40001, 40014, 42001]);
+// Empty acknowledgement: WeChat shows nothing to the user and does not retry
+const NO_REPLY = 'success';
+
+const withDefaults = (config) => ({ ...config, apiBaseUrl: (config.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, '') });
+
+const sha1 = (value) => crypto.createHash('sha1').update(value).digest('hex');
+
+const signature = (...parts) => sha1(parts.map(String).sort().join(''));
+
+const decodeEntities = (text) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+const parseFields = (body) => {
+  const fields = {};
+  const pattern = /<(\w+)>((?:<!\[CDATA\[[\s\S]*?\]\]>)+|[\s\S]*?)<\/\1>/g;
+  let match;
+  while ((match = pattern.exec(body))) {
+    const [, name, value] = match;
+    if (value.startsWith('<![CDATA[')) {
+      // A value holding "]]>" is written as several adjacent CDATA sections
+      fields[name] = [...value.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g)].map(m => m[1]).join('');
+    } else {
+      fields[name] = /<\w+>/.test(value) ? parseFields(value) : decodeEntities(value.trim());
+    }
+  }
+  return fields;
+};
+
+/**
+ * Parses WeChat's push XML (a flat <xml> element, values in CDATA; event payloads may nest
+ * one level). Returns null when there is no <xml> root.
+ */
+const parseXml = (xml) => {
+  const root = String(xml || '').match(/<xml>([\s\S]*)<\/xml>/);
+  return root ? parseFields(root[1]) : null;
+};
+
+const buildFields = (fields) => Object.entries(fields)
+  .filter(([, value]) => value !== undefined && value !== null)
+  .map(([name, value]) => {
+    if (typeof value === 'number') return `<${name}>${value}</${name}>`;
+    if (typeof value === 'object') return `<${name}>${buildFields(value)}</${name}>`;
+    // "]]>" cannot appear inside CDATA: close and reopen around it
+    return `<${name}><![CDATA[${String(value).replace(/]]>/g, ']]]]><![CDATA[>')}]]></${name}>`;
+  })
+  .join('');
+
+const buildXml = (fields) => `<xml>${buildFields(fields)}</xml>`;
+
+/**
+ * Safe-mode message encryption (WXBizMsgCrypt): AES-256-CBC with the 43-character
+ * EncodingAESKey, IV = first 16 key bytes, PKCS#7 padded to 32-byte blocks.
+ * Plaintext = 16 random bytes + 4-byte big-endian length + message + AppID.
+ */
+class WeChatCrypto {
+  constructor({ encodingAESKey, appId }) {
+    this.key = Buffer.from(`${encodingAESKey}=`, 'base64');
+    if (!encodingAESKey || encodingAESKey.length !== 43 || this.key.length !== 32) {
+      throw new Error('EncodingAESKey must be the 43-character key from the WeChat console');
+    }
+    this.iv = this.key.subarray(0, 16);
+    this.appId = appId;
+  }
+
+  encrypt(message) {
+    const body = Buffer.from(message, 'utf-8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(body.length, 0);
+    const plain = Buffer.concat([crypto.randomBytes(16), length, body, Buffer.from(this.appId, 'utf-8')]);
+    const pad = 32 - (plain.length % 32);
+
+    const cipher = crypto.createCipheriv('aes-256-cbc', this.key, this.iv);
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(Buffer.concat([plain, Buffer.alloc(pad, pad)])), cipher.final()]).toString('base64');
+  }
+
+  decrypt(encrypted) {
+    const decipher = crypto.createDecipheriv('aes-256-cbc', this.key, this.iv);
+    decipher.setAutoPadding(false);
+    const plain = Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]);
+    const pad = plain[plain.length - 1];
+    const content = plain.subarray(16, plain.length - (pad >= 1 && pad <= 32 ? pad : 0));
+
+    const length = content.readUInt32BE(0);
+    const message = content.subarray(4, 4 + length).toString('utf-8');
+    if (content.subarray(4 + length).toString('utf-8') !== this.appId) throw new Error('Encrypted message is for another AppID');
+    return message;
+  }
+}
+
+const extractContent = (msg) => {
+  switch (msg.MsgType) {
+    case 'text': return msg.Content || '';
+    // Voice messages carry WeChat's speech recognition result when it is enabled
+    case 'voice': return msg.Recognition || '[voice]';
+    case 'location': return `[location] ${msg.Location_X},${msg.Location_Y}`;
+    case 'link': return msg.Url || '[link]';
+    default: return `[${msg.MsgType || 'unsupported'}]`;
+  }
+};
+
+/**
+ * Reads Official Account settings from the environment (hosted server). Returns null when WECHAT_APP_ID is unset.
+ */
+const wechatConfigFromEnv = (env) => {
+  if (!env.WECHAT_APP_ID) return null;
+  return {
+    appId: env.WECHAT_APP_ID,
+    appSecret: env.WECHAT_APP_SECRET,
+    token: env.WECHAT_TOKEN || env.WEBHOOK_TOKEN,
+    encodingAESKey: env.WECHAT_AES_KEY,
+    apiBaseUrl: env.WECHAT_API_URL
+  };
+};
+
+/**
+ * WeChat Official Account channel. Pushes arrive as XML (AES-encrypted in safe mode) on
+ * /webhooks/wechat. WeChat only accepts a reply as the HTTP response to that push, within
+ * 5 seconds, so the webhook waits briefly: a send to the same user in that window goes out as
+ * the passive reply XML. Anything later (AI replies usually are) uses the customer-service
+ * message API, which is open for 48 hours after the user's last message.
+ */
+class WeChatChannel {
+  constructor({
+    store,
+    events,
+    outbound,
+    scheduler,
+    logger = console,
+    fetchImpl = (...args) => globalThis.fetch(...args),
+    passiveWindowMs = PASSIVE_WINDOW_MS
+  }) {
+    this.store = store;
+    this.events = events;
+    this.outbound = outbound;
+    this.scheduler = scheduler;
+    this.logger = logger;
+    this.fetch = fetchImpl;
+    this.passiveWindowMs = passiveWindowMs;
+    this.config = null;
+    this.crypto = null;
+    this.accessToken = null;
+    this.pendingReplies = new Map();
+  }
+
+  /**
+   * Activates a configuration without checking it (saved settings on start-up, environment).
+   */
+  configure(config) {
+    this.config = withDefaults(config);
+    this.crypto = config.encodingAESKey ? new WeChatCrypto({ encodingAESKey: config.encodingAESKey, appId: config.appId }) : null;
+    this.accessToken = null;
+    if (this.outbound) this.outbound.register('WeChat', this);
+  }
+
+  loadSavedConfig() {
+    const saved = this.store.get('channelConfig', CONFIG_ID);
+    if (saved && saved.config) this.configure(saved.config);
+  }
+
+  /**
+   * Fetches an access token with the AppID/AppSecret before saving, so wrong credentials
+   * (or a server IP missing from the account's whitelist) are reported right away.
+   */
+  async connect(config) {
+    if (config) config = restoreSecrets(config, this.config, SECRET_FIELDS);
+    if (!config || !config.appId || !config.appSecret || !config.token) throw new Error('appId, appSecret and token are required');
+    if (config.encodingAESKey) new WeChatCrypto({ encodingAESKey: config.encodingAESKey, appId: config.appId });
+    const token = await this.fetchAccessToken(withDefaults(config));
+
+    this.store.upsert('channelConfig', { id: CONFIG_ID, config, updatedAt: Date.now() });
+    this.configure(config);
+    this.accessToken = token;
+    return this.status();
+  }
+
+  disconnect() {
+    this.store.remove('channelConfig', CONFIG_ID);
+    if (this.outbound) this.outbound.unregister('WeChat');
+    this.config = null;
+    this.crypto = null;
+    this.accessToken = null;
+  }
+
+  status() {
+    return {
+      configured: Boolean(this.config),
+      appId: this.config ? this.config.appId : null,
+      safeMode: Boolean(this.crypto),
+      config: this.config ? maskSecrets(this.config, SECRET_FIELDS) : null
+    };
+  }
+
+  async fetchAccessToken({ appId, appSecret, apiBaseUrl }) {
+    const query = new URLSearchParams({ grant_type: 'client_credential', appid: appId, secret: appSecret });
+    const res = await this.fetch(`${apiBaseUrl}/cgi-bin/token?${query}`);
+    const body = await res.json().catch(() => ({}));
+    if (!body.access_token) throw new Error(body.errmsg ? `WeChat error ${body.errcode}: ${body.errmsg}` : `WeChat token request failed (HTTP ${res.status})`);
+
+    return { value: body.access_token, expiresAt: Date.now() + (body.expires_in || 7200) * 1000 - TOKEN_MARGIN_MS };
+  }
+
+  async getAccessToken(force = false) {
+    if (force || !this.accessToken || this.accessToken.expiresAt <= Date.now()) {
+      this.accessToken = await this.fetchAccessToken(this.config);
+    }
+    return this.accessToken.value;
+  }
+
+  /**
+   * POSTs JSON, or multipart when `payload` is FormData (media uploads). `path` may carry a query.
+   */
+  async callApi(path, payload, retry = true) {
+    const token = await this.getAccessToken(!retry);
+    const isForm = payload instanceof FormData;
+    const res = await this.fetch(`${this.config.apiBaseUrl}${path}${path.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`, {
+      method: 'POST',
+      headers: isForm ? undefined : { 'Content-Type': 'application/json' },
+      body: isForm ? payload : JSON.stringify(payload)
+    });
+    const body = await res.json().catch(() => ({}));
+    if (retry && TOKEN_ERRORS.has(body.errcode)) return this.callApi(path, payload, false);
+    if (!res.ok || body.errcode) throw new Error(`WeChat error ${body.errcode || res.status}: ${body.errmsg || 'request failed'}`);
+    return body;
+  }
+
+  /**
+   * Uploads an image as temporary media (kept by WeChat for 3 days) and returns its media_id.
+   */
+  async uploadImage(file) {
+    const form = new FormData();
+    form.append('media', new Blob([await fs.promises.readFile(file.path)], { type: file.mimeType }), file.fileName);
+    const body = await this.callApi('/cgi-bin/media/upload?type=image', form);
+    return body.media_id;
+  }
+
+  /**
+   * OutboundService transport. `to` is the user's OpenID. Attachments go out after the text
+   * through the customer-service API; it only takes images (no documents).
+   */
+  async send({ to, content, attachments }) {
+    if (!this.config) throw new Error('WeChat is not configured');
+    if (attachments && attachments.length) {
+      const unsupported = attachments.find(file => !/^image\/(jpeg|png|gif)$/.test(file.mimeType));
+      if (unsupported) throw new Error(`WeChat can only send JPEG, PNG or GIF images, not ${unsupported.fileName}`);
+      if (content) await this.callApi('/cgi-bin/message/custom/send', { touser: to, msgtype: 'text', text: { content } });
+      for (const file of attachments) {
+        const mediaId = await this.uploadImage(file);
+        await this.callApi('/cgi-bin/message/custom/send', { touser: to, msgtype: 'image', image: { media_id: mediaId } });
+      }
+      return {};
+    }
+
+    const pending = this.pendingReplies.get(to);
+    if (pending) {
+      pending.resolve(content);
+      return {};
+    }
+    await this.callApi('/cgi-bin/message/custom/send', { touser: to, msgtype: 'text', text: { content } });
+    return {};
+  }
+
+  checkSignature({ signature: received, timestamp, nonce }) {
+    const token = this.config && this.config.token;
+    return Boolean(token && received && timestamp && nonce && signature(token, timestamp, nonce) === received);
+  }
+
+  /**
+   * Verifies a push and returns its message fields, or null when the signature does not match.
+   * Safe mode wraps the message in <Encrypt> and signs it with msg_signature instead.
+   */
+  openPush(query, rawXml) {
+    if (query.encrypt_type !== 'aes') return this.checkSignature(query) ? parseXml(rawXml) : null;
+
+    const envelope = parseXml(rawXml);
+    const token = this.config && this.config.token;
+    if (!this.crypto || !envelope || !envelope.Encrypt) return null;
+    if (signature(token, query.timestamp, query.nonce, envelope.Encrypt) !== query.msg_signature) return null;
+    return parseXml(this.crypto.decrypt(envelope.Encrypt));
+  }
+
+  sealReply(fields) {
+    const xml = buildXml(fields);
+    if (!this.crypto) return xml;
+
+    const encrypted = this.crypto.encrypt(xml);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = crypto.randomBytes(8).toString('hex');
+    return buildXml({
+      Encrypt: encrypted,
+      MsgSignature: signature(this.config.token, timestamp, nonce, encrypted),
+      TimeStamp: timestamp,
+      Nonce: nonce
+    });
+  }
+
+  findImporter(openId) {
+    return this.store.findOne('importers', i => i.wechatOpenId === openId || i.contactDetail === openId);
+  }
+
+  /**
+   * Stores an inbound user message. Returns the saved record, or null for events and for
+   * WeChat's retries of a push we already have.
+   */
+  receive(msg) {
+    if (!msg || !msg.FromUserName || msg.MsgType === 'event') return null;
+    const externalId = msg.MsgId ? String(msg.MsgId) : `${msg.FromUserName}-${msg.CreateTime}`;
+    if (this.store.findOne('messages', m => m.externalId === externalId && m.channel === 'WeChat')) return null;
+
+    let importer = this.findImporter(msg.FromUserName);
+    const isNewLead = !importer;
+    if (isNewLead) importer = createInboundImporter(this.store, { contact: msg.FromUserName, channel: 'WeChat' });
+
+    const saved = this.store.insert('messages', {
+      id: `wc-${externalId}`,
+      externalId,
+      importerId: importer.id,
+      from: msg.FromUserName,
+      content: extractContent(msg),
+      sender: 'importer',
+      channel: 'WeChat',
+      direction: 'inbound',
+      status: 'delivered',
+      timestamp: Number(msg.CreateTime) * 1000 || Date.now(),
+      updatedAt: Date.now()
+    });
+    if (isNewLead) this.events.broadcast('changed', { collection: 'importers', id: importer.id, importerId: importer.id });
+    this.events.broadcast('message', saved);
+    if (!isNewLead && this.scheduler) this.scheduler.stopForImporter(importer.id, 'Lead replied on WeChat');
+    return saved;
+  }
+
+  /**
+   * Resolves with content sent to `openId` within the passive window, or null.
+   */
+  awaitPassiveReply(openId) {
+    const previous = this.pendingReplies.get(openId);
+    if (previous) previous.resolve(null);
+
+    return new Promise(resolve => {
+      const entry = {
+        resolve: (content) => {
+          clearTimeout(entry.timer);
+          if (this.pendingReplies.get(openId) === entry) this.pendingReplies.delete(openId);
+          resolve(content);
+        }
+      };
+      entry.timer = setTimeout(() => entry.resolve(null), this.passiveWindowMs);
+      this.pendingReplies.set(openId, entry);
+    });
+  }
+
+  /**
+   * Handles one push. Resolves with the HTTP response body (passive reply XML or "success"),
+   * or null when the request is not from WeChat.
+   */
+  async handlePush(query, rawXml) {
+    const msg = this.openPush(query, rawXml);
+    if (!msg) return null;
+    if (!this.receive(msg)) return NO_REPLY;
+
+    const reply = await this.awaitPassiveReply(msg.FromUserName);
+    if (!reply) return NO_REPLY;
+    return this.sealReply({
+      ToUserName: msg.FromUserName,
+      FromUserName: msg.ToUserName,
+      CreateTime: Math.floor(Date.now() / 1000),
+      MsgType: 'text',
+      Content: reply
+    });
+  }
+}
+
+/**
+ * Official Account settings:
+ *   GET    /api/channels/wechat   status and saved settings, secrets masked
+ *   PUT    /api/channels/wechat   verify and save { appId, appSecret, token, encodingAESKey?, apiBaseUrl? }; masked secrets keep the saved ones
+ *   DELETE /api/channels/wechat
+ */
+function createWeChatRouter(wechatChannel) {
+  const router = express.Router();
+
+  router.get('/channels/wechat', (req, res) => res.json(wechatChannel.status()));
+
+  router.put('/channels/wechat', async (req, res) => {
+    try {
+      res.json(await wechatChannel.connect(req.body));
+    } catch (err) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  router.delete('/channels/wechat', (req, res) => {
+    wechatChannel.disconnect();
+    res.sendStatus(204);
+  });
+
+  return router;
+}
+
+/**
+ * Server URL configured in the Official Account console, mounted at /webhooks/wechat:
+ *   GET   URL verification (echostr)
+ *   POST  message push, XML body
+ */
+function createWeChatWebhookRouter(wechatChannel) {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    if (!req.query.signature || !req.query.timestamp || !req.query.nonce) return res.sendStatus(400);
+    if (!wechatChannel.checkSignature(req.query)) return res.sendStatus(403);
+    wechatChannel.logger.info('WeChat Webhook Verified');
+    res.send(req.query.echostr);
+  });
+
+  router.post('/', express.text({ type: ['text/xml', 'application/xml', 'text/plain'] }), async (req, res) => {
+    let body;
+    try {
+      body = await wechatChannel.handlePush(req.query, typeof req.body === 'string' ? req.body : '');
+    } catch (err) {
+      wechatChannel.logger.warn(`WeChat push could not be read: ${err.message}`);
+      return res.sendStatus(400);
+    }
+    if (body === null) {
+      wechatChannel.logger.warn('WeChat webhook rejected: invalid signature');
+      return res.sendStatus(403);
+    }
+    if (body === NO_REPLY) return res.type('text/plain').send(body);
+    res.type('application/xml').send(body);
+  });
+
+  return router;
+}
+
+module.exports = {
+  WeChatChannel,
+  WeChatCrypto,
+  createWeChatRouter,
+  createWeChatWebhookRouter,
+  wechatConfigFromEnv,
+  parseXml,
+  buildXml,
+  signature
+};
@@ -0,0 +1,336 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const express = require('express');
+const { findImporterByContact, createInboundImporter } = require('./repository');
+
+// Delivery receipts can arrive out of order (Meta retries, parallel webhooks),
+// so statuses only ever move forward. FAILED is terminal from any state.
+const STATUS_RANK = {
+  sending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3
+};
+
+const isStatusAdvance = (current, next) => {
+  if (!current) return true;
+  if (current === 'failed') return false;
+  if (next === 'failed') return true;
+  return (STATUS_RANK[next] ?? -1) > (STATUS_RANK[current] ?? -1);
+};
+
+/**
+ * Verifies the X-Hub-Signature-256 header against the raw request body. Anything but 64 hex
+ * digits is refused up front: it would decode to fewer bytes and make timingSafeEqual throw.
+ */
+const verifySignature = (rawBody, signatureHeader, appSecret) => {
+  if (!rawBody || !signatureHeader || !signatureHeader.startsWith('sha256=')) return false;
+
+  const received = signatureHeader.slice('sha256='.length);
+  if (!/^[0-9a-f]{64}$/i.test(received)) return false;
+
+  const expected = crypto.createHmac('sha256', appSecret).update(rawBody).digest();
+  return crypto.timingSafeEqual(Buffer.from(received, 'hex'), expected);
+};
+
+const extractContent = (msg) => {
+  switch (msg.type) {
+    case 'text': return msg.text?.body || '';
+    case 'button': return msg.button?.text || '';
+    case 'interactive':
+      return msg.interactive?.button_reply?.title || msg.interactive?.list_reply?.title || '';
+    case 'image':
+    case 'video':
+    case 'document':
+    case 'audio':
+      return msg[msg.type]?.caption || `[${msg.type}]`;
+    case 'location':
+      return `[location] ${msg.location?.latitude},${msg.location?.longitude}`;
+    default:
+      return `[${msg.type || 'unsupported'}]`;
+  }
+};
+
+const MEDIA_TYPES = new Set(['image', 'video', 'document', 'audio', 'sticker']);
+
+// Media arrive as an id to download through the Graph API (WhatsAppCloudTransport.downloadMedia)
+const extractMedia = (msg) => {
+  if (!MEDIA_TYPES.has(msg.type) || !msg[msg.type]?.id) return undefined;
+  const media = msg[msg.type];
+  return { id: media.id, mimeType: media.mime_type, fileName: media.filename, caption: media.caption };
+};
+
+/**
+ * Flattens the Meta `entry[].changes[].value` envelope into inbound messages and delivery receipts.
+ */
+const parseWebhook = (body) => {
+  const messages = [];
+  const statuses = [];
+
+  if (!body || body.object !== 'whatsapp_business_account') return { messages, statuses };
+
+  for (const entry of body.entry || []) {
+    for (const change of entry.changes || []) {
+      const value = change.value || {};
+      const contacts = value.contacts || [];
+
+      for (const msg of value.messages || []) {
+        const profile = contacts.find(c => c.wa_id === msg.from);
+        messages.push({
+          externalId: msg.id,
+          from: msg.from,
+          profileName: profile?.profile?.name,
+          phoneNumberId: value.metadata?.phone_number_id,
+          type: msg.type,
+          content: extractContent(msg),
+          media: extractMedia(msg),
+          timestamp: Number(msg.timestamp) * 1000 || Date.now()
+        });
+      }
+
+      for (const st of value.statuses || []) {
+        statuses.push({
+          externalId: st.id,
+          status: st.status,
+          recipient: st.recipient_id,
+          timestamp: Number(st.timestamp) * 1000 || Date.now(),
+          error: st.errors?.[0]?.title
+        });
+      }
+    }
+  }
+
+  return { messages, statuses };
+};
+
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_API_URL = 'https://graph.facebook.com/v19.0';
+
+// Approved templates, shared with the browser (services/whatsappTemplates.ts)
+const TEMPLATES = require('./whatsappTemplates.json');
+
+const findTemplate = (name) => TEMPLATES.find(t => t.name === name);
+
+/**
+ * Positional parameters for the API and the text the importer will see.
+ */
+const renderTemplate = (template, values) => {
+  const parameters = template.variables.map(variable => values[variable] || '-');
+  const preview = template.body.replace(/\{\{(\d+)\}\}/g, (match, index) => parameters[Number(index) - 1] ?? match);
+  return { parameters, preview };
+};
+
+/**
+ * The customer service window opens with each inbound WhatsApp message and lasts 24 hours.
+ */
+const isSessionOpen = (store, importerId, now = Date.now()) => {
+  const inbound = store.list('messages', m => m.importerId === importerId && m.channel === 'WhatsApp' && m.direction === 'inbound');
+  const lastInboundAt = inbound.reduce((latest, m) => Math.max(latest, m.timestamp || 0), 0);
+  return lastInboundAt > 0 && now < lastInboundAt + SESSION_WINDOW_MS;
+};
+
+/**
+ * Reads Cloud API credentials from the environment. Returns null when WHATSAPP_PHONE_NUMBER_ID is unset.
+ */
+const whatsappConfigFromEnv = (env) => {
+  if (!env.WHATSAPP_PHONE_NUMBER_ID) return null;
+  return {
+    phoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID,
+    accessToken: env.WHATSAPP_ACCESS_TOKEN,
+    apiBaseUrl: env.WHATSAPP_API_URL
+  };
+};
+
+/**
+ * OutboundService transport for the WhatsApp Cloud API (POST /{phone-number-id}/messages).
+ * Free text is refused outside the session window instead of letting Meta reject it.
+ */
+class WhatsAppCloudTransport {
+  constructor({ store, phoneNumberId, accessToken, apiBaseUrl, fetchImpl = globalThis.fetch }) {
+    this.store = store;
+    this.phoneNumberId = phoneNumberId;
+    this.accessToken = accessToken;
+    this.apiBaseUrl = (apiBaseUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+    this.fetch = fetchImpl;
+  }
+
+  async call(path, options = {}) {
+    const res = await this.fetch(`${this.apiBaseUrl}${path}`, {
+      ...options,
+      headers: { Authorization: `Bearer ${this.accessToken}`, ...options.headers }
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error?.message || `WhatsApp API responded ${res.status}`);
+    return data;
+  }
+
+  postMessage(body) {
+    return this.call(`/${this.phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messaging_product: 'whatsapp', ...body })
+    });
+  }
+
+  async uploadMedia(file) {
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('file', new Blob([await fs.promises.readFile(file.path)], { type: file.mimeType }), file.fileName);
+    const data = await this.call(`/${this.phoneNumberId}/media`, { method: 'POST', body: form });
+    return data.id;
+  }
+
+  /**
+   * Fetches an inbound media file: its metadata (a short-lived URL) first, then the bytes.
+   */
+  async downloadMedia(mediaId) {
+    const meta = await this.call(`/${encodeURIComponent(mediaId)}`);
+    const res = await this.fetch(meta.url, { headers: { Authorization: `Bearer ${this.accessToken}` } });
+    if (!res.ok) throw new Error(`WhatsApp media download responded ${res.status}`);
+    return { data: Buffer.from(await res.arrayBuffer()), mimeType: meta.mime_type };
+  }
+
+  /**
+   * One message per attachment; the text becomes the caption of the first one.
+   */
+  async sendAttachments(to, content, attachments) {
+    let externalId;
+    for (const [index, file] of attachments.entries()) {
+      const type = /^image\//.test(file.mimeType) ? 'image' : /^video\//.test(file.mimeType) ? 'video' : /^audio\//.test(file.mimeType) ? 'audio' : 'document';
+      const media = { id: await this.uploadMedia(file) };
+      const caption = index === 0 && content ? content : file.caption;
+      if (caption && type !== 'audio') media.caption = caption;
+      if (type === 'document') media.filename = file.fileName;
+      const data = await this.postMessage({ to, type, [type]: media });
+      externalId = externalId || data.messages?.[0]?.id;
+    }
+    return { externalId };
+  }
+
+  async send({ to, content, importerId, template, attachments }) {
+    const recipient = String(to).replace(/\D/g, '');
+    if (!template && importerId && !isSessionOpen(this.store, importerId)) {
+      throw new Error('Outside the 24-hour WhatsApp window: only an approved template can be sent');
+    }
+    if (attachments && attachments.length) return this.sendAttachments(recipient, content, attachments);
+
+    const body = { to: recipient };
+    if (template) {
+      body.type = 'template';
+      body.template = {
+        name: template.name,
+        language: { code: template.language },
+        components: [{ type: 'body', parameters: template.parameters.map(text => ({ type: 'text', text })) }]
+      };
+    } else {
+      body.type = 'text';
+      body.text = { body: content };
+    }
+    const data = await this.postMessage(body);
+    return { externalId: data.messages?.[0]?.id };
+  }
+}
+
+/**
+ * Meta's webhook: GET /webhooks/whatsapp answers the subscription handshake, POST receives
+ * messages and delivery receipts. Without an app secret every POST is refused, since anyone
+ * could otherwise post fake enquiries. The JSON parser must keep `req.rawBody` for the signature.
+ */
+function createWhatsAppWebhookRouter({ store, events, scheduler, appSecret, verifyToken, fetchMedia = async () => undefined, logger = console }) {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    const mode = req.query['hub.mode'];
+    const token = req.query['hub.verify_token'];
+    if (!mode || !token) return res.sendStatus(400);
+    if (mode !== 'subscribe' || token !== verifyToken) return res.sendStatus(403);
+    logger.info('WhatsApp webhook verified');
+    res.status(200).send(req.query['hub.challenge']);
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      if (!appSecret) {
+        logger.warn('WhatsApp webhook rejected: WHATSAPP_APP_SECRET is not configured');
+        return res.sendStatus(503);
+      }
+      if (!verifySignature(req.rawBody, req.get('X-Hub-Signature-256'), appSecret)) {
+        logger.warn('WhatsApp webhook rejected: invalid signature');
+        return res.sendStatus(401);
+      }
+
+      const { messages, statuses } = parseWebhook(req.body);
+
+      for (const msg of messages) {
+        // Meta retries deliveries it did not see acknowledged, so de-duplicate on the wamid
+        if (store.findOne('messages', m => m.externalId === msg.externalId)) continue;
+        const attachments = await fetchMedia(msg);
+        if (store.findOne('messages', m => m.externalId === msg.externalId)) continue;
+
+        let importer = findImporterByContact(store, msg.from);
+        const isNewLead = !importer;
+        if (isNewLead) {
+          // Unknown sender: a new enquiry. WhatsApp IDs are full international numbers without "+"
+          importer = createInboundImporter(store, { contact: `+${msg.from}`, channel: 'WhatsApp', profileName: msg.profileName });
+        }
+        const saved = store.insert('messages', {
+          ...msg,
+          media: undefined,
+          attachments,
+          id: `wa-${msg.externalId}`,
+          importerId: importer.id,
+          sender: 'importer',
+          channel: 'WhatsApp',
+          direction: 'inbound',
+          status: 'delivered',
+          updatedAt: Date.now()
+        });
+        if (isNewLead) events.broadcast('changed', { collection: 'importers', id: importer.id, importerId: importer.id });
+        events.broadcast('message', saved);
+
+        // A reply ends any running drip campaign for this lead
+        if (!isNewLead) scheduler.stopForImporter(importer.id, 'Lead replied on WhatsApp');
+      }
+
+      statuses.forEach(receipt => {
+        // Receipts for messages sent from another client have no lead to attach to
+        const record = store.findOne('messages', m => m.externalId === receipt.externalId);
+        if (!record || !isStatusAdvance(record.status, receipt.status)) return;
+
+        const updated = store.update('messages', record.id, {
+          status: receipt.status,
+          error: receipt.error,
+          updatedAt: Date.now()
+        });
+        events.broadcast('status', {
+          messageId: updated.id,
+          externalId: updated.externalId,
+          status: updated.status,
+          error: updated.error
+        });
+      });
+
+      res.sendStatus(200);
+    } catch (err) {
+      // Unhandled, a rejection here would take the whole server down
+      logger.error(`WhatsApp webhook failed: ${err.message}`);
+      if (!res.headersSent) res.sendStatus(500);
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  verifySignature,
+  parseWebhook,
+  isStatusAdvance,
+  SESSION_WINDOW_MS,
+  TEMPLATES,
+  findTemplate,
+  renderTemplate,
+  isSessionOpen,
+  whatsappConfigFromEnv,
+  WhatsAppCloudTransport,
+  createWhatsAppWebhookRouter
+};
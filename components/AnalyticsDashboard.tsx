@@ -1,37 +1,50 @@
 
-import React, { useMemo, useState } from 'react';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, AreaChart, Area, CartesianGrid, PieChart, Pie, Legend, LineChart, Line } from 'recharts';
-import { Importer, LeadStatus, ReportConfig, SalesForecast, StrategicInsight, TrainingModule, CoachingTip } from '../types';
-import { TrendingUp, Users, DollarSign, Sparkles, Settings, X, Heart, Activity, Zap, Download, FileText, ChevronDown, Brain, ArrowUpRight, AlertTriangle, Quote, GraduationCap, Lightbulb, UserCheck, ChevronRight } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, AreaChart, Area, CartesianGrid, PieChart, Pie, Legend, LineChart, Line, ComposedChart } from 'recharts';
+import { Importer, LeadStatus, ReportConfig, StrategicInsight, Campaign, TrainingModule, CoachingTip, Deal, ExchangeRate, TeamMember } from '../types';
+import { TrendingUp, Users, DollarSign, Sparkles, Settings, X, Heart, Activity, Zap, Download, FileText, ChevronDown, Brain, ArrowUpRight, AlertTriangle, Quote, GraduationCap, Lightbulb, UserCheck, ChevronRight, Hourglass } from 'lucide-react';
 import { AnalyticsService } from '../services/analyticsService';
-import { generateTrainingProgram } from '../services/geminiService';
+import { generateTrainingProgram, generateForecastNarrative } from '../services/geminiService';
+import { summarizePipeline, revenueByMonth, revenueByCountry } from '../services/dealService';
+import { formatMoney } from '../services/catalogService';
+import { forecastConversions, backtestForecast, fitTransitionModel } from '../services/forecastService';
+import { summarizeFunnel, compareCohorts, CohortDimension } from '../services/funnelService';
 
 interface AnalyticsDashboardProps {
   importers: Importer[];
-  forecastData: SalesForecast[] | null;
+  deals: Deal[];
+  exchangeRates: ExchangeRate[];
+  campaigns: Campaign[];
   reportConfig: ReportConfig;
   onDrillDown: (status: string) => void;
-  onGenerateForecast: () => void;
   onConfigure: () => void;
   onClose: () => void;
-  isForecasting: boolean;
+  canExport?: boolean;
+  team?: TeamMember[];
+  currentUserId?: string;
 }
 
 const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ 
     importers, 
-    forecastData, 
+    deals,
+    exchangeRates,
+    campaigns,
     reportConfig, 
     onDrillDown, 
-    onGenerateForecast,
     onConfigure,
     onClose,
-    isForecasting 
+    canExport = true,
+    team = [],
+    currentUserId
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'sentiment' | 'insights' | 'training'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'stages' | 'sentiment' | 'insights' | 'training'>('overview');
+  const [cohortDimension, setCohortDimension] = useState<CohortDimension>('country');
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [trainingModules, setTrainingModules] = useState<TrainingModule[]>([]);
   const [isGeneratingTraining, setIsGeneratingTraining] = useState(false);
   const [showManagerView, setShowManagerView] = useState(false); // Toggle for Team View
+  const [forecastNarrative, setForecastNarrative] = useState<string | null>(null);
+  const [isExplainingForecast, setIsExplainingForecast] = useState(false);
   
   // --- OVERVIEW DATA ---
   const funnelOrder = [
@@ -54,8 +67,30 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   }).filter(d => d.count > 0), [importers]);
 
   const activeLeads = importers.filter(i => ![LeadStatus.CLOSED, LeadStatus.COLD, LeadStatus.PENDING].includes(i.status)).length;
-  const qualifiedLeads = importers.filter(i => [LeadStatus.INTERESTED, LeadStatus.NEGOTIATION, LeadStatus.SAMPLE_SENT].includes(i.status)).length;
-  const projectedRevenue = qualifiedLeads * 15000; 
+
+  // --- REVENUE DATA ---
+  // Everything is reported in the base currency, each deal at the rate of its own date
+  const currency = reportConfig.baseCurrency;
+  const pipeline = useMemo(() => summarizePipeline(deals, importers, currency, exchangeRates), [deals, importers, currency, exchangeRates]);
+  const monthlyRevenue = useMemo(() => revenueByMonth(deals, currency, exchangeRates), [deals, currency, exchangeRates]);
+  const countryRevenue = useMemo(() => revenueByCountry(deals, importers, currency, exchangeRates), [deals, importers, currency, exchangeRates]);
+  const compactMoney = (amount: number) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 }).format(amount);
+
+  // --- FORECAST DATA ---
+  // Learned from the status moves in activity logs; the backtest replays the same method from 4 weeks ago
+  const forecastModel = useMemo(() => fitTransitionModel(importers), [importers]);
+  const forecastData = useMemo(() => forecastConversions(importers, { model: forecastModel }), [importers, forecastModel]);
+  const backtest = useMemo(() => backtestForecast(importers), [importers]);
+  const forecastTotal = forecastData.reduce((sum, week) => sum + week.predictedConversions, 0);
+  const weeksCovered = backtest.points.filter(p => p.actual >= p.lower && p.actual <= p.upper).length;
+
+  useEffect(() => setForecastNarrative(null), [importers]);
+
+  // --- STAGE DATA ---
+  const funnelSummary = useMemo(() => summarizeFunnel(importers), [importers]);
+  const cohorts = useMemo(() => compareCohorts(importers, cohortDimension, campaigns), [importers, cohortDimension, campaigns]);
+  const percent = (rate: number | null) => rate === null ? '—' : `${Math.round(rate * 100)}%`;
 
   // --- SENTIMENT DATA ---
   const sentimentTrendData = useMemo(() => {
@@ -81,8 +116,8 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   }, [importers]);
 
   const teamStats = useMemo(() => {
-      return AnalyticsService.getTeamStats();
-  }, []);
+      return AnalyticsService.getTeamStats(importers, team, currentUserId);
+  }, [importers, team, currentUserId]);
 
   const handleGenerateTraining = async () => {
       setIsGeneratingTraining(true);
@@ -91,6 +126,17 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
       setIsGeneratingTraining(false);
   };
 
+  const handleExplainForecast = async () => {
+      setIsExplainingForecast(true);
+      try {
+          setForecastNarrative(await generateForecastNarrative(forecastData, backtest));
+      } catch (error) {
+          setForecastNarrative('The explanation is unavailable right now. The forecast figures above are unaffected.');
+      } finally {
+          setIsExplainingForecast(false);
+      }
+  };
+
   return (
     <div className="flex flex-col h-full bg-slate-50/95 backdrop-blur-sm">
         {/* Header */}
@@ -98,6 +144,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
             <div className="flex items-center gap-2">
                 <h3 className="font-bold text-slate-800 flex items-center gap-2">
                     {activeTab === 'overview' ? <TrendingUp className="w-4 h-4 text-indigo-600" /> : 
+                     activeTab === 'stages' ? <Hourglass className="w-4 h-4 text-violet-600" /> :
                      activeTab === 'sentiment' ? <Heart className="w-4 h-4 text-pink-600" /> :
                      activeTab === 'training' ? <GraduationCap className="w-4 h-4 text-green-600" /> :
                      <Brain className="w-4 h-4 text-amber-600" />}
@@ -110,6 +157,12 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                     >
                         Funnel
                     </button>
+                    <button 
+                        onClick={() => setActiveTab('stages')}
+                        className={`text-[10px] px-2 py-1 rounded-md font-medium transition-all ${activeTab === 'stages' ? 'bg-white text-violet-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                        Stages
+                    </button>
                     <button 
                         onClick={() => setActiveTab('sentiment')}
                         className={`text-[10px] px-2 py-1 rounded-md font-medium transition-all ${activeTab === 'sentiment' ? 'bg-white text-pink-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
@@ -132,7 +185,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
             </div>
             <div className="flex items-center gap-1">
                 {/* Export Dropdown */}
-                <div className="relative">
+                {canExport && <div className="relative">
                     <button 
                         onClick={() => setShowExportMenu(!showExportMenu)}
                         className="flex items-center gap-1 p-1.5 hover:bg-slate-200 rounded text-slate-500 transition-colors mr-1" 
@@ -161,7 +214,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                             </button>
                         </div>
                     )}
-                </div>
+                </div>}
 
                 <button onClick={onConfigure} className="p-1.5 hover:bg-slate-200 rounded text-slate-400 transition-colors" title="Configure Report">
                     <Settings className="w-4 h-4" />
@@ -197,13 +250,72 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                         {reportConfig.kpis.revenue && (
                             <div className="p-3 bg-white rounded-lg border border-slate-200 shadow-sm">
                                 <p className="text-xs text-slate-500 font-medium flex items-center gap-1">
-                                    <DollarSign className="w-3 h-3" /> Value
+                                    <DollarSign className="w-3 h-3" /> Pipeline
+                                </p>
+                                <p className="text-xl font-bold text-slate-800 mt-1">{compactMoney(pipeline.pipeline)}</p>
+                                <p className="text-[10px] text-slate-400">{pipeline.openCount} open deals</p>
+                            </div>
+                        )}
+                        {reportConfig.kpis.revenue && (
+                            <div className="p-3 bg-white rounded-lg border border-slate-200 shadow-sm">
+                                <p className="text-xs text-slate-500 font-medium flex items-center gap-1">
+                                    <TrendingUp className="w-3 h-3" /> Weighted
                                 </p>
-                                <p className="text-xl font-bold text-green-600 mt-1">${(projectedRevenue / 1000).toFixed(1)}k</p>
+                                <p className="text-xl font-bold text-green-600 mt-1">{compactMoney(pipeline.weighted)}</p>
+                                <p className="text-[10px] text-slate-400">Won {compactMoney(pipeline.won)}</p>
                             </div>
                         )}
                     </div>
 
+                    {/* Revenue */}
+                    {reportConfig.kpis.revenue && deals.length > 0 && (
+                        <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                            <div className="flex justify-between items-center mb-2">
+                                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Won / Lost Revenue</h4>
+                                <span className="text-[10px] text-slate-400">{currency}</span>
+                            </div>
+                            {pipeline.unconverted > 0 && (
+                                <p className="text-[10px] text-amber-600 mb-2 flex items-center gap-1">
+                                    <AlertTriangle className="w-3 h-3" /> {pipeline.unconverted} deal{pipeline.unconverted > 1 ? 's' : ''} left out: no exchange rate into {currency} for {pipeline.unconverted > 1 ? 'their dates' : 'its date'}
+                                </p>
+                            )}
+                            <div className="h-36 w-full">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={monthlyRevenue} margin={{ top: 5, right: 5, left: -10, bottom: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                                        <XAxis dataKey="label" tick={{fontSize: 9}} axisLine={false} tickLine={false} />
+                                        <YAxis tick={{fontSize: 9}} axisLine={false} tickLine={false} tickFormatter={compactMoney} />
+                                        <Tooltip formatter={(value: number) => formatMoney(value, currency)} contentStyle={{fontSize: '11px', borderRadius: '8px'}} />
+                                        <Bar dataKey="won" name="Won" fill="#16a34a" radius={[4, 4, 0, 0]} />
+                                        <Bar dataKey="lost" name="Lost" fill="#cbd5e1" radius={[4, 4, 0, 0]} />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                            <table className="w-full text-[11px] mt-3">
+                                <thead>
+                                    <tr className="text-slate-400 text-left">
+                                        <th className="font-medium pb-1">Country</th>
+                                        <th className="font-medium pb-1 text-right">Pipeline</th>
+                                        <th className="font-medium pb-1 text-right">Weighted</th>
+                                        <th className="font-medium pb-1 text-right">Won</th>
+                                        <th className="font-medium pb-1 text-right">Lost</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {countryRevenue.map(row => (
+                                        <tr key={row.country} className="border-t border-slate-100 text-slate-700">
+                                            <td className="py-1">{row.country}</td>
+                                            <td className="py-1 text-right">{compactMoney(row.pipeline)}</td>
+                                            <td className="py-1 text-right">{compactMoney(row.weighted)}</td>
+                                            <td className="py-1 text-right text-green-600">{compactMoney(row.won)}</td>
+                                            <td className="py-1 text-right text-slate-400">{compactMoney(row.lost)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
                     {/* Sales Funnel */}
                     <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
                         <div className="flex justify-between items-center mb-2">
@@ -240,49 +352,119 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                         </div>
                     </div>
 
-                    {/* AI Forecasting */}
+                    {/* Conversion Forecast */}
                     <div className="bg-indigo-50/50 p-3 rounded-lg border border-indigo-100">
-                        <div className="flex justify-between items-center mb-3">
+                        <div className="flex justify-between items-center mb-1">
                             <h4 className="text-xs font-bold text-indigo-600 uppercase tracking-wider flex items-center gap-1">
-                                <Sparkles className="w-3 h-3" /> AI Forecast
+                                <TrendingUp className="w-3 h-3" /> Conversion Forecast
                             </h4>
-                            {!forecastData && (
-                                <button 
-                                    onClick={onGenerateForecast}
-                                    disabled={isForecasting}
-                                    className="text-[10px] bg-white hover:bg-indigo-50 text-indigo-600 px-2 py-1 rounded border border-indigo-200 transition-colors disabled:opacity-50 shadow-sm"
-                                >
-                                    {isForecasting ? '...' : 'Predict'}
-                                </button>
-                            )}
+                            <button 
+                                onClick={handleExplainForecast}
+                                disabled={isExplainingForecast}
+                                className="text-[10px] bg-white hover:bg-indigo-50 text-indigo-600 px-2 py-1 rounded border border-indigo-200 transition-colors disabled:opacity-50 shadow-sm flex items-center gap-1"
+                            >
+                                <Sparkles className="w-3 h-3" /> {isExplainingForecast ? '...' : 'Explain'}
+                            </button>
                         </div>
-                        
-                        {forecastData ? (
-                            <div className="h-32 w-full">
-                                <ResponsiveContainer width="100%" height="100%">
-                                    <AreaChart data={forecastData}>
-                                        <defs>
-                                            <linearGradient id="colorPred" x1="0" y1="0" x2="0" y2="1">
-                                                <stop offset="5%" stopColor="#6366f1" stopOpacity={0.3}/>
-                                                <stop offset="95%" stopColor="#6366f1" stopOpacity={0}/>
-                                            </linearGradient>
-                                        </defs>
-                                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-                                        <XAxis dataKey="date" tick={{fontSize: 9}} axisLine={false} tickLine={false} />
-                                        <YAxis hide />
-                                        <Tooltip contentStyle={{fontSize: '10px'}} />
-                                        <Area type="monotone" dataKey="predictedConversions" stroke="#6366f1" strokeWidth={2} fillOpacity={1} fill="url(#colorPred)" />
-                                    </AreaChart>
-                                </ResponsiveContainer>
-                                <p className="text-[10px] text-center text-slate-400 mt-1">Conversion trend (Next 4 wks)</p>
-                            </div>
-                        ) : (
-                            <div className="h-20 flex items-center justify-center text-slate-400 text-xs italic">
-                                Click predict to see trends
-                            </div>
+                        <p className="text-xs text-slate-600 mb-2">
+                            <span className="font-bold text-slate-800">{forecastTotal.toFixed(1)}</span> expected conversions in the next {forecastData.length} weeks
+                        </p>
+
+                        <div className="h-32 w-full">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <ComposedChart data={forecastData.map(week => ({ ...week, range: [week.lower, week.upper] }))}>
+                                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                                    <XAxis dataKey="date" tick={{fontSize: 9}} axisLine={false} tickLine={false} />
+                                    <YAxis hide />
+                                    <Tooltip contentStyle={{fontSize: '10px'}} />
+                                    <Area type="monotone" dataKey="range" name={`${Math.round((forecastData[0]?.confidence || 0) * 100)}% interval`} stroke="none" fill="#6366f1" fillOpacity={0.15} />
+                                    <Line type="monotone" dataKey="predictedConversions" name="Expected" stroke="#6366f1" strokeWidth={2} dot={{ r: 2 }} />
+                                </ComposedChart>
+                            </ResponsiveContainer>
+                        </div>
+                        <p className="text-[10px] text-slate-400 mt-1">
+                            Based on {forecastModel.transitions} recorded status change{forecastModel.transitions === 1 ? '' : 's'} and time spent in each stage.
+                        </p>
+                        {backtest.leads > 0 && (
+                            <p className="text-[10px] text-slate-400">
+                                Backtest (last {backtest.points.length} wks): predicted {backtest.points.reduce((sum, p) => sum + p.predictedConversions, 0).toFixed(1)}, actual {backtest.points.reduce((sum, p) => sum + p.actual, 0)}, mean error {backtest.meanAbsoluteError}/wk, {weeksCovered} of {backtest.points.length} weeks inside the interval.
+                            </p>
+                        )}
+                        {forecastNarrative && (
+                            <p className="text-xs text-slate-600 mt-2 p-2 bg-white rounded border border-indigo-100">{forecastNarrative}</p>
                         )}
                     </div>
                 </>
+            ) : activeTab === 'stages' ? (
+                <>
+                    {/* STAGE CONVERSION & VELOCITY */}
+                    <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Stage Conversion</h4>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-[10px] text-slate-400 text-left">
+                                    <th className="font-medium pb-1">Stage</th>
+                                    <th className="font-medium pb-1 text-right">Reached</th>
+                                    <th className="font-medium pb-1 text-right">To next</th>
+                                    <th className="font-medium pb-1 text-right">Went cold</th>
+                                    <th className="font-medium pb-1 text-right">Median days</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {funnelSummary.stages.map(stage => (
+                                    <tr key={stage.stage} onClick={() => onDrillDown(stage.stage)} className="border-t border-slate-100 text-slate-700 cursor-pointer hover:bg-slate-50">
+                                        <td className="py-1.5 font-medium">{stage.stage} <span className="text-slate-400 font-normal">({stage.current} now)</span></td>
+                                        <td className="py-1.5 text-right">{stage.reached}</td>
+                                        <td className="py-1.5 text-right">{percent(stage.conversionRate)}</td>
+                                        <td className={`py-1.5 text-right ${stage.lost > 0 ? 'text-red-500' : 'text-slate-400'}`}>{stage.lost}</td>
+                                        <td className="py-1.5 text-right">{stage.medianDays ?? '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-[10px] text-slate-400 mt-2">
+                            {funnelSummary.transitions} status changes: {funnelSummary.byActor.ai} by AI analysis, {funnelSummary.byActor.user} by users, {funnelSummary.byActor.campaign} by campaigns.
+                        </p>
+                    </div>
+
+                    {/* COHORT COMPARISON */}
+                    <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
+                        <div className="flex justify-between items-center mb-2">
+                            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Cohorts</h4>
+                            <select value={cohortDimension} onChange={(e) => setCohortDimension(e.target.value as CohortDimension)} aria-label="Compare cohorts by" className="text-[10px] border border-slate-200 rounded p-1 bg-white">
+                                <option value="country">By country</option>
+                                <option value="channel">By channel</option>
+                                <option value="campaign">By campaign</option>
+                            </select>
+                        </div>
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-[10px] text-slate-400 text-left">
+                                    <th className="font-medium pb-1">Cohort</th>
+                                    <th className="font-medium pb-1 text-right">Leads</th>
+                                    <th className="font-medium pb-1 text-right">Engaged</th>
+                                    <th className="font-medium pb-1 text-right">Negotiation</th>
+                                    <th className="font-medium pb-1 text-right">Won</th>
+                                    <th className="font-medium pb-1 text-right">Lost</th>
+                                    <th className="font-medium pb-1 text-right">Days to win</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {cohorts.map(row => (
+                                    <tr key={row.cohort} className="border-t border-slate-100 text-slate-700">
+                                        <td className="py-1.5 truncate max-w-[8rem]" title={row.cohort}>{row.cohort}</td>
+                                        <td className="py-1.5 text-right">{row.leads}</td>
+                                        <td className="py-1.5 text-right">{percent(row.engagedRate)}</td>
+                                        <td className="py-1.5 text-right">{percent(row.negotiationRate)}</td>
+                                        <td className="py-1.5 text-right text-green-600">{percent(row.wonRate)}</td>
+                                        <td className="py-1.5 text-right text-red-500">{percent(row.lostRate)}</td>
+                                        <td className="py-1.5 text-right">{row.medianDaysToWin ?? '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
             ) : activeTab === 'sentiment' ? (
                 <>
                     {/* SENTIMENT TREND */}
@@ -454,13 +636,16 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
                                        </tr>
                                    </thead>
                                    <tbody className="divide-y divide-slate-100">
-                                       {teamStats.map((stat, i) => (
-                                           <tr key={i} className="hover:bg-white transition-colors">
+                                       {teamStats.length === 0 && (
+                                           <tr><td colSpan={4} className="py-2 text-slate-400 italic">No team members yet.</td></tr>
+                                       )}
+                                       {teamStats.map(stat => (
+                                           <tr key={stat.ownerId ?? 'unassigned'} className="hover:bg-white transition-colors">
                                                <td className="py-2 font-medium text-slate-700">{stat.name}</td>
                                                <td className="py-2 text-slate-500">{stat.leads}</td>
                                                <td className="py-2">
                                                    <div className="flex items-center gap-1">
-                                                       <span className={`font-bold ${stat.satisfaction > 80 ? 'text-green-600' : stat.satisfaction < 70 ? 'text-red-500' : 'text-amber-600'}`}>{stat.satisfaction}</span>
+                                                       {stat.leads === 0 ? <span className="text-slate-400">–</span> : <span className={`font-bold ${stat.satisfaction > 80 ? 'text-green-600' : stat.satisfaction < 70 ? 'text-red-500' : 'text-amber-600'}`}>{stat.satisfaction}</span>}
                                                    </div>
                                                </td>
                                                <td className="py-2 text-slate-600">{stat.conversion}%</td>
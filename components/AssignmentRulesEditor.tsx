@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown, Route, AlertCircle } from 'lucide-react';
+import { AssignmentRule, TeamMember } from '../types';
+import { describeRule, ownerName } from '../services/assignmentService';
+
+interface AssignmentRulesEditorProps {
+  rules: AssignmentRule[];
+  onChange: (rules: AssignmentRule[]) => void;
+  team: TeamMember[];
+  readOnly?: boolean;
+}
+
+const emptyRule = (): Omit<AssignmentRule, 'id'> => ({ match: 'country', value: '', ownerIds: [], nextIndex: 0 });
+
+const AssignmentRulesEditor: React.FC<AssignmentRulesEditorProps> = ({ rules, onChange, team, readOnly = false }) => {
+  const [draft, setDraft] = useState(emptyRule());
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleOwner = (id: string) =>
+    setDraft({ ...draft, ownerIds: draft.ownerIds.includes(id) ? draft.ownerIds.filter(o => o !== id) : [...draft.ownerIds, id] });
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    if (draft.match !== 'any' && !draft.value.trim()) return setError(`Enter the ${draft.match} this rule matches`);
+    if (draft.ownerIds.length === 0) return setError('Pick at least one owner');
+    setError(null);
+    onChange([...rules, { ...draft, id: `rule-${Date.now()}`, value: draft.match === 'any' ? '' : draft.value.trim() }]);
+    setDraft(emptyRule());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Route className="w-4 h-4" /> Lead Assignment</h3>
+        <p className="text-xs text-slate-500">Imported and new inbound leads go to the owners of the first matching rule, taking turns when a rule has several.</p>
+      </div>
+
+      {rules.length === 0 && <p className="text-xs text-slate-400 italic">No rules yet: new leads stay unassigned.</p>}
+      <ol className="space-y-2">
+        {rules.map((rule, index) => (
+          <li key={rule.id} className="flex items-center gap-3 p-3 border border-slate-200 rounded-lg text-sm">
+            <span className="text-xs font-bold text-slate-400">{index + 1}</span>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-slate-800">{describeRule(rule)}</p>
+              <p className="text-xs text-slate-500 truncate">
+                {rule.ownerIds.map(id => ownerName(team, id)).join(', ')}{rule.ownerIds.length > 1 && ' (round-robin)'}
+              </p>
+            </div>
+            {!readOnly && (
+              <div className="flex items-center gap-1 text-slate-400">
+                <button onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move rule up" className="p-1 hover:text-slate-700 disabled:opacity-30"><ArrowUp className="w-3.5 h-3.5" /></button>
+                <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} aria-label="Move rule down" className="p-1 hover:text-slate-700 disabled:opacity-30"><ArrowDown className="w-3.5 h-3.5" /></button>
+                <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} aria-label="Delete rule" className="p-1 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {!readOnly && (
+        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+          <div className="flex gap-2">
+            <select value={draft.match} onChange={(e) => setDraft({ ...draft, match: e.target.value as AssignmentRule['match'] })} aria-label="Rule matches on" className="p-1.5 text-sm border border-slate-300 rounded">
+              <option value="country">Country is</option>
+              <option value="product">Products include</option>
+              <option value="any">Any lead</option>
+            </select>
+            {draft.match !== 'any' && (
+              <input value={draft.value} onChange={(e) => setDraft({ ...draft, value: e.target.value })} placeholder={draft.match === 'country' ? 'Germany' : 'Basmati'} aria-label="Rule value" className="flex-1 p-1.5 text-sm border border-slate-300 rounded" />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {team.map(member => (
+              <label key={member.id} className="flex items-center gap-1 text-xs text-slate-700">
+                <input type="checkbox" checked={draft.ownerIds.includes(member.id)} onChange={() => toggleOwner(member.id)} /> {member.name}
+              </label>
+            ))}
+          </div>
+          <button onClick={handleAdd} className="flex items-center gap-1 text-xs font-bold bg-indigo-600 text-white px-3 py-1.5 rounded-lg hover:bg-indigo-700">
+            <Plus className="w-3 h-3" /> Add Rule
+          </button>
+          {error && <p className="flex items-center gap-1 text-xs text-red-600"><AlertCircle className="w-3 h-3" /> {error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentRulesEditor;
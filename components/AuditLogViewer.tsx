@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollText, Download, ShieldCheck, ShieldAlert, AlertCircle } from 'lucide-react';
+import { AuditEntry, AuditIntegrity } from '../types';
+import { getAuditLog, auditLogToCsv, logSecurityEvent, AuditFilter } from '../services/securityService';
+import { AnalyticsService } from '../services/analyticsService';
+
+// Server-recorded events (backend/auth.js, backend/audit.js) followed by browser-reported ones
+const EVENT_TYPES = [
+  'LOGIN_SUCCESS', 'LOGIN_FAILED', 'LOGOUT', 'ADMIN_SETUP', 'USER_CREATED', 'USER_DELETED', 'ROLE_CHANGED',
+  'ROLE_CREATED', 'ROLE_UPDATED', 'ROLE_DELETED',
+  'PASSWORD_RESET', 'TOTP_ENABLED', 'TOTP_DISABLED', 'SESSION_REVOKED', 'MESSAGE_SENT', 'LEAD_DELETED',
+  'SESSION_RESTORE', 'SESSION_LOCK', 'SESSION_UNLOCK', 'LEAD_MERGE', 'DATA_EXPORT', 'BACKUP_CREATED',
+  'DATA_RESTORE', 'SETTINGS_CHANGED'
+];
+
+const MAX_ROWS = 500;
+
+// <input type="date"> value to the start or end of that day, local time
+const dayBoundary = (value: string, end: boolean) => value ? new Date(`${value}T${end ? '23:59:59.999' : '00:00:00'}`).getTime() : undefined;
+
+/**
+ * Admin-only view of the server's hash-chained audit log.
+ */
+const AuditLogViewer: React.FC = () => {
+  const [type, setType] = useState('');
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [integrity, setIntegrity] = useState<AuditIntegrity | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filter: AuditFilter = { type, q: query.trim(), from: dayBoundary(fromDate, false), to: dayBoundary(toDate, true) };
+
+  useEffect(() => {
+    // Debounced so typing in the search box doesn't fire a request per keystroke
+    const timer = setTimeout(() => {
+      getAuditLog(filter)
+        .then(result => { setEntries(result.entries); setIntegrity(result.integrity); setError(null); })
+        .catch(err => setError(err.message || 'Unable to load the audit log'));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [type, query, fromDate, toDate]);
+
+  const handleExport = () => {
+    AnalyticsService.triggerDownload(`GlobalReach_Audit_${new Date().toISOString().split('T')[0]}.csv`, auditLogToCsv(entries));
+    logSecurityEvent('DATA_EXPORT', `Audit log CSV (${entries.length} entries)`);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2"><ScrollText className="w-4 h-4" /> Audit Log</h3>
+        <button onClick={handleExport} disabled={entries.length === 0} className="flex items-center gap-1 text-xs font-bold border border-slate-300 text-slate-600 px-3 py-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-50">
+          <Download className="w-3 h-3" /> Export CSV
+        </button>
+      </div>
+
+      {integrity && (integrity.valid ? (
+        <p className="flex items-center gap-2 p-2 text-xs text-green-700 bg-green-50 border border-green-200 rounded-lg">
+          <ShieldCheck className="w-4 h-4" /> Hash chain verified across all {integrity.checked} entries.
+        </p>
+      ) : (
+        <p className="flex items-center gap-2 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg">
+          <ShieldAlert className="w-4 h-4" /> Chain broken at entry #{integrity.brokenAt}: that entry or one before it was altered or removed.
+        </p>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value)} aria-label="Event type" className="p-1.5 text-sm border border-slate-300 rounded">
+          <option value="">All events</option>
+          {EVENT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search user, details, target" aria-label="Search audit log" className="flex-1 min-w-40 p-1.5 text-sm border border-slate-300 rounded" />
+        <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} aria-label="From date" className="p-1.5 text-sm border border-slate-300 rounded" />
+        <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} aria-label="To date" className="p-1.5 text-sm border border-slate-300 rounded" />
+      </div>
+
+      {error && <p className="flex items-center gap-1 text-xs text-red-600"><AlertCircle className="w-3 h-3" /> {error}</p>}
+
+      <div className="max-h-96 overflow-y-auto border border-slate-200 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 text-slate-500 sticky top-0">
+            <tr>
+              <th className="text-left p-2">Time</th>
+              <th className="text-left p-2">Event</th>
+              <th className="text-left p-2">User</th>
+              <th className="text-left p-2">Details</th>
+              <th className="text-left p-2">IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.slice(0, MAX_ROWS).map(entry => (
+              <tr key={entry.id} className={`border-t border-slate-100 ${integrity?.brokenAt === entry.seq ? 'bg-red-50' : ''}`}>
+                <td className="p-2 whitespace-nowrap text-slate-500">{new Date(entry.at).toLocaleString()}</td>
+                <td className="p-2 font-mono text-slate-700">{entry.type}</td>
+                <td className="p-2 text-slate-700">{entry.actorName}</td>
+                <td className="p-2 text-slate-600">{entry.details}</td>
+                <td className="p-2 text-slate-400">{entry.ip}</td>
+              </tr>
+            ))}
+            {entries.length === 0 && (
+              <tr><td colSpan={5} className="p-4 text-center text-slate-400">No entries match these filters.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {entries.length > MAX_ROWS && <p className="text-xs text-slate-400">Showing the newest {MAX_ROWS} of {entries.length} entries. Export CSV for the full list.</p>}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
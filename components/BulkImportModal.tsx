@@ -1,76 +1,158 @@
-import React, { useState } from 'react';
-import { X, Upload, AlertTriangle, CheckCircle, FileText } from 'lucide-react';
-import { Importer, LeadStatus, Channel } from '../types';
-import { getInitialValidationState, validateContactFormat } from '../services/validationService';
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Upload, AlertTriangle, CheckCircle, FileText, Save, Copy } from 'lucide-react';
+import { Importer } from '../types';
+import { PlatformService } from '../services/platformService';
+import {
+  IMPORT_FIELDS, ColumnMapping, MappingPreset, ParsedSheet, ImportField,
+  parseDelimited, detectDelimiter, toSheet, guessMapping, applyPreset, toPreset,
+  missingRequiredFields, buildImporters, readImportFile
+} from '../services/importParser';
+import { DuplicateMatch, ImportResolution, findDuplicate, resolveImport } from '../services/dedupeService';
 
 interface BulkImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (newImporters: Importer[]) => void;
+  existingImporters: Importer[];
+  /** New leads, plus existing leads that had duplicate rows merged into them */
+  onImport: (newImporters: Importer[], mergedImporters: Importer[]) => void;
 }
 
-const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onImport }) => {
+const DUPLICATE_REASON_LABEL: Record<DuplicateMatch['reason'], string> = {
+  phone: 'same phone',
+  email: 'same email',
+  company: 'similar company'
+};
+
+const PRESETS_CONFIG_KEY = 'importMappingPresets';
+
+const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, existingImporters, onImport }) => {
   const [csvText, setCsvText] = useState('');
+  const [rawRows, setRawRows] = useState<string[][]>([]);
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [presets, setPresets] = useState<MappingPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [previewData, setPreviewData] = useState<Importer[]>([]);
-  const [step, setStep] = useState<'input' | 'preview'>('input');
+  const [duplicates, setDuplicates] = useState<(DuplicateMatch | null)[]>([]);
+  const [resolutions, setResolutions] = useState<ImportResolution[]>([]);
+  const [step, setStep] = useState<'input' | 'mapping' | 'preview'>('input');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    PlatformService.getAppConfig(PRESETS_CONFIG_KEY, '[]').then((stored: string) => {
+      try {
+        setPresets(JSON.parse(stored));
+      } catch (e) {
+        setPresets([]);
+      }
+    });
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
-  const parseCSV = () => {
-    // Simple CSV parser: Name,Company,Country,Contact,Product,Quantity,Price
-    const lines = csvText.split('\n').filter(line => line.trim().length > 0);
-    const parsed: Importer[] = lines.map((line, index) => {
-      // Handle potential quotes in CSV in a basic way, or just split by comma
-      const cols = line.split(',').map(c => c.trim());
-      
-      // Safety check for columns
-      const name = cols[0] || `Unknown Importer ${index}`;
-      const companyName = cols[1] || 'Unknown Co';
-      const country = cols[2] || 'Unknown';
-      const contactDetail = cols[3] || '';
-      const productsImported = cols[4] || 'General Goods';
-      const quantity = cols[5] || '-';
-      const priceRange = cols[6] || '-';
-
-      const { channel } = validateContactFormat(contactDetail);
-      const validation = getInitialValidationState(contactDetail);
-
-      return {
-        id: `imported-${Date.now()}-${index}`,
-        name,
-        companyName,
-        country,
-        contactDetail,
-        productsImported,
-        quantity,
-        priceRange,
-        status: LeadStatus.PENDING,
-        chatHistory: [],
-        activityLog: [{
-          id: `log-init-${index}`,
-          timestamp: Date.now(),
-          type: 'system',
-          description: 'Lead imported via Bulk CSV'
-        }],
-        preferredChannel: channel,
-        validation
-      };
-    });
+  const startMapping = (rows: string[][]) => {
+    if (rows.length === 0) {
+      setError('No rows found in the data.');
+      return;
+    }
+    const parsed = toSheet(rows);
+    setRawRows(rows);
+    setSheet(parsed);
+    setMapping(guessMapping(parsed));
+    setError(null);
+    setStep('mapping');
+  };
+
+  const analyzeText = () => {
+    setFileName(null);
+    startMapping(parseDelimited(csvText, detectDelimiter(csvText)));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const rows = await readImportFile(file);
+      setFileName(file.name);
+      startMapping(rows);
+    } catch (err: any) {
+      console.error('Import file could not be read', err);
+      setError(`Could not read ${file.name}: ${err.message || 'unsupported format'}`);
+    }
+  };
+
+  const toggleHeader = (hasHeader: boolean) => {
+    const parsed = toSheet(rawRows, hasHeader);
+    setSheet(parsed);
+    setMapping(guessMapping(parsed));
+  };
+
+  const updateField = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
 
-    setPreviewData(parsed);
+  const persistPresets = (next: MappingPreset[]) => {
+    setPresets(next);
+    PlatformService.setAppConfig(PRESETS_CONFIG_KEY, JSON.stringify(next));
+  };
+
+  const savePreset = () => {
+    if (!sheet || !mapping || !presetName.trim()) return;
+    const preset = toPreset(presetName.trim(), mapping, sheet);
+    persistPresets([...presets.filter(p => p.name !== preset.name), preset]);
+    setPresetName('');
+  };
+
+  const loadPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset && sheet) setMapping(applyPreset(preset, sheet));
+  };
+
+  const buildPreview = () => {
+    if (!sheet || !mapping) return;
+    const leads = buildImporters(sheet, mapping);
+    // Earlier rows of the same file count as existing, so a list with repeats collapses too
+    const matches = leads.map((lead, index) => findDuplicate(lead, [...existingImporters, ...leads.slice(0, index)]));
+    setPreviewData(leads);
+    setDuplicates(matches);
+    setResolutions(matches.map(m => (m ? 'merge' : 'create')));
     setStep('preview');
   };
 
-  const handleImport = () => {
-    onImport(previewData);
+  const reset = () => {
     setCsvText('');
+    setRawRows([]);
+    setSheet(null);
+    setMapping(null);
+    setFileName(null);
+    setError(null);
     setPreviewData([]);
+    setDuplicates([]);
+    setResolutions([]);
     setStep('input');
+  };
+
+  const setResolution = (index: number, resolution: ImportResolution) => {
+    setResolutions(prev => prev.map((r, i) => (i === index ? resolution : r)));
+  };
+
+  const handleImport = () => {
+    const { created, updated } = resolveImport(existingImporters, previewData, duplicates, resolutions);
+    onImport(created, updated);
+    reset();
     onClose();
   };
 
+  const missingFields = mapping ? missingRequiredFields(mapping) : [];
   const validCount = previewData.filter(i => i.validation.isValid).length;
   const invalidCount = previewData.length - validCount;
+  const duplicateCount = duplicates.filter(Boolean).length;
+  const importCount = resolutions.filter(r => r !== 'skip').length;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -83,7 +165,7 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onIm
               <Upload className="w-5 h-5 text-indigo-600" />
               Bulk Lead Import
             </h2>
-            <p className="text-sm text-slate-500">Import leads from Excel/CSV</p>
+            <p className="text-sm text-slate-500">Import leads from Excel, CSV or TSV{fileName ? ` · ${fileName}` : ''}</p>
           </div>
           <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
             <X className="w-5 h-5 text-slate-500" />
@@ -92,19 +174,122 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onIm
 
         {/* Content */}
         <div className="p-6 overflow-y-auto flex-1">
-          {step === 'input' ? (
+          {error && (
+            <div className="mb-4 flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-100 p-3 rounded-lg">
+              <AlertTriangle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+          {step === 'input' && (
             <div className="space-y-4">
-              <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 text-sm text-blue-800">
-                <strong>Format:</strong> Name, Company, Country, Contact, Product, Quantity, Price
+              <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 text-sm text-blue-800 flex justify-between items-center gap-4">
+                <span>
+                  Upload a customs/trade export (<strong>.xlsx, .csv, .tsv</strong>) or paste rows below. Columns are mapped in the next step.
+                </span>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="shrink-0 flex items-center gap-2 px-3 py-1.5 bg-white border border-blue-200 rounded-lg text-blue-700 hover:bg-blue-100 transition-colors"
+                >
+                  <FileText className="w-4 h-4" /> Choose File
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.tsv,.txt,.xlsx,.xls"
+                  onChange={handleFile}
+                  className="hidden"
+                />
               </div>
               <textarea
                 value={csvText}
                 onChange={(e) => setCsvText(e.target.value)}
-                placeholder="David Chen, Tok Inc, New Zealand, +64211234567, Corn Poha, 10 NOS, 7.50 USD..."
+                placeholder={'Name,Company,Country,Contact,Product,Quantity,Price\nDavid Chen,"Tok Inc, Ltd",New Zealand,+64211234567,Corn Poha,10 NOS,7.50 USD'}
                 className="w-full h-64 p-4 border border-slate-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
               />
             </div>
-          ) : (
+          )}
+          {step === 'mapping' && sheet && mapping && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={sheet.hasHeader}
+                    onChange={(e) => toggleHeader(e.target.checked)}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  First row is a header
+                </label>
+                <span className="text-xs text-slate-500">{sheet.rows.length} data rows · {sheet.headers.length} columns</span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                <select
+                  value=""
+                  onChange={(e) => loadPreset(e.target.value)}
+                  disabled={presets.length === 0}
+                  className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg bg-white disabled:opacity-50"
+                >
+                  <option value="">{presets.length === 0 ? 'No saved presets' : 'Apply preset...'}</option>
+                  {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="Preset name"
+                  className="flex-1 min-w-[140px] px-3 py-1.5 text-sm border border-slate-300 rounded-lg"
+                />
+                <button
+                  onClick={savePreset}
+                  disabled={!presetName.trim()}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-slate-300 rounded-lg hover:bg-slate-100 disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" /> Save Mapping
+                </button>
+              </div>
+
+              <div className="border rounded-lg overflow-hidden">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-100 text-slate-600 font-medium">
+                    <tr>
+                      <th className="p-3">Lead Field</th>
+                      <th className="p-3">Source Column</th>
+                      <th className="p-3">Sample</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {IMPORT_FIELDS.map(({ field, label, required }) => {
+                      const index = mapping[field];
+                      return (
+                        <tr key={field}>
+                          <td className="p-3 font-medium text-slate-800">
+                            {label}{required && <span className="text-red-500"> *</span>}
+                          </td>
+                          <td className="p-3">
+                            <select
+                              value={index === null ? '' : String(index)}
+                              onChange={(e) => updateField(field, e.target.value)}
+                              className="w-full px-2 py-1.5 border border-slate-300 rounded-lg bg-white"
+                            >
+                              <option value="">— Not mapped —</option>
+                              {sheet.headers.map((header, i) => <option key={i} value={i}>{header}</option>)}
+                            </select>
+                          </td>
+                          <td className="p-3 text-slate-500 truncate max-w-[220px]">
+                            {index === null ? '' : sheet.rows.slice(0, 2).map(r => r[index]).filter(Boolean).join(' · ')}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              {missingFields.length > 0 && (
+                <p className="text-xs text-red-600">Map required fields: {missingFields.join(', ')}</p>
+              )}
+            </div>
+          )}
+          {step === 'preview' && (
             <div className="space-y-4">
               <div className="flex gap-4 mb-4">
                 <div className="flex items-center gap-2 text-green-600 bg-green-50 px-3 py-1 rounded-lg text-sm font-medium">
@@ -113,6 +298,9 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onIm
                 <div className="flex items-center gap-2 text-red-600 bg-red-50 px-3 py-1 rounded-lg text-sm font-medium">
                   <AlertTriangle className="w-4 h-4" /> {invalidCount} Issues
                 </div>
+                <div className="flex items-center gap-2 text-amber-700 bg-amber-50 px-3 py-1 rounded-lg text-sm font-medium">
+                  <Copy className="w-4 h-4" /> {duplicateCount} Possible Duplicates
+                </div>
               </div>
               
               <div className="border rounded-lg overflow-hidden">
@@ -123,11 +311,12 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onIm
                       <th className="p-3">Company</th>
                       <th className="p-3">Contact</th>
                       <th className="p-3">Product</th>
+                      <th className="p-3">Duplicate</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
-                    {previewData.map((item) => (
-                      <tr key={item.id} className={item.validation.isValid ? 'bg-white' : 'bg-red-50/50'}>
+                    {previewData.map((item, index) => (
+                      <tr key={item.id} className={resolutions[index] === 'skip' ? 'bg-slate-50 opacity-60' : item.validation.isValid ? 'bg-white' : 'bg-red-50/50'}>
                         <td className="p-3">
                           {item.validation.isValid ? (
                             <span className="text-green-500"><CheckCircle className="w-4 h-4" /></span>
@@ -140,6 +329,26 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onIm
                         <td className="p-3 font-medium text-slate-800">{item.companyName}</td>
                         <td className="p-3 text-slate-600">{item.contactDetail}</td>
                         <td className="p-3 text-slate-600 truncate max-w-[200px]">{item.productsImported}</td>
+                        <td className="p-3">
+                          {duplicates[index] ? (
+                            <div className="space-y-1">
+                              <p className="text-xs text-amber-700">
+                                {DUPLICATE_REASON_LABEL[duplicates[index]!.reason]}: <span className="font-medium">{duplicates[index]!.importer.companyName}</span>
+                              </p>
+                              <select
+                                value={resolutions[index]}
+                                onChange={(e) => setResolution(index, e.target.value as ImportResolution)}
+                                className="px-2 py-1 text-xs border border-slate-300 rounded-lg bg-white"
+                              >
+                                <option value="merge">Merge</option>
+                                <option value="skip">Skip</option>
+                                <option value="create">Create anyway</option>
+                              </select>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-slate-400">New</span>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -151,29 +360,44 @@ const BulkImportModal: React.FC<BulkImportModalProps> = ({ isOpen, onClose, onIm
 
         {/* Footer */}
         <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-xl flex justify-end gap-3">
-          {step === 'input' ? (
+          {step === 'input' && (
             <>
               <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors">
                 Cancel
               </button>
               <button 
-                onClick={parseCSV}
+                onClick={analyzeText}
                 disabled={!csvText.trim()}
                 className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Analyze Data
               </button>
             </>
-          ) : (
+          )}
+          {step === 'mapping' && (
             <>
               <button onClick={() => setStep('input')} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors">
                 Back to Input
               </button>
+              <button 
+                onClick={buildPreview}
+                disabled={missingFields.length > 0}
+                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Preview Leads
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button onClick={() => setStep('mapping')} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg transition-colors">
+                Back to Mapping
+              </button>
               <button 
                 onClick={handleImport}
                 className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors shadow-lg shadow-green-600/20"
               >
-                Import {previewData.length} Leads
+                Import {importCount} Leads
               </button>
             </>
           )}
@@ -1,17 +1,62 @@
 
-import React, { useState } from 'react';
-import { Campaign, CampaignStep, Channel, Importer } from '../types';
-import { Plus, Play, Pause, Trash2, Edit2, MessageSquare, Clock, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Campaign, CampaignStep, Channel, Importer, Enrollment } from '../types';
+import { Plus, Play, Pause, Trash2, Edit2, MessageSquare, Clock, CheckCircle, UserPlus, CalendarClock, AlertTriangle } from 'lucide-react';
+import { CampaignService } from '../services/campaignService';
+import { RealtimeService } from '../services/realtimeService';
+import { WHATSAPP_TEMPLATES } from '../services/whatsappTemplates';
 
 interface CampaignManagerProps {
   campaigns: Campaign[];
   onChange: (campaigns: Campaign[]) => void;
   importers: Importer[];
+  readOnly?: boolean; // Browse campaigns and enrollments without the runCampaigns permission
 }
 
-const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange, importers }) => {
+const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange, importers, readOnly = false }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [newStep, setNewStep] = useState<Partial<CampaignStep>>({ dayOffset: 1, channel: Channel.EMAIL, template: '' });
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [enrollImporterId, setEnrollImporterId] = useState('');
+  const [enrollmentError, setEnrollmentError] = useState<string | null>(null);
+
+  const refreshEnrollments = useCallback(async () => {
+    try {
+      setEnrollments(await CampaignService.listEnrollments());
+      setEnrollmentError(null);
+    } catch (e: any) {
+      setEnrollmentError(`Scheduler unavailable: ${e.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshEnrollments();
+    return RealtimeService.onRecordChanged(change => {
+      if (change.collection === 'enrollments') refreshEnrollments();
+    });
+  }, [refreshEnrollments]);
+
+  const runEnrollmentAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refreshEnrollments();
+    } catch (e: any) {
+      setEnrollmentError(e.message);
+    }
+  };
+
+  const handleReschedule = (enrollment: Enrollment) => {
+    const tzOffsetMs = new Date().getTimezoneOffset() * 60000;
+    const current = new Date(enrollment.nextRunTime - tzOffsetMs).toISOString().slice(0, 16);
+    const input = prompt('Next run (YYYY-MM-DDTHH:mm, local time)', current);
+    if (!input) return;
+    const nextRunTime = new Date(input).getTime();
+    if (isNaN(nextRunTime)) {
+      setEnrollmentError('Invalid date');
+      return;
+    }
+    runEnrollmentAction(() => CampaignService.reschedule(enrollment.id, nextRunTime));
+  };
 
   const handleCreate = () => {
     const newCampaign: Campaign = {
@@ -46,7 +91,8 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
       id: `step-${Date.now()}`,
       dayOffset: newStep.dayOffset || 1,
       channel: newStep.channel || Channel.EMAIL,
-      template: newStep.template || ''
+      template: newStep.template || '',
+      whatsappTemplate: newStep.channel === Channel.WHATSAPP ? newStep.whatsappTemplate || undefined : undefined
     };
 
     updateCampaign(campaignId, { steps: [...campaign.steps, step].sort((a, b) => a.dayOffset - b.dayOffset) });
@@ -54,6 +100,8 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
   };
 
   const activeCampaign = campaigns.find(c => c.id === editingId);
+  const campaignEnrollments = activeCampaign ? enrollments.filter(e => e.campaignId === activeCampaign.id) : [];
+  const importerName = (id: string) => importers.find(i => i.id === id)?.companyName || id;
 
   return (
     <div className="flex h-full bg-slate-100">
@@ -61,9 +109,11 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
       <div className="w-1/3 border-r border-slate-200 bg-white p-4 flex flex-col">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-lg font-bold text-slate-800">Campaigns</h2>
-          <button onClick={handleCreate} className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700">
-            <Plus className="w-4 h-4" />
-          </button>
+          {!readOnly && (
+            <button onClick={handleCreate} className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700">
+              <Plus className="w-4 h-4" />
+            </button>
+          )}
         </div>
         <div className="space-y-2 overflow-y-auto flex-1">
           {campaigns.map(c => (
@@ -95,9 +145,10 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
                 type="text" 
                 value={activeCampaign.name}
                 onChange={(e) => updateCampaign(activeCampaign.id, { name: e.target.value })}
+                readOnly={readOnly}
                 className="text-2xl font-bold text-slate-800 bg-transparent border-none focus:ring-0 p-0 w-full"
               />
-              <div className="flex gap-2">
+              {!readOnly && <div className="flex gap-2">
                 <button 
                   onClick={() => deleteCampaign(activeCampaign.id)}
                   className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
@@ -110,25 +161,93 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
                 >
                   {activeCampaign.status === 'active' ? <><Pause className="w-4 h-4" /> Pause</> : <><Play className="w-4 h-4" /> Activate</>}
                 </button>
-              </div>
+              </div>}
             </div>
 
             {/* Stats */}
             <div className="grid grid-cols-3 gap-4 mb-8">
                <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
                   <p className="text-xs text-slate-500 uppercase font-bold">Enrolled</p>
-                  <p className="text-2xl font-bold text-slate-800">0</p>
+                  <p className="text-2xl font-bold text-slate-800">{campaignEnrollments.length}</p>
                </div>
                <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
                   <p className="text-xs text-slate-500 uppercase font-bold">Active</p>
-                  <p className="text-2xl font-bold text-indigo-600">0</p>
+                  <p className="text-2xl font-bold text-indigo-600">{campaignEnrollments.filter(e => e.status === 'active').length}</p>
                </div>
                <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
                   <p className="text-xs text-slate-500 uppercase font-bold">Completed</p>
-                  <p className="text-2xl font-bold text-green-600">0</p>
+                  <p className="text-2xl font-bold text-green-600">{campaignEnrollments.filter(e => e.status === 'completed').length}</p>
                </div>
             </div>
 
+            {/* Enrollments */}
+            <div className="bg-white border border-slate-200 rounded-lg shadow-sm mb-8">
+              <div className="p-4 border-b border-slate-100 flex items-center justify-between gap-3">
+                <h3 className="text-sm font-bold text-slate-700">Enrolled Leads</h3>
+                {!readOnly && <div className="flex gap-2">
+                  <select
+                    value={enrollImporterId}
+                    onChange={(e) => setEnrollImporterId(e.target.value)}
+                    className="text-xs border border-slate-300 rounded-lg px-2 py-1.5 bg-white"
+                  >
+                    <option value="">Select lead...</option>
+                    {importers.map(i => <option key={i.id} value={i.id}>{i.companyName}</option>)}
+                  </select>
+                  <button
+                    onClick={() => runEnrollmentAction(async () => { await CampaignService.enroll(enrollImporterId, activeCampaign.id); setEnrollImporterId(''); })}
+                    disabled={!enrollImporterId}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    <UserPlus className="w-3 h-3" /> Enroll
+                  </button>
+                </div>}
+              </div>
+              {enrollmentError && (
+                <div className="px-4 py-2 text-xs text-red-600 bg-red-50 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" /> {enrollmentError}
+                </div>
+              )}
+              {campaignEnrollments.length === 0 ? (
+                <p className="p-4 text-xs text-slate-400 italic">No leads enrolled yet.</p>
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {campaignEnrollments.map(enr => (
+                    <div key={enr.id} className="p-3 flex items-center justify-between text-xs">
+                      <div>
+                        <p className="font-bold text-slate-800">{importerName(enr.importerId)}</p>
+                        <p className="text-slate-500">
+                          Step {Math.min(enr.currentStepIndex + 1, activeCampaign.steps.length)}/{activeCampaign.steps.length}
+                          {enr.status === 'active' && ` • Next: ${new Date(enr.nextRunTime).toLocaleString()}`}
+                          {enr.stoppedReason && ` • ${enr.stoppedReason}`}
+                        </p>
+                        {enr.lastError && <p className="text-red-500">{enr.lastError}</p>}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded-full font-bold uppercase text-[10px] ${enr.status === 'active' ? 'bg-green-100 text-green-700' : enr.status === 'paused' ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'}`}>
+                          {enr.status}
+                        </span>
+                        {!readOnly && enr.status === 'active' && (
+                          <button onClick={() => runEnrollmentAction(() => CampaignService.pause(enr.id))} title="Pause" className="p-1 text-slate-400 hover:text-amber-600">
+                            <Pause className="w-4 h-4" />
+                          </button>
+                        )}
+                        {!readOnly && enr.status === 'paused' && (
+                          <button onClick={() => runEnrollmentAction(() => CampaignService.resume(enr.id))} title="Resume" className="p-1 text-slate-400 hover:text-green-600">
+                            <Play className="w-4 h-4" />
+                          </button>
+                        )}
+                        {!readOnly && (enr.status === 'active' || enr.status === 'paused') && (
+                          <button onClick={() => handleReschedule(enr)} title="Reschedule" className="p-1 text-slate-400 hover:text-indigo-600">
+                            <CalendarClock className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="space-y-6">
               {activeCampaign.steps.map((step, idx) => (
                 <div key={step.id} className="relative pl-8 border-l-2 border-slate-200 pb-6 last:pb-0 last:border-l-0">
@@ -144,13 +263,20 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
                         <div className="flex items-center gap-1 text-xs font-medium bg-blue-50 px-2 py-1 rounded text-blue-600">
                           <MessageSquare className="w-3 h-3" /> {step.channel}
                         </div>
+                        {step.whatsappTemplate && (
+                          <div className="text-xs font-medium bg-green-50 px-2 py-1 rounded text-green-700">
+                            Template: {step.whatsappTemplate}
+                          </div>
+                        )}
                       </div>
-                      <button 
-                        onClick={() => updateCampaign(activeCampaign.id, { steps: activeCampaign.steps.filter(s => s.id !== step.id) })}
-                        className="text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {!readOnly && (
+                        <button 
+                          onClick={() => updateCampaign(activeCampaign.id, { steps: activeCampaign.steps.filter(s => s.id !== step.id) })}
+                          className="text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                     <p className="text-sm text-slate-600 font-mono bg-slate-50 p-3 rounded border border-slate-100 whitespace-pre-wrap">
                       {step.template}
@@ -160,7 +286,7 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
               ))}
 
               {/* Add Step Form */}
-              <div className="relative pl-8 border-l-2 border-slate-200">
+              {!readOnly && <div className="relative pl-8 border-l-2 border-slate-200">
                  <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-slate-300 flex items-center justify-center">
                     <Plus className="w-3 h-3 text-white" />
                  </div>
@@ -197,6 +323,19 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
                             placeholder="Hi {{name}}, checking in..."
                         />
                     </div>
+                    {newStep.channel === Channel.WHATSAPP && (
+                      <div className="mb-3">
+                        <label className="block text-xs font-bold text-slate-500 mb-1">Template outside the 24-hour window</label>
+                        <select
+                          value={newStep.whatsappTemplate || ''}
+                          onChange={(e) => setNewStep({ ...newStep, whatsappTemplate: e.target.value })}
+                          className="w-full p-2 text-sm border border-slate-300 rounded"
+                        >
+                          <option value="">Default (intro for the first step, follow-up after)</option>
+                          {WHATSAPP_TEMPLATES.map(t => <option key={t.name} value={t.name}>{t.name} ({t.language})</option>)}
+                        </select>
+                      </div>
+                    )}
                     <button 
                       onClick={() => addStep(activeCampaign.id)}
                       disabled={!newStep.template}
@@ -205,7 +344,7 @@ const CampaignManager: React.FC<CampaignManagerProps> = ({ campaigns, onChange,
                       Add Step
                     </button>
                  </div>
-              </div>
+              </div>}
             </div>
 
           </div>
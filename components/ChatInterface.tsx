@@ -1,15 +1,20 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Importer, Channel, LeadStatus, Language, MessageStatus, EmotionLabel, SentimentData } from '../types';
-import { Send, User, Bot, Clock, AlertTriangle, UserCog, ChevronDown, Sparkles, TrendingUp, Zap, ChevronLeft, Lock, Check, Loader2, MailOpen, Phone, Mail, MessageSquare, Settings, Sparkle, Frown, Meh, Smile, AlertOctagon, HelpCircle, BarChart3, Heart, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { Importer, Channel, LeadStatus, Language, MessageStatus, EmotionLabel, SentimentData, MessageAttachment, SendOptions, Deal, Product, TeamMember } from '../types';
+import { Send, User, Bot, Clock, AlertTriangle, UserCog, ChevronDown, Sparkles, TrendingUp, Zap, ChevronLeft, Lock, Check, Loader2, MailOpen, Phone, Mail, MessageSquare, Settings, Sparkle, Frown, Meh, Smile, AlertOctagon, HelpCircle, BarChart3, Heart, ThumbsUp, ThumbsDown, Copy, Inbox, Paperclip, FileText, X } from 'lucide-react';
 import { t } from '../services/i18n';
 import { getOptimalChannel } from '../services/validationService';
+import { analyzeSms, splitSms, SMS_MAX_SEGMENTS } from '../services/smsSegments';
+import { getSessionWindow, describeClosedWindow, formatDuration, FOLLOW_UP_TEMPLATE } from '../services/whatsappTemplates';
+import { MediaService, checkAttachment, isImageAttachment, formatFileSize, ACCEPTED_ATTACHMENT_TYPES } from '../services/mediaService';
+import { MessagingService } from '../services/messagingService';
+import DealPanel from './DealPanel';
 
 interface ChatInterfaceProps {
   importer: Importer;
   isProcessing: boolean;
   isImporterTyping?: boolean;
-  onSendMessage: (text: string, channel: Channel) => void;
+  onSendMessage: (text: string, channel: Channel, options?: SendOptions) => void;
   onSimulateResponse: () => void;
   onAutoReply: () => void;
   onBack?: () => void; 
@@ -17,9 +22,17 @@ interface ChatInterfaceProps {
   language: Language;
   onUpdateImporter: (id: string, updates: Partial<Importer>) => void;
   onMessageFeedback?: (messageId: string, isHelpful: boolean) => void;
+  duplicateOf?: Importer; // Another lead that looks like the same business/contact
+  onMergeDuplicate?: (duplicateId: string) => void;
+  onCreateQuote?: () => void;
+  deals?: Deal[];
+  products?: Product[];
+  onDealsChange?: (deals: Deal[]) => void;
+  team?: TeamMember[];
+  onReassign?: (ownerId: string | undefined) => void; // Absent when the user can't edit leads
 }
 
-const ChannelIcon = ({ channel }: { channel: Channel }) => {
+const ChannelIcon = ({ channel }: { channel: Channel | null }) => {
   switch(channel) {
     case Channel.WHATSAPP: return <Phone className="w-3 h-3 text-green-600" />;
     case Channel.WECHAT: return <MessageSquare className="w-3 h-3 text-emerald-600" />;
@@ -120,6 +133,28 @@ const EmotionBars = ({ emotions }: { emotions: { label: EmotionLabel, confidence
     );
 };
 
+const AttachmentPreview: React.FC<{ attachment: MessageAttachment; outbound: boolean }> = ({ attachment, outbound }) => (
+  isImageAttachment(attachment) ? (
+    <a href={attachment.url} target="_blank" rel="noreferrer" className="block mb-1">
+      <img src={attachment.url} alt={attachment.caption || attachment.fileName} className="max-w-[240px] max-h-[240px] rounded-lg object-cover" />
+    </a>
+  ) : (
+    <a
+      href={attachment.url}
+      target="_blank"
+      rel="noreferrer"
+      download={attachment.fileName}
+      className={`flex items-center gap-2 mb-1 p-2 rounded-lg border ${outbound ? 'bg-blue-500/40 border-blue-300/40' : 'bg-slate-50 border-slate-200'}`}
+    >
+      <FileText className="w-6 h-6 shrink-0" />
+      <span className="min-w-0">
+        <span className="block text-xs font-bold truncate">{attachment.fileName}</span>
+        <span className="block text-[10px] opacity-75">{formatFileSize(attachment.size)}</span>
+      </span>
+    </a>
+  )
+);
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   importer, 
   isProcessing, 
@@ -131,19 +166,47 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   readOnly = false,
   language,
   onUpdateImporter,
-  onMessageFeedback
+  onMessageFeedback,
+  duplicateOf,
+  onMergeDuplicate,
+  onCreateQuote,
+  deals = [],
+  products = [],
+  onDealsChange,
+  team = [],
+  onReassign
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [inputText, setInputText] = useState('');
-  const [activeTab, setActiveTab] = useState<'chat' | 'history'>('chat');
-  const [selectedChannel, setSelectedChannel] = useState<Channel>(importer.preferredChannel);
+  const [activeTab, setActiveTab] = useState<'chat' | 'history' | 'deals'>('chat');
+  const [selectedChannel, setSelectedChannel] = useState<Channel | null>(importer.preferredChannel);
   const [showChannelSettings, setShowChannelSettings] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [pendingPreviewUrl, setPendingPreviewUrl] = useState<string | null>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
 
   // Sync local state when importer changes
   useEffect(() => {
     setSelectedChannel(importer.preferredChannel);
   }, [importer.id, importer.preferredChannel]);
 
+  useEffect(() => {
+    setPendingFile(null);
+    setAttachmentError(null);
+  }, [importer.id]);
+
+  useEffect(() => {
+    if (!pendingFile || !pendingFile.type.startsWith('image/')) {
+      setPendingPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(pendingFile);
+    setPendingPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [pendingFile]);
+
   const scrollToBottom = () => {
     if (activeTab === 'chat') {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -154,8 +217,34 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [importer.chatHistory, activeTab, isProcessing, isImporterTyping]);
 
-  const handleSend = () => {
-    if (inputText.trim() && !readOnly) {
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const problem = checkAttachment(file);
+    setAttachmentError(problem);
+    setPendingFile(problem ? null : file);
+  };
+
+  const handleSend = async () => {
+    if (readOnly || !selectedChannel || whatsappClosed || isUploading) return;
+    if (pendingFile) {
+      if (!canAttach) return;
+      setIsUploading(true);
+      try {
+        const attachment = await MediaService.upload(pendingFile);
+        onSendMessage(inputText.trim(), selectedChannel, { attachments: [attachment] });
+        setInputText('');
+        setPendingFile(null);
+        setAttachmentError(null);
+      } catch (e) {
+        setAttachmentError(`Upload failed: ${e instanceof Error ? e.message : 'unknown error'}`);
+      } finally {
+        setIsUploading(false);
+      }
+      return;
+    }
+    if (inputText.trim()) {
       onSendMessage(inputText, selectedChannel);
       setInputText('');
     }
@@ -163,7 +252,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   const handleChannelModeChange = (mode: 'auto' | 'manual', channel?: Channel) => {
       if (mode === 'auto') {
-          const optimal = getOptimalChannel(importer.validation);
+          const optimal = getOptimalChannel(importer.validation, importer.contactDetail);
           onUpdateImporter(importer.id, { 
               channelSelectionMode: 'auto',
               preferredChannel: optimal
@@ -189,6 +278,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const isEscalated = importer.needsHumanReview;
   const isCritical = importer.sentimentAnalysis?.label === 'Critical';
   const isAuto = importer.channelSelectionMode === 'auto' || !importer.channelSelectionMode;
+  const isLandline = importer.validation.phoneType === 'landline';
+  const smsInfo = selectedChannel === Channel.SMS && inputText ? analyzeSms(inputText) : null;
+  const whatsappSession = selectedChannel === Channel.WHATSAPP ? getSessionWindow(importer) : null;
+  const whatsappClosed = !!whatsappSession && !whatsappSession.open;
+  const canAttach = (selectedChannel && MessagingService.getCapabilities(selectedChannel)?.media) ?? false;
 
   return (
     <div className="flex flex-col h-full bg-slate-50 md:rounded-lg md:border border-slate-200 overflow-hidden w-full">
@@ -228,7 +322,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                         >
                             {isAuto ? <Sparkle className="w-3 h-3" /> : <Settings className="w-3 h-3" />}
                             {isAuto ? 'Auto: ' : 'Manual: '}
-                            <span className="uppercase truncate max-w-[80px] md:max-w-none">{importer.preferredChannel}</span>
+                            <span className="uppercase truncate max-w-[80px] md:max-w-none">{importer.preferredChannel ?? 'No channel'}</span>
                             <ChevronDown className="w-3 h-3 opacity-50" />
                         </button>
                         
@@ -243,7 +337,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                     {isAuto && <Check className="w-3 h-3 ml-auto text-green-500" />}
                                 </button>
                                 <div className="border-t border-slate-100 my-1"></div>
-                                {[Channel.WHATSAPP, Channel.WECHAT, Channel.EMAIL].map(c => (
+                                {[Channel.WHATSAPP, Channel.WECHAT, Channel.EMAIL, Channel.SMS]
+                                    .filter(c => !(isLandline && (c === Channel.WHATSAPP || c === Channel.SMS)))
+                                    .map(c => (
                                     <button 
                                         key={c}
                                         onClick={() => handleChannelModeChange('manual', c)}
@@ -260,6 +356,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </div>
             
             <div className="flex items-center gap-2 shrink-0 ml-2">
+                {team.length > 0 && (
+                    <select
+                        value={importer.ownerId || ''}
+                        onChange={(e) => onReassign?.(e.target.value || undefined)}
+                        disabled={!onReassign}
+                        aria-label="Lead owner"
+                        title="Lead owner"
+                        className="hidden sm:block max-w-[140px] text-xs border border-slate-200 rounded-lg px-2 py-1 bg-white text-slate-600 disabled:bg-slate-50"
+                    >
+                        <option value="">Unassigned</option>
+                        {team.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        {importer.ownerId && !team.some(m => m.id === importer.ownerId) && <option value={importer.ownerId}>Former user</option>}
+                    </select>
+                )}
                 <div className={`px-2 md:px-3 py-1 rounded-full text-[10px] md:text-xs font-bold border whitespace-nowrap shadow-sm
                     ${importer.status === LeadStatus.INTERESTED ? 'bg-green-50 text-green-700 border-green-200' : 'bg-slate-50 text-slate-500 border-slate-200'}`}>
                     {importer.status.toUpperCase()}
@@ -279,6 +389,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 className={`pb-2 pt-2 border-b-2 transition-all whitespace-nowrap ${activeTab === 'history' ? 'text-indigo-600 border-indigo-600' : 'border-transparent hover:text-slate-700'}`}>
                 {t('history', language)}
               </button>
+              {onDealsChange && (
+                <button 
+                  onClick={() => setActiveTab('deals')}
+                  className={`pb-2 pt-2 border-b-2 transition-all whitespace-nowrap ${activeTab === 'deals' ? 'text-indigo-600 border-indigo-600' : 'border-transparent hover:text-slate-700'}`}>
+                  {t('deals', language)}
+                </button>
+              )}
           </div>
       </div>
 
@@ -294,6 +411,38 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </div>
             )}
 
+            {/* New Inbound Triage Banner */}
+            {importer.needsTriage && (
+                <div className="border-b p-2 flex items-center justify-center gap-2 text-xs font-medium bg-indigo-50 border-indigo-100 text-indigo-800">
+                    <Inbox className="w-4 h-4" />
+                    <span>New inbound enquiry from an unknown sender. Qualify it, then mark it reviewed.</span>
+                    {!readOnly && (
+                        <button
+                            onClick={() => onUpdateImporter(importer.id, { needsTriage: false })}
+                            className="ml-2 px-2 py-0.5 rounded-md bg-white border border-indigo-200 hover:bg-indigo-100 shrink-0"
+                        >
+                            Mark reviewed
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Possible Duplicate Banner */}
+            {duplicateOf && (
+                <div className="border-b p-2 flex items-center justify-center gap-2 text-xs font-medium bg-amber-50 border-amber-100 text-amber-800">
+                    <Copy className="w-4 h-4" />
+                    <span className="truncate">Possible duplicate of {duplicateOf.companyName} ({duplicateOf.contactDetail})</span>
+                    {onMergeDuplicate && !readOnly && (
+                        <button
+                            onClick={() => onMergeDuplicate(duplicateOf.id)}
+                            className="ml-2 px-2 py-0.5 rounded-md bg-white border border-amber-200 hover:bg-amber-100 shrink-0"
+                        >
+                            Merge into this lead
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* AI Insights Panel - UPDATED FOR SCORING */}
             {(importer.interestShownIn || importer.nextStep || importer.leadScore !== undefined) && (
                 <div className="bg-white/80 backdrop-blur-sm border-b border-slate-200 p-3 grid grid-cols-2 md:grid-cols-4 gap-3 shadow-sm sticky top-0 z-0">
@@ -357,6 +506,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                     importer.chatHistory.map((msg) => (
                     <div key={msg.id} className={`flex flex-col max-w-[85%] md:max-w-[80%] ${msg.sender === 'agent' ? 'self-end items-end' : (msg.sender === 'system' ? 'self-center' : 'self-start items-start')}`}>
                         <div className={`px-4 py-2 rounded-2xl text-sm whitespace-pre-wrap leading-relaxed relative ${getBubbleClass(msg.sender)} group`}>
+                            {msg.templateName && (
+                                <span className="block text-[10px] font-bold uppercase tracking-wide opacity-70 mb-0.5">Template · {msg.templateName}</span>
+                            )}
+                            {msg.attachments?.map(attachment => (
+                                <AttachmentPreview key={attachment.id} attachment={attachment} outbound={msg.sender === 'agent'} />
+                            ))}
                             {msg.content}
                             
                             {/* Message Feedback Controls for Agent Messages */}
@@ -448,16 +603,65 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 className={`whitespace-nowrap flex items-center gap-1 text-xs px-3 py-1.5 rounded-full transition-colors disabled:opacity-50 border font-medium ${isEscalated || isCritical ? 'bg-gray-100 text-gray-400 border-gray-200' : 'bg-indigo-50 hover:bg-indigo-100 text-indigo-600 border-indigo-200'}`}>
                                 <Bot className="w-3 h-3" /> {(isEscalated || isCritical) ? 'Auto-Reply Disabled' : t('autoReply', language)}
                             </button>
+                            {onCreateQuote && (
+                                <button
+                                    onClick={onCreateQuote}
+                                    disabled={isProcessing}
+                                    className="whitespace-nowrap flex items-center gap-1 text-xs bg-emerald-50 hover:bg-emerald-100 text-emerald-700 px-3 py-1.5 rounded-full transition-colors disabled:opacity-50 border border-emerald-200 font-medium">
+                                    <FileText className="w-3 h-3" /> Quotation
+                                </button>
+                            )}
                         </div>
+                        {whatsappSession && (
+                            whatsappClosed ? (
+                                <div className="mb-2 p-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-700 flex items-start gap-2">
+                                    <Clock className="w-4 h-4 shrink-0 mt-0.5" />
+                                    <div className="flex-1">
+                                        <p>{describeClosedWindow(importer, whatsappSession)}</p>
+                                        <button
+                                            onClick={() => onSendMessage('', Channel.WHATSAPP, { templateName: FOLLOW_UP_TEMPLATE })}
+                                            disabled={isProcessing}
+                                            className="mt-1 font-bold text-amber-800 hover:underline disabled:opacity-50">
+                                            Send "{FOLLOW_UP_TEMPLATE}" template
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="mb-1 px-2 text-[10px] text-slate-400 flex items-center gap-1">
+                                    <Clock className="w-3 h-3" />
+                                    <span>WhatsApp window closes in {formatDuration(whatsappSession.closesAt! - Date.now())}</span>
+                                </div>
+                            )
+                        )}
+                        {(pendingFile || attachmentError) && (
+                            <div className="mb-2 flex items-center gap-2">
+                                {pendingFile && (
+                                    <div className="flex items-center gap-2 bg-slate-100 border border-slate-200 rounded-lg p-1.5 pr-2 max-w-full">
+                                        {pendingPreviewUrl
+                                            ? <img src={pendingPreviewUrl} alt={pendingFile.name} className="w-10 h-10 rounded object-cover" />
+                                            : <FileText className="w-8 h-8 text-slate-400" />}
+                                        <div className="min-w-0">
+                                            <p className="text-xs font-bold text-slate-700 truncate">{pendingFile.name}</p>
+                                            <p className="text-[10px] text-slate-400">{formatFileSize(pendingFile.size)}{!canAttach && ` · ${selectedChannel} cannot send attachments`}</p>
+                                        </div>
+                                        <button onClick={() => setPendingFile(null)} aria-label="Remove attachment" className="text-slate-400 hover:text-red-500">
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                )}
+                                {attachmentError && <span className="text-xs text-red-600">{attachmentError}</span>}
+                            </div>
+                        )}
                         <div className="flex gap-2 items-center">
                             {/* Channel Selector */}
                             <div className="relative group shrink-0">
                                 <select 
-                                    value={selectedChannel}
+                                    value={selectedChannel ?? ''}
                                     onChange={(e) => setSelectedChannel(e.target.value as Channel)}
                                     aria-label="Select Channel"
                                     className="appearance-none bg-slate-100 border border-transparent hover:border-slate-300 text-xs font-medium text-slate-600 py-2 pl-8 pr-8 rounded-lg outline-none cursor-pointer w-[100px] md:w-full transition-all focus:ring-2 focus:ring-indigo-500/20 truncate"
                                 >
+                                    {!selectedChannel && <option value="" disabled>Channel</option>}
                                     {Object.values(Channel).map(c => <option key={c} value={c}>{c}</option>)}
                                 </select>
                                 <div className="absolute left-3 top-2.5 pointer-events-none">
@@ -466,27 +670,51 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                 <ChevronDown className="w-3 h-3 text-slate-500 absolute right-2 top-2.5 pointer-events-none" />
                             </div>
 
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+                                onChange={handleFileSelected}
+                                className="hidden"
+                            />
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={!canAttach || whatsappClosed || isUploading}
+                                aria-label="Attach file"
+                                title={canAttach ? 'Attach a photo or document' : selectedChannel ? `${selectedChannel} cannot send attachments` : 'Choose a channel first'}
+                                className="shrink-0 p-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+                                <Paperclip className="w-4 h-4" />
+                            </button>
                             <input
                                 type="text"
                                 value={inputText}
                                 onChange={(e) => setInputText(e.target.value)}
                                 onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                                placeholder={isEscalated || isCritical ? "Human reply required..." : "Type message..."}
+                                placeholder={whatsappClosed ? "Template required outside the 24-hour window" : pendingFile ? "Add a caption..." : isEscalated || isCritical ? "Human reply required..." : "Type message..."}
                                 aria-label="Message input"
                                 className={`flex-1 bg-slate-100 border-transparent focus:bg-white focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 rounded-full px-4 py-2 text-sm transition-all outline-none w-full min-w-0 placeholder:text-slate-400 ${isCritical ? 'border-red-200 bg-red-50 placeholder:text-red-400' : ''}`}
                             />
                             <button 
                                 onClick={handleSend}
-                                disabled={!inputText.trim()}
+                                disabled={!selectedChannel || !(inputText.trim() || (pendingFile && canAttach)) || whatsappClosed || isUploading}
                                 aria-label="Send message"
                                 className="shrink-0 p-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-full shadow-md transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-none">
-                                <Send className="w-5 h-5" />
+                                {isUploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
                             </button>
                         </div>
+                        {smsInfo && (
+                            <div className={`mt-1 px-2 text-[10px] flex items-center gap-1 ${smsInfo.segments > SMS_MAX_SEGMENTS ? 'text-amber-600' : 'text-slate-400'}`}>
+                                {smsInfo.segments > SMS_MAX_SEGMENTS && <AlertTriangle className="w-3 h-3" />}
+                                <span>{smsInfo.units} chars · {smsInfo.segments} SMS ({smsInfo.encoding}) · {smsInfo.remaining} left</span>
+                                {smsInfo.segments > SMS_MAX_SEGMENTS && <span className="font-bold">Will be sent as {splitSms(inputText).length} separate messages</span>}
+                            </div>
+                        )}
                     </>
                 )}
             </div>
           </>
+      ) : activeTab === 'deals' && onDealsChange ? (
+          <DealPanel importer={importer} deals={deals} products={products} onChange={onDealsChange} readOnly={readOnly} />
       ) : (
           <div className="flex-1 overflow-y-auto p-4 md:p-6 bg-slate-50">
               <div className="max-w-2xl mx-auto relative border-l-2 border-slate-200 pl-4 md:pl-6 space-y-6">
@@ -495,6 +723,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                           <div className={`absolute -left-[23px] md:-left-[31px] w-3 h-3 md:w-4 md:h-4 rounded-full border-2 border-white shadow-sm top-0.5
                                 ${log.type === 'status_change' ? 'bg-blue-500' : 
                                   log.type === 'validation' ? 'bg-green-500' : 
+                                  log.type === 'assignment' ? 'bg-indigo-500' : 
                                   log.type === 'note' ? 'bg-amber-500' : 'bg-slate-400'}`} 
                           />
                           <div className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm">
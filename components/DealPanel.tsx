@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Plus, Edit2, Trash2, Trophy, XCircle, RotateCcw, Briefcase, AlertCircle } from 'lucide-react';
+import { Deal, Importer, Product, COMMON_CURRENCIES } from '../types';
+import { dealProbability, dealValue } from '../services/dealService';
+import { formatMoney } from '../services/catalogService';
+
+interface DealPanelProps {
+  importer: Importer;
+  deals: Deal[]; // All deals; this importer's are shown
+  products: Product[];
+  onChange: (deals: Deal[]) => void;
+  readOnly?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toDateInput = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const DealPanel: React.FC<DealPanelProps> = ({ importer, deals, products, onChange, readOnly = false }) => {
+  const [draft, setDraft] = useState<Partial<Deal> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importerDeals = deals.filter(d => d.importerId === importer.id).sort((a, b) => b.createdAt - a.createdAt);
+
+  const save = (deal: Deal) => onChange(deals.some(d => d.id === deal.id) ? deals.map(d => (d.id === deal.id ? deal : d)) : [...deals, deal]);
+
+  const setStage = (deal: Deal, stage: Deal['stage']) =>
+    save({ ...deal, stage, closedAt: stage === 'open' ? undefined : Date.now(), updatedAt: Date.now() });
+
+  const startEdit = (deal?: Deal) => {
+    setError(null);
+    setDraft(deal ? { ...deal } : {
+      product: importer.productsImported,
+      volume: 0,
+      unit: 'MT',
+      currency: products[0]?.currency || 'USD',
+      unitPrice: 0,
+      expectedCloseDate: Date.now() + 60 * DAY_MS,
+      stage: 'open'
+    });
+  };
+
+  const pickProduct = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!draft) return;
+    if (!product) return setDraft({ ...draft, productId: undefined });
+    setDraft({ ...draft, productId, product: product.name, unit: product.unit, currency: product.currency, volume: draft.volume || product.moq, unitPrice: product.priceTiers[0]?.unitPrice ?? 0 });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.product?.trim()) return setError('Describe what the deal is for');
+    if (!(draft.volume! > 0) || !(draft.unitPrice! > 0)) return setError('Volume and unit price must be greater than zero');
+    if (!/^[A-Z]{3}$/.test(draft.currency || '')) return setError('Currency must be a 3-letter ISO code');
+    const now = Date.now();
+    save({
+      ...(draft as Deal),
+      id: draft.id || `deal-${now}`,
+      importerId: importer.id,
+      product: draft.product.trim(),
+      createdAt: draft.createdAt ?? now,
+      updatedAt: now
+    });
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 bg-slate-50">
+      <div className="max-w-2xl mx-auto space-y-3">
+        <div className="flex justify-between items-center">
+          <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Briefcase className="w-4 h-4" /> Deals with {importer.companyName}</h3>
+          {!readOnly && !draft && (
+            <button onClick={() => startEdit()} className="flex items-center gap-1 text-xs font-bold bg-indigo-600 text-white px-3 py-1.5 rounded-lg hover:bg-indigo-700">
+              <Plus className="w-3 h-3" /> New Deal
+            </button>
+          )}
+        </div>
+
+        {importerDeals.length === 0 && !draft && (
+          <div className="text-center text-sm text-slate-400 py-6 border border-dashed border-slate-300 rounded-lg">No deals yet. Sending a quotation opens one.</div>
+        )}
+
+        {!draft && importerDeals.map(deal => {
+          const probability = dealProbability(deal, importer);
+          const value = dealValue(deal);
+          return (
+            <div key={deal.id} className="bg-white border border-slate-200 rounded-lg p-3 shadow-sm">
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-bold text-slate-800 truncate">{deal.product}</p>
+                  <p className="text-xs text-slate-500">
+                    {deal.volume} {deal.unit} × {formatMoney(deal.unitPrice, deal.currency)} · {deal.stage === 'open' ? `expected ${toDateInput(deal.expectedCloseDate)}` : `${deal.stage} ${toDateInput(deal.closedAt ?? deal.updatedAt)}`}
+                  </p>
+                  {deal.quotationId && <p className="text-[11px] text-slate-400">From quotation {deal.quotationId}</p>}
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`text-sm font-bold ${deal.stage === 'won' ? 'text-green-600' : deal.stage === 'lost' ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{formatMoney(value.amount, value.currency)}</p>
+                  {deal.stage === 'open' && (
+                    <p className="text-[11px] text-slate-500">{Math.round(probability * 100)}% · {formatMoney(value.amount * probability, value.currency)} weighted</p>
+                  )}
+                </div>
+              </div>
+              {!readOnly && (
+                <div className="flex gap-1 mt-2 pt-2 border-t border-slate-100">
+                  {deal.stage === 'open' ? (
+                    <>
+                      <button onClick={() => setStage(deal, 'won')} className="flex items-center gap-1 text-xs text-green-700 hover:bg-green-50 px-2 py-1 rounded"><Trophy className="w-3 h-3" /> Won</button>
+                      <button onClick={() => setStage(deal, 'lost')} className="flex items-center gap-1 text-xs text-slate-500 hover:bg-slate-100 px-2 py-1 rounded"><XCircle className="w-3 h-3" /> Lost</button>
+                    </>
+                  ) : (
+                    <button onClick={() => setStage(deal, 'open')} className="flex items-center gap-1 text-xs text-slate-500 hover:bg-slate-100 px-2 py-1 rounded"><RotateCcw className="w-3 h-3" /> Reopen</button>
+                  )}
+                  <div className="flex-1" />
+                  <button onClick={() => startEdit(deal)} aria-label={`Edit ${deal.product}`} className="p-1 text-slate-400 hover:text-indigo-600"><Edit2 className="w-3.5 h-3.5" /></button>
+                  <button onClick={() => onChange(deals.filter(d => d.id !== deal.id))} aria-label={`Delete ${deal.product}`} className="p-1 text-slate-400 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {draft && (
+          <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 space-y-3">
+            {products.length > 0 && (
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">Catalog product</label>
+                <select value={draft.productId || ''} onChange={(e) => pickProduct(e.target.value)} className="w-full p-2 text-sm border border-slate-300 rounded">
+                  <option value="">Other / several products</option>
+                  {products.map(p => <option key={p.id} value={p.id}>{p.name}{p.grade ? ` (${p.grade})` : ''}</option>)}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Product</label>
+              <input value={draft.product || ''} onChange={(e) => setDraft({ ...draft, product: e.target.value })} className="w-full p-2 text-sm border border-slate-300 rounded" />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">Volume</label>
+                <input type="number" min="0" value={draft.volume ?? ''} onChange={(e) => setDraft({ ...draft, volume: Number(e.target.value) })} className="w-full p-2 text-sm border border-slate-300 rounded" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">Unit</label>
+                <input value={draft.unit || ''} onChange={(e) => setDraft({ ...draft, unit: e.target.value })} className="w-full p-2 text-sm border border-slate-300 rounded" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">Currency</label>
+                <input list="deal-currencies" value={draft.currency || ''} onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })} className="w-full p-2 text-sm border border-slate-300 rounded" />
+                <datalist id="deal-currencies">
+                  {COMMON_CURRENCIES.map(c => <option key={c} value={c} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 mb-1">Unit price</label>
+                <input type="number" min="0" step="0.01" value={draft.unitPrice ?? ''} onChange={(e) => setDraft({ ...draft, unitPrice: Number(e.target.value) })} className="w-full p-2 text-sm border border-slate-300 rounded" />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Expected close</label>
+              <input
+                type="date"
+                value={toDateInput(draft.expectedCloseDate ?? Date.now())}
+                onChange={(e) => e.target.value && setDraft({ ...draft, expectedCloseDate: new Date(e.target.value).getTime() })}
+                className="p-2 text-sm border border-slate-300 rounded"
+              />
+            </div>
+            {error && <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {error}</p>}
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+              <button onClick={handleSave} className="px-3 py-1.5 text-sm font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700">Save Deal</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DealPanel;
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Upload, ArrowRightLeft, AlertCircle } from 'lucide-react';
+import { ExchangeRate, COMMON_CURRENCIES } from '../types';
+import { parseRatesCsv, mergeRates } from '../services/currencyService';
+
+interface ExchangeRateEditorProps {
+  rates: ExchangeRate[];
+  onChange: (rates: ExchangeRate[]) => void;
+  readOnly?: boolean;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const ExchangeRateEditor: React.FC<ExchangeRateEditorProps> = ({ rates, onChange, readOnly = false }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState({ date: today(), base: 'USD', quote: 'INR', rate: '' });
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const handleAdd = () => {
+    const { rates: parsed, errors } = parseRatesCsv(`${draft.date},${draft.base},${draft.quote},${draft.rate}`);
+    setMessages(errors.map(e => e.replace(/^Line 1: /, '')));
+    if (parsed.length === 0) return;
+    onChange(mergeRates(rates, parsed.map(r => ({ ...r, source: 'manual' as const }))));
+    setDraft({ ...draft, rate: '' });
+  };
+
+  const handleCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { rates: parsed, errors } = parseRatesCsv(await file.text());
+    if (parsed.length > 0) onChange(mergeRates(rates, parsed));
+    setMessages([`Imported ${parsed.length} rate${parsed.length === 1 ? '' : 's'} from ${file.name}`, ...errors]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><ArrowRightLeft className="w-4 h-4" /> Exchange Rates</h3>
+          <p className="text-xs text-slate-500">Each rate applies from its date until a newer one. Reports use the rate valid on the deal's date.</p>
+        </div>
+        {!readOnly && (
+          <>
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-xs font-bold border border-slate-300 text-slate-600 px-3 py-1.5 rounded-lg hover:bg-slate-100 shrink-0">
+              <Upload className="w-3 h-3" /> Import CSV
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv,text/plain" onChange={handleCsv} className="hidden" aria-label="Exchange rate CSV" />
+          </>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-end gap-2 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Effective from</label>
+            <input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className="p-1.5 text-sm border border-slate-300 rounded" />
+          </div>
+          <div className="flex items-center gap-1 text-sm text-slate-600 pb-1.5">
+            1
+            <input list="rate-currencies" value={draft.base} onChange={(e) => setDraft({ ...draft, base: e.target.value.toUpperCase() })} aria-label="Base currency" className="w-16 p-1.5 text-sm border border-slate-300 rounded" />
+            =
+            <input type="number" min="0" step="any" value={draft.rate} onChange={(e) => setDraft({ ...draft, rate: e.target.value })} aria-label="Rate" placeholder="83.42" className="w-24 p-1.5 text-sm border border-slate-300 rounded" />
+            <input list="rate-currencies" value={draft.quote} onChange={(e) => setDraft({ ...draft, quote: e.target.value.toUpperCase() })} aria-label="Quote currency" className="w-16 p-1.5 text-sm border border-slate-300 rounded" />
+            <datalist id="rate-currencies">
+              {COMMON_CURRENCIES.map(c => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+          <button onClick={handleAdd} className="flex items-center gap-1 text-xs font-bold bg-indigo-600 text-white px-3 py-2 rounded-lg hover:bg-indigo-700">
+            <Plus className="w-3 h-3" /> Add Rate
+          </button>
+          <p className="w-full text-[11px] text-slate-400">CSV columns: date (YYYY-MM-DD), base, quote, rate — e.g. <span className="font-mono">2024-05-01,USD,INR,83.42</span></p>
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <div className="text-xs space-y-0.5">
+          {messages.map(m => (
+            <p key={m} className={`flex items-center gap-1 ${m.startsWith('Imported') ? 'text-green-700' : 'text-red-600'}`}>
+              {!m.startsWith('Imported') && <AlertCircle className="w-3 h-3" />} {m}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {rates.length === 0 ? (
+        <div className="text-center text-sm text-slate-400 py-6 border border-dashed border-slate-300 rounded-lg">No exchange rates yet.</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-slate-400 text-left">
+              <th className="font-medium pb-1">Effective from</th>
+              <th className="font-medium pb-1">Rate</th>
+              <th className="font-medium pb-1">Source</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rates.map(rate => (
+              <tr key={rate.id} className="border-t border-slate-100 text-slate-700">
+                <td className="py-1.5 font-mono text-xs">{new Date(rate.effectiveFrom).toISOString().slice(0, 10)}</td>
+                <td className="py-1.5">1 {rate.base} = {rate.rate} {rate.quote}</td>
+                <td className="py-1.5 text-xs text-slate-400">{rate.source === 'csv' ? 'CSV import' : 'Manual'}</td>
+                <td className="py-1.5 text-right">
+                  {!readOnly && (
+                    <button onClick={() => onChange(rates.filter(r => r.id !== rate.id))} aria-label={`Delete ${rate.base}/${rate.quote} rate`} className="p-1 text-slate-400 hover:text-red-500">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRateEditor;
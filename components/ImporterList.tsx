@@ -1,7 +1,7 @@
 
 import React, { useMemo, useState } from 'react';
 import { Importer, LeadStatus, Language, SentimentData, EmotionData } from '../types';
-import { CheckCircle, XCircle, Clock, MessageCircle, AlertCircle, AlertTriangle, Search, Filter, Phone, Mail, MessageSquare, UserCog, Flame, Smile, Frown, Meh, AlertOctagon, Zap, HelpCircle, Heart } from 'lucide-react';
+import { CheckCircle, XCircle, Clock, MessageCircle, AlertCircle, AlertTriangle, Search, Filter, Phone, Mail, MessageSquare, UserCog, Flame, Smile, Frown, Meh, AlertOctagon, Zap, HelpCircle, Heart, Inbox, UserCheck } from 'lucide-react';
 import { t } from '../services/i18n';
 
 interface ImporterListProps {
@@ -11,6 +11,7 @@ interface ImporterListProps {
   statusFilter: string;
   onStatusFilterChange: (status: string) => void;
   language: Language;
+  currentUserId?: string; // Enables the "My Leads" queue
 }
 
 const StatusIcon = ({ status }: { status: LeadStatus }) => {
@@ -100,7 +101,7 @@ const EmotionIcons = ({ emotions }: { emotions?: EmotionData[] }) => {
     );
 };
 
-const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSelect, statusFilter, onStatusFilterChange, language }) => {
+const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSelect, statusFilter, onStatusFilterChange, language, currentUserId }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [countryFilter, setCountryFilter] = useState<string>('all');
   const [sentimentFilter, setSentimentFilter] = useState<string>('all');
@@ -108,6 +109,10 @@ const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSe
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
   const [showDateFilters, setShowDateFilters] = useState(false);
+  const [queue, setQueue] = useState<'all' | 'inbound' | 'mine'>('all');
+
+  const inboundCount = useMemo(() => importers.filter(i => i.needsTriage).length, [importers]);
+  const myCount = useMemo(() => importers.filter(i => currentUserId && i.ownerId === currentUserId).length, [importers, currentUserId]);
 
   // Extract unique countries for filter
   const countries = useMemo(() => {
@@ -118,10 +123,14 @@ const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSe
   // Filter logic
   const filteredImporters = useMemo(() => {
     const filtered = importers.filter(imp => {
+      if (queue === 'inbound' && !imp.needsTriage) return false;
+      if (queue === 'mine' && imp.ownerId !== currentUserId) return false;
+
       const matchesSearch = 
         imp.companyName.toLowerCase().includes(searchTerm.toLowerCase()) || 
         imp.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        imp.productsImported.toLowerCase().includes(searchTerm.toLowerCase());
+        imp.productsImported.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        imp.contactDetail.toLowerCase().includes(searchTerm.toLowerCase());
       
       const matchesStatus = statusFilter === 'all' || imp.status === statusFilter;
       const matchesCountry = countryFilter === 'all' || imp.country === countryFilter;
@@ -163,7 +172,7 @@ const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSe
         return (b.lastContacted || 0) - (a.lastContacted || 0);
     });
 
-  }, [importers, searchTerm, statusFilter, countryFilter, sentimentFilter, startDate, endDate, sortBy]);
+  }, [importers, queue, currentUserId, searchTerm, statusFilter, countryFilter, sentimentFilter, startDate, endDate, sortBy]);
 
   return (
     <div className="bg-white md:rounded-lg md:shadow md:border border-slate-200 flex flex-col h-full w-full">
@@ -173,6 +182,32 @@ const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSe
            <h2 className="font-semibold text-slate-800">{t('leads', language)}</h2>
            <span className="text-xs font-medium bg-slate-200 px-2 py-0.5 rounded-full text-slate-600">{filteredImporters.length}</span>
         </div>
+
+        {/* Queue Tabs: new inbound enquiries wait here until someone reviews them */}
+        <div className="flex gap-1 p-1 bg-slate-200/60 rounded-lg text-xs font-medium">
+          <button
+            onClick={() => setQueue('all')}
+            className={`flex-1 py-1 rounded-md transition-colors ${queue === 'all' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            All Leads
+          </button>
+          <button
+            onClick={() => setQueue('inbound')}
+            className={`flex-1 py-1 rounded-md transition-colors flex items-center justify-center gap-1 ${queue === 'inbound' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            <Inbox className="w-3 h-3" /> New Inbound
+            {inboundCount > 0 && <span className="ml-1 px-1.5 rounded-full bg-indigo-600 text-white text-[10px]">{inboundCount}</span>}
+          </button>
+          {currentUserId && (
+            <button
+              onClick={() => setQueue('mine')}
+              className={`flex-1 py-1 rounded-md transition-colors flex items-center justify-center gap-1 ${queue === 'mine' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              <UserCheck className="w-3 h-3" /> My Leads
+              {myCount > 0 && <span className="ml-1 px-1.5 rounded-full bg-slate-400 text-white text-[10px]">{myCount}</span>}
+            </button>
+          )}
+        </div>
         
         <div className="relative">
           <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-slate-400" />
@@ -296,7 +331,7 @@ const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSe
           </div>
         ) : (
           filteredImporters.map((imp) => {
-            const { isValid, errors, whatsappAvailable, wechatAvailable, emailMxValid } = imp.validation;
+            const { isValid, errors, whatsappAvailable, wechatAvailable, emailMxValid, emailDisposable, emailRole, emailReason } = imp.validation;
             
             return (
               <button
@@ -313,6 +348,7 @@ const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSe
               >
                 <div className="flex justify-between items-start mb-1">
                   <h3 className={`font-bold text-sm truncate w-2/3 ${!isValid ? 'text-red-800' : 'text-slate-800'}`}>
+                    {imp.needsTriage && <span className="mr-1 px-1 py-0.5 rounded bg-indigo-100 text-indigo-700 text-[9px] font-bold align-middle">NEW</span>}
                     {imp.companyName}
                   </h3>
                   <div className="flex items-center gap-1">
@@ -339,6 +375,10 @@ const ImporterList: React.FC<ImporterListProps> = ({ importers, selectedId, onSe
                      {whatsappAvailable === true && <div title="WhatsApp Available" className="p-1 bg-green-100 rounded-full text-green-600"><Phone className="w-3 h-3" /></div>}
                      {wechatAvailable === true && <div title="WeChat Available" className="p-1 bg-blue-100 rounded-full text-blue-600"><MessageSquare className="w-3 h-3" /></div>}
                      {emailMxValid === true && <div title="Email Verified (MX)" className="p-1 bg-indigo-100 rounded-full text-indigo-600"><Mail className="w-3 h-3" /></div>}
+                     {emailMxValid === false && <div title={emailReason || 'Email not deliverable'} className="p-1 bg-red-100 rounded-full text-red-600"><Mail className="w-3 h-3" /></div>}
+                     {emailDisposable && <span title="Disposable email provider" className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-red-50 text-red-600">DISPOSABLE</span>}
+                     {emailRole && <span title="Shared mailbox (info@, sales@...)" className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">ROLE</span>}
+                     {imp.validation.phoneType === 'landline' && <span title="Landline: no WhatsApp or SMS" className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">LANDLINE</span>}
                   </div>
                 )}
 
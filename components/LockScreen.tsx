@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Lock, Loader2 } from 'lucide-react';
+import { StorageService } from '../services/storageService';
+
+interface LockScreenProps {
+  userName: string;
+  onUnlock: () => void;
+  onLogout: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ userName, onUnlock, onLogout }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setUnlocking(true);
+    setError(null);
+    try {
+      await StorageService.unlock(passphrase);
+      onUnlock();
+    } catch (err: any) {
+      setError(err.message || 'Unable to unlock encrypted storage.');
+      setPassphrase('');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 z-[200] flex flex-col items-center justify-center text-white px-4">
+      <Lock className="w-12 h-12 mb-4 text-red-500" />
+      <h2 className="text-xl font-bold mb-1">Session Locked</h2>
+      <p className="text-sm text-slate-400 mb-6">Enter your data passphrase to continue as {userName}.</p>
+      <form onSubmit={handleUnlock} className="w-full max-w-xs space-y-3">
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+          placeholder="Passphrase"
+          className="w-full px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 text-white text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={unlocking || !passphrase}
+          className="w-full flex justify-center items-center gap-2 px-6 py-2 bg-indigo-600 rounded-lg disabled:opacity-60"
+        >
+          {unlocking && <Loader2 className="w-4 h-4 animate-spin" />} Unlock
+        </button>
+        <button type="button" onClick={onLogout} className="w-full text-xs text-slate-400 hover:text-white">
+          Sign in as a different user
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
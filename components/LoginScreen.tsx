@@ -1,31 +1,65 @@
-
 import React, { useState } from 'react';
-import { UserRole, User } from '../types';
-import { Shield, UserCheck, Lock } from 'lucide-react';
+import { User } from '../types';
+import { Shield, UserCheck, Lock, KeyRound, AlertCircle, Smartphone } from 'lucide-react';
+import { StorageService } from '../services/storageService';
+import { AuthService } from '../services/authService';
+import { ApiError } from '../services/apiClient';
 
 interface LoginScreenProps {
   onLogin: (user: User) => void;
+  notice?: string | null; // Why the user was signed out, e.g. their session was revoked
 }
 
-const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
-  const [selectedRole, setSelectedRole] = useState<UserRole>(UserRole.SALES);
-  const [name, setName] = useState('Demo User');
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, notice }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [needsCode, setNeedsCode] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isFirstUnlock = StorageService.needsPassphraseSetup();
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
+    setError(null);
+    if (!username.trim() || !password) {
+      setError('Enter your username and password.');
+      return;
+    }
+    if (!passphrase) {
+      setError('Enter your data passphrase to unlock encrypted storage.');
+      return;
+    }
     setLoading(true);
-    
-    // Simulate auth delay
-    setTimeout(() => {
-      onLogin({
-        id: `usr-${Date.now()}`,
-        name: name,
-        role: selectedRole,
-        avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=6366f1&color=fff`
-      });
+
+    let user: User;
+    try {
+      user = await AuthService.login(username, password, needsCode ? code : undefined);
+    } catch (err: any) {
+      if (err instanceof ApiError && (err.code === 'totp_required' || err.code === 'invalid_totp')) {
+        setNeedsCode(true);
+        if (err.code === 'invalid_totp') setError(err.message);
+      } else {
+        setError(err instanceof ApiError ? err.message : 'Cannot reach the GlobalReach server.');
+      }
+      setLoading(false);
+      return;
+    }
+
+    try {
+      // Derives the storage key; rejects with a clear message on a wrong passphrase
+      await StorageService.unlock(passphrase);
+    } catch (err: any) {
+      // Signed in but unable to read local data: don't leave the session open
+      await AuthService.logout().catch(() => undefined);
+      setError(err.message || 'Unable to unlock encrypted storage.');
       setLoading(false);
-    }, 800);
+      return;
+    }
+
+    onLogin(user);
+    setLoading(false);
   };
 
   return (
@@ -42,7 +76,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
         <form onSubmit={handleLogin} className="space-y-6">
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1">
-              Full Name
+              Username
             </label>
             <div className="relative">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -50,43 +84,97 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
               </div>
               <input
                 type="text"
-                required
-                value={name}
-                onChange={(e) => setName(e.target.value)}
+                value={username}
+                onChange={(e) => { setUsername(e.target.value); setNeedsCode(false); setError(null); }}
                 className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                placeholder="Enter your name"
+                placeholder="Enter your username"
+                autoComplete="username"
               />
             </div>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1">
-              Select Role (Demo)
+              Password
             </label>
-            <div className="grid grid-cols-3 gap-3">
-              {Object.values(UserRole).map((role) => (
-                <button
-                  key={role}
-                  type="button"
-                  onClick={() => setSelectedRole(role)}
-                  className={`
-                    py-2 px-2 text-sm font-medium rounded-lg border transition-all
-                    ${selectedRole === role 
-                      ? 'bg-indigo-50 border-indigo-500 text-indigo-700 ring-1 ring-indigo-500' 
-                      : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-50'}
-                  `}
-                >
-                  {role}
-                </button>
-              ))}
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Lock className="h-5 w-5 text-slate-400" />
+              </div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => { setPassword(e.target.value); setError(null); }}
+                className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                placeholder="Enter your password"
+                autoComplete="current-password"
+              />
             </div>
-            <p className="mt-2 text-xs text-slate-500">
-              {selectedRole === UserRole.ADMIN && 'Full access to settings, exports, and user management.'}
-              {selectedRole === UserRole.SALES && 'Can chat with leads and run campaigns.'}
-              {selectedRole === UserRole.VIEWER && 'Read-only access to dashboard and chats.'}
-            </p>
           </div>
 
+          {needsCode && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                Authentication Code
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Smartphone className="h-5 w-5 text-slate-400" />
+                </div>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => { setCode(e.target.value.replace(/\D/g, '')); setError(null); }}
+                  className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm tracking-widest"
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
+              </div>
+              <p className="mt-2 text-xs text-slate-500">Two-factor authentication is on for this account. Enter the 6-digit code from your authenticator app.</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Data Passphrase
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <KeyRound className="h-5 w-5 text-slate-400" />
+              </div>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+                className="block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                placeholder="Enter your passphrase"
+                autoComplete="off"
+              />
+            </div>
+            {isFirstUnlock && (
+              <p className="mt-2 text-xs text-slate-500">
+                First sign-in on this device: the passphrase you enter now will encrypt your local data.
+              </p>
+            )}
+          </div>
+
+          {notice && !error && (
+            <div className="flex items-center gap-2 p-3 bg-amber-50 text-amber-800 text-sm rounded-lg border border-amber-100">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {notice}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-100">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
           <button
             type="submit"
             disabled={loading}
@@ -106,7 +194,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
         </form>
         
         <div className="mt-6 text-center text-xs text-slate-400">
-          Secured by Client-Side Auth Simulation
+          Sessions are signed and verified by your GlobalReach server
         </div>
       </div>
     </div>
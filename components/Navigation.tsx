@@ -1,8 +1,7 @@
 
 import React, { useState } from 'react';
 import { Zap, LayoutDashboard, Upload, Settings, LogOut, Menu, X, HelpCircle, Calendar, Megaphone, BarChart3 } from 'lucide-react';
-import { User, UserRole, Language } from '../types';
-import { canEditSettings } from '../types';
+import { User, Language, Permission, hasPermission } from '../types';
 import { t } from '../services/i18n';
 
 interface NavigationProps {
@@ -63,14 +62,16 @@ const Navigation: React.FC<NavigationProps> = ({
       <div className="w-8 h-px bg-slate-800/50 my-2"></div>
 
       {/* Utilities */}
-      <button 
-        onClick={() => { setShowAnalytics(!showAnalytics); setIsMobileMenuOpen(false); }}
-        title="Toggle Analytics"
-        className={`p-3 rounded-xl transition-all ${showAnalytics ? 'bg-slate-800 text-white shadow-inner' : 'hover:bg-slate-800 hover:text-white'}`}>
-        <BarChart3 className="w-6 h-6" />
-      </button>
+      {hasPermission(user, Permission.VIEW_ANALYTICS) && (
+        <button 
+          onClick={() => { setShowAnalytics(!showAnalytics); setIsMobileMenuOpen(false); }}
+          title="Toggle Analytics"
+          className={`p-3 rounded-xl transition-all ${showAnalytics ? 'bg-slate-800 text-white shadow-inner' : 'hover:bg-slate-800 hover:text-white'}`}>
+          <BarChart3 className="w-6 h-6" />
+        </button>
+      )}
 
-      {canEditSettings(user.role) && (
+      {hasPermission(user, Permission.IMPORT_LEADS) && (
         <button 
           onClick={() => { setShowImportModal(true); setIsMobileMenuOpen(false); }} 
           title={t('import', language)}
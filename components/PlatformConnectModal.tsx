@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Smartphone, CheckCircle, Loader2, RefreshCw, Mail, Globe, Server, MessageCircle } from 'lucide-react';
+import { X, Smartphone, CheckCircle, Loader2, RefreshCw, Mail, Globe, Server, MessageCircle, AlertTriangle } from 'lucide-react';
 import { Channel, PlatformStatus, PlatformConnection } from '../types';
+import { EmailChannelService, EmailProvider, EMAIL_PROVIDER_PRESETS } from '../services/emailChannelService';
+import { SmsChannelService } from '../services/smsChannelService';
+import { WeChatChannelService } from '../services/wechatChannelService';
 
 interface PlatformConnectModalProps {
   isOpen: boolean;
@@ -11,15 +14,49 @@ interface PlatformConnectModalProps {
 }
 
 const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onClose, channel, onLink }) => {
-  const [step, setStep] = useState<'provider-select' | 'generating' | 'scan' | 'verifying' | 'success'>('generating');
+  const [step, setStep] = useState<'provider-select' | 'email-config' | 'sms-config' | 'wechat-config' | 'generating' | 'scan' | 'verifying' | 'success'>('generating');
   const [qrCodeUrl, setQrCodeUrl] = useState('');
-  const [emailProvider, setEmailProvider] = useState<'google' | 'microsoft' | 'custom' | null>(null);
+  const [emailProvider, setEmailProvider] = useState<EmailProvider | null>(null);
+  const [emailForm, setEmailForm] = useState({
+    from: '', fromName: '', user: '', pass: '',
+    smtpHost: '', smtpPort: 587, smtpSecure: false,
+    imapHost: '', imapPort: 993, imapSecure: true
+  });
+  const [emailError, setEmailError] = useState('');
+  const [smsForm, setSmsForm] = useState({ accountSid: '', authToken: '', from: '', baseUrl: '', webhookBaseUrl: '' });
+  const [smsError, setSmsError] = useState('');
+  const [wechatForm, setWechatForm] = useState({ appId: '', appSecret: '', token: '', encodingAESKey: '' });
+  const [wechatError, setWechatError] = useState('');
 
   // Reset state when opening
   useEffect(() => {
     if (isOpen) {
+      // Saved settings are pre-filled with their secrets masked; submitting a mask keeps the saved secret
       if (channel === Channel.EMAIL) {
           setStep('provider-select');
+          setEmailError('');
+          EmailChannelService.getStatus().then(({ config }) => {
+              if (!config) return;
+              setEmailForm({
+                  from: config.from, fromName: config.fromName || '', user: config.smtp.user, pass: config.smtp.pass,
+                  smtpHost: config.smtp.host, smtpPort: config.smtp.port, smtpSecure: config.smtp.secure,
+                  imapHost: config.imap?.host || '', imapPort: config.imap?.port ?? 993, imapSecure: config.imap?.secure ?? true
+              });
+          }).catch(() => {});
+      } else if (channel === Channel.SMS) {
+          setStep('sms-config');
+          setSmsError('');
+          SmsChannelService.getStatus().then(({ config }) => {
+              if (!config) return;
+              setSmsForm({ accountSid: config.accountSid, authToken: config.authToken, from: config.from, baseUrl: config.baseUrl || '', webhookBaseUrl: config.webhookBaseUrl || '' });
+          }).catch(() => {});
+      } else if (channel === Channel.WECHAT) {
+          setStep('wechat-config');
+          setWechatError('');
+          WeChatChannelService.getStatus().then(({ config }) => {
+              if (!config) return;
+              setWechatForm({ appId: config.appId, appSecret: config.appSecret, token: config.token, encodingAESKey: config.encodingAESKey || '' });
+          }).catch(() => {});
       } else {
           setStep('generating');
           setTimeout(() => {
@@ -40,33 +77,146 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
         onLink({
           channel: channel,
           status: PlatformStatus.CONNECTED,
-          accountName: channel === Channel.WECHAT ? 'WeChatUser_88' : '+1 (555) 867-5309',
+          accountName: '+1 (555) 867-5309',
           connectedAt: Date.now(),
-          provider: channel === Channel.WECHAT ? 'wechat' : 'whatsapp'
+          provider: 'whatsapp'
         });
         onClose();
       }, 1500);
     }, 2000);
   };
 
-  const handleEmailConnect = (provider: 'google' | 'microsoft' | 'custom') => {
+  const handleEmailProvider = (provider: EmailProvider) => {
+      const preset = EMAIL_PROVIDER_PRESETS[provider];
       setEmailProvider(provider);
+      setEmailForm(prev => ({
+          ...prev,
+          smtpHost: preset.smtp.host, smtpPort: preset.smtp.port, smtpSecure: preset.smtp.secure,
+          imapHost: preset.imap.host, imapPort: preset.imap.port, imapSecure: preset.imap.secure
+      }));
+      setEmailError('');
+      setStep('email-config');
+  };
+
+  const updateEmailForm = (field: keyof typeof emailForm, value: string | number | boolean) => {
+      setEmailForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleEmailConnect = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!emailForm.from || !emailForm.smtpHost || !emailForm.user || !emailForm.pass) {
+          setEmailError('Sender address, SMTP server, username and password are required.');
+          return;
+      }
+      setEmailError('');
       setStep('verifying'); // Reusing verifying state for "Connecting..."
-      
-      // Simulate OAuth window delay
+
+      const login = { user: emailForm.user, pass: emailForm.pass };
+      try {
+          await EmailChannelService.connect({
+              from: emailForm.from.trim(),
+              fromName: emailForm.fromName.trim() || undefined,
+              smtp: { host: emailForm.smtpHost.trim(), port: Number(emailForm.smtpPort), secure: emailForm.smtpSecure, ...login },
+              imap: emailForm.imapHost.trim()
+                  ? { host: emailForm.imapHost.trim(), port: Number(emailForm.imapPort), secure: emailForm.imapSecure, ...login }
+                  : null
+          });
+      } catch (err) {
+          setEmailError(err instanceof Error ? err.message : 'Could not connect to the mail server.');
+          setStep('email-config');
+          return;
+      }
+
+      setStep('success');
       setTimeout(() => {
-          setStep('success');
-          setTimeout(() => {
-            onLink({
-                channel: Channel.EMAIL,
-                status: PlatformStatus.CONNECTED,
-                accountName: 'sales@globalreach.com',
-                connectedAt: Date.now(),
-                provider: provider
-            });
-            onClose();
-          }, 1500);
-      }, 2500);
+        onLink({
+            channel: Channel.EMAIL,
+            status: PlatformStatus.CONNECTED,
+            accountName: emailForm.from.trim(),
+            connectedAt: Date.now(),
+            provider: emailProvider || 'custom'
+        });
+        onClose();
+      }, 1500);
+  };
+
+  const updateSmsForm = (field: keyof typeof smsForm, value: string) => {
+      setSmsForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSmsConnect = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!smsForm.accountSid || !smsForm.authToken || !smsForm.from) {
+          setSmsError('Account SID, auth token and sender number are required.');
+          return;
+      }
+      setSmsError('');
+      setStep('verifying');
+
+      try {
+          await SmsChannelService.connect({
+              accountSid: smsForm.accountSid.trim(),
+              authToken: smsForm.authToken.trim(),
+              from: smsForm.from.trim(),
+              baseUrl: smsForm.baseUrl.trim() || undefined,
+              webhookBaseUrl: smsForm.webhookBaseUrl.trim() || undefined
+          });
+      } catch (err) {
+          setSmsError(err instanceof Error ? err.message : 'Could not reach the SMS gateway.');
+          setStep('sms-config');
+          return;
+      }
+
+      setStep('success');
+      setTimeout(() => {
+        onLink({
+            channel: Channel.SMS,
+            status: PlatformStatus.CONNECTED,
+            accountName: smsForm.from.trim(),
+            connectedAt: Date.now(),
+            provider: smsForm.baseUrl.trim() ? 'sms-gateway' : 'twilio'
+        });
+        onClose();
+      }, 1500);
+  };
+
+  const updateWechatForm = (field: keyof typeof wechatForm, value: string) => {
+      setWechatForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleWechatConnect = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!wechatForm.appId || !wechatForm.appSecret || !wechatForm.token) {
+          setWechatError('AppID, AppSecret and token are required.');
+          return;
+      }
+      setWechatError('');
+      setStep('verifying');
+
+      try {
+          await WeChatChannelService.connect({
+              appId: wechatForm.appId.trim(),
+              appSecret: wechatForm.appSecret.trim(),
+              token: wechatForm.token.trim(),
+              encodingAESKey: wechatForm.encodingAESKey.trim() || undefined
+          });
+      } catch (err) {
+          setWechatError(err instanceof Error ? err.message : 'Could not reach the WeChat API.');
+          setStep('wechat-config');
+          return;
+      }
+
+      setStep('success');
+      setTimeout(() => {
+        onLink({
+            channel: Channel.WECHAT,
+            status: PlatformStatus.CONNECTED,
+            accountName: wechatForm.appId.trim(),
+            connectedAt: Date.now(),
+            provider: 'wechat'
+        });
+        onClose();
+      }, 1500);
   };
 
   const getInstructions = () => {
@@ -80,15 +230,6 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
             <li>Point your phone at this screen to capture the QR code.</li>
           </ol>
         );
-      case Channel.WECHAT:
-        return (
-          <ol className="list-decimal list-inside space-y-2 text-sm text-slate-600 mt-4">
-            <li>Open <strong>WeChat</strong> on your mobile phone.</li>
-            <li>Tap the <strong>+</strong> button in the top right.</li>
-            <li>Select <strong>Scan</strong>.</li>
-            <li>Point your phone at this screen to authorize login.</li>
-          </ol>
-        );
       default:
         return null;
     }
@@ -99,6 +240,7 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
           case Channel.WHATSAPP: return 'bg-[#00a884]';
           case Channel.WECHAT: return 'bg-[#07C160]';
           case Channel.EMAIL: return 'bg-blue-600';
+          case Channel.SMS: return 'bg-rose-600';
           default: return 'bg-slate-900';
       }
   };
@@ -132,10 +274,10 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
           {/* EMAIL: Provider Selection */}
           {step === 'provider-select' && channel === Channel.EMAIL && (
               <div className="w-full space-y-4 animate-in slide-in-from-bottom-4 duration-300">
-                  <p className="text-slate-600 mb-6 text-sm">Select your email provider to authorize access via OAuth 2.0.</p>
+                  <p className="text-slate-600 mb-6 text-sm">Select your email provider. Mail is sent over SMTP and replies are read over IMAP.</p>
                   
                   <button 
-                    onClick={() => handleEmailConnect('google')}
+                    onClick={() => handleEmailProvider('google')}
                     className="w-full flex items-center p-4 border border-slate-200 rounded-xl hover:bg-slate-50 transition-all hover:shadow-md group"
                   >
                       <div className="w-10 h-10 bg-white rounded-full shadow-sm flex items-center justify-center text-slate-700 group-hover:scale-110 transition-transform">
@@ -149,7 +291,7 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
                   </button>
 
                   <button 
-                    onClick={() => handleEmailConnect('microsoft')}
+                    onClick={() => handleEmailProvider('microsoft')}
                     className="w-full flex items-center p-4 border border-slate-200 rounded-xl hover:bg-slate-50 transition-all hover:shadow-md group"
                   >
                       <div className="w-10 h-10 bg-[#00a4ef] text-white rounded-full shadow-sm flex items-center justify-center group-hover:scale-110 transition-transform">
@@ -162,7 +304,7 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
                   </button>
 
                   <button 
-                     onClick={() => handleEmailConnect('custom')}
+                     onClick={() => handleEmailProvider('custom')}
                      className="w-full flex items-center p-4 border border-slate-200 rounded-xl hover:bg-slate-50 transition-all hover:shadow-md group"
                   >
                       <div className="w-10 h-10 bg-slate-100 text-slate-600 rounded-full shadow-sm flex items-center justify-center group-hover:scale-110 transition-transform">
@@ -176,6 +318,97 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
               </div>
           )}
 
+          {/* EMAIL: Server settings */}
+          {step === 'email-config' && channel === Channel.EMAIL && (
+              <form onSubmit={handleEmailConnect} className="w-full space-y-3 text-left animate-in slide-in-from-bottom-4 duration-300">
+                  {emailProvider !== 'custom' && (
+                      <p className="text-xs text-slate-500 bg-slate-50 p-2 rounded border border-slate-100">
+                          Use an app password generated in your {emailProvider === 'google' ? 'Google' : 'Microsoft'} account security settings.
+                      </p>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                      <input type="email" placeholder="Sender address" value={emailForm.from} onChange={e => updateEmailForm('from', e.target.value)} className="col-span-2 p-2 border border-slate-300 rounded text-sm" />
+                      <input type="text" placeholder="Sender name (optional)" value={emailForm.fromName} onChange={e => updateEmailForm('fromName', e.target.value)} className="col-span-2 p-2 border border-slate-300 rounded text-sm" />
+                      <input type="text" placeholder="Username" value={emailForm.user} onChange={e => updateEmailForm('user', e.target.value)} className="p-2 border border-slate-300 rounded text-sm" />
+                      <input type="password" placeholder="Password" value={emailForm.pass} onChange={e => updateEmailForm('pass', e.target.value)} className="p-2 border border-slate-300 rounded text-sm" />
+                  </div>
+                  {emailProvider === 'custom' && (
+                      <div className="space-y-2">
+                          <div className="flex gap-2 items-center">
+                              <input type="text" placeholder="SMTP server" value={emailForm.smtpHost} onChange={e => updateEmailForm('smtpHost', e.target.value)} className="flex-1 p-2 border border-slate-300 rounded text-sm" />
+                              <input type="number" value={emailForm.smtpPort} onChange={e => updateEmailForm('smtpPort', Number(e.target.value))} className="w-20 p-2 border border-slate-300 rounded text-sm" />
+                              <label className="text-xs text-slate-600 flex items-center gap-1"><input type="checkbox" checked={emailForm.smtpSecure} onChange={e => updateEmailForm('smtpSecure', e.target.checked)} /> SSL</label>
+                          </div>
+                          <div className="flex gap-2 items-center">
+                              <input type="text" placeholder="IMAP server (for replies)" value={emailForm.imapHost} onChange={e => updateEmailForm('imapHost', e.target.value)} className="flex-1 p-2 border border-slate-300 rounded text-sm" />
+                              <input type="number" value={emailForm.imapPort} onChange={e => updateEmailForm('imapPort', Number(e.target.value))} className="w-20 p-2 border border-slate-300 rounded text-sm" />
+                              <label className="text-xs text-slate-600 flex items-center gap-1"><input type="checkbox" checked={emailForm.imapSecure} onChange={e => updateEmailForm('imapSecure', e.target.checked)} /> SSL</label>
+                          </div>
+                      </div>
+                  )}
+                  {emailError && (
+                      <div className="flex items-center gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+                          <AlertTriangle className="w-4 h-4 shrink-0" /> {emailError}
+                      </div>
+                  )}
+                  <div className="flex gap-2 pt-2">
+                      <button type="button" onClick={() => setStep('provider-select')} className="flex-1 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-50">Back</button>
+                      <button type="submit" className="flex-1 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold hover:bg-blue-700">Connect</button>
+                  </div>
+              </form>
+          )}
+
+          {/* SMS: Gateway settings */}
+          {step === 'sms-config' && channel === Channel.SMS && (
+              <form onSubmit={handleSmsConnect} className="w-full space-y-3 text-left animate-in slide-in-from-bottom-4 duration-300">
+                  <p className="text-slate-600 text-sm">Connect Twilio or any HTTP gateway with the same API.</p>
+                  <div className="grid grid-cols-2 gap-2">
+                      <input type="text" placeholder="Account SID" value={smsForm.accountSid} onChange={e => updateSmsForm('accountSid', e.target.value)} className="col-span-2 p-2 border border-slate-300 rounded text-sm" />
+                      <input type="password" placeholder="Auth token" value={smsForm.authToken} onChange={e => updateSmsForm('authToken', e.target.value)} className="p-2 border border-slate-300 rounded text-sm" />
+                      <input type="text" placeholder="Sender (+1555... or MG...)" value={smsForm.from} onChange={e => updateSmsForm('from', e.target.value)} className="p-2 border border-slate-300 rounded text-sm" />
+                      <input type="url" placeholder="Gateway URL (default: https://api.twilio.com)" value={smsForm.baseUrl} onChange={e => updateSmsForm('baseUrl', e.target.value)} className="col-span-2 p-2 border border-slate-300 rounded text-sm" />
+                      <input type="url" placeholder="Public URL of this server (for replies and delivery reports)" value={smsForm.webhookBaseUrl} onChange={e => updateSmsForm('webhookBaseUrl', e.target.value)} className="col-span-2 p-2 border border-slate-300 rounded text-sm" />
+                  </div>
+                  <p className="text-xs text-slate-500 bg-slate-50 p-2 rounded border border-slate-100">
+                      Point the number's incoming-message webhook at <span className="font-mono">/webhooks/sms</span> on the same URL to receive replies.
+                  </p>
+                  {smsError && (
+                      <div className="flex items-center gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+                          <AlertTriangle className="w-4 h-4 shrink-0" /> {smsError}
+                      </div>
+                  )}
+                  <div className="flex gap-2 pt-2">
+                      <button type="button" onClick={onClose} className="flex-1 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-50">Cancel</button>
+                      <button type="submit" className="flex-1 py-2 bg-rose-600 text-white rounded-lg text-sm font-bold hover:bg-rose-700">Connect</button>
+                  </div>
+              </form>
+          )}
+
+          {/* WECHAT: Official Account settings */}
+          {step === 'wechat-config' && channel === Channel.WECHAT && (
+              <form onSubmit={handleWechatConnect} className="w-full space-y-3 text-left animate-in slide-in-from-bottom-4 duration-300">
+                  <p className="text-slate-600 text-sm">Enter the developer credentials of your Official Account.</p>
+                  <div className="grid grid-cols-2 gap-2">
+                      <input type="text" placeholder="AppID" value={wechatForm.appId} onChange={e => updateWechatForm('appId', e.target.value)} className="p-2 border border-slate-300 rounded text-sm" />
+                      <input type="password" placeholder="AppSecret" value={wechatForm.appSecret} onChange={e => updateWechatForm('appSecret', e.target.value)} className="p-2 border border-slate-300 rounded text-sm" />
+                      <input type="text" placeholder="Token" value={wechatForm.token} onChange={e => updateWechatForm('token', e.target.value)} className="col-span-2 p-2 border border-slate-300 rounded text-sm" />
+                      <input type="text" placeholder="EncodingAESKey (safe mode only)" value={wechatForm.encodingAESKey} onChange={e => updateWechatForm('encodingAESKey', e.target.value)} className="col-span-2 p-2 border border-slate-300 rounded text-sm font-mono" />
+                  </div>
+                  <p className="text-xs text-slate-500 bg-slate-50 p-2 rounded border border-slate-100">
+                      In the console's server configuration, set the URL to <span className="font-mono">/webhooks/wechat</span> on this server with the same token, and whitelist this server's IP.
+                  </p>
+                  {wechatError && (
+                      <div className="flex items-center gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+                          <AlertTriangle className="w-4 h-4 shrink-0" /> {wechatError}
+                      </div>
+                  )}
+                  <div className="flex gap-2 pt-2">
+                      <button type="button" onClick={onClose} className="flex-1 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-50">Cancel</button>
+                      <button type="submit" className="flex-1 py-2 bg-[#07C160] text-white rounded-lg text-sm font-bold hover:bg-[#06ad56]">Connect</button>
+                  </div>
+              </form>
+          )}
+
           {/* QR FLOW: Generating */}
           {step === 'generating' && (
             <div className="h-64 flex flex-col items-center justify-center space-y-4">
@@ -215,7 +448,9 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
                 <p className="text-slate-500 text-sm">
                     {channel === Channel.EMAIL 
                         ? `Connecting to ${emailProvider === 'google' ? 'Google' : emailProvider === 'microsoft' ? 'Microsoft' : 'Server'}...`
-                        : "Securely linking your device session."}
+                        : channel === Channel.SMS || channel === Channel.WECHAT
+                            ? 'Checking credentials...'
+                            : "Securely linking your device session."}
                 </p>
              </div>
           )}
@@ -227,7 +462,7 @@ const PlatformConnectModal: React.FC<PlatformConnectModalProps> = ({ isOpen, onC
                     <CheckCircle className="w-10 h-10" />
                 </div>
                 <h3 className="font-bold text-slate-800 text-xl">
-                    {channel === Channel.EMAIL ? 'Email Linked!' : 'Device Linked!'}
+                    {channel === Channel.EMAIL ? 'Email Linked!' : channel === Channel.SMS ? 'SMS Gateway Linked!' : channel === Channel.WECHAT ? 'Official Account Linked!' : 'Device Linked!'}
                 </h3>
                 <p className="text-slate-500 text-sm">Redirecting back to settings...</p>
              </div>
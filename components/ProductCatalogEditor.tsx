@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit2, Package, AlertCircle, X } from 'lucide-react';
+import { Product, PriceTier, INCOTERMS, Incoterm } from '../types';
+import { validateProduct, formatMoney } from '../services/catalogService';
+
+interface ProductCatalogEditorProps {
+  products: Product[];
+  onChange: (products: Product[]) => void;
+  readOnly?: boolean;
+}
+
+const emptyProduct = (): Partial<Product> => ({
+  sku: '',
+  name: '',
+  hsCode: '',
+  grade: '',
+  unit: 'MT',
+  moq: 1,
+  currency: 'USD',
+  priceTiers: [{ minQuantity: 1, unitPrice: 0 }],
+  incoterms: ['FOB', 'CIF'],
+  packaging: ''
+});
+
+const ProductCatalogEditor: React.FC<ProductCatalogEditorProps> = ({ products, onChange, readOnly = false }) => {
+  const [draft, setDraft] = useState<Partial<Product> | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateTier = (index: number, patch: Partial<PriceTier>) => {
+    if (!draft) return;
+    setDraft({ ...draft, priceTiers: draft.priceTiers!.map((t, i) => (i === index ? { ...t, ...patch } : t)) });
+  };
+
+  const toggleIncoterm = (term: Incoterm) => {
+    if (!draft) return;
+    const current = draft.incoterms || [];
+    setDraft({ ...draft, incoterms: current.includes(term) ? current.filter(t => t !== term) : INCOTERMS.filter(t => t === term || current.includes(t)) });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const problems = validateProduct(draft, products);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    const product: Product = {
+      ...(draft as Product),
+      id: draft.id || `prod-${Date.now()}`,
+      sku: draft.sku!.trim(),
+      name: draft.name!.trim(),
+      hsCode: draft.hsCode!.trim(),
+      grade: draft.grade?.trim() || undefined,
+      packaging: draft.packaging?.trim() || undefined,
+      priceTiers: [...draft.priceTiers!].sort((a, b) => a.minQuantity - b.minQuantity),
+      updatedAt: Date.now()
+    };
+    onChange(draft.id ? products.map(p => (p.id === product.id ? product : p)) : [...products, product]);
+    setDraft(null);
+  };
+
+  const startEdit = (product?: Product) => {
+    setErrors([]);
+    setDraft(product ? { ...product } : emptyProduct());
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2"><Package className="w-4 h-4" /> Product Catalog</h3>
+          <p className="text-xs text-slate-500">Used for quotations and as {'{{myProduct}}'} in outreach.</p>
+        </div>
+        {!readOnly && !draft && (
+          <button onClick={() => startEdit()} className="flex items-center gap-1 text-xs font-bold bg-indigo-600 text-white px-3 py-1.5 rounded-lg hover:bg-indigo-700">
+            <Plus className="w-3 h-3" /> Add Product
+          </button>
+        )}
+      </div>
+
+      {products.length === 0 && !draft && (
+        <div className="text-center text-sm text-slate-400 py-6 border border-dashed border-slate-300 rounded-lg">No products yet.</div>
+      )}
+
+      {!draft && products.map(product => (
+        <div key={product.id} className="bg-slate-50 border border-slate-200 rounded-lg p-3 flex justify-between items-start gap-3">
+          <div className="min-w-0">
+            <p className="text-sm font-bold text-slate-800">
+              {product.name}{product.grade && <span className="font-normal text-slate-500"> · {product.grade}</span>}
+            </p>
+            <p className="text-[11px] text-slate-500 font-mono">SKU {product.sku} · HS {product.hsCode} · MOQ {product.moq} {product.unit}</p>
+            <p className="text-xs text-slate-600 mt-1">
+              {product.priceTiers.map(t => `${formatMoney(t.unitPrice, product.currency)}/${product.unit} from ${t.minQuantity}`).join(' · ')}
+            </p>
+            <p className="text-[11px] text-slate-400">{product.incoterms.join(', ')}{product.packaging && ` · ${product.packaging}`}</p>
+          </div>
+          {!readOnly && (
+            <div className="flex gap-1 shrink-0">
+              <button onClick={() => startEdit(product)} aria-label={`Edit ${product.name}`} className="p-1.5 text-slate-400 hover:text-indigo-600"><Edit2 className="w-4 h-4" /></button>
+              <button onClick={() => onChange(products.filter(p => p.id !== product.id))} aria-label={`Delete ${product.name}`} className="p-1.5 text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {draft && (
+        <div className="border border-indigo-200 bg-indigo-50/40 rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {([
+              ['sku', 'SKU'],
+              ['name', 'Name'],
+              ['grade', 'Grade'],
+              ['hsCode', 'HS Code'],
+              ['unit', 'Unit'],
+              ['currency', 'Currency']
+            ] as [keyof Product, string][]).map(([field, label]) => (
+              <div key={field}>
+                <label className="block text-xs font-bold text-slate-500 mb-1">{label}</label>
+                <input
+                  value={(draft[field] as string) || ''}
+                  onChange={(e) => setDraft({ ...draft, [field]: field === 'currency' ? e.target.value.toUpperCase() : e.target.value })}
+                  className="w-full p-2 text-sm border border-slate-300 rounded"
+                />
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">MOQ ({draft.unit})</label>
+              <input type="number" min="0" value={draft.moq ?? ''} onChange={(e) => setDraft({ ...draft, moq: Number(e.target.value) })} className="w-full p-2 text-sm border border-slate-300 rounded" />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-bold text-slate-500 mb-1">Packaging</label>
+              <input value={draft.packaging || ''} onChange={(e) => setDraft({ ...draft, packaging: e.target.value })} placeholder="25 kg PP bags, 20 MT per 20ft container" className="w-full p-2 text-sm border border-slate-300 rounded" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Price Tiers ({draft.currency} per {draft.unit})</label>
+            {draft.priceTiers!.map((tier, i) => (
+              <div key={i} className="flex items-center gap-2 mb-1">
+                <span className="text-xs text-slate-500 w-10">From</span>
+                <input type="number" min="0" value={tier.minQuantity} onChange={(e) => updateTier(i, { minQuantity: Number(e.target.value) })} aria-label="Tier minimum quantity" className="w-24 p-1.5 text-sm border border-slate-300 rounded" />
+                <span className="text-xs text-slate-500">{draft.unit} at</span>
+                <input type="number" min="0" step="0.01" value={tier.unitPrice} onChange={(e) => updateTier(i, { unitPrice: Number(e.target.value) })} aria-label="Tier unit price" className="w-28 p-1.5 text-sm border border-slate-300 rounded" />
+                {draft.priceTiers!.length > 1 && (
+                  <button onClick={() => setDraft({ ...draft, priceTiers: draft.priceTiers!.filter((_, j) => j !== i) })} aria-label="Remove tier" className="text-slate-400 hover:text-red-500"><X className="w-4 h-4" /></button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, priceTiers: [...draft.priceTiers!, { minQuantity: Math.max(...draft.priceTiers!.map(t => t.minQuantity), 0) * 2 || 1, unitPrice: 0 }] })}
+              className="text-xs font-bold text-indigo-600 hover:underline"
+            >
+              + Add tier
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Incoterms offered</label>
+            <div className="flex flex-wrap gap-1">
+              {INCOTERMS.map(term => (
+                <button
+                  key={term}
+                  onClick={() => toggleIncoterm(term)}
+                  className={`px-2 py-1 text-xs rounded border ${draft.incoterms?.includes(term) ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300'}`}
+                >
+                  {term}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="text-xs text-red-600 space-y-0.5">
+              {errors.map(e => <p key={e} className="flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {e}</p>)}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+            <button onClick={handleSave} className="px-3 py-1.5 text-sm font-bold bg-indigo-600 text-white rounded-lg hover:bg-indigo-700">Save Product</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductCatalogEditor;
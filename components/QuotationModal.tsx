@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, FileText, AlertCircle, Loader2, Send } from 'lucide-react';
+import { Importer, Incoterm, Product, Quotation, ExchangeRate, COMMON_CURRENCIES } from '../types';
+import { unitPriceFor, sharedIncoterms, formatMoney } from '../services/catalogService';
+import { QuoteRequest, checkQuoteRequest, issueQuotation, renderQuotationText, quotationTitle } from '../services/quotationService';
+
+interface QuotationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  importer: Importer;
+  products: Product[];
+  quotations: Quotation[]; // All quotations, for numbering; this importer's are listed as history
+  exchangeRates: ExchangeRate[];
+  sellerName: string;
+  onIssue: (request: QuoteRequest) => Promise<boolean>;
+}
+
+const QuotationModal: React.FC<QuotationModalProps> = ({ isOpen, onClose, importer, products, quotations, exchangeRates, sellerName, onIssue }) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [incoterm, setIncoterm] = useState<Incoterm>('FOB');
+  const [port, setPort] = useState('');
+  const [validityDays, setValidityDays] = useState(14);
+  const [notes, setNotes] = useState('');
+  const [currency, setCurrency] = useState(''); // Empty: the products' own currency
+  const [reviseQuoteNumber, setReviseQuoteNumber] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const history = useMemo(
+    () => quotations.filter(q => q.importerId === importer.id).sort((a, b) => b.createdAt - a.createdAt),
+    [quotations, importer.id]
+  );
+
+  // Opening on a lead with a live quotation starts a revision of it
+  useEffect(() => {
+    if (!isOpen) return;
+    const current = history.find(q => q.status === 'issued');
+    setQuantities(current ? Object.fromEntries(current.lines.map(l => [l.productId, l.quantity])) : {});
+    setIncoterm(current ? current.incoterm : 'FOB');
+    setPort(current ? current.port : '');
+    setNotes(current?.notes || '');
+    setCurrency(current ? current.currency : '');
+    setReviseQuoteNumber(current ? current.quoteNumber : '');
+  }, [isOpen, importer.id]);
+
+  const request: QuoteRequest = {
+    items: Object.entries(quantities).map(([productId, quantity]) => ({ productId, quantity })),
+    incoterm,
+    port,
+    validityDays,
+    notes,
+    currency: currency || undefined,
+    reviseQuoteNumber: reviseQuoteNumber || undefined
+  };
+  const errors = checkQuoteRequest(request, products, exchangeRates);
+  const selectedProducts = products.filter(p => p.id in quantities);
+  const incoterms = selectedProducts.length > 0 ? sharedIncoterms(selectedProducts) : [];
+  const preview = errors.length === 0 ? issueQuotation(importer, products, request, quotations, Date.now(), exchangeRates).quotation : null;
+
+  if (!isOpen) return null;
+
+  const toggleProduct = (product: Product) => {
+    setQuantities(prev => {
+      const next = { ...prev };
+      if (product.id in next) delete next[product.id];
+      else next[product.id] = product.moq;
+      return next;
+    });
+  };
+
+  const handleIssue = async () => {
+    setIsSending(true);
+    const sent = await onIssue(request);
+    setIsSending(false);
+    if (sent) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-indigo-600" />
+            Quotation for {importer.companyName}
+          </h2>
+          <button onClick={onClose} aria-label="Close quotation" className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-5">
+          {products.length === 0 ? (
+            <p className="text-sm text-slate-500">The product catalog is empty. Add products under Settings → Catalog first.</p>
+          ) : (
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">Products</label>
+              <div className="space-y-2">
+                {products.map(product => {
+                  const selected = product.id in quantities;
+                  const quantity = quantities[product.id];
+                  const unitPrice = selected ? unitPriceFor(product, quantity) : null;
+                  return (
+                    <div key={product.id} className={`flex items-center gap-3 p-2 rounded-lg border ${selected ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200'}`}>
+                      <input type="checkbox" checked={selected} onChange={() => toggleProduct(product)} aria-label={`Quote ${product.name}`} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-slate-800 truncate">{product.name}{product.grade && ` · ${product.grade}`}</p>
+                        <p className="text-[11px] text-slate-500">SKU {product.sku} · MOQ {product.moq} {product.unit}</p>
+                      </div>
+                      {selected && (
+                        <>
+                          <input
+                            type="number"
+                            min={product.moq}
+                            value={quantity}
+                            onChange={(e) => setQuantities(prev => ({ ...prev, [product.id]: Number(e.target.value) }))}
+                            aria-label={`${product.name} quantity`}
+                            className="w-24 p-1.5 text-sm border border-slate-300 rounded"
+                          />
+                          <span className="text-xs text-slate-500 w-8">{product.unit}</span>
+                          <span className="text-xs font-mono text-slate-700 w-40 text-right">
+                            {unitPrice === null ? '—' : `${formatMoney(unitPrice, product.currency)} → ${formatMoney(unitPrice * quantity, product.currency)}`}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Incoterm</label>
+              <select value={incoterm} onChange={(e) => setIncoterm(e.target.value as Incoterm)} className="w-full p-2 text-sm border border-slate-300 rounded">
+                {(incoterms.length > 0 ? incoterms : [incoterm]).map(term => <option key={term} value={term}>{term}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Port / Named place</label>
+              <input value={port} onChange={(e) => setPort(e.target.value)} placeholder={['FOB', 'FAS', 'FCA', 'EXW'].includes(incoterm) ? 'e.g. Mundra' : 'e.g. Rotterdam'} className="w-full p-2 text-sm border border-slate-300 rounded" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Currency</label>
+              <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="w-full p-2 text-sm border border-slate-300 rounded">
+                <option value="">As in catalog</option>
+                {[...new Set([...COMMON_CURRENCIES, ...products.map(p => p.currency)])].map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Valid for (days)</label>
+              <input type="number" min="1" value={validityDays} onChange={(e) => setValidityDays(Number(e.target.value))} className="w-full p-2 text-sm border border-slate-300 rounded" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">Notes (payment terms, lead time)</label>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className="w-full p-2 text-sm border border-slate-300 rounded h-16" placeholder="30% advance, balance against BL copy. Shipment within 3 weeks of advance." />
+          </div>
+
+          {history.length > 0 && (
+            <div>
+              <label className="block text-xs font-bold text-slate-500 mb-1">Version</label>
+              <select value={reviseQuoteNumber} onChange={(e) => setReviseQuoteNumber(e.target.value)} className="w-full p-2 text-sm border border-slate-300 rounded mb-2">
+                <option value="">New quotation</option>
+                {[...new Set(history.map(q => q.quoteNumber))].map(number => (
+                  <option key={number} value={number}>Revise {number}</option>
+                ))}
+              </select>
+              <ul className="text-xs text-slate-500 space-y-0.5">
+                {history.map(q => (
+                  <li key={q.id} className={q.status === 'superseded' ? 'line-through opacity-60' : ''}>
+                    {quotationTitle(q)} · {formatMoney(q.total, q.currency)} {q.incoterm} {q.port} · {new Date(q.createdAt).toLocaleDateString()}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {errors.length > 0 && selectedProducts.length > 0 && (
+            <div className="text-xs text-red-600 space-y-0.5">
+              {errors.map(e => <p key={e} className="flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {e}</p>)}
+            </div>
+          )}
+
+          {preview && (
+            <pre className="text-xs bg-slate-50 border border-slate-200 rounded-lg p-3 whitespace-pre-wrap font-mono text-slate-700">
+              {renderQuotationText(preview, importer, sellerName)}
+            </pre>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-xl flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+          <button
+            onClick={handleIssue}
+            disabled={!preview || isSending}
+            className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium shadow-lg shadow-indigo-600/20 disabled:bg-slate-400 disabled:cursor-not-allowed"
+          >
+            {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />} Send Quotation
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuotationModal;
@@ -1,7 +1,7 @@
 
-import React, { useState } from 'react';
-import { X, FileBarChart, Calendar, Mail, Clock } from 'lucide-react';
-import { ReportConfig } from '../types';
+import React, { useEffect, useState } from 'react';
+import { X, FileBarChart, Calendar, Mail, Clock, Coins } from 'lucide-react';
+import { ReportConfig, COMMON_CURRENCIES } from '../types';
 
 interface ReportConfigModalProps {
   isOpen: boolean;
@@ -13,6 +13,11 @@ interface ReportConfigModalProps {
 const ReportConfigModal: React.FC<ReportConfigModalProps> = ({ isOpen, onClose, config, onSave }) => {
   const [localConfig, setLocalConfig] = useState<ReportConfig>(config);
 
+  // The saved config loads after mount, so pick it up each time the modal opens
+  useEffect(() => {
+    if (isOpen) setLocalConfig(config);
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
   return (
@@ -76,6 +81,21 @@ const ReportConfigModal: React.FC<ReportConfigModalProps> = ({ isOpen, onClose,
              </div>
           </div>
 
+          {/* Base Currency */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 mb-3">
+                <Coins className="w-4 h-4 text-slate-400" /> Reporting Currency
+            </label>
+            <select
+                value={localConfig.baseCurrency}
+                onChange={(e) => setLocalConfig({ ...localConfig, baseCurrency: e.target.value })}
+                className="w-full text-sm border border-slate-300 rounded-lg p-2 outline-none"
+            >
+                {[...new Set([...COMMON_CURRENCIES, localConfig.baseCurrency])].map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <p className="text-xs text-slate-400 mt-1">Deals in other currencies are converted at the exchange rate valid on their date.</p>
+          </div>
+
           {/* Scheduled Exports */}
           <div>
              <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 mb-3">
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { KeyRound, Plus, Save, Trash2, AlertCircle } from 'lucide-react';
+import { Permission, PERMISSION_LABELS, RoleDefinition } from '../types';
+import { AuthService } from '../services/authService';
+
+interface RoleManagerProps {
+  roles: RoleDefinition[];
+  onChange: (roles: RoleDefinition[]) => void;
+}
+
+/**
+ * Permission matrix for the built-in roles (read-only) and custom ones. Custom roles can't be
+ * renamed, and can't be deleted while users still hold them.
+ */
+const RoleManager: React.FC<RoleManagerProps> = ({ roles, onChange }) => {
+  // Unsaved permission edits per custom role
+  const [edits, setEdits] = useState<Record<string, Permission[]>>({});
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    }
+  };
+
+  const permissionsOf = (role: RoleDefinition) => edits[role.name] ?? role.permissions;
+
+  const toggle = (role: RoleDefinition, permission: Permission) => {
+    const current = permissionsOf(role);
+    setEdits(prev => ({
+      ...prev,
+      [role.name]: current.includes(permission) ? current.filter(p => p !== permission) : [...current, permission]
+    }));
+  };
+
+  const handleSave = (role: RoleDefinition) => run(async () => {
+    const saved = await AuthService.saveRole({ name: role.name, permissions: permissionsOf(role) });
+    onChange(roles.map(r => r.name === saved.name ? saved : r));
+    setEdits(({ [role.name]: _, ...rest }) => rest);
+  });
+
+  const handleCreate = () => run(async () => {
+    const name = newName.trim();
+    if (roles.some(r => r.name.toLowerCase() === name.toLowerCase())) throw new Error(`A role named ${name} already exists`);
+    const created = await AuthService.saveRole({ name, permissions: [] });
+    onChange([...roles, created]);
+    setNewName('');
+  });
+
+  const handleDelete = (role: RoleDefinition) => run(async () => {
+    if (!window.confirm(`Delete the ${role.name} role?`)) return;
+    await AuthService.deleteRole(role.name);
+    onChange(roles.filter(r => r.name !== role.name));
+  });
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2"><KeyRound className="w-4 h-4" /> Roles &amp; Permissions</h3>
+
+      <div className="overflow-x-auto border border-slate-200 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="text-left p-2">Permission</th>
+              {roles.map(role => (
+                <th key={role.name} className="p-2 text-center whitespace-nowrap">
+                  {role.name}
+                  {!role.builtIn && (
+                    <span className="ml-1 inline-flex gap-1 align-middle">
+                      <button onClick={() => handleSave(role)} disabled={!edits[role.name]} aria-label={`Save ${role.name}`} className="text-indigo-600 disabled:text-slate-300"><Save className="w-3 h-3" /></button>
+                      <button onClick={() => handleDelete(role)} aria-label={`Delete ${role.name}`} className="text-slate-400 hover:text-red-500"><Trash2 className="w-3 h-3" /></button>
+                    </span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Object.values(Permission).map(permission => (
+              <tr key={permission} className="border-t border-slate-100">
+                <td className="p-2 text-slate-700">{PERMISSION_LABELS[permission]}</td>
+                {roles.map(role => (
+                  <td key={role.name} className="p-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={permissionsOf(role).includes(permission)}
+                      disabled={role.builtIn}
+                      onChange={() => toggle(role, permission)}
+                      aria-label={`${role.name}: ${PERMISSION_LABELS[permission]}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New role name" aria-label="New role name" className="w-40 p-1.5 text-sm border border-slate-300 rounded" />
+        <button onClick={handleCreate} disabled={newName.trim().length < 2} className="flex items-center gap-1 text-xs font-bold bg-indigo-600 text-white px-3 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+          <Plus className="w-3 h-3" /> Add Role
+        </button>
+      </div>
+
+      {error && <p className="flex items-center gap-1 text-xs text-red-600"><AlertCircle className="w-3 h-3" /> {error}</p>}
+    </div>
+  );
+};
+
+export default RoleManager;
@@ -1,13 +1,24 @@
 
 import React, { useState, useEffect } from 'react';
 import { X, Save, RefreshCcw, Globe, Shield, Link as LinkIcon, CheckCircle, AlertCircle, Mail, Smartphone, Monitor, LogOut, Lock, Bell, MessageSquare, Server, Download, Cpu, Radio, Network, Database, Upload, FileText, Terminal, Activity, PlayCircle, Zap, Brain, Sparkles, ThumbsUp, ThumbsDown, Trash2 } from 'lucide-react';
-import { AppTemplates, DEFAULT_TEMPLATES, Language, UserRole, PlatformConnection, Channel, PlatformStatus, AuthSession, NotificationConfig, DEFAULT_NOTIFICATIONS, Importer, OptimizationInsight } from '../types';
+import { AppTemplates, DEFAULT_TEMPLATES, Language, Permission, hasPermission, PlatformConnection, Channel, PlatformStatus, AuthSession, NotificationConfig, DEFAULT_NOTIFICATIONS, Importer, OptimizationInsight, Product, ExchangeRate, User, RoleDefinition, AssignmentRule, TeamMember } from '../types';
 import { t } from '../services/i18n';
 import PlatformConnectModal from './PlatformConnectModal';
-import { getActiveSessions } from '../services/securityService';
+import ProductCatalogEditor from './ProductCatalogEditor';
+import ExchangeRateEditor from './ExchangeRateEditor';
+import AssignmentRulesEditor from './AssignmentRulesEditor';
+import TwoFactorSettings from './TwoFactorSettings';
+import UserManager from './UserManager';
+import RoleManager from './RoleManager';
+import AuditLogViewer from './AuditLogViewer';
+import { getActiveSessions, revokeSession, logSecurityEvent } from '../services/securityService';
 import { PlatformService, isDesktop } from '../services/platformService';
+import { AuthService } from '../services/authService';
 import { Logger } from '../services/loggerService';
 import { OptimizationService } from '../services/optimizationService';
+import { EmailChannelService } from '../services/emailChannelService';
+import { SmsChannelService } from '../services/smsChannelService';
+import { WeChatChannelService } from '../services/wechatChannelService';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -16,13 +27,22 @@ interface SettingsModalProps {
   onSave: (t: AppTemplates) => void;
   language: Language;
   setLanguage: (l: Language) => void;
-  userRole: UserRole;
+  userRole: string;
   connectedPlatforms: PlatformConnection[];
   onUpdateConnection: (conn: PlatformConnection) => void;
   notificationConfig?: NotificationConfig;
   onSaveNotifications?: (c: NotificationConfig) => void;
   importers?: Importer[]; 
   onRestoreData?: (importers: Importer[]) => void; 
+  products?: Product[];
+  onProductsChange?: (products: Product[]) => void;
+  exchangeRates?: ExchangeRate[];
+  onExchangeRatesChange?: (rates: ExchangeRate[]) => void;
+  assignmentRules?: AssignmentRule[];
+  onAssignmentRulesChange?: (rules: AssignmentRule[]) => void;
+  team?: TeamMember[];
+  currentUser?: User;
+  onUserChange?: (user: User) => void;
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
@@ -38,11 +58,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     notificationConfig = DEFAULT_NOTIFICATIONS,
     onSaveNotifications,
     importers = [],
-    onRestoreData
+    onRestoreData,
+    products = [],
+    onProductsChange,
+    exchangeRates = [],
+    onExchangeRatesChange,
+    assignmentRules = [],
+    onAssignmentRulesChange,
+    team = [],
+    currentUser,
+    onUserChange
 }) => {
+  const can = (permission: Permission) => hasPermission(currentUser ?? { role: userRole }, permission);
   const [localTemplates, setLocalTemplates] = useState<AppTemplates>(templates);
   const [localNotifications, setLocalNotifications] = useState<NotificationConfig>(notificationConfig);
-  const [activeTab, setActiveTab] = useState<'general' | 'integrations' | 'templates' | 'security' | 'notifications' | 'system' | 'data' | 'diagnostics' | 'tuning'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'integrations' | 'templates' | 'catalog' | 'currency' | 'assignment' | 'security' | 'audit' | 'notifications' | 'system' | 'data' | 'diagnostics' | 'tuning'>('general');
   const [connectModalOpen, setConnectModalOpen] = useState(false);
   const [selectedChannel, setSelectedChannel] = useState<Channel>(Channel.WHATSAPP);
   
@@ -57,16 +87,23 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   const [healthLogs, setHealthLogs] = useState<string[]>([]);
   
   const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [sessionError, setSessionError] = useState<string | null>(null);
 
   // AI Optimization State
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optimizationResult, setOptimizationResult] = useState<OptimizationInsight | null>(null);
 
+  // Shared by the role editor and the users' role pickers
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+
   useEffect(() => {
     setLocalTemplates(templates);
     if (notificationConfig) setLocalNotifications(notificationConfig);
     if (isOpen) {
-        setSessions(getActiveSessions());
+        getActiveSessions()
+            .then(list => { setSessions(list); setSessionError(null); })
+            .catch(err => setSessionError(err.message || 'Unable to load sessions'));
+        if (can(Permission.MANAGE_USERS)) AuthService.listRoles().then(setRoles).catch(() => setRoles([]));
         
         const loadSystem = async () => {
             setAppVersion(await PlatformService.getVersion());
@@ -96,8 +133,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   };
 
   const handleSaveAll = async () => {
-      onSave(localTemplates);
+      const changedTemplates = (Object.keys(localTemplates) as (keyof AppTemplates)[]).filter(key => localTemplates[key] !== templates[key]);
+      if (can(Permission.EDIT_TEMPLATES)) onSave(localTemplates);
       if (onSaveNotifications) onSaveNotifications(localNotifications);
+      if (changedTemplates.length > 0 && can(Permission.EDIT_TEMPLATES)) logSecurityEvent('SETTINGS_CHANGED', `Templates: ${changedTemplates.join(', ')}`);
+      if (JSON.stringify(localNotifications) !== JSON.stringify(notificationConfig)) logSecurityEvent('SETTINGS_CHANGED', 'Notification preferences');
       
       await PlatformService.setAppConfig('serverPort', parseInt(serverPort));
       await PlatformService.setAppConfig('webhookToken', webhookToken);
@@ -113,6 +153,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       const data = JSON.stringify({ timestamp: Date.now(), importers });
       const result = await PlatformService.backupData(data);
       if (result.success) {
+          logSecurityEvent('BACKUP_CREATED', `Manual backup of ${importers.length} leads`);
           setBackupStatus('Backup saved successfully.');
           setTimeout(() => setBackupStatus(''), 3000);
       } else {
@@ -159,9 +200,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       setConnectModalOpen(true);
   };
 
-  const handleRevokeSession = (sessionId: string) => {
-      setSessions(prev => prev.filter(s => s.id !== sessionId));
-      Logger.info('Session revoked', { sessionId });
+  const handleRevokeSession = async (sessionId: string) => {
+      try {
+          await revokeSession(sessionId);
+          setSessions(prev => prev.filter(s => s.id !== sessionId));
+          Logger.info('Session revoked', { sessionId });
+      } catch (err: any) {
+          setSessionError(err.message || 'Unable to revoke session');
+      }
   };
 
   const handleInstallUpdate = () => {
@@ -232,6 +278,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
       }
   };
 
+  const handleDisconnect = async (connection: PlatformConnection) => {
+      // Email, SMS and WeChat credentials live on the backend; drop them there too
+      if (connection.channel === Channel.EMAIL) {
+          await EmailChannelService.disconnect().catch(e => console.warn('[Settings] Email disconnect failed', e));
+      } else if (connection.channel === Channel.SMS) {
+          await SmsChannelService.disconnect().catch(e => console.warn('[Settings] SMS disconnect failed', e));
+      } else if (connection.channel === Channel.WECHAT) {
+          await WeChatChannelService.disconnect().catch(e => console.warn('[Settings] WeChat disconnect failed', e));
+      }
+      onUpdateConnection({ ...connection, status: PlatformStatus.DISCONNECTED });
+  };
+
   const getPlatformStatus = (channel: Channel) => {
       return connectedPlatforms.find(p => p.channel === channel) || { channel, status: PlatformStatus.DISCONNECTED };
   };
@@ -241,6 +299,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           case Channel.WHATSAPP: return 'bg-green-100 text-green-600';
           case Channel.WECHAT: return 'bg-emerald-100 text-emerald-600';
           case Channel.EMAIL: return 'bg-blue-100 text-blue-600';
+          case Channel.SMS: return 'bg-rose-100 text-rose-600';
           default: return 'bg-slate-100 text-slate-600';
       }
   };
@@ -265,7 +324,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         </div>
 
         <div className="flex border-b border-slate-200 px-6 gap-6 overflow-x-auto scrollbar-hide">
-            {['general', 'notifications', 'integrations', 'templates', 'tuning', 'security', 'system', 'data', 'diagnostics'].map(tab => (
+            {['general', 'notifications', 'integrations', 'templates', 'catalog', 'currency', 'assignment', 'tuning', 'security', ...(can(Permission.MANAGE_USERS) ? ['audit'] : []), 'system', 'data', 'diagnostics'].map(tab => (
                 <button 
                     key={tab}
                     onClick={() => setActiveTab(tab as any)} 
@@ -303,7 +362,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     <Shield className="w-4 h-4" /> {t('role', language)}: {userRole}
                     </h3>
                     <p className="text-xs text-slate-500">
-                    {userRole === UserRole.ADMIN ? 'You have full control over templates and settings.' : 'Some settings may be read-only.'}
+                    {Object.values(Permission).every(can) ? 'You have full control over templates and settings.' : 'Some settings may be read-only.'}
                     </p>
                 </div>
             </div>
@@ -404,7 +463,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                             <div className="mt-4 flex justify-end">
                                 <button 
                                     onClick={applyOptimization}
-                                    className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded hover:bg-slate-800"
+                                    disabled={!can(Permission.EDIT_TEMPLATES)}
+                                    className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded hover:bg-slate-800 disabled:opacity-50"
                                 >
                                     {t('applyChanges', language)}
                                 </button>
@@ -419,14 +479,14 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           {activeTab === 'integrations' && (
             <div className="space-y-4">
                 <p className="text-sm text-slate-600 mb-4">Link accounts to enable automated messaging.</p>
-                {[Channel.WHATSAPP, Channel.WECHAT, Channel.EMAIL].map(channel => {
+                {[Channel.WHATSAPP, Channel.WECHAT, Channel.EMAIL, Channel.SMS].map(channel => {
                     const connection = getPlatformStatus(channel);
                     const isConnected = connection.status === PlatformStatus.CONNECTED;
                     return (
                         <div key={channel} className="flex items-center justify-between p-4 border border-slate-200 rounded-lg hover:bg-slate-50">
                             <div className="flex items-center gap-4">
                                 <div className={`w-12 h-12 rounded-full flex items-center justify-center shrink-0 ${getChannelIcon(channel)}`}>
-                                    {channel === Channel.EMAIL ? <Mail className="w-6 h-6" /> : <LinkIcon className="w-6 h-6" />}
+                                    {channel === Channel.EMAIL ? <Mail className="w-6 h-6" /> : channel === Channel.SMS ? <Smartphone className="w-6 h-6" /> : <LinkIcon className="w-6 h-6" />}
                                 </div>
                                 <div>
                                     <h4 className="font-bold text-slate-800">{channel}</h4>
@@ -439,8 +499,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                                 </div>
                             </div>
                             <button 
-                                onClick={() => isConnected ? onUpdateConnection({ ...connection, status: PlatformStatus.DISCONNECTED }) : openConnectModal(channel)}
-                                className={`px-3 py-1.5 text-xs border rounded ${isConnected ? 'border-red-200 text-red-600 hover:bg-red-50' : 'bg-slate-900 text-white hover:bg-slate-800'}`}
+                                onClick={() => isConnected ? handleDisconnect(connection) : openConnectModal(channel)}
+                                disabled={!can(Permission.MANAGE_INTEGRATIONS)}
+                                className={`px-3 py-1.5 text-xs border rounded disabled:opacity-50 ${isConnected ? 'border-red-200 text-red-600 hover:bg-red-50' : 'bg-slate-900 text-white hover:bg-slate-800'}`}
                             >
                                 {isConnected ? 'Disconnect' : 'Connect'}
                             </button>
@@ -453,6 +514,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           {/* SECURITY */}
           {activeTab === 'security' && (
              <div className="space-y-6">
+                 {currentUser && onUserChange && <TwoFactorSettings user={currentUser} onChange={onUserChange} />}
+                 {currentUser && can(Permission.MANAGE_USERS) && <UserManager currentUserId={currentUser.id} roles={roles} />}
+                 {can(Permission.MANAGE_USERS) && <RoleManager roles={roles} onChange={setRoles} />}
                  <div>
                      <h3 className="text-sm font-bold text-slate-800 mb-4 flex items-center gap-2"><Monitor className="w-4 h-4" /> Active Sessions</h3>
                      <div className="space-y-3">
@@ -460,23 +524,29 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                              <div key={session.id} className="flex items-center justify-between p-4 border border-slate-200 rounded-lg">
                                  <div className="flex items-center gap-3">
                                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${session.isCurrent ? 'bg-green-100 text-green-600' : 'bg-slate-100 text-slate-500'}`}>
-                                         {session.device.toLowerCase().includes('phone') ? <Smartphone className="w-5 h-5" /> : <Monitor className="w-5 h-5" />}
+                                         {/iphone|android/i.test(session.device) ? <Smartphone className="w-5 h-5" /> : <Monitor className="w-5 h-5" />}
                                      </div>
                                      <div>
                                          <p className="text-sm font-bold text-slate-800 flex items-center gap-2">
                                              {session.device} {session.isCurrent && <span className="px-1.5 py-0.5 bg-green-100 text-green-700 text-[10px] rounded-full uppercase">Current</span>}
                                          </p>
-                                         <p className="text-xs text-slate-500">IP: {session.ip} • {new Date(session.lastActive).toLocaleDateString()}</p>
+                                         <p className="text-xs text-slate-500">
+                                             {can(Permission.MANAGE_USERS) && <>{session.userName} • </>}IP: {session.ip || 'unknown'} • Active {new Date(session.lastActive).toLocaleString()}
+                                         </p>
                                      </div>
                                  </div>
                                  {!session.isCurrent && <button onClick={() => handleRevokeSession(session.id)} className="text-xs text-red-600 hover:bg-red-50 px-3 py-1.5 rounded border border-red-200">Revoke</button>}
                              </div>
                          ))}
+                         {sessionError && <p className="flex items-center gap-1 text-xs text-red-600"><AlertCircle className="w-3 h-3" /> {sessionError}</p>}
                      </div>
                  </div>
              </div>
           )}
 
+          {/* AUDIT */}
+          {activeTab === 'audit' && can(Permission.MANAGE_USERS) && <AuditLogViewer />}
+
           {/* SYSTEM */}
           {activeTab === 'system' && (
             <div className="space-y-6">
@@ -596,10 +666,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                           Create encrypted snapshots of your entire CRM database.
                       </p>
                       <div className="flex gap-3">
-                          <button onClick={handleBackup} className="flex items-center gap-2 px-4 py-2 bg-white border border-indigo-200 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-50 shadow-sm">
+                          <button onClick={handleBackup} disabled={!can(Permission.EXPORT_DATA)} className="disabled:opacity-50 flex items-center gap-2 px-4 py-2 bg-white border border-indigo-200 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-50 shadow-sm">
                               <Download className="w-4 h-4" /> Create Snapshot
                           </button>
-                          <button onClick={handleRestore} className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 shadow-sm">
+                          <button onClick={handleRestore} disabled={!can(Permission.EDIT_LEADS)} className="disabled:opacity-50 flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 shadow-sm">
                               <Upload className="w-4 h-4" /> Restore Data
                           </button>
                       </div>
@@ -666,9 +736,24 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
              </div>
           )}
 
+          {/* PRODUCT CATALOG (changes apply immediately) */}
+          {activeTab === 'catalog' && (
+            <ProductCatalogEditor products={products} onChange={(next) => onProductsChange?.(next)} readOnly={!can(Permission.MANAGE_CATALOG) || !onProductsChange} />
+          )}
+
+          {/* EXCHANGE RATES (changes apply immediately) */}
+          {activeTab === 'currency' && (
+            <ExchangeRateEditor rates={exchangeRates} onChange={(next) => onExchangeRatesChange?.(next)} readOnly={!can(Permission.MANAGE_CATALOG) || !onExchangeRatesChange} />
+          )}
+
+          {/* LEAD ASSIGNMENT RULES (changes apply immediately) */}
+          {activeTab === 'assignment' && (
+            <AssignmentRulesEditor rules={assignmentRules} onChange={(next) => onAssignmentRulesChange?.(next)} team={team} readOnly={!can(Permission.MANAGE_USERS) || !onAssignmentRulesChange} />
+          )}
+
           {/* TEMPLATES */}
           {activeTab === 'templates' && (
-            <div className={userRole !== UserRole.ADMIN ? 'opacity-50 pointer-events-none' : ''}>
+            <div className={!can(Permission.EDIT_TEMPLATES) ? 'opacity-50 pointer-events-none' : ''}>
                 <div className="mb-6">
                     <label className="block text-sm font-semibold text-slate-700 mb-2">Intro Message Template</label>
                     <textarea
@@ -690,13 +775,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         </div>
 
         <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-xl flex justify-between">
-          <button onClick={handleReset} disabled={userRole !== UserRole.ADMIN} className="flex items-center gap-2 text-slate-500 hover:text-indigo-600 text-sm font-medium disabled:opacity-50">
+          <button onClick={handleReset} disabled={!can(Permission.EDIT_TEMPLATES)} className="flex items-center gap-2 text-slate-500 hover:text-indigo-600 text-sm font-medium disabled:opacity-50">
             <RefreshCcw className="w-4 h-4" /> Reset to Defaults
           </button>
           <div className="flex gap-3">
              <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
              <button 
-               disabled={userRole !== UserRole.ADMIN && !['integrations', 'security', 'notifications', 'system', 'data', 'diagnostics', 'tuning'].includes(activeTab)}
+               disabled={!can(Permission.EDIT_TEMPLATES) && !['integrations', 'catalog', 'currency', 'assignment', 'security', 'notifications', 'system', 'data', 'diagnostics', 'tuning'].includes(activeTab)}
                onClick={handleSaveAll}
                className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium shadow-lg shadow-indigo-600/20 disabled:bg-slate-400 disabled:cursor-not-allowed"
              >
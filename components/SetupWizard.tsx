@@ -1,16 +1,21 @@
 
-import React, { useState } from 'react';
-import { CheckCircle, Key, Link as LinkIcon, Globe, Shield, ChevronRight, Loader2, AlertCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Key, Link as LinkIcon, Globe, Shield, ChevronRight, Loader2, AlertCircle, UserCheck } from 'lucide-react';
 import { PlatformService } from '../services/platformService';
-import { PlatformConnection, Channel, PlatformStatus } from '../types';
+import { StorageService } from '../services/storageService';
+import { InvalidPassphraseError } from '../services/cryptoService';
+import { AuthService, MIN_PASSWORD_LENGTH } from '../services/authService';
+import { ApiError } from '../services/apiClient';
+import { PlatformConnection, Channel, PlatformStatus, User } from '../types';
 import PlatformConnectModal from './PlatformConnectModal';
 
 interface SetupWizardProps {
-  onComplete: () => void;
+  onComplete: (admin?: User) => void; // The first admin, already signed in, when one was created
 }
 
 const steps = [
   { id: 'welcome', title: 'Welcome', icon: Shield },
+  { id: 'admin', title: 'Admin Account', icon: UserCheck },
   { id: 'api', title: 'AI API Keys', icon: Key },
   { id: 'accounts', title: 'Connect Accounts', icon: LinkIcon },
   { id: 'webhooks', title: 'Network Config', icon: Globe },
@@ -20,11 +25,25 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
   const [currentStep, setCurrentStep] = useState(0);
   
   // Form State
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [webhookToken, setWebhookToken] = useState('globalreach_secret_token');
   const [tunnelUrl, setTunnelUrl] = useState('');
   const [connections, setConnections] = useState<PlatformConnection[]>([]);
+  const [admin, setAdmin] = useState({ username: '', name: '', password: '', confirmPassword: '' });
+
+  // The admin step only runs while the server has no accounts (a reset keeps existing users)
+  const [needsAdmin, setNeedsAdmin] = useState(true);
+  useEffect(() => {
+      AuthService.status().then(status => setNeedsAdmin(status.needsSetup)).catch(() => setNeedsAdmin(true));
+  }, []);
+  const visibleSteps = steps.filter(step => step.id !== 'admin' || needsAdmin);
+  const stepId = visibleSteps[currentStep].id;
   
+  // A reset keeps existing encrypted data, so a returning user re-enters their passphrase
+  const [hasExistingPassphrase] = useState(() => !StorageService.needsPassphraseSetup());
+
   // UI State
   const [connectModalOpen, setConnectModalOpen] = useState(false);
   const [selectedChannel, setSelectedChannel] = useState<Channel>(Channel.WHATSAPP);
@@ -33,15 +52,41 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
 
   const validateStep = (): boolean => {
       setError(null);
+
+      if (stepId === 'welcome') { // Data passphrase
+          if (passphrase.length < 8) {
+              setError("Your data passphrase must be at least 8 characters.");
+              return false;
+          }
+          if (!hasExistingPassphrase && passphrase !== confirmPassphrase) {
+              setError("Passphrases do not match.");
+              return false;
+          }
+      }
       
-      if (currentStep === 1) { // AI Config
+      if (stepId === 'admin') {
+          if (!/^[a-zA-Z0-9._@-]{3,64}$/.test(admin.username.trim())) {
+              setError("Choose a username of at least 3 letters, digits or . _ @ -");
+              return false;
+          }
+          if (admin.password.length < MIN_PASSWORD_LENGTH) {
+              setError(`The admin password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+              return false;
+          }
+          if (admin.password !== admin.confirmPassword) {
+              setError("Passwords do not match.");
+              return false;
+          }
+      }
+
+      if (stepId === 'api') { // AI Config
           if (!apiKey || apiKey.trim().length < 10) {
               setError("Please enter a valid Google GenAI API Key.");
               return false;
           }
       }
       
-      if (currentStep === 2) { // Accounts
+      if (stepId === 'accounts') { // Accounts
           if (connections.length === 0) {
               setError("We recommend connecting at least one platform (Email, WhatsApp, or WeChat) to get started.");
               // Warning only? Or block? Let's block for better setup experience in a wizard context.
@@ -54,7 +99,7 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
           }
       }
 
-      if (currentStep === 3) { // Webhooks
+      if (stepId === 'webhooks') { // Webhooks
           if (!webhookToken || webhookToken.length < 5) {
               setError("A secure Verification Token is required.");
               return false;
@@ -72,9 +117,17 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
   const handleNext = async () => {
     if (!validateStep()) return;
 
-    if (currentStep === steps.length - 1) {
+    if (currentStep === visibleSteps.length - 1) {
       setIsSaving(true);
       try {
+          // Unlock (or initialise) encrypted storage before writing secrets into it
+          await StorageService.unlock(passphrase);
+
+          // The server signs the first admin in, so the app opens without a separate login
+          const createdAdmin = needsAdmin
+              ? await AuthService.setup({ username: admin.username.trim(), name: admin.name.trim(), password: admin.password })
+              : undefined;
+
           // Secure Save
           await PlatformService.secureSave('user_provided_api_key', apiKey);
           await PlatformService.setAppConfig('webhookToken', webhookToken);
@@ -86,11 +139,11 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
           
           setTimeout(() => {
             setIsSaving(false);
-            onComplete();
+            onComplete(createdAdmin);
           }, 1000);
       } catch (e) {
           console.error("Setup save failed", e);
-          setError("Failed to save configuration. Please try again.");
+          setError(e instanceof InvalidPassphraseError || e instanceof ApiError ? e.message : "Failed to save configuration. Please try again.");
           setIsSaving(false);
       }
     } else {
@@ -109,8 +162,8 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
   };
 
   const renderStepContent = () => {
-    switch (currentStep) {
-      case 0: // Welcome
+    switch (stepId) {
+      case 'welcome':
         return (
           <div className="text-center space-y-4 py-8 animate-in slide-in-from-right duration-500">
             <div className="w-20 h-20 bg-indigo-100 rounded-full flex items-center justify-center mx-auto mb-6 shadow-inner">
@@ -120,9 +173,79 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
             <p className="text-slate-600 max-w-md mx-auto leading-relaxed">
               Your AI-powered export CRM is almost ready. This wizard will guide you through configuring your API keys, connecting messaging platforms, and securing your local environment.
             </p>
+            <div className="max-w-sm mx-auto text-left space-y-3 pt-4">
+              <label className="block text-sm font-medium text-slate-700">
+                {hasExistingPassphrase ? 'Existing Data Passphrase' : 'Choose a Data Passphrase'}
+              </label>
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+                placeholder="At least 8 characters"
+                className={`w-full px-4 py-3 text-sm border rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all ${error ? 'border-red-300 ring-1 ring-red-200' : 'border-slate-200'}`}
+              />
+              {!hasExistingPassphrase && (
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => { setConfirmPassphrase(e.target.value); setError(null); }}
+                  placeholder="Confirm passphrase"
+                  className={`w-full px-4 py-3 text-sm border rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none transition-all ${error ? 'border-red-300 ring-1 ring-red-200' : 'border-slate-200'}`}
+                />
+              )}
+              <p className="text-xs text-slate-500">
+                Encrypts leads, sessions and keys stored on this device. It cannot be recovered if lost.
+              </p>
+            </div>
+          </div>
+        );
+      case 'admin':
+        return (
+          <div className="space-y-6 py-4 animate-in slide-in-from-right duration-300">
+            <div className="bg-indigo-50 border border-indigo-100 p-5 rounded-xl">
+              <h3 className="text-sm font-bold text-indigo-800 mb-2 flex items-center gap-2">
+                  <UserCheck className="w-4 h-4" /> Administrator Account
+              </h3>
+              <p className="text-xs text-indigo-700 mb-4 leading-relaxed">
+                The admin manages settings, exports and the accounts of your sales team. Passwords are stored hashed on the server; you can turn on two-factor authentication later under Settings &rarr; Security.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={admin.username}
+                  onChange={(e) => { setAdmin({ ...admin, username: e.target.value }); setError(null); }}
+                  placeholder="Username"
+                  autoComplete="username"
+                  className="w-full px-4 py-3 text-sm border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <input
+                  type="text"
+                  value={admin.name}
+                  onChange={(e) => setAdmin({ ...admin, name: e.target.value })}
+                  placeholder="Full name"
+                  className="w-full px-4 py-3 text-sm border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <input
+                  type="password"
+                  value={admin.password}
+                  onChange={(e) => { setAdmin({ ...admin, password: e.target.value }); setError(null); }}
+                  placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 text-sm border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                <input
+                  type="password"
+                  value={admin.confirmPassword}
+                  onChange={(e) => { setAdmin({ ...admin, confirmPassword: e.target.value }); setError(null); }}
+                  placeholder="Confirm password"
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 text-sm border border-indigo-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+              </div>
+            </div>
           </div>
         );
-      case 1: // API
+      case 'api':
         return (
           <div className="space-y-6 py-4 animate-in slide-in-from-right duration-300">
             <div className="bg-blue-50 border border-blue-100 p-5 rounded-xl">
@@ -149,7 +272,7 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
             </div>
           </div>
         );
-      case 2: // Accounts
+      case 'accounts':
         return (
           <div className="space-y-6 py-4 animate-in slide-in-from-right duration-300">
             <div className="flex justify-between items-center">
@@ -193,7 +316,7 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
             </div>
           </div>
         );
-      case 3: // Webhooks
+      case 'webhooks':
         return (
           <div className="space-y-6 py-4 animate-in slide-in-from-right duration-300">
              <div className="bg-slate-50 p-5 rounded-xl border border-slate-200">
@@ -251,7 +374,7 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
           <div className="flex justify-between items-center mb-8">
              <div>
                  <h1 className="text-xl font-bold text-slate-800">Setup Wizard</h1>
-                 <p className="text-xs text-slate-500 mt-1">Step {currentStep + 1} of {steps.length}: <span className="font-bold text-indigo-600">{steps[currentStep].title}</span></p>
+                 <p className="text-xs text-slate-500 mt-1">Step {currentStep + 1} of {visibleSteps.length}: <span className="font-bold text-indigo-600">{visibleSteps[currentStep].title}</span></p>
              </div>
              <div className="flex items-center gap-1 text-slate-400">
                  <Shield className="w-5 h-5" />
@@ -263,7 +386,7 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
           <div className="relative mx-4">
             <div className="absolute left-0 top-1/2 w-full h-0.5 bg-slate-200 -z-10 -translate-y-1/2" />
             <div className="flex justify-between w-full">
-                {steps.map((step, idx) => {
+                {visibleSteps.map((step, idx) => {
                 const Icon = step.icon;
                 const isActive = idx === currentStep;
                 const isCompleted = idx < currentStep;
@@ -307,8 +430,8 @@ const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
              className="flex items-center gap-2 px-8 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold shadow-lg shadow-indigo-600/20 transition-all active:scale-95 disabled:opacity-80"
            >
              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : null}
-             {currentStep === steps.length - 1 ? 'Finish Setup' : 'Next Step'}
-             {!isSaving && currentStep !== steps.length - 1 && <ChevronRight className="w-4 h-4" />}
+             {currentStep === visibleSteps.length - 1 ? 'Finish Setup' : 'Next Step'}
+             {!isSaving && currentStep !== visibleSteps.length - 1 && <ChevronRight className="w-4 h-4" />}
            </button>
         </div>
       </div>
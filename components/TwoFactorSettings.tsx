@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Smartphone, ShieldCheck, AlertCircle } from 'lucide-react';
+import { User } from '../types';
+import { AuthService, TotpEnrollment } from '../services/authService';
+
+interface TwoFactorSettingsProps {
+  user: User;
+  onChange: (user: User) => void;
+}
+
+// Key shown in groups of four for typing into an authenticator app by hand
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') || secret;
+
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ user, onChange }) => {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => run(async () => {
+    onChange(await AuthService.enableTotp(code));
+    setEnrollment(null);
+    setCode('');
+  });
+
+  const handleDisable = () => run(async () => {
+    onChange(await AuthService.disableTotp(password));
+    setPassword('');
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2"><Smartphone className="w-4 h-4" /> Two-Factor Authentication</h3>
+        {user.totpEnabled && <span className="flex items-center gap-1 text-xs font-bold text-green-700 bg-green-50 border border-green-200 px-2 py-0.5 rounded-full"><ShieldCheck className="w-3 h-3" /> On</span>}
+      </div>
+
+      {user.totpEnabled ? (
+        <div className="flex items-center gap-2">
+          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Current password" autoComplete="current-password" className="flex-1 p-2 text-sm border border-slate-300 rounded-lg" />
+          <button onClick={handleDisable} disabled={busy || !password} className="text-xs font-bold text-red-600 border border-red-200 px-3 py-2 rounded-lg hover:bg-red-50 disabled:opacity-50">Turn Off</button>
+        </div>
+      ) : enrollment ? (
+        <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+          <p className="text-xs text-slate-600">Add this key to Google Authenticator, Microsoft Authenticator or a similar app, then enter the 6-digit code it shows.</p>
+          <p className="font-mono text-sm text-slate-800 select-all">{formatSecret(enrollment.secret)}</p>
+          <a href={enrollment.otpauthUrl} className="text-xs text-indigo-600 underline">Open in authenticator app</a>
+          <div className="flex items-center gap-2">
+            <input type="text" inputMode="numeric" maxLength={6} value={code} onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))} placeholder="123456" aria-label="Authentication code" autoComplete="one-time-code" className="w-28 p-2 text-sm border border-slate-300 rounded-lg tracking-widest" />
+            <button onClick={handleEnable} disabled={busy || code.length !== 6} className="text-xs font-bold bg-indigo-600 text-white px-3 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">Verify & Turn On</button>
+            <button onClick={() => { setEnrollment(null); setCode(''); }} className="text-xs text-slate-500 px-2 py-2">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between p-3 border border-slate-200 rounded-lg">
+          <p className="text-xs text-slate-500">Require a code from your phone in addition to your password when signing in.</p>
+          <button onClick={() => run(async () => setEnrollment(await AuthService.beginTotp()))} disabled={busy} className="text-xs font-bold bg-slate-900 text-white px-3 py-2 rounded-lg hover:bg-slate-800 disabled:opacity-50 shrink-0 ml-3">Set Up</button>
+        </div>
+      )}
+
+      {error && <p className="flex items-center gap-1 text-xs text-red-600"><AlertCircle className="w-3 h-3" /> {error}</p>}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
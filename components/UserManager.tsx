@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Users, UserPlus, Trash2, ShieldCheck, AlertCircle } from 'lucide-react';
+import { User, UserRole, RoleDefinition } from '../types';
+import { AuthService, MIN_PASSWORD_LENGTH } from '../services/authService';
+
+interface UserManagerProps {
+  currentUserId: string;
+  roles: RoleDefinition[]; // Empty until loaded; the built-in roles are offered meanwhile
+}
+
+const EMPTY_DRAFT = { username: '', name: '', password: '', role: UserRole.SALES as string };
+
+/**
+ * Admin-only list of server accounts. Role changes take effect on the user's next request.
+ */
+const UserManager: React.FC<UserManagerProps> = ({ currentUserId, roles }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+
+  const roleNames = roles.length > 0 ? roles.map(r => r.name) : Object.values(UserRole) as string[];
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    }
+  };
+
+  useEffect(() => {
+    run(async () => setUsers(await AuthService.listUsers()));
+  }, []);
+
+  const handleAdd = () => run(async () => {
+    if (draft.password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    const created = await AuthService.createUser(draft);
+    setUsers(prev => [...prev, created]);
+    setDraft(EMPTY_DRAFT);
+  });
+
+  const handleRoleChange = (id: string, role: string) => run(async () => {
+    const updated = await AuthService.updateUser(id, { role });
+    setUsers(prev => prev.map(u => u.id === id ? updated : u));
+  });
+
+  const handleDelete = (user: User) => run(async () => {
+    if (!window.confirm(`Remove ${user.name} (${user.username})? They will be signed out.`)) return;
+    await AuthService.deleteUser(user.id);
+    setUsers(prev => prev.filter(u => u.id !== user.id));
+  });
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2"><Users className="w-4 h-4" /> Users</h3>
+
+      <table className="w-full text-sm">
+        <tbody>
+          {users.map(user => (
+            <tr key={user.id} className="border-t border-slate-100 text-slate-700">
+              <td className="py-2">
+                <p className="font-medium">{user.name} {user.id === currentUserId && <span className="text-[10px] text-slate-400">(you)</span>}</p>
+                <p className="text-xs text-slate-400">{user.username}</p>
+              </td>
+              <td className="py-2 text-xs">{user.totpEnabled && <span className="flex items-center gap-1 text-green-700"><ShieldCheck className="w-3 h-3" /> 2FA</span>}</td>
+              <td className="py-2">
+                <select value={user.role} onChange={(e) => handleRoleChange(user.id, e.target.value)} aria-label={`Role of ${user.username}`} className="p-1 text-xs border border-slate-300 rounded">
+                  {(roleNames.includes(user.role) ? roleNames : [...roleNames, user.role]).map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </td>
+              <td className="py-2 text-right">
+                {user.id !== currentUserId && (
+                  <button onClick={() => handleDelete(user)} aria-label={`Remove ${user.username}`} className="p-1 text-slate-400 hover:text-red-500">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+        <input value={draft.username} onChange={(e) => setDraft({ ...draft, username: e.target.value })} placeholder="Username" aria-label="New username" className="w-28 p-1.5 text-sm border border-slate-300 rounded" />
+        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Full name" aria-label="New user's name" className="w-32 p-1.5 text-sm border border-slate-300 rounded" />
+        <input type="password" value={draft.password} onChange={(e) => setDraft({ ...draft, password: e.target.value })} placeholder="Initial password" aria-label="Initial password" autoComplete="new-password" className="w-32 p-1.5 text-sm border border-slate-300 rounded" />
+        <select value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value })} aria-label="New user's role" className="p-1.5 text-sm border border-slate-300 rounded">
+          {roleNames.map(role => <option key={role} value={role}>{role}</option>)}
+        </select>
+        <button onClick={handleAdd} disabled={!draft.username || !draft.password} className="flex items-center gap-1 text-xs font-bold bg-indigo-600 text-white px-3 py-2 rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+          <UserPlus className="w-3 h-3" /> Add User
+        </button>
+      </div>
+
+      {error && <p className="flex items-center gap-1 text-xs text-red-600"><AlertCircle className="w-3 h-3" /> {error}</p>}
+    </div>
+  );
+};
+
+export default UserManager;
@@ -5,6 +5,9 @@ const fs = require('fs');
 const crypto = require('crypto');
 const winston = require('winston');
 const { autoUpdater } = require('electron-updater');
+const { createBackend } = require('../backend');
+const { createSmsWebhookRouter } = require('../backend/sms');
+const { createWeChatWebhookRouter } = require('../backend/wechat');
 
 // --- CONFIGURATION ---
 const DEFAULT_PORT = 4000;
@@ -61,6 +64,9 @@ function setConfig(key, value) {
   }
 }
 
+// --- BACKEND (data store, event stream, campaign scheduler) ---
+const backend = createBackend({ dataDir: path.join(app.getPath('userData'), 'data'), logger });
+
 // --- EXPRESS SERVER ---
 let serverInstance;
 
@@ -68,9 +74,12 @@ function startServer(startingPort) {
   const appServer = express();
 
   // Middleware
-  appServer.use(express.json());
+  appServer.use(express.json({ limit: '25mb' }));
   appServer.use(express.urlencoded({ extended: true }));
 
+  // Data API (importers, messages, activity, campaigns, enrollments, calendar, events)
+  appServer.use('/api', backend.apiRouter);
+
   // Static Files
   // This points to 'electron/build'
   const buildPath = path.join(__dirname, 'build');
@@ -98,9 +107,13 @@ function startServer(startingPort) {
     res.sendStatus(200);
   });
 
+  // WeChat pushes and SMS gateway callbacks are stored by the backend directly and reach the UI over /api/events
+  appServer.use('/webhooks/wechat', createWeChatWebhookRouter(backend.wechatChannel));
+  appServer.use('/webhooks/sms', createSmsWebhookRouter(backend.smsChannel));
+
   // Fallback for React Router
   appServer.get('*', (req, res) => {
-    if (req.path.startsWith('/webhooks/')) return res.sendStatus(404);
+    if (req.path.startsWith('/webhooks/') || req.path.startsWith('/api/')) return res.sendStatus(404);
     
     const indexPath = path.join(buildPath, 'index.html');
     if (fs.existsSync(indexPath)) {
@@ -117,6 +130,8 @@ function startServer(startingPort) {
       const server = appServer.listen(port, '127.0.0.1', () => {
         logger.info(`Local backend running on http://localhost:${port}`);
         setConfig('serverPort', port);
+        backend.scheduler.start();
+        backend.emailChannel.start();
         resolve({ server, port });
       }).on('error', (err) => {
         if (err.code === 'EADDRINUSE') {
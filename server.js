@@ -3,10 +3,48 @@ const path = require('path');
 const compression = require('compression');
 const helmet = require('helmet');
 const auth = require('basic-auth');
-const crypto = require('crypto');
+const { createBackend } = require('./backend');
+const whatsapp = require('./backend/whatsapp');
+const { emailConfigFromEnv } = require('./backend/email');
+const { smsConfigFromEnv, createSmsWebhookRouter } = require('./backend/sms');
+const { wechatConfigFromEnv, createWeChatWebhookRouter } = require('./backend/wechat');
 
 const app = express();
 const PORT = process.env.PORT || 4000;
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, 'data');
+
+// Behind a reverse proxy, TRUST_PROXY (hop count or "loopback", ...) makes req.ip the client
+// address recorded for each session rather than the proxy's
+if (process.env.TRUST_PROXY) app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+
+const { store, events, media, outbound, scheduler, emailChannel, smsChannel, wechatChannel, apiRouter } = createBackend({ dataDir: DATA_DIR, authSecret: process.env.AUTH_SECRET });
+
+// SMTP_HOST / IMAP_HOST etc. take precedence over settings saved from the connect form
+const envEmailConfig = emailConfigFromEnv(process.env);
+if (envEmailConfig) emailChannel.configure(envEmailConfig);
+// Same for SMS_ACCOUNT_SID / SMS_AUTH_TOKEN / SMS_FROM (+ SMS_GATEWAY_URL for non-Twilio gateways)
+const envSmsConfig = smsConfigFromEnv(process.env);
+if (envSmsConfig) smsChannel.configure(envSmsConfig);
+// WECHAT_APP_ID / WECHAT_APP_SECRET / WECHAT_TOKEN (+ WECHAT_AES_KEY for safe mode)
+const envWeChatConfig = wechatConfigFromEnv(process.env);
+if (envWeChatConfig) wechatChannel.configure(envWeChatConfig);
+// WHATSAPP_PHONE_NUMBER_ID / WHATSAPP_ACCESS_TOKEN: campaign and browser sends through the Cloud API
+const envWhatsAppConfig = whatsapp.whatsappConfigFromEnv(process.env);
+const whatsappTransport = envWhatsAppConfig ? new whatsapp.WhatsAppCloudTransport({ store, ...envWhatsAppConfig }) : null;
+if (whatsappTransport) outbound.register('WhatsApp', whatsappTransport);
+
+// Inbound photos and documents are kept locally; without Cloud API credentials only the caption is stored
+const fetchWhatsAppMedia = async (msg) => {
+  if (!msg.media || !whatsappTransport) return undefined;
+  try {
+    const { data, mimeType } = await whatsappTransport.downloadMedia(msg.media.id);
+    const record = media.save({ data, fileName: msg.media.fileName || `${msg.type}-${msg.media.id}`, mimeType: mimeType || msg.media.mimeType, source: 'whatsapp' });
+    return [media.toAttachment(record, msg.media.caption)];
+  } catch (err) {
+    console.warn(`WhatsApp media ${msg.media.id} not saved: ${err.message}`);
+    return undefined;
+  }
+};
 
 // Security: Basic Auth (Protect the CRM if hosted publicly)
 const USER = process.env.BASIC_AUTH_USER;
@@ -31,68 +69,40 @@ app.use(helmet({
   contentSecurityPolicy: false, // Disabled for simplicity with inline scripts/styles in dev
 }));
 app.use(compression());
-app.use(express.json());
+// Keep the raw body around: webhook signatures are computed over the exact bytes Meta sent
+app.use(express.json({ limit: '25mb', verify: (req, res, buf) => { req.rawBody = buf; } }));
 app.use(express.urlencoded({ extended: true }));
 
 // Serve Static Assets
 app.use(express.static(path.join(__dirname, 'build')));
 
+// --- API ---
+// Event stream, campaign enrollments and per-record CRUD (see backend/index.js)
+app.use('/api', apiRouter);
+
 // --- WEBHOOKS (Production) ---
 const WEBHOOK_TOKEN = process.env.WEBHOOK_TOKEN || 'globalreach_secret_token';
+const WHATSAPP_APP_SECRET = process.env.WHATSAPP_APP_SECRET;
 
-// 1. WhatsApp Verification
-app.get('/webhooks/whatsapp', (req, res) => {
-  const mode = req.query['hub.mode'];
-  const token = req.query['hub.verify_token'];
-  const challenge = req.query['hub.challenge'];
-
-  if (mode && token) {
-    if (mode === 'subscribe' && token === WEBHOOK_TOKEN) {
-      console.log('WhatsApp Webhook Verified');
-      res.status(200).send(challenge);
-    } else {
-      res.sendStatus(403);
-    }
-  } else {
-    res.sendStatus(400);
-  }
-});
-
-// 2. WhatsApp Incoming
-app.post('/webhooks/whatsapp', (req, res) => {
-  console.log('WhatsApp Payload Received');
-  // In a real hosted app with a DB, you would save this message to the database here.
-  // Since this is a static-file backed React app, real-time updates via Webhook 
-  // require WebSockets (Socket.io) which adds complexity.
-  // For now, we log it.
-  res.sendStatus(200);
-});
-
-// 3. WeChat Verification
-app.get('/webhooks/wechat', (req, res) => {
-  const signature = req.query.signature;
-  const timestamp = req.query.timestamp;
-  const nonce = req.query.nonce;
-  const echostr = req.query.echostr;
+if (!WHATSAPP_APP_SECRET) {
+  console.warn('WHATSAPP_APP_SECRET not set: incoming WhatsApp webhooks will be refused.');
+}
 
-  if (!signature || !timestamp || !nonce) return res.sendStatus(400);
+// 1-2. WhatsApp: subscription handshake, inbound messages and delivery receipts
+app.use('/webhooks/whatsapp', whatsapp.createWhatsAppWebhookRouter({
+  store,
+  events,
+  scheduler,
+  appSecret: WHATSAPP_APP_SECRET,
+  verifyToken: WEBHOOK_TOKEN,
+  fetchMedia: fetchWhatsAppMedia
+}));
 
-  const tmpStr = [WEBHOOK_TOKEN, timestamp, nonce].sort().join('');
-  const sha1 = crypto.createHash('sha1').update(tmpStr).digest('hex');
+// 3. WeChat: URL verification and message pushes (XML, AES-encrypted in safe mode)
+app.use('/webhooks/wechat', createWeChatWebhookRouter(wechatChannel));
 
-  if (sha1 === signature) {
-    console.log('WeChat Webhook Verified');
-    res.send(echostr);
-  } else {
-    res.sendStatus(403);
-  }
-});
-
-// 4. WeChat Incoming
-app.post('/webhooks/wechat', (req, res) => {
-  console.log('WeChat Payload Received');
-  res.sendStatus(200);
-});
+// 4. SMS gateway: inbound messages and delivery reports
+app.use('/webhooks/sms', createSmsWebhookRouter(smsChannel));
 
 // SPA Fallback
 app.get('*', (req, res) => {
@@ -101,4 +111,6 @@ app.get('*', (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Production server running on port ${PORT}`);
+  scheduler.start();
+  emailChannel.start();
 });
\ No newline at end of file
@@ -1,5 +1,15 @@
 
-import { Importer, Message, SentimentData, EmotionData, SentimentLabel, EmotionLabel, LeadStatus, StrategicInsight, CoachingTip } from '../types';
+import { Importer, Message, SentimentData, EmotionData, SentimentLabel, EmotionLabel, LeadStatus, StrategicInsight, CoachingTip, TeamMember } from '../types';
+import { logSecurityEvent } from './securityService';
+import { CONVERTED } from './forecastService';
+
+export interface TeamStat {
+  ownerId: string | null; // null for the unassigned leads
+  name: string;
+  leads: number;
+  satisfaction: number; // Average satisfaction index of the owned leads
+  conversion: number; // % of owned leads that reached CONVERTED
+}
 
 export interface SentimentTrendPoint {
   date: string;
@@ -302,15 +312,30 @@ export const AnalyticsService = {
   },
   
   /**
-   * Mocks a team leaderboard for Manager View.
+   * Team leaderboard for Manager View, from lead ownership: best conversion first, then most
+   * leads. Unassigned leads get their own row at the end when there are any.
    */
-  getTeamStats: () => {
-      return [
-          { name: 'Demo User (You)', leads: 12, satisfaction: 78, conversion: 25 },
-          { name: 'Sarah Jenkins', leads: 45, satisfaction: 82, conversion: 31 },
-          { name: 'Mike Ross', leads: 38, satisfaction: 65, conversion: 18 },
-          { name: 'Jessica Pearson', leads: 22, satisfaction: 91, conversion: 45 },
-      ];
+  getTeamStats: (importers: Importer[], team: TeamMember[], currentUserId?: string): TeamStat[] => {
+      const statFor = (ownerId: string | null, name: string): TeamStat => {
+          const owned = importers.filter(i => (i.ownerId || null) === ownerId);
+          return {
+              ownerId,
+              name,
+              leads: owned.length,
+              satisfaction: owned.length > 0 ? Math.round(owned.reduce((acc, i) => acc + (i.satisfactionIndex || 50), 0) / owned.length) : 0,
+              conversion: owned.length > 0 ? Math.round(owned.filter(i => i.status === CONVERTED).length / owned.length * 100) : 0
+          };
+      };
+      // Owners who have left the team still show up while they own leads
+      const known = new Set(team.map(m => m.id));
+      const former = Array.from(new Set(importers.map(i => i.ownerId).filter((id): id is string => !!id && !known.has(id))));
+
+      const rows = [
+          ...team.map(m => statFor(m.id, m.id === currentUserId ? `${m.name} (You)` : m.name)),
+          ...former.map(id => statFor(id, 'Former user'))
+      ].sort((a, b) => b.conversion - a.conversion || b.leads - a.leads);
+      const unassigned = statFor(null, 'Unassigned');
+      return unassigned.leads > 0 ? [...rows, unassigned] : rows;
   },
 
   // --- EXPORT FUNCTIONS ---
@@ -339,11 +364,12 @@ export const AnalyticsService = {
           i.satisfactionIndex || 50,
           i.chatHistory.length,
           i.lastContacted ? new Date(i.lastContacted).toISOString() : '',
-          i.preferredChannel
+          i.preferredChannel ?? ''
       ]);
       
       const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
       AnalyticsService.triggerDownload(`GlobalReach_Performance_${new Date().toISOString().split('T')[0]}.csv`, csv);
+      logSecurityEvent('DATA_EXPORT', `Lead performance CSV (${importers.length} leads)`);
   },
 
   exportSentimentReport: (importers: Importer[]) => {
@@ -369,5 +395,6 @@ export const AnalyticsService = {
 
       const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
       AnalyticsService.triggerDownload(`GlobalReach_Sentiment_${new Date().toISOString().split('T')[0]}.csv`, csv);
+      logSecurityEvent('DATA_EXPORT', `Sentiment report CSV (${importers.length} leads)`);
   }
 };
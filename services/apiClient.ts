@@ -0,0 +1,58 @@
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const sessionExpiredHandlers = new Set<() => void>();
+
+const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+  const res = await fetch(`/api${path}`, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+
+  if (!res.ok) {
+    let message = res.statusText;
+    let code: string | undefined;
+    try {
+      const data = await res.json();
+      if (data?.error) message = data.error;
+      code = data?.code;
+    } catch (e) {
+      // Non-JSON error body
+    }
+    // The session expired or was revoked from another device (login failures use other codes)
+    if (code === 'unauthenticated') ApiClient.sessionExpired();
+    throw new ApiError(res.status, message, code);
+  }
+
+  if (res.status === 204) return undefined as T;
+  return res.json();
+};
+
+/**
+ * Thin wrapper around the backend's /api routes (server.js or the Electron local server).
+ */
+export const ApiClient = {
+  get: <T>(path: string) => request<T>('GET', path),
+  post: <T>(path: string, body?: unknown) => request<T>('POST', path, body),
+  put: <T>(path: string, body: unknown) => request<T>('PUT', path, body),
+  patch: <T>(path: string, body: unknown) => request<T>('PATCH', path, body),
+  delete: (path: string) => request<void>('DELETE', path),
+
+  /**
+   * Called when the server no longer accepts this device's session. Returns an unsubscribe function.
+   */
+  onSessionExpired: (handler: () => void) => {
+    sessionExpiredHandlers.add(handler);
+    return () => {
+      sessionExpiredHandlers.delete(handler);
+    };
+  },
+
+  sessionExpired: () => sessionExpiredHandlers.forEach(handler => handler())
+};
@@ -0,0 +1,59 @@
+import { ActivityLogEntry, AssignmentRule, Importer, TeamMember } from '../types';
+
+export const describeRule = (rule: AssignmentRule) =>
+  rule.match === 'country' ? `Country: ${rule.value}` : rule.match === 'product' ? `Product: ${rule.value}` : 'Any lead';
+
+export const ruleMatches = (rule: AssignmentRule, importer: Importer) => {
+  const value = rule.value.trim().toLowerCase();
+  if (rule.match === 'country') return importer.country.trim().toLowerCase() === value;
+  if (rule.match === 'product') return value !== '' && importer.productsImported.toLowerCase().includes(value);
+  return true;
+};
+
+export const ownerName = (team: TeamMember[], ownerId?: string | null) =>
+  !ownerId ? 'Unassigned' : team.find(m => m.id === ownerId)?.name ?? 'a removed user';
+
+const assignmentEntry = (description: string, at: number): ActivityLogEntry => ({
+  id: `log-assign-${at}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: at,
+  type: 'assignment',
+  description
+});
+
+/**
+ * Gives every lead without an owner one from the first matching rule, rotating through the
+ * rule's owners. Owners who are no longer on the team are skipped (once the team is known).
+ * Returns the leads and the rules with their round-robin cursors advanced.
+ */
+export const applyAssignmentRules = (leads: Importer[], rules: AssignmentRule[], team: TeamMember[], at = Date.now()) => {
+  const onTeam = (id: string) => team.length === 0 || team.some(m => m.id === id);
+  const cursors = new Map(rules.map(r => [r.id, r.nextIndex || 0]));
+
+  const assigned = leads.map(lead => {
+    if (lead.ownerId) return lead;
+    const rule = rules.find(r => r.ownerIds.some(onTeam) && ruleMatches(r, lead));
+    if (!rule) return lead;
+    const owners = rule.ownerIds.filter(onTeam);
+    const cursor = cursors.get(rule.id)!;
+    const ownerId = owners[cursor % owners.length];
+    cursors.set(rule.id, cursor + 1);
+    const entry = assignmentEntry(`Assigned to ${ownerName(team, ownerId)} (rule: ${describeRule(rule)})`, at);
+    return { ...lead, ownerId, activityLog: [...lead.activityLog, entry] };
+  });
+
+  return {
+    leads: assigned,
+    rules: rules.map(r => cursors.get(r.id) === (r.nextIndex || 0) ? r : { ...r, nextIndex: cursors.get(r.id)! })
+  };
+};
+
+/**
+ * Moves a lead to another owner (or none) and records who did it in the activity log.
+ * Unassigning stores null: record writes are merged server-side, so an absent field would
+ * keep the old owner.
+ */
+export const reassignLead = (lead: Importer, ownerId: string | undefined, team: TeamMember[], byName: string, at = Date.now()): Importer => {
+  if ((lead.ownerId || undefined) === ownerId) return lead;
+  const entry = assignmentEntry(`Reassigned from ${ownerName(team, lead.ownerId)} to ${ownerName(team, ownerId)} by ${byName}`, at);
+  return { ...lead, ownerId: ownerId ?? null, activityLog: [...lead.activityLog, entry] };
+};
@@ -0,0 +1,91 @@
+import { User, Permission, RoleDefinition, TeamMember } from '../types';
+import { ApiClient } from './apiClient';
+
+// Account as returned by the backend (never includes password or TOTP secrets)
+interface AccountRecord {
+  id: string;
+  username: string;
+  name: string;
+  role: string;
+  totpEnabled: boolean;
+  permissions?: Permission[]; // Only on the signed-in account
+}
+
+export interface AuthStatus {
+  needsSetup: boolean;
+  user: User | null;
+}
+
+export interface TotpEnrollment {
+  secret: string; // Base32, for manual entry
+  otpauthUrl: string;
+}
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+const toUser = (account: AccountRecord): User => ({
+  ...account,
+  avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(account.name)}&background=6366f1&color=fff`
+});
+
+/**
+ * Client for backend/auth.js. The session token travels in an HttpOnly cookie set by the
+ * server, so it never touches script-accessible storage.
+ */
+export const AuthService = {
+  status: async (): Promise<AuthStatus> => {
+    const { needsSetup, user } = await ApiClient.get<{ needsSetup: boolean; user: AccountRecord | null }>('/auth/status');
+    return { needsSetup, user: user ? toUser(user) : null };
+  },
+
+  /**
+   * Creates the first admin and signs them in. Refused once any account exists.
+   */
+  setup: async (account: { username: string; name: string; password: string }): Promise<User> =>
+    toUser((await ApiClient.post<{ user: AccountRecord }>('/auth/setup', account)).user),
+
+  /**
+   * Rejects with ApiError code 'totp_required' when the account has two-factor enabled and
+   * no code was given, 'invalid_totp' for a wrong code.
+   */
+  login: async (username: string, password: string, code?: string): Promise<User> =>
+    toUser((await ApiClient.post<{ user: AccountRecord }>('/auth/login', { username, password, code })).user),
+
+  logout: () => ApiClient.post<void>('/auth/logout'),
+
+  beginTotp: () => ApiClient.post<TotpEnrollment>('/auth/totp/setup'),
+
+  enableTotp: async (code: string): Promise<User> =>
+    toUser((await ApiClient.post<{ user: AccountRecord }>('/auth/totp/enable', { code })).user),
+
+  disableTotp: async (password: string): Promise<User> =>
+    toUser((await ApiClient.post<{ user: AccountRecord }>('/auth/totp/disable', { password })).user),
+
+  /**
+   * Every account's id and name, for owner pickers; open to all signed-in users.
+   */
+  listTeam: () => ApiClient.get<TeamMember[]>('/team'),
+
+  listUsers: async (): Promise<User[]> => (await ApiClient.get<AccountRecord[]>('/users')).map(toUser),
+
+  createUser: async (account: { username: string; name: string; password: string; role: string }): Promise<User> =>
+    toUser(await ApiClient.post<AccountRecord>('/users', account)),
+
+  updateUser: async (id: string, changes: { name?: string; role?: string; password?: string }): Promise<User> =>
+    toUser(await ApiClient.patch<AccountRecord>(`/users/${encodeURIComponent(id)}`, changes)),
+
+  deleteUser: (id: string) => ApiClient.delete(`/users/${encodeURIComponent(id)}`),
+
+  /**
+   * Built-in roles first, then custom ones by name.
+   */
+  listRoles: () => ApiClient.get<RoleDefinition[]>('/roles'),
+
+  /**
+   * Creates a custom role or replaces its permissions. Users holding it pick up the change on
+   * their next request; their UI catches up once the app reloads.
+   */
+  saveRole: (role: { name: string; permissions: Permission[] }) => ApiClient.post<RoleDefinition>('/roles', role),
+
+  deleteRole: (name: string) => ApiClient.delete(`/roles/${encodeURIComponent(name)}`)
+};
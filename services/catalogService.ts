@@ -0,0 +1,60 @@
+import { Incoterm, Product } from '../types';
+
+/**
+ * Unit price for an order quantity: the highest tier the quantity reaches.
+ * Null below the MOQ or when no tier applies.
+ */
+export const unitPriceFor = (product: Product, quantity: number): number | null => {
+  if (!(quantity >= product.moq)) return null;
+  const tier = [...product.priceTiers]
+    .sort((a, b) => b.minQuantity - a.minQuantity)
+    .find(t => quantity >= t.minQuantity);
+  return tier ? tier.unitPrice : null;
+};
+
+// 6-digit HS code with an optional national extension (8 or 10 digits), dots allowed
+const HS_CODE = /^\d{4}\.?\d{2}(\.?\d{2}){0,2}$/;
+
+/**
+ * Problems that keep a product out of quotations; empty when it is complete.
+ */
+export const validateProduct = (product: Partial<Product>, others: Product[] = []): string[] => {
+  const errors: string[] = [];
+  if (!product.sku?.trim()) errors.push('SKU is required');
+  else if (others.some(p => p.id !== product.id && p.sku.toLowerCase() === product.sku!.trim().toLowerCase())) errors.push(`SKU ${product.sku} is already in the catalog`);
+  if (!product.name?.trim()) errors.push('Name is required');
+  if (!product.hsCode || !HS_CODE.test(product.hsCode.trim())) errors.push('HS code must have 6, 8 or 10 digits');
+  if (!product.unit?.trim()) errors.push('Unit is required');
+  if (!product.currency || !/^[A-Z]{3}$/.test(product.currency)) errors.push('Currency must be a 3-letter ISO code');
+  if (!(product.moq! > 0)) errors.push('MOQ must be greater than zero');
+
+  const tiers = product.priceTiers || [];
+  if (tiers.length === 0) errors.push('Add at least one price tier');
+  if (tiers.some(t => !(t.unitPrice > 0) || !(t.minQuantity > 0))) errors.push('Price tiers need a positive quantity and price');
+  if (tiers.length > 0 && product.moq! > 0 && Math.min(...tiers.map(t => t.minQuantity)) > product.moq!) {
+    errors.push('The lowest price tier must start at or below the MOQ');
+  }
+  if (!product.incoterms?.length) errors.push('Select at least one Incoterm');
+  return errors;
+};
+
+/**
+ * Incoterms every given product can be quoted on.
+ */
+export const sharedIncoterms = (products: Product[]): Incoterm[] =>
+  products.length === 0 ? [] : products[0].incoterms.filter(term => products.every(p => p.incoterms.includes(term)));
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch (e) {
+    // Unknown currency code
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+/**
+ * The catalog as one line for prompts and template variables ({{myProduct}}).
+ */
+export const describeCatalog = (products: Product[], fallback: string) =>
+  products.length === 0 ? fallback : products.map(p => (p.grade ? `${p.name} (${p.grade})` : p.name)).join(', ');
@@ -0,0 +1,26 @@
+import { Channel } from '../../types';
+import { ApiClient } from '../apiClient';
+import { OutgoingMessage, SendResult } from './types';
+
+/**
+ * Hands a message to the backend's transport for the channel (POST /api/outbound).
+ * Delivery receipts come back on the realtime event stream.
+ */
+export const sendViaBackend = async (channel: Channel, message: OutgoingMessage): Promise<SendResult> => {
+  try {
+    await ApiClient.post('/outbound', { ...message, channel });
+    return { success: true };
+  } catch (e) {
+    return { success: false, error: e instanceof Error ? e.message : `${channel} message could not be sent` };
+  }
+};
+
+export interface BackendChannelStatus {
+  channel: Channel;
+  configured: boolean;
+}
+
+/**
+ * Channels with a transport configured on the backend. Rejects when no backend is reachable.
+ */
+export const fetchBackendChannels = () => ApiClient.get<BackendChannelStatus[]>('/channels');
@@ -0,0 +1,31 @@
+import { Channel } from '../../types';
+import { ChannelProvider, InboundMessage } from './types';
+import { sendViaBackend } from './backendTransport';
+
+/**
+ * SMTP out, IMAP in; both run on the backend (backend/email.js), which also threads replies.
+ * Payloads are parsed mails ({ from, subject, text, messageId }).
+ */
+export const EmailProvider: ChannelProvider = {
+  channel: Channel.EMAIL,
+  mode: 'live',
+  capabilities: { media: true, templates: false, typing: false, readReceipts: false },
+
+  send: (message) => sendViaBackend(Channel.EMAIL, message),
+
+  parseInbound: (payload: any): InboundMessage[] => {
+    const sender = typeof payload?.from === 'string' ? { address: payload.from } : payload?.from?.value?.[0];
+    if (!sender?.address) return [];
+    return [{
+      channel: Channel.EMAIL,
+      contact: sender.address.toLowerCase(),
+      content: payload.text || payload.subject || '',
+      externalId: payload.messageId,
+      profileName: sender.name,
+      timestamp: payload.date ? new Date(payload.date).getTime() : Date.now()
+    }];
+  },
+
+  // Email has no delivery receipts
+  parseStatus: () => []
+};
@@ -0,0 +1,40 @@
+import { InboundMessage, StatusUpdate } from './types';
+
+export interface TypingEvent {
+  importerId: string;
+  isTyping: boolean;
+}
+
+type Handler<T> = (event: T) => void;
+
+/**
+ * Multi-subscriber event channel. `subscribe` returns its own unsubscribe function,
+ * so components can register in an effect and clean up on unmount.
+ */
+const createTopic = <T>() => {
+  const handlers = new Set<Handler<T>>();
+  return {
+    subscribe: (handler: Handler<T>) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    emit: (event: T) => {
+      handlers.forEach(handler => {
+        try {
+          handler(event);
+        } catch (e) {
+          // One failing subscriber must not stop the others from receiving the event
+          console.error('[MessageBus] Handler failed', e);
+        }
+      });
+    }
+  };
+};
+
+export const MessageBus = {
+  incoming: createTopic<InboundMessage>(),
+  status: createTopic<StatusUpdate>(),
+  typing: createTopic<TypingEvent>()
+};
@@ -0,0 +1,50 @@
+import { Channel, MessageStatus } from '../../types';
+import { ChannelProvider } from './types';
+import { MessageBus } from './messageBus';
+
+/**
+ * Demo stand-in for a channel with no live transport on the backend. Sends are faked
+ * (latency, a 2% failure rate, delivery and read receipts); webhook parsing is delegated
+ * to the live provider so real payloads are still understood.
+ */
+export const createSimulatorProvider = (live: ChannelProvider): ChannelProvider => ({
+  channel: live.channel,
+  mode: 'simulator',
+  capabilities: live.capabilities,
+  parseInbound: live.parseInbound,
+  parseStatus: live.parseStatus,
+
+  send: async ({ messageId }) => {
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    if (Math.random() > 0.98) {
+      return { success: false, error: 'Gateway Timeout' };
+    }
+
+    MessageBus.status.emit({ messageId, status: MessageStatus.SENT });
+    setTimeout(() => {
+      MessageBus.status.emit({ messageId, status: MessageStatus.DELIVERED });
+      if (live.capabilities.readReceipts && Math.random() > 0.3) {
+        setTimeout(() => MessageBus.status.emit({ messageId, status: MessageStatus.READ }), 2000 + Math.random() * 4000);
+      }
+    }, 1000);
+
+    return { success: true };
+  }
+});
+
+/**
+ * Injects an importer reply produced by the AI simulator, with a typing indicator
+ * on channels that have one.
+ */
+export const simulateReply = (importerId: string, content: string, channel: Channel, showTyping: boolean) => {
+  if (showTyping) MessageBus.typing.emit({ importerId, isTyping: true });
+
+  // A realistic typing duration based on length
+  const typingDuration = Math.min(1000 + content.length * 30, 4000);
+
+  setTimeout(() => {
+    if (showTyping) MessageBus.typing.emit({ importerId, isTyping: false });
+    MessageBus.incoming.emit({ channel, importerId, contact: 'unknown-contact', content });
+  }, typingDuration);
+};
@@ -0,0 +1,34 @@
+import { Channel, MessageStatus } from '../../types';
+import { ChannelProvider, InboundMessage, StatusUpdate } from './types';
+import { sendViaBackend } from './backendTransport';
+
+// Twilio-compatible MessageStatus values
+const STATUS_MAP: Record<string, MessageStatus> = {
+  sent: MessageStatus.SENT,
+  delivered: MessageStatus.DELIVERED,
+  read: MessageStatus.READ,
+  undelivered: MessageStatus.FAILED,
+  failed: MessageStatus.FAILED
+};
+
+/**
+ * SMS gateway. Payloads are Twilio-style form posts (From/Body, MessageSid/MessageStatus).
+ */
+export const SmsProvider: ChannelProvider = {
+  channel: Channel.SMS,
+  mode: 'live',
+  capabilities: { media: false, templates: false, typing: false, readReceipts: false },
+
+  send: (message) => sendViaBackend(Channel.SMS, message),
+
+  parseInbound: (payload: any): InboundMessage[] => {
+    if (!payload?.From || payload.Body === undefined || payload.MessageStatus) return [];
+    return [{ channel: Channel.SMS, contact: payload.From, content: payload.Body, externalId: payload.MessageSid }];
+  },
+
+  parseStatus: (payload: any): StatusUpdate[] => {
+    const status = STATUS_MAP[payload?.MessageStatus];
+    if (!payload?.MessageSid || !status) return [];
+    return [{ messageId: payload.MessageSid, status, error: payload.ErrorCode ? `Error ${payload.ErrorCode}` : undefined }];
+  }
+};
@@ -0,0 +1,61 @@
+import { Channel, MessageAttachment, MessageStatus } from '../../types';
+
+export interface ChannelCapabilities {
+  media: boolean; // Images / documents / attachments
+  templates: boolean; // Pre-approved template messages (WhatsApp HSM, WeChat template messages)
+  typing: boolean; // Typing indicators
+  readReceipts: boolean; // Reports "read", not only "delivered"
+}
+
+export interface OutgoingTemplate {
+  name: string;
+  language: string;
+  parameters: string[]; // Body slots {{1}}, {{2}}, ... in order
+}
+
+export interface OutgoingMessage {
+  messageId: string;
+  to: string;
+  content: string; // For templates: the rendered text, kept for the chat history
+  importerId?: string;
+  template?: OutgoingTemplate;
+  attachments?: MessageAttachment[]; // Uploaded through /api/media first
+}
+
+export interface SendResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface InboundMessage {
+  channel: Channel;
+  contact: string;
+  content: string;
+  importerId?: string | null; // Set when the backend already matched the sender
+  messageId?: string; // Server record id, reused locally so the message is persisted only once
+  externalId?: string; // Provider message id
+  profileName?: string;
+  timestamp?: number;
+  attachments?: MessageAttachment[];
+}
+
+export interface StatusUpdate {
+  messageId: string; // Our message id or the provider's external id
+  status: MessageStatus;
+  error?: string;
+}
+
+/**
+ * One implementation per Channel. Providers translate between the app and a messaging
+ * platform: sending, and turning the platform's webhook payloads into inbound messages
+ * and delivery receipts.
+ */
+export interface ChannelProvider {
+  channel: Channel;
+  /** 'live' providers reach the real platform; 'simulator' fakes it for demos and tests */
+  mode: 'live' | 'simulator';
+  capabilities: ChannelCapabilities;
+  send(message: OutgoingMessage): Promise<SendResult>;
+  parseInbound(payload: unknown): InboundMessage[];
+  parseStatus(payload: unknown): StatusUpdate[];
+}
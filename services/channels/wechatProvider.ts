@@ -0,0 +1,47 @@
+import { Channel, MessageStatus } from '../../types';
+import { ChannelProvider, InboundMessage, StatusUpdate } from './types';
+import { sendViaBackend } from './backendTransport';
+
+const extractContent = (msg: any): string => {
+  switch (msg.MsgType) {
+    case 'text': return msg.Content || '';
+    // Voice messages carry WeChat's speech recognition result when it is enabled
+    case 'voice': return msg.Recognition || '[voice]';
+    case 'location': return `[location] ${msg.Location_X},${msg.Location_Y}`;
+    case 'link': return msg.Url || '[link]';
+    default: return `[${msg.MsgType || 'unsupported'}]`;
+  }
+};
+
+/**
+ * WeChat Official Account. Payloads are the webhook XML already parsed into an object.
+ */
+export const WeChatProvider: ChannelProvider = {
+  channel: Channel.WECHAT,
+  mode: 'live',
+  capabilities: { media: true, templates: true, typing: true, readReceipts: false },
+
+  send: (message) => sendViaBackend(Channel.WECHAT, message),
+
+  parseInbound: (payload: any): InboundMessage[] => {
+    if (!payload?.FromUserName || payload.MsgType === 'event') return [];
+    return [{
+      channel: Channel.WECHAT,
+      contact: payload.FromUserName,
+      content: extractContent(payload),
+      externalId: payload.MsgId ? String(payload.MsgId) : undefined,
+      timestamp: Number(payload.CreateTime) * 1000 || Date.now()
+    }];
+  },
+
+  parseStatus: (payload: any): StatusUpdate[] => {
+    // The only receipt WeChat sends is the template-message job result
+    if (payload?.MsgType !== 'event' || payload.Event !== 'TEMPLATESENDJOBFINISH') return [];
+    const success = payload.Status === 'success';
+    return [{
+      messageId: String(payload.MsgID),
+      status: success ? MessageStatus.DELIVERED : MessageStatus.FAILED,
+      error: success ? undefined : payload.Status
+    }];
+  }
+};
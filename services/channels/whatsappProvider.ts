@@ -0,0 +1,65 @@
+import { Channel, MessageStatus } from '../../types';
+import { ChannelProvider, InboundMessage, StatusUpdate } from './types';
+import { sendViaBackend } from './backendTransport';
+
+const STATUS_MAP: Record<string, MessageStatus> = {
+  sent: MessageStatus.SENT,
+  delivered: MessageStatus.DELIVERED,
+  read: MessageStatus.READ,
+  failed: MessageStatus.FAILED
+};
+
+const extractContent = (msg: any): string => {
+  switch (msg.type) {
+    case 'text': return msg.text?.body || '';
+    case 'button': return msg.button?.text || '';
+    case 'interactive': return msg.interactive?.button_reply?.title || msg.interactive?.list_reply?.title || '';
+    case 'image':
+    case 'video':
+    case 'document':
+    case 'audio':
+      return msg[msg.type]?.caption || `[${msg.type}]`;
+    default:
+      return msg.text?.body || `[${msg.type || 'unsupported'}]`;
+  }
+};
+
+// Meta wraps everything in entry[].changes[].value
+const changeValues = (payload: any): any[] =>
+  (payload?.entry || []).flatMap((entry: any) => (entry.changes || []).map((change: any) => change.value || {}));
+
+/**
+ * WhatsApp Cloud API. Sending goes through the backend; payloads are Meta webhook bodies.
+ */
+export const WhatsAppProvider: ChannelProvider = {
+  channel: Channel.WHATSAPP,
+  mode: 'live',
+  capabilities: { media: true, templates: true, typing: true, readReceipts: true },
+
+  send: (message) => sendViaBackend(Channel.WHATSAPP, message),
+
+  parseInbound: (payload: any): InboundMessage[] => {
+    // Flat { from, message } bodies are what the local test webhook posts
+    if (payload?.from && payload?.message) {
+      return [{ channel: Channel.WHATSAPP, contact: String(payload.from), content: String(payload.message) }];
+    }
+    return changeValues(payload).flatMap(value =>
+      (value.messages || []).map((msg: any) => ({
+        channel: Channel.WHATSAPP,
+        // WhatsApp IDs are full international numbers without "+"
+        contact: `+${msg.from}`,
+        content: extractContent(msg),
+        externalId: msg.id,
+        profileName: (value.contacts || []).find((c: any) => c.wa_id === msg.from)?.profile?.name,
+        timestamp: Number(msg.timestamp) * 1000 || Date.now()
+      }))
+    );
+  },
+
+  parseStatus: (payload: any): StatusUpdate[] =>
+    changeValues(payload).flatMap(value =>
+      (value.statuses || [])
+        .filter((st: any) => STATUS_MAP[st.status])
+        .map((st: any) => ({ messageId: st.id, status: STATUS_MAP[st.status], error: st.errors?.[0]?.title }))
+    )
+};
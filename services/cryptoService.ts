@@ -0,0 +1,112 @@
+/**
+ * AES-GCM encryption for data kept in browser storage.
+ * The key is derived with PBKDF2 from the user's passphrase and only ever lives in memory:
+ * it is set when the user unlocks at the LoginScreen / lock screen and dropped on lock.
+ */
+
+const SALT_KEY = 'globalreach_vault_salt';
+const CHECK_KEY = 'globalreach_vault_check';
+const CHECK_PLAINTEXT = 'globalreach-vault-v1';
+const PBKDF2_ITERATIONS = 310000;
+const PAYLOAD_PREFIX = 'gcm1:';
+
+export class StorageLockedError extends Error {
+  constructor() {
+    super('Secure storage is locked. Sign in with your passphrase to unlock it.');
+    this.name = 'StorageLockedError';
+  }
+}
+
+export class InvalidPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase: stored data could not be decrypted.');
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+let vaultKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptWith = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${PAYLOAD_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(cipher))}`;
+};
+
+const decryptWith = async (key: CryptoKey, payload: string): Promise<string> => {
+  const [ivPart, dataPart] = payload.slice(PAYLOAD_PREFIX.length).split(':');
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(ivPart) }, key, fromBase64(dataPart));
+    return new TextDecoder().decode(plain);
+  } catch (e) {
+    // GCM authentication failure: wrong key or tampered data
+    throw new InvalidPassphraseError();
+  }
+};
+
+export const CryptoVault = {
+  isEncryptedPayload: (value: string): boolean => value.startsWith(PAYLOAD_PREFIX),
+
+  isUnlocked: (): boolean => vaultKey !== null,
+
+  /**
+   * True once a passphrase has been set on this browser.
+   */
+  isInitialized: (): boolean => localStorage.getItem(SALT_KEY) !== null,
+
+  /**
+   * Derives the key from the passphrase. The first unlock on a browser sets the passphrase;
+   * later unlocks are checked against an encrypted verifier so a typo fails loudly here
+   * instead of surfacing later as unreadable data.
+   */
+  unlock: async (passphrase: string): Promise<void> => {
+    let saltB64 = localStorage.getItem(SALT_KEY);
+    if (!saltB64) {
+      saltB64 = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+      const key = await deriveKey(passphrase, fromBase64(saltB64));
+      localStorage.setItem(SALT_KEY, saltB64);
+      localStorage.setItem(CHECK_KEY, await encryptWith(key, CHECK_PLAINTEXT));
+      vaultKey = key;
+      return;
+    }
+
+    const key = await deriveKey(passphrase, fromBase64(saltB64));
+    const check = localStorage.getItem(CHECK_KEY);
+    if (check && (await decryptWith(key, check)) !== CHECK_PLAINTEXT) {
+      throw new InvalidPassphraseError();
+    }
+    vaultKey = key;
+  },
+
+  lock: () => {
+    vaultKey = null;
+  },
+
+  encrypt: async (plaintext: string): Promise<string> => {
+    if (!vaultKey) throw new StorageLockedError();
+    return encryptWith(vaultKey, plaintext);
+  },
+
+  decrypt: async (payload: string): Promise<string> => {
+    if (!vaultKey) throw new StorageLockedError();
+    return decryptWith(vaultKey, payload);
+  }
+};
@@ -0,0 +1,92 @@
+import { ExchangeRate, Money } from '../types';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const money = (amount: number, currency: string): Money => ({ amount: round2(amount), currency });
+
+/**
+ * Rate for one pair in either direction: the latest table entry effective on `date`.
+ */
+const pairRate = (rates: ExchangeRate[], from: string, to: string, date: number): number | null => {
+  const latest = rates
+    .filter(r => r.effectiveFrom <= date && ((r.base === from && r.quote === to) || (r.base === to && r.quote === from)))
+    .sort((a, b) => b.effectiveFrom - a.effectiveFrom || b.createdAt - a.createdAt)[0];
+  if (!latest || !(latest.rate > 0)) return null;
+  return latest.base === from ? latest.rate : 1 / latest.rate;
+};
+
+/**
+ * How many `to` one `from` buys on `date`, using the rate valid then. Pairs without an entry
+ * are crossed through a currency both have a rate with (e.g. CNY -> USD -> INR).
+ */
+export const rateOn = (rates: ExchangeRate[], from: string, to: string, date: number): number | null => {
+  if (from === to) return 1;
+  const direct = pairRate(rates, from, to, date);
+  if (direct !== null) return direct;
+
+  const via = new Set(rates.flatMap(r => [r.base, r.quote]));
+  for (const currency of via) {
+    if (currency === from || currency === to) continue;
+    const first = pairRate(rates, from, currency, date);
+    const second = first !== null ? pairRate(rates, currency, to, date) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+/**
+ * Null when the table has no rate for the pair on that date.
+ */
+export const convert = (value: Money, to: string, rates: ExchangeRate[], date: number): Money | null => {
+  const rate = rateOn(rates, value.currency, to, date);
+  return rate === null ? null : money(value.amount * rate, to);
+};
+
+const CURRENCY = /^[A-Z]{3}$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads `date,base,quote,rate` rows (e.g. `2024-05-01,USD,INR,83.42`); a header row is skipped.
+ * Dates are the first day the rate applies.
+ */
+export const parseRatesCsv = (text: string, now = Date.now()): { rates: ExchangeRate[]; errors: string[] } => {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const cells = line.split(/[,;\t]/).map(c => c.trim().replace(/^"|"$/g, ''));
+    if (cells.every(c => !c)) return;
+    if (i === 0 && /date/i.test(cells[0])) return;
+
+    const [date, base, quote, rateText] = cells;
+    const rate = Number(rateText);
+    const problem = !DATE.test(date || '') || isNaN(Date.parse(date)) ? `invalid date "${date || ''}"`
+      : !CURRENCY.test((base || '').toUpperCase()) || !CURRENCY.test((quote || '').toUpperCase()) ? 'currencies must be 3-letter ISO codes'
+      : base.toUpperCase() === quote.toUpperCase() ? 'base and quote currency are the same'
+      : !(rate > 0) ? `invalid rate "${rateText || ''}"`
+      : null;
+    if (problem) {
+      errors.push(`Line ${i + 1}: ${problem}`);
+      return;
+    }
+    rates.push({
+      id: `fx-${now}-${i}`,
+      base: base.toUpperCase(),
+      quote: quote.toUpperCase(),
+      rate,
+      effectiveFrom: Date.parse(date),
+      source: 'csv',
+      createdAt: now
+    });
+  });
+  return { rates, errors };
+};
+
+/**
+ * Adds rates to the table. A new rate for a pair and date already present replaces it.
+ */
+export const mergeRates = (existing: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const samePairAndDate = (a: ExchangeRate, b: ExchangeRate) =>
+    a.effectiveFrom === b.effectiveFrom && ((a.base === b.base && a.quote === b.quote) || (a.base === b.quote && a.quote === b.base));
+  return [...existing.filter(r => !incoming.some(n => samePairAndDate(r, n))), ...incoming]
+    .sort((a, b) => b.effectiveFrom - a.effectiveFrom || a.base.localeCompare(b.base) || a.quote.localeCompare(b.quote));
+};
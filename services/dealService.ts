@@ -0,0 +1,149 @@
+import { Deal, ExchangeRate, Importer, LeadStatus, Money, Quotation } from '../types';
+import { money, convert } from './currencyService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chance an open deal closes, by how far the lead has come
+export const STATUS_PROBABILITY: Record<LeadStatus, number> = {
+  [LeadStatus.PENDING]: 0.05,
+  [LeadStatus.CONTACTED]: 0.1,
+  [LeadStatus.ENGAGED]: 0.2,
+  [LeadStatus.INTERESTED]: 0.35,
+  [LeadStatus.SAMPLE_SENT]: 0.5,
+  [LeadStatus.NEGOTIATION]: 0.7,
+  // Closed means done or lost; until the deal itself says which, call it even
+  [LeadStatus.CLOSED]: 0.5,
+  [LeadStatus.COLD]: 0
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const dealValue = (deal: Deal): Money => money(deal.volume * deal.unitPrice, deal.currency);
+
+/**
+ * Won and lost deals are certain. Open deals take the lead's status probability, scaled by
+ * its lead score (0.75x at 0, 1x at 50, 1.25x at 100) and capped at 95%.
+ */
+export const dealProbability = (deal: Deal, importer?: Importer): number => {
+  if (deal.stage === 'won') return 1;
+  if (deal.stage === 'lost' || !importer) return 0;
+  const base = STATUS_PROBABILITY[importer.status] ?? 0;
+  const score = importer.leadScore ?? 50;
+  return Math.min(0.95, round2(base * (0.75 + score / 200)));
+};
+
+/**
+ * Date a deal is valued at: closed deals keep the rate of the day they closed,
+ * open ones move with the current rate.
+ */
+export const dealDate = (deal: Deal, now = Date.now()) => (deal.stage === 'open' ? now : deal.closedAt ?? deal.updatedAt);
+
+/**
+ * The deal's value in the reporting currency, or null when the rate table has no rate for it.
+ */
+export const dealValueIn = (deal: Deal, baseCurrency: string, rates: ExchangeRate[], now = Date.now()) =>
+  convert(dealValue(deal), baseCurrency, rates, dealDate(deal, now));
+
+export interface PipelineSummary {
+  pipeline: number; // Value of open deals
+  weighted: number; // Open deals weighted by their probability
+  won: number;
+  lost: number;
+  openCount: number;
+  unconverted: number; // Deals left out for lack of an exchange rate
+}
+
+export const summarizePipeline = (deals: Deal[], importers: Importer[], baseCurrency: string, rates: ExchangeRate[], now = Date.now()): PipelineSummary => {
+  const byId = new Map(importers.map(i => [i.id, i]));
+  const summary: PipelineSummary = { pipeline: 0, weighted: 0, won: 0, lost: 0, openCount: 0, unconverted: 0 };
+  deals.forEach(deal => {
+    const value = dealValueIn(deal, baseCurrency, rates, now);
+    if (!value) summary.unconverted++;
+    else if (deal.stage === 'won') summary.won += value.amount;
+    else if (deal.stage === 'lost') summary.lost += value.amount;
+    else {
+      summary.pipeline += value.amount;
+      summary.weighted += value.amount * dealProbability(deal, byId.get(deal.importerId));
+      summary.openCount++;
+    }
+  });
+  return { ...summary, pipeline: round2(summary.pipeline), weighted: round2(summary.weighted), won: round2(summary.won), lost: round2(summary.lost) };
+};
+
+export interface MonthlyRevenuePoint {
+  month: string; // 'YYYY-MM'
+  label: string; // 'May 24'
+  won: number;
+  lost: number;
+}
+
+const monthKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Won and lost value per calendar month for the last `months` months, by close date and
+ * converted at the rate of that date.
+ */
+export const revenueByMonth = (deals: Deal[], baseCurrency: string, rates: ExchangeRate[], months = 6, now = Date.now()): MonthlyRevenuePoint[] => {
+  const current = new Date(now);
+  const points = new Map<string, MonthlyRevenuePoint>();
+  for (let i = months - 1; i >= 0; i--) {
+    const d = new Date(current.getFullYear(), current.getMonth() - i, 1);
+    points.set(monthKey(d.getTime()), { month: monthKey(d.getTime()), label: d.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }), won: 0, lost: 0 });
+  }
+  deals.filter(d => d.stage !== 'open').forEach(deal => {
+    const point = points.get(monthKey(dealDate(deal, now)));
+    const value = dealValueIn(deal, baseCurrency, rates, now);
+    if (point && value) point[deal.stage as 'won' | 'lost'] = round2(point[deal.stage as 'won' | 'lost'] + value.amount);
+  });
+  return [...points.values()];
+};
+
+export interface CountryRevenue {
+  country: string;
+  pipeline: number;
+  weighted: number;
+  won: number;
+  lost: number;
+}
+
+export const revenueByCountry = (deals: Deal[], importers: Importer[], baseCurrency: string, rates: ExchangeRate[], now = Date.now()): CountryRevenue[] => {
+  const byCountry = new Map<string, Deal[]>();
+  const byId = new Map(importers.map(i => [i.id, i]));
+  deals.forEach(deal => {
+    const country = byId.get(deal.importerId)?.country || 'Unknown';
+    byCountry.set(country, [...(byCountry.get(country) || []), deal]);
+  });
+  return [...byCountry.entries()]
+    .map(([country, countryDeals]) => {
+      const { pipeline, weighted, won, lost } = summarizePipeline(countryDeals, importers, baseCurrency, rates, now);
+      return { country, pipeline, weighted, won, lost };
+    })
+    .sort((a, b) => (b.won + b.weighted) - (a.won + a.weighted));
+};
+
+/**
+ * Opens a deal for a sent quotation, or re-prices the importer's open deal from a revision.
+ * Mixed units are summed as-is; the unit price is the quotation's average.
+ */
+export const dealFromQuotation = (quotation: Quotation, existing: Deal | undefined, now = Date.now()): Deal => {
+  const volume = quotation.lines.reduce((sum, line) => sum + line.quantity, 0);
+  return {
+    id: existing?.id || `deal-${now}`,
+    importerId: quotation.importerId,
+    product: quotation.lines.map(line => line.name).join(', '),
+    productId: quotation.lines.length === 1 ? quotation.lines[0].productId : undefined,
+    quotationId: quotation.id,
+    volume,
+    unit: quotation.lines[0].unit,
+    currency: quotation.currency,
+    unitPrice: volume > 0 ? round2(quotation.total / volume) : 0,
+    // Quotes usually close within a month of their validity running out
+    expectedCloseDate: existing?.expectedCloseDate ?? quotation.validUntil + 30 * DAY_MS,
+    stage: 'open',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+};
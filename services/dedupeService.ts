@@ -0,0 +1,249 @@
+import { Importer, LeadStatus } from '../types';
+import { normalizePhone } from './phoneNumbers';
+
+export type DuplicateReason = 'phone' | 'email' | 'company';
+
+export interface DuplicateMatch {
+  importer: Importer;
+  reason: DuplicateReason;
+  score: number;
+}
+
+// Company names at or above this similarity (0..1) are treated as the same business
+const COMPANY_MATCH_THRESHOLD = 0.85;
+
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'ltd', 'limited', 'llc', 'llp', 'co', 'corp', 'corporation', 'company',
+  'gmbh', 'ag', 'pvt', 'private', 'plc', 'sa', 'sarl', 'srl', 'spa', 'bv', 'nv', 'pte', 'pty', 'kg', 'oy', 'ab', 'as'
+]);
+
+// Later statuses win when two records are merged
+const STATUS_RANK: Record<LeadStatus, number> = {
+  [LeadStatus.PENDING]: 0,
+  [LeadStatus.CONTACTED]: 1,
+  [LeadStatus.COLD]: 1,
+  [LeadStatus.ENGAGED]: 2,
+  [LeadStatus.INTERESTED]: 3,
+  [LeadStatus.NEGOTIATION]: 4,
+  [LeadStatus.SAMPLE_SENT]: 5,
+  [LeadStatus.CLOSED]: 6
+};
+
+const PLACEHOLDER_VALUES = new Set(['', '-', 'unknown', 'unknown co', 'general goods']);
+
+const isPlaceholder = (value?: string): boolean =>
+  !value || PLACEHOLDER_VALUES.has(value.trim().toLowerCase()) || /^unknown importer \d+$/i.test(value.trim());
+
+/**
+ * E.164 form ("+<digits>") when the number carries an international prefix (+ or 00),
+ * otherwise null: without a country code a national number cannot be compared safely.
+ */
+export const toE164 = (raw: string): string | null => {
+  const trimmed = raw.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) return digits.length >= 7 ? `+${digits}` : null;
+  if (digits.startsWith('00') && digits.length >= 9) return `+${digits.slice(2)}`;
+  return null;
+};
+
+export const normalizeEmail = (raw: string): string => raw.trim().toLowerCase();
+
+/**
+ * Comparable identity for a phone number, email address or platform ID.
+ * Phones are normalized to E.164 when the number (or the lead's country) allows it;
+ * otherwise they keep their national digits (trunk 0 removed).
+ */
+export const contactKey = (raw: string, country?: string): string | null => {
+  const value = (raw || '').trim();
+  if (!value) return null;
+  if (value.includes('@')) return `email:${normalizeEmail(value)}`;
+
+  const normalized = normalizePhone(value, country);
+  if (normalized) return `tel:${normalized.e164}`;
+
+  const e164 = toE164(value);
+  if (e164) return `tel:${e164}`;
+
+  const digits = value.replace(/\D/g, '');
+  // Anything that is not mostly digits is an opaque platform ID (e.g. WeChat OpenID)
+  if (digits.length < 7 || digits.length < value.replace(/[\s\-().]/g, '').length) return `id:${value}`;
+  return `tel:${digits.replace(/^0+/, '')}`;
+};
+
+/**
+ * True when two contact strings identify the same endpoint. Providers often report numbers
+ * without "+" or with the national trunk prefix, so a shorter number matches a longer one only
+ * when it is the full subscriber part (8+ digits) at its end, never a short fragment.
+ */
+export const sameContact = (a: string, b: string, countryA?: string, countryB?: string): boolean => {
+  const keyA = contactKey(a, countryA);
+  const keyB = contactKey(b, countryB);
+  if (!keyA || !keyB) return false;
+  if (keyA === keyB) return true;
+  if (!keyA.startsWith('tel:') || !keyB.startsWith('tel:')) return false;
+  // Two full E.164 numbers are either identical or different lines
+  if (keyA.includes('+') && keyB.includes('+')) return false;
+
+  const digitsA = keyA.replace(/\D/g, '');
+  const digitsB = keyB.replace(/\D/g, '');
+  const [longer, shorter] = digitsA.length >= digitsB.length ? [digitsA, digitsB] : [digitsB, digitsA];
+  return shorter.length >= 8 && longer.endsWith(shorter);
+};
+
+export const normalizeCompanyName = (name: string): string =>
+  (name || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !LEGAL_SUFFIXES.has(token))
+    .join(' ');
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s+/g, ' ');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+/**
+ * Sørensen–Dice similarity over character bigrams of the normalized names, 0..1.
+ */
+export const companySimilarity = (a: string, b: string): number => {
+  const left = normalizeCompanyName(a);
+  const right = normalizeCompanyName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftGrams.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let overlap = 0;
+  rightGrams.forEach(g => {
+    const n = counts.get(g) || 0;
+    if (n > 0) {
+      overlap++;
+      counts.set(g, n - 1);
+    }
+  });
+  return (2 * overlap) / (leftGrams.length + rightGrams.length);
+};
+
+const sameCountry = (a: string, b: string): boolean =>
+  isPlaceholder(a) || isPlaceholder(b) || a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Strongest existing match for a candidate lead: exact contact first, then a fuzzy company
+ * name within the same country.
+ */
+export const findDuplicate = (candidate: Importer, existing: Importer[]): DuplicateMatch | null => {
+  const others = existing.filter(i => i.id !== candidate.id);
+
+  const byContact = others.find(i => sameContact(i.contactDetail, candidate.contactDetail, i.country, candidate.country));
+  if (byContact) {
+    return { importer: byContact, reason: candidate.contactDetail.includes('@') ? 'email' : 'phone', score: 1 };
+  }
+
+  if (isPlaceholder(candidate.companyName)) return null;
+  let best: DuplicateMatch | null = null;
+  for (const other of others) {
+    if (isPlaceholder(other.companyName) || !sameCountry(other.country, candidate.country)) continue;
+    const score = companySimilarity(other.companyName, candidate.companyName);
+    if (score >= COMPANY_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { importer: other, reason: 'company', score };
+    }
+  }
+  return best;
+};
+
+/**
+ * Importer whose contact detail identifies the given sender, if any.
+ */
+export const findImporterByContact = (importers: Importer[], contact: string): Importer | undefined =>
+  importers.find(i => sameContact(i.contactDetail, contact, i.country));
+
+const unionById = <T extends { id: string; timestamp: number }>(a: T[], b: T[]): T[] => {
+  const seen = new Set(a.map(item => item.id));
+  return [...a, ...b.filter(item => !seen.has(item.id))].sort((x, y) => x.timestamp - y.timestamp);
+};
+
+/**
+ * Folds `secondary` into `primary`: the primary keeps its id, empty fields are filled from the
+ * secondary, conversation and activity history are combined, and the further-along status wins.
+ */
+export const mergeImporters = (primary: Importer, secondary: Importer): Importer => {
+  const pick = (a: string, b: string) => (isPlaceholder(a) && !isPlaceholder(b) ? b : a);
+  const status = STATUS_RANK[secondary.status] > STATUS_RANK[primary.status] ? secondary.status : primary.status;
+
+  return {
+    ...secondary,
+    ...primary,
+    name: pick(primary.name, secondary.name),
+    companyName: pick(primary.companyName, secondary.companyName),
+    country: pick(primary.country, secondary.country),
+    contactDetail: pick(primary.contactDetail, secondary.contactDetail),
+    productsImported: pick(primary.productsImported, secondary.productsImported),
+    quantity: pick(primary.quantity, secondary.quantity),
+    priceRange: pick(primary.priceRange, secondary.priceRange),
+    status,
+    // Two timelines can't be interleaved; keep the one that ends in the surviving status
+    statusHistory: status === primary.status ? primary.statusHistory : secondary.statusHistory,
+    leadScore: Math.max(primary.leadScore ?? 0, secondary.leadScore ?? 0) || primary.leadScore,
+    lastContacted: Math.max(primary.lastContacted ?? 0, secondary.lastContacted ?? 0) || undefined,
+    chatHistory: unionById(primary.chatHistory, secondary.chatHistory),
+    activityLog: [
+      ...unionById(primary.activityLog, secondary.activityLog),
+      {
+        id: `log-merge-${Date.now()}-${secondary.id}`,
+        timestamp: Date.now(),
+        type: 'system',
+        description: `Merged duplicate record ${secondary.companyName} (${secondary.contactDetail})`
+      }
+    ]
+  };
+};
+
+export type ImportResolution = 'create' | 'merge' | 'skip';
+
+/**
+ * Applies per-row choices from the import preview. Rows are processed in order so a merge
+ * target may itself be an earlier row of the same file. Returns brand-new leads and the
+ * existing leads that absorbed incoming rows.
+ */
+export const resolveImport = (
+  existing: Importer[],
+  incoming: Importer[],
+  matches: (DuplicateMatch | null)[],
+  resolutions: ImportResolution[]
+): { created: Importer[]; updated: Importer[] } => {
+  const existingIds = new Set(existing.map(i => i.id));
+  const current = new Map<string, Importer>(existing.map(i => [i.id, i]));
+  const createdIds: string[] = [];
+  const updatedIds = new Set<string>();
+
+  incoming.forEach((lead, index) => {
+    const match = matches[index];
+    const resolution = resolutions[index] ?? (match ? 'merge' : 'create');
+    if (resolution === 'skip') return;
+
+    const target = match ? current.get(match.importer.id) : undefined;
+    if (resolution === 'merge' && target) {
+      current.set(target.id, mergeImporters(target, lead));
+      if (existingIds.has(target.id)) updatedIds.add(target.id);
+      return;
+    }
+
+    current.set(lead.id, lead);
+    createdIds.push(lead.id);
+  });
+
+  return {
+    created: createdIds.map(id => current.get(id)!),
+    updated: Array.from(updatedIds).map(id => current.get(id)!)
+  };
+};
@@ -0,0 +1,61 @@
+import { ApiClient } from './apiClient';
+
+export interface MailServerConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+}
+
+export interface EmailChannelConfig {
+  from: string;
+  fromName?: string;
+  smtp: MailServerConfig;
+  imap: MailServerConfig | null;
+}
+
+export interface EmailChannelStatus {
+  configured: boolean;
+  from: string | null;
+  smtpHost: string | null;
+  imapHost: string | null;
+  lastPollAt: number | null;
+  lastError: string | null;
+  /** Saved settings with the passwords masked; sending a mask back keeps the saved password */
+  config: EmailChannelConfig | null;
+}
+
+export type EmailProvider = 'google' | 'microsoft' | 'custom';
+
+// Server presets; Google and Microsoft accounts sign in with an app password
+export const EMAIL_PROVIDER_PRESETS: Record<EmailProvider, { smtp: Omit<MailServerConfig, 'user' | 'pass'>; imap: Omit<MailServerConfig, 'user' | 'pass'> }> = {
+  google: {
+    smtp: { host: 'smtp.gmail.com', port: 465, secure: true },
+    imap: { host: 'imap.gmail.com', port: 993, secure: true }
+  },
+  microsoft: {
+    smtp: { host: 'smtp.office365.com', port: 587, secure: false },
+    imap: { host: 'outlook.office365.com', port: 993, secure: true }
+  },
+  custom: {
+    smtp: { host: '', port: 587, secure: false },
+    imap: { host: '', port: 993, secure: true }
+  }
+};
+
+/**
+ * SMTP/IMAP settings live on the backend so mail keeps flowing while the browser is closed.
+ */
+export const EmailChannelService = {
+  getStatus: () => ApiClient.get<EmailChannelStatus>('/channels/email'),
+
+  /**
+   * The backend logs in to both servers before saving; bad credentials reject with the server's message.
+   */
+  connect: (config: EmailChannelConfig) => ApiClient.put<EmailChannelStatus>('/channels/email', config),
+
+  disconnect: () => ApiClient.delete('/channels/email'),
+
+  pollNow: () => ApiClient.post<EmailChannelStatus & { received: number }>('/channels/email/poll')
+};
@@ -0,0 +1,203 @@
+import { Importer, LeadStatus, SalesForecast } from '../types';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A lead converts when it reaches the end of the funnel; Cold is the other way out
+export const CONVERTED = LeadStatus.CLOSED;
+const TERMINAL: LeadStatus[] = [LeadStatus.CLOSED, LeadStatus.COLD];
+const STATUSES = Object.values(LeadStatus) as LeadStatus[];
+
+// Two-sided z-scores for the supported interval levels
+const Z_SCORES: Record<number, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96 };
+
+/**
+ * Weekly move rates used until the workspace has history of its own. They count as
+ * PRIOR_WEEKS of observation per status, so real transitions outweigh them quickly.
+ */
+const PRIOR_RATES: Partial<Record<LeadStatus, Partial<Record<LeadStatus, number>>>> = {
+  [LeadStatus.PENDING]: { [LeadStatus.CONTACTED]: 0.5 },
+  [LeadStatus.CONTACTED]: { [LeadStatus.ENGAGED]: 0.2, [LeadStatus.COLD]: 0.05 },
+  [LeadStatus.ENGAGED]: { [LeadStatus.INTERESTED]: 0.15, [LeadStatus.COLD]: 0.05 },
+  [LeadStatus.INTERESTED]: { [LeadStatus.SAMPLE_SENT]: 0.1, [LeadStatus.NEGOTIATION]: 0.05, [LeadStatus.COLD]: 0.03 },
+  [LeadStatus.SAMPLE_SENT]: { [LeadStatus.NEGOTIATION]: 0.15, [LeadStatus.COLD]: 0.03 },
+  [LeadStatus.NEGOTIATION]: { [LeadStatus.CLOSED]: 0.15, [LeadStatus.COLD]: 0.05 }
+};
+const PRIOR_WEEKS = 2;
+
+/**
+ * A lead's status moves in order, with the status it started in and when it was created.
+ */
+export const statusTimeline = (importer: Importer) => {
+  const events = [...(importer.statusHistory || [])].sort((a, b) => a.at - b.at);
+  const times = [...importer.activityLog.map(e => e.timestamp), ...events.map(e => e.at)];
+  const created = times.length > 0 ? Math.min(...times) : undefined;
+  return { created, initial: events[0]?.from ?? importer.status, events };
+};
+
+/**
+ * Status the lead was in at `date`; undefined if it did not exist yet.
+ */
+export const statusAt = (importer: Importer, date: number): LeadStatus | undefined => {
+  const { created, initial, events } = statusTimeline(importer);
+  if (created === undefined || created > date) return undefined;
+  return events.filter(e => e.at <= date).pop()?.to ?? initial;
+};
+
+export interface TransitionModel {
+  // Chance per week of moving from one status to another; the rest stays put
+  weekly: Record<LeadStatus, Partial<Record<LeadStatus, number>>>;
+  exposureWeeks: Record<LeadStatus, number>; // Observed time spent in each status
+  transitions: number; // Observed status moves the rates are based on
+}
+
+/**
+ * Weekly transition rates from the status transitions recorded before `asOf`: moves
+ * out of a status divided by the time leads spent in it, blended with PRIOR_RATES.
+ */
+export const fitTransitionModel = (importers: Importer[], asOf = Date.now()): TransitionModel => {
+  const exposure = Object.fromEntries(STATUSES.map(s => [s, 0])) as Record<LeadStatus, number>;
+  const counts = Object.fromEntries(STATUSES.map(s => [s, {}])) as Record<LeadStatus, Partial<Record<LeadStatus, number>>>;
+  let transitions = 0;
+
+  importers.forEach(importer => {
+    const { created, initial, events } = statusTimeline(importer);
+    if (created === undefined || created > asOf) return;
+    let status = initial;
+    let since = created;
+    for (const event of events) {
+      if (event.at > asOf) break;
+      exposure[status] += (event.at - since) / WEEK_MS;
+      counts[status][event.to] = (counts[status][event.to] || 0) + 1;
+      transitions++;
+      status = event.to;
+      since = event.at;
+    }
+    exposure[status] += (asOf - since) / WEEK_MS;
+  });
+
+  const weekly = Object.fromEntries(STATUSES.map(from => {
+    if (TERMINAL.includes(from)) return [from, {}];
+    const prior = PRIOR_RATES[from] || {};
+    const targets = new Set([...Object.keys(prior), ...Object.keys(counts[from])] as LeadStatus[]);
+    const rates: Partial<Record<LeadStatus, number>> = {};
+    targets.forEach(to => {
+      rates[to] = ((counts[from][to] || 0) + PRIOR_WEEKS * (prior[to] || 0)) / (exposure[from] + PRIOR_WEEKS);
+    });
+    // More moves than weeks observed: every lead leaves within the week
+    const total = Object.values(rates).reduce((sum, r) => sum + r!, 0);
+    if (total > 1) targets.forEach(to => { rates[to] = rates[to]! / total; });
+    return [from, rates];
+  })) as TransitionModel['weekly'];
+
+  return { weekly, exposureWeeks: exposure, transitions };
+};
+
+/**
+ * Chance that a lead now in `status` converts in each of the next `weeks` weeks.
+ */
+export const conversionCurve = (model: TransitionModel, status: LeadStatus, weeks: number): number[] => {
+  let state = Object.fromEntries(STATUSES.map(s => [s, s === status ? 1 : 0])) as Record<LeadStatus, number>;
+  const curve: number[] = [];
+  for (let week = 0; week < weeks; week++) {
+    const next = Object.fromEntries(STATUSES.map(s => [s, 0])) as Record<LeadStatus, number>;
+    let converted = 0;
+    STATUSES.forEach(from => {
+      const mass = state[from];
+      if (!mass) return;
+      if (TERMINAL.includes(from)) {
+        next[from] += mass;
+        return;
+      }
+      let moved = 0;
+      Object.entries(model.weekly[from]).forEach(([to, rate]) => {
+        next[to as LeadStatus] += mass * rate!;
+        moved += rate!;
+        if (to === CONVERTED) converted += mass * rate!;
+      });
+      next[from] += mass * (1 - moved);
+    });
+    curve.push(converted);
+    state = next;
+  }
+  return curve;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const weekLabel = (start: number) => new Date(start).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+interface ForecastOptions {
+  now?: number;
+  weeks?: number;
+  level?: 0.8 | 0.9 | 0.95;
+  model?: TransitionModel;
+}
+
+/**
+ * Expected conversions per week for the open leads with a `level` interval. Each lead
+ * converts at most once, so a week's count is a sum of independent yes/no outcomes:
+ * mean sum(p), variance sum(p(1 - p)).
+ */
+export const forecastConversions = (importers: Importer[], options: ForecastOptions = {}): SalesForecast[] => {
+  const { now = Date.now(), weeks = 4, level = 0.9 } = options;
+  const model = options.model || fitTransitionModel(importers, now);
+  const curves = importers
+    .filter(i => !TERMINAL.includes(i.status))
+    .map(i => conversionCurve(model, i.status, weeks));
+  return forecastFromCurves(curves, now, weeks, level);
+};
+
+const forecastFromCurves = (curves: number[][], start: number, weeks: number, level: number): SalesForecast[] => {
+  const z = Z_SCORES[level];
+  return Array.from({ length: weeks }, (_, week) => {
+    const mean = curves.reduce((sum, curve) => sum + curve[week], 0);
+    const sd = Math.sqrt(curves.reduce((sum, curve) => sum + curve[week] * (1 - curve[week]), 0));
+    const weekStart = start + week * WEEK_MS;
+    return {
+      date: weekLabel(weekStart),
+      weekStart,
+      predictedConversions: round2(mean),
+      lower: round2(Math.max(0, mean - z * sd)),
+      upper: round2(mean + z * sd),
+      confidence: level
+    };
+  });
+};
+
+export interface BacktestPoint extends SalesForecast {
+  actual: number;
+}
+
+export interface BacktestResult {
+  asOf: number;
+  points: BacktestPoint[];
+  leads: number; // Open leads at `asOf`
+  meanAbsoluteError: number;
+  coverage: number; // Share of weeks whose actual count fell inside the interval
+}
+
+/**
+ * Replays the forecast from `weeks` weeks ago, fitted only on what was known then, and
+ * compares it with the conversions that actually happened since.
+ */
+export const backtestForecast = (importers: Importer[], options: Omit<ForecastOptions, 'model'> = {}): BacktestResult => {
+  const { now = Date.now(), weeks = 4, level = 0.9 } = options;
+  const asOf = now - weeks * WEEK_MS;
+  const model = fitTransitionModel(importers, asOf);
+  const open = importers
+    .map(i => statusAt(i, asOf))
+    .filter((status): status is LeadStatus => status !== undefined && !TERMINAL.includes(status));
+  const forecast = forecastFromCurves(open.map(status => conversionCurve(model, status, weeks)), asOf, weeks, level);
+
+  const conversions = importers.flatMap(i => statusTimeline(i).events.filter(e => e.to === CONVERTED).map(e => e.at));
+  const points = forecast.map(point => ({
+    ...point,
+    actual: conversions.filter(at => at >= point.weekStart && at < point.weekStart + WEEK_MS).length
+  }));
+  return {
+    asOf,
+    points,
+    leads: open.length,
+    meanAbsoluteError: round2(points.reduce((sum, p) => sum + Math.abs(p.actual - p.predictedConversions), 0) / weeks),
+    coverage: round2(points.filter(p => p.actual >= p.lower && p.actual <= p.upper).length / weeks)
+  };
+};
@@ -0,0 +1,133 @@
+import { Campaign, Importer, LeadStatus, StatusActor } from '../types';
+import { statusTimeline } from './forecastService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stages in funnel order; Cold is where leads drop out, so it is counted as a loss, not a stage
+export const FUNNEL_STAGES = [
+  LeadStatus.PENDING,
+  LeadStatus.CONTACTED,
+  LeadStatus.ENGAGED,
+  LeadStatus.INTERESTED,
+  LeadStatus.SAMPLE_SENT,
+  LeadStatus.NEGOTIATION,
+  LeadStatus.CLOSED
+];
+const rank = (status: LeadStatus) => FUNNEL_STAGES.indexOf(status);
+
+export interface StageStats {
+  stage: LeadStatus;
+  reached: number; // Leads that got to this stage or further (skipping a stage still passes it)
+  current: number;
+  lost: number; // Leads that went Cold from this stage
+  conversionRate: number | null; // Share of `reached` that got to the next stage
+  medianDays: number | null; // Median time spent in the stage, over stays that have ended
+}
+
+export interface FunnelSummary {
+  stages: StageStats[];
+  transitions: number;
+  byActor: Record<StatusActor, number>;
+}
+
+export type CohortDimension = 'country' | 'channel' | 'campaign';
+
+export interface CohortRow {
+  cohort: string;
+  leads: number;
+  engagedRate: number; // Share that reached Engaged or further
+  negotiationRate: number;
+  wonRate: number;
+  lostRate: number;
+  medianDaysToWin: number | null; // From lead creation to Closed
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const round1 = (value: number | null) => value === null ? null : Math.round(value * 10) / 10;
+const share = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+
+// Furthest funnel stage the lead has been in, -1 if it never entered the funnel
+const furthestRank = (importer: Importer) => {
+  const { initial, events } = statusTimeline(importer);
+  return Math.max(rank(initial), rank(importer.status), ...events.map(e => rank(e.to)));
+};
+
+/**
+ * Stage-by-stage conversion, drop-out and time-in-stage from the leads' status transitions.
+ */
+export const summarizeFunnel = (importers: Importer[]): FunnelSummary => {
+  const furthest = importers.map(furthestRank);
+  const stays = new Map<LeadStatus, number[]>(FUNNEL_STAGES.map(s => [s, []]));
+  const lost = new Map<LeadStatus, number>();
+  const byActor: Record<StatusActor, number> = { ai: 0, user: 0, campaign: 0, system: 0 };
+  let transitions = 0;
+
+  importers.forEach(importer => {
+    const { created, initial, events } = statusTimeline(importer);
+    let status = initial;
+    let since = created;
+    events.forEach(event => {
+      if (since !== undefined) stays.get(status)?.push((event.at - since) / DAY_MS);
+      if (event.to === LeadStatus.COLD) lost.set(event.from, (lost.get(event.from) || 0) + 1);
+      byActor[event.actor] = (byActor[event.actor] || 0) + 1;
+      transitions++;
+      status = event.to;
+      since = event.at;
+    });
+  });
+
+  const reached = FUNNEL_STAGES.map((_, index) => furthest.filter(r => r >= index).length);
+  const stages = FUNNEL_STAGES.map((stage, index) => ({
+    stage,
+    reached: reached[index],
+    current: importers.filter(i => i.status === stage).length,
+    lost: lost.get(stage) || 0,
+    conversionRate: index < FUNNEL_STAGES.length - 1 && reached[index] > 0 ? share(reached[index + 1], reached[index]) : null,
+    medianDays: round1(median(stays.get(stage)!))
+  }));
+  return { stages, transitions, byActor };
+};
+
+const cohortKey = (importer: Importer, dimension: CohortDimension, campaigns: Campaign[]) => {
+  if (dimension === 'country') return importer.country || 'Unknown';
+  if (dimension === 'channel') return importer.preferredChannel ?? 'No channel';
+  if (!importer.campaignId) return 'No campaign';
+  return campaigns.find(c => c.id === importer.campaignId)?.name || importer.campaignId;
+};
+
+/**
+ * Funnel outcomes per country, preferred channel or campaign, largest cohort first.
+ */
+export const compareCohorts = (importers: Importer[], dimension: CohortDimension, campaigns: Campaign[] = []): CohortRow[] => {
+  const groups = new Map<string, Importer[]>();
+  importers.forEach(importer => {
+    const key = cohortKey(importer, dimension, campaigns);
+    groups.set(key, [...(groups.get(key) || []), importer]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([cohort, members]) => {
+      const furthest = members.map(furthestRank);
+      const daysToWin = members.flatMap(member => {
+        const { created, events } = statusTimeline(member);
+        const won = events.find(e => e.to === LeadStatus.CLOSED);
+        return won && created !== undefined ? [(won.at - created) / DAY_MS] : [];
+      });
+      return {
+        cohort,
+        leads: members.length,
+        engagedRate: share(furthest.filter(r => r >= rank(LeadStatus.ENGAGED)).length, members.length),
+        negotiationRate: share(furthest.filter(r => r >= rank(LeadStatus.NEGOTIATION)).length, members.length),
+        wonRate: share(members.filter(m => m.status === LeadStatus.CLOSED).length, members.length),
+        lostRate: share(members.filter(m => m.status === LeadStatus.COLD).length, members.length),
+        medianDaysToWin: round1(median(daysToWin))
+      };
+    })
+    .sort((a, b) => b.leads - a.leads || a.cohort.localeCompare(b.cohort));
+};
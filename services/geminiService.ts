@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { Importer, Message, LeadStatus, AnalysisResult, SalesForecast, Channel, AppTemplates, OptimizationInsight, StrategicInsight, TrainingModule } from "../types";
+import { BacktestResult } from "./forecastService";
 import { checkRateLimit } from "./securityService";
 
 // Initialize the client
@@ -357,66 +358,31 @@ export const generateCampaignMessage = async (
 };
 
 /**
- * Generates a sales trend forecast based on current lead data.
+ * Explains the statistical forecast in plain language. The numbers come from
+ * forecastService; this only narrates them and never changes them.
  */
-export const generateSalesForecast = async (importers: Importer[]): Promise<SalesForecast[]> => {
-    if (!checkRateLimit()) return [];
+export const generateForecastNarrative = async (forecast: SalesForecast[], backtest: BacktestResult): Promise<string> => {
+    if (!checkRateLimit()) throw new Error("Rate Limit Exceeded");
 
-    const leadSummary = importers
-        .filter(i => i.status !== LeadStatus.CLOSED && i.status !== LeadStatus.COLD)
-        .map(i => ({
-            score: i.leadScore || 50,
-            status: i.status,
-            lastActive: i.lastContacted
-        }));
+    const prompt = `
+        You are a sales analyst. Explain this conversion forecast to a sales manager in 3-4 sentences.
+        Do not invent or change any numbers; refer only to the figures given.
 
-    const responseSchema = {
-        type: Type.ARRAY,
-        items: {
-            type: Type.OBJECT,
-            properties: {
-                date: { type: Type.STRING, description: "Date label (e.g., 'Week 1', 'Nov 12')" },
-                predictedConversions: { type: Type.INTEGER },
-                confidence: { type: Type.NUMBER, description: "0.0 to 1.0" }
-            },
-            required: ["date", "predictedConversions", "confidence"]
-        }
-    };
+        Weekly forecast (expected conversions with a ${Math.round((forecast[0]?.confidence || 0.9) * 100)}% interval):
+        ${JSON.stringify(forecast.map(f => ({ week: f.date, expected: f.predictedConversions, lower: f.lower, upper: f.upper })))}
 
-    const prompt = `
-        Analyze these anonymized lead metrics to forecast sales conversions for the next 4 weeks.
-        
-        Metrics: ${JSON.stringify(leadSummary.slice(0, 50))}
-        
-        Logic:
-        - High lead scores (>70) close faster.
-        - Negotiation status implies imminent closure.
-        - Sample Sent implies medium term closure.
-        
-        Output 4 data points representing the next 4 weeks.
+        Backtest of the same method over the previous ${backtest.points.length} weeks:
+        ${JSON.stringify(backtest.points.map(p => ({ week: p.date, predicted: p.predictedConversions, actual: p.actual })))}
+        Mean absolute error: ${backtest.meanAbsoluteError}. Share of weeks inside the interval: ${backtest.coverage}.
+
+        Mention how reliable the forecast looks given the backtest, and one practical action.
     `;
 
-    try {
-        const response = await ai.models.generateContent({
-            model: MODEL_NAME,
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: responseSchema,
-            }
-        });
-        const jsonText = response.text || "[]";
-        return JSON.parse(jsonText) as SalesForecast[];
-    } catch (error) {
-        console.error("Forecast Error", error);
-        // Fallback mock data
-        return [
-            { date: 'Week 1', predictedConversions: 2, confidence: 0.8 },
-            { date: 'Week 2', predictedConversions: 5, confidence: 0.6 },
-            { date: 'Week 3', predictedConversions: 3, confidence: 0.5 },
-            { date: 'Week 4', predictedConversions: 1, confidence: 0.4 },
-        ];
-    }
+    const response = await ai.models.generateContent({
+        model: MODEL_NAME,
+        contents: prompt,
+    });
+    return response.text || "";
 };
 
 /**
@@ -10,6 +10,7 @@ export const translations = {
     leads: "Leads",
     chat: "Conversation",
     history: "Activity History",
+    deals: "Deals",
     settings: "Settings",
     import: "Import Leads",
     logout: "Log Out",
@@ -36,6 +37,7 @@ export const translations = {
     leads: "Prospectos",
     chat: "Conversación",
     history: "Historial",
+    deals: "Oportunidades",
     settings: "Configuración",
     import: "Importar",
     logout: "Cerrar Sesión",
@@ -62,6 +64,7 @@ export const translations = {
     leads: "潜在客户",
     chat: "对话",
     history: "活动历史",
+    deals: "商机",
     settings: "设置",
     import: "导入",
     logout: "登出",
@@ -0,0 +1,272 @@
+import { Importer, LeadStatus } from '../types';
+import { getInitialValidationState, validateContactFormat } from './validationService';
+
+export type ImportField = 'name' | 'companyName' | 'country' | 'contactDetail' | 'productsImported' | 'quantity' | 'priceRange';
+
+/**
+ * Column index per Importer field; null means "not in this file".
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * Saved mapping, stored by column label so it applies to any export with the same headers.
+ */
+export interface MappingPreset {
+  name: string;
+  columns: Partial<Record<ImportField, string>>;
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Contact Name', required: false, aliases: ['name', 'contact name', 'contact person', 'buyer name', 'person'] },
+  { field: 'companyName', label: 'Company', required: true, aliases: ['company', 'company name', 'importer', 'importer name', 'consignee', 'buyer', 'organisation', 'organization'] },
+  { field: 'country', label: 'Country', required: false, aliases: ['country', 'destination', 'destination country', 'importer country', 'country of destination'] },
+  { field: 'contactDetail', label: 'Contact (Phone/Email)', required: true, aliases: ['contact', 'phone', 'mobile', 'email', 'e-mail', 'whatsapp', 'telephone', 'tel', 'contact detail'] },
+  { field: 'productsImported', label: 'Product', required: false, aliases: ['product', 'products', 'product description', 'commodity', 'description', 'hs description', 'item'] },
+  { field: 'quantity', label: 'Quantity', required: false, aliases: ['quantity', 'qty', 'volume', 'weight', 'net weight'] },
+  { field: 'priceRange', label: 'Price', required: false, aliases: ['price', 'unit price', 'price range', 'value', 'fob value', 'cif value'] }
+];
+
+// Column order of the original pasted-text format, used when a file has no header row
+const LEGACY_ORDER: ImportField[] = ['name', 'companyName', 'country', 'contactDetail', 'productsImported', 'quantity', 'priceRange'];
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+const normalizeLabel = (label: string): string => label.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * RFC 4180 parser: quoted fields, "" escapes, delimiters and line breaks inside quotes, CRLF/LF.
+ * Rows that are entirely empty are dropped.
+ */
+export const parseDelimited = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row.map(cell => cell.trim()));
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      // Opening quote; leading whitespace before it is not part of the value
+      field = '';
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+/**
+ * Picks the delimiter that splits the first few lines into the most, and most consistent, columns.
+ */
+export const detectDelimiter = (text: string): string => {
+  const sample = text.slice(0, 4096);
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const rows = parseDelimited(sample, delimiter).slice(0, 10);
+    if (rows.length === 0) continue;
+    const widths = rows.map(r => r.length);
+    const first = widths[0];
+    if (first < 2) continue;
+    const consistent = widths.filter(w => w === first).length / widths.length;
+    const score = first * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const looksLikeContact = (value: string): boolean =>
+  /@/.test(value) || value.replace(/\D/g, '').length >= 7;
+
+/**
+ * A first row is a header when it names known fields, or when it carries no
+ * contact-like values while the data rows below it do.
+ */
+export const detectHeader = (rows: string[][]): boolean => {
+  if (rows.length === 0) return false;
+  const first = rows[0];
+  const aliases = new Set(IMPORT_FIELDS.flatMap(f => f.aliases));
+  const knownLabels = first.filter(cell => aliases.has(normalizeLabel(cell))).length;
+  if (knownLabels >= 2) return true;
+  if (rows.length < 2) return false;
+  return !first.some(looksLikeContact) && rows.slice(1, 6).some(r => r.some(looksLikeContact));
+};
+
+/**
+ * Splits raw rows into header labels and data rows. Headerless files get "Column N" labels.
+ */
+export const toSheet = (rows: string[][], hasHeader: boolean = detectHeader(rows)): ParsedSheet => {
+  const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+  const headers = hasHeader
+    ? Array.from({ length: width }, (_, i) => rows[0][i] || `Column ${i + 1}`)
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  return { headers, rows: hasHeader ? rows.slice(1) : rows, hasHeader };
+};
+
+export const emptyMapping = (): ColumnMapping =>
+  IMPORT_FIELDS.reduce((acc, f) => ({ ...acc, [f.field]: null }), {} as ColumnMapping);
+
+/**
+ * Best-effort mapping: header aliases when there is a header row, otherwise the legacy column order.
+ */
+export const guessMapping = (sheet: ParsedSheet): ColumnMapping => {
+  const mapping = emptyMapping();
+  if (!sheet.hasHeader) {
+    LEGACY_ORDER.forEach((field, index) => {
+      if (index < sheet.headers.length) mapping[field] = index;
+    });
+    return mapping;
+  }
+
+  const used = new Set<number>();
+  const labels = sheet.headers.map(normalizeLabel);
+  // Exact alias matches for every field first, so "Importer Name" is not claimed by a loose "name" match
+  const matchers: ((label: string, aliases: string[]) => boolean)[] = [
+    (label, aliases) => aliases.includes(label),
+    (label, aliases) => aliases.some(a => label.includes(a))
+  ];
+  for (const matches of matchers) {
+    for (const { field, aliases } of IMPORT_FIELDS) {
+      if (mapping[field] !== null) continue;
+      const index = labels.findIndex((l, i) => !used.has(i) && matches(l, aliases));
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+      }
+    }
+  }
+  return mapping;
+};
+
+export const applyPreset = (preset: MappingPreset, sheet: ParsedSheet): ColumnMapping => {
+  const mapping = emptyMapping();
+  const labels = sheet.headers.map(normalizeLabel);
+  (Object.keys(preset.columns) as ImportField[]).forEach(field => {
+    const label = preset.columns[field];
+    if (!label) return;
+    const index = labels.indexOf(normalizeLabel(label));
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+export const toPreset = (name: string, mapping: ColumnMapping, sheet: ParsedSheet): MappingPreset => {
+  const columns: Partial<Record<ImportField, string>> = {};
+  (Object.keys(mapping) as ImportField[]).forEach(field => {
+    const index = mapping[field];
+    if (index !== null) columns[field] = sheet.headers[index];
+  });
+  return { name, columns };
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): string[] =>
+  IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null).map(f => f.label);
+
+export const buildImporters = (sheet: ParsedSheet, mapping: ColumnMapping): Importer[] => {
+  const now = Date.now();
+  const read = (row: string[], field: ImportField): string => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] || '').trim();
+  };
+
+  return sheet.rows.map((row, index) => {
+    const contactDetail = read(row, 'contactDetail');
+    const country = read(row, 'country');
+    // Country is the default region for numbers written without an international prefix
+    const { channel } = validateContactFormat(contactDetail, country);
+    const validation = getInitialValidationState(contactDetail, country);
+
+    return {
+      id: `imported-${now}-${index}`,
+      name: read(row, 'name') || `Unknown Importer ${index}`,
+      companyName: read(row, 'companyName') || 'Unknown Co',
+      country: country || 'Unknown',
+      contactDetail,
+      productsImported: read(row, 'productsImported') || 'General Goods',
+      quantity: read(row, 'quantity') || '-',
+      priceRange: read(row, 'priceRange') || '-',
+      status: LeadStatus.PENDING,
+      chatHistory: [],
+      activityLog: [{
+        id: `log-init-${now}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: now,
+        type: 'system',
+        description: 'Lead imported via Bulk Import'
+      }],
+      preferredChannel: channel,
+      validation
+    };
+  });
+};
+
+const readAsText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+const readAsArrayBuffer = (file: File): Promise<ArrayBuffer> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(file);
+});
+
+/**
+ * Reads an uploaded .csv / .tsv / .txt / .xlsx / .xls file into raw rows (first worksheet for Excel).
+ */
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx' || extension === 'xls') {
+    // Loaded on demand: the spreadsheet library is large and only needed for Excel uploads
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await readAsArrayBuffer(file), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) return [];
+    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '', blankrows: false });
+    return rows
+      .map(r => r.map(cell => String(cell ?? '').trim()))
+      .filter(r => r.some(cell => cell !== ''));
+  }
+
+  const text = await readAsText(file);
+  return parseDelimited(text, extension === 'tsv' ? '\t' : detectDelimiter(text));
+};
@@ -0,0 +1,41 @@
+import { Importer, LeadStatus, Channel } from '../types';
+import { getInitialValidationState } from './validationService';
+
+/**
+ * New lead for a sender that matched no existing importer. Starts as ENGAGED (they wrote to us),
+ * replies go back on the channel they used, and it waits in the "New inbound" triage queue.
+ */
+export const buildInboundLead = (contact: string, channel: Channel, profileName?: string): Importer => {
+  const now = Date.now();
+  return {
+    id: `inbound-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name: profileName || contact,
+    companyName: 'Unknown Co',
+    country: 'Unknown',
+    contactDetail: contact,
+    productsImported: 'General Goods',
+    quantity: '-',
+    priceRange: '-',
+    status: LeadStatus.ENGAGED,
+    chatHistory: [],
+    activityLog: [{
+      id: `log-inbound-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: now,
+      type: 'system',
+      description: `Lead created from inbound ${channel} message`
+    }],
+    preferredChannel: channel,
+    channelSelectionMode: 'manual',
+    // The sender just reached us on this channel, so it is reachable whatever the ID format
+    validation: {
+      ...getInitialValidationState(contact),
+      isValid: true,
+      errors: [],
+      whatsappAvailable: channel === Channel.WHATSAPP ? true : null,
+      wechatAvailable: channel === Channel.WECHAT ? true : null
+    },
+    lastContacted: now,
+    source: 'inbound',
+    needsTriage: true
+  };
+};
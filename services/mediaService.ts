@@ -0,0 +1,50 @@
+import { MessageAttachment } from '../types';
+import { ApiError } from './apiClient';
+
+// Same limit and types as backend/media.js
+export const MAX_ATTACHMENT_BYTES = 16 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+  'application/pdf',
+  'text/plain', 'text/csv',
+  'application/msword', 'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'video/mp4',
+  'audio/mpeg', 'audio/ogg', 'audio/aac', 'audio/mp4'
+];
+
+export const isImageAttachment = (attachment: Pick<MessageAttachment, 'mimeType'>) => attachment.mimeType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Why a file cannot be attached, or null when it can.
+ */
+export const checkAttachment = (file: File): string | null => {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) return `${file.name}: this file type cannot be attached`;
+  if (file.size > MAX_ATTACHMENT_BYTES) return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  return null;
+};
+
+/**
+ * Attachment files are stored by the backend (server.js or the Electron local server) and
+ * referenced from messages by id; channels that carry media fetch them from there.
+ */
+export const MediaService = {
+  upload: async (file: File): Promise<MessageAttachment> => {
+    const res = await fetch('/api/media', {
+      method: 'POST',
+      headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+      body: file
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new ApiError(res.status, data?.error || res.statusText);
+    return data;
+  }
+};
@@ -1,101 +1,135 @@
+import { Channel, MessageAttachment, MessageStatus } from '../types';
+import { ChannelCapabilities, ChannelProvider, InboundMessage, OutgoingTemplate, SendResult, StatusUpdate } from './channels/types';
+import { MessageBus, TypingEvent } from './channels/messageBus';
+import { fetchBackendChannels } from './channels/backendTransport';
+import { createSimulatorProvider, simulateReply } from './channels/simulatorProvider';
+import { WhatsAppProvider } from './channels/whatsappProvider';
+import { WeChatProvider } from './channels/wechatProvider';
+import { EmailProvider } from './channels/emailProvider';
+import { SmsProvider } from './channels/smsProvider';
+
+const STATUS_RANK: Record<MessageStatus, number> = {
+  [MessageStatus.SENDING]: 0,
+  [MessageStatus.SENT]: 1,
+  [MessageStatus.DELIVERED]: 2,
+  [MessageStatus.READ]: 3,
+  [MessageStatus.FAILED]: 4
+};
+
+/**
+ * Receipts from real providers can arrive out of order, so a status may only move forward
+ * (sending -> sent -> delivered -> read). FAILED is terminal.
+ */
+export const isStatusAdvance = (current: MessageStatus | undefined, next: MessageStatus): boolean => {
+  if (!current) return true;
+  if (current === MessageStatus.FAILED) return false;
+  return STATUS_RANK[next] > STATUS_RANK[current];
+};
 
-import { Channel, MessageStatus } from '../types';
+const LIVE_PROVIDERS: ChannelProvider[] = [WhatsAppProvider, WeChatProvider, EmailProvider, SmsProvider];
 
-// Types for the internal mock event system
-type IncomingHandler = (importerId: string | null, contactDetail: string, content: string, channel: Channel) => void;
-type StatusUpdateHandler = (messageId: string, status: MessageStatus) => void;
-type TypingHandler = (importerId: string, isTyping: boolean) => void;
+// Every channel starts on its simulator; syncProviders() switches the ones the backend can deliver
+const providers = new Map<Channel, ChannelProvider>(
+  LIVE_PROVIDERS.map(provider => [provider.channel, createSimulatorProvider(provider)])
+);
 
-let incomingListener: IncomingHandler | null = null;
-let statusListener: StatusUpdateHandler | null = null;
-let typingListener: TypingHandler | null = null;
+const providerFor = (channel: Channel): ChannelProvider => {
+  const provider = providers.get(channel);
+  if (!provider) throw new Error(`No provider registered for ${channel}`);
+  return provider;
+};
 
 export const MessagingService = {
   /**
-   * Simulates sending a message through a specific provider API.
-   * Handles encryption wrapping (WhatsApp), SMTP handshake (Email), etc.
+   * Registers (or replaces) the provider for its channel.
    */
-  sendMessage: async (
-    messageId: string, 
-    to: string, 
-    content: string, 
-    channel: Channel
-  ): Promise<{ success: boolean; error?: string }> => {
-    
-    console.log(`[MessagingService] Outgoing via ${channel} to ${to}:`, content.substring(0, 20) + '...');
-
-    // 1. Simulate Network Latency based on Channel
-    const latency = channel === Channel.EMAIL ? 1500 : 600; // Email is slower than IM
-    await new Promise(resolve => setTimeout(resolve, latency));
-
-    // 2. Simulate Protocol Handshake & "Sent" status
-    if (Math.random() > 0.98) {
-      // 2% simulated failure rate
-      return { success: false, error: 'Gateway Timeout' };
+  registerProvider: (provider: ChannelProvider) => {
+    providers.set(provider.channel, provider);
+  },
+
+  getProvider: (channel: Channel): ChannelProvider | undefined => providers.get(channel),
+
+  getCapabilities: (channel: Channel): ChannelCapabilities | undefined => providers.get(channel)?.capabilities,
+
+  /**
+   * Uses the live provider for every channel with a transport on the backend and the
+   * simulator for the rest (all of them when no backend is reachable).
+   */
+  syncProviders: async () => {
+    let configured = new Set<Channel>();
+    try {
+      const channels = await fetchBackendChannels();
+      configured = new Set(channels.filter(c => c.configured).map(c => c.channel));
+    } catch (e) {
+      console.warn('[MessagingService] Backend unavailable, all channels run on the simulator');
     }
+    LIVE_PROVIDERS.forEach(provider => {
+      providers.set(provider.channel, configured.has(provider.channel) ? provider : createSimulatorProvider(provider));
+    });
+  },
 
-    // Notify app that message left the server (SENT)
-    if (statusListener) statusListener(messageId, MessageStatus.SENT);
-
-    // 3. Simulate Delivery Receipt (Async)
-    // WhatsApp/WeChat usually show 'Delivered' quickly. Email takes longer to 'Open'.
-    const deliveryDelay = channel === Channel.EMAIL ? 3000 : 1000;
-    
-    setTimeout(() => {
-      if (statusListener) statusListener(messageId, MessageStatus.DELIVERED);
-      
-      // 4. Simulate Read Receipt (Randomly)
-      if (Math.random() > 0.3) {
-         setTimeout(() => {
-             if (statusListener) statusListener(messageId, MessageStatus.READ);
-         }, 2000 + Math.random() * 4000);
-      }
-    }, deliveryDelay);
-
-    return { success: true };
+  sendMessage: async (
+    messageId: string,
+    to: string,
+    content: string,
+    channel: Channel,
+    importerId?: string,
+    options: { template?: OutgoingTemplate; attachments?: MessageAttachment[] } = {}
+  ): Promise<SendResult> => {
+    const provider = providerFor(channel);
+    const { template, attachments } = options;
+    if (attachments?.length && !provider.capabilities.media) {
+      return { success: false, error: `${channel} cannot send attachments` };
+    }
+    console.log(`[MessagingService] Outgoing via ${channel} (${provider.mode}) to ${to}:`, template ? `template ${template.name}` : content.substring(0, 20) + '...');
+    return provider.send({ messageId, to, content, importerId, template, attachments });
   },
 
   /**
-   * Register a callback for when new messages arrive via Webhook/Socket
+   * Subscribe to inbound messages from any channel. Returns an unsubscribe function.
+   */
+  onIncomingMessage: (handler: (message: InboundMessage) => void) => MessageBus.incoming.subscribe(handler),
+
+  /**
+   * Subscribe to message status updates (Sent/Delivered/Read). Returns an unsubscribe function.
+   */
+  onMessageStatusUpdate: (handler: (update: StatusUpdate) => void) => MessageBus.status.subscribe(handler),
+
+  /**
+   * Subscribe to typing indicators. Returns an unsubscribe function.
+   */
+  onTypingStatus: (handler: (event: TypingEvent) => void) => MessageBus.typing.subscribe(handler),
+
+  /**
+   * Entry point for real inbound messages pushed by the server (webhook -> SSE).
+   * When the server could not match the sender, subscribers resolve the importer from the contact.
    */
-  onIncomingMessage: (handler: IncomingHandler) => {
-    incomingListener = handler;
+  receiveInbound: (message: InboundMessage) => {
+    MessageBus.incoming.emit(message);
   },
 
   /**
-   * Register a callback for message status updates (Sent/Delivered/Read)
+   * Entry point for real delivery receipts pushed by the server.
+   * `messageId` is either our local id or the provider's external id.
    */
-  onMessageStatusUpdate: (handler: StatusUpdateHandler) => {
-    statusListener = handler;
+  receiveStatusUpdate: (messageId: string, status: MessageStatus) => {
+    MessageBus.status.emit({ messageId, status });
   },
 
   /**
-   * Register a callback for typing indicators
+   * Raw webhook body forwarded by the Electron local server. The channel's provider
+   * turns it into inbound messages and receipts.
    */
-  onTypingStatus: (handler: TypingHandler) => {
-    typingListener = handler;
+  receiveWebhook: (channel: Channel, payload: unknown) => {
+    const provider = providerFor(channel);
+    provider.parseInbound(payload).forEach(MessageBus.incoming.emit);
+    provider.parseStatus(payload).forEach(MessageBus.status.emit);
   },
 
   /**
-   * Internal helper to trigger a mock incoming message.
-   * Used by the AI Simulator to inject replies.
+   * Injects a reply produced by the AI Simulator.
    */
   receiveMockReply: (importerId: string, content: string, channel: Channel) => {
-    // 1. Simulate "Typing Started"
-    if (typingListener) typingListener(importerId, true);
-
-    // Calculate a realistic typing duration based on length
-    const typingDuration = Math.min(1000 + content.length * 30, 4000);
-
-    setTimeout(() => {
-        // 2. Simulate "Typing Stopped"
-        if (typingListener) typingListener(importerId, false);
-
-        // 3. Deliver Message
-        if (incomingListener) {
-            // For mock purposes we pass importerId directly
-            incomingListener(importerId, 'unknown-contact', content, channel);
-        }
-    }, typingDuration);
+    simulateReply(importerId, content, channel, providers.get(channel)?.capabilities.typing ?? false);
   }
 };
@@ -0,0 +1,88 @@
+import { parsePhoneNumberFromString, CountryCode } from 'libphonenumber-js/max';
+
+export type PhoneType = 'mobile' | 'landline' | 'voip' | 'unknown';
+
+export interface NormalizedPhone {
+  e164: string;
+  region?: string;
+  type: PhoneType;
+  extension?: string;
+}
+
+// Importer.country holds free-text names from customs exports; map the common ones (and aliases) to ISO 3166 regions
+const COUNTRY_REGIONS: Record<string, CountryCode> = {
+  'afghanistan': 'AF', 'algeria': 'DZ', 'argentina': 'AR', 'australia': 'AU', 'austria': 'AT',
+  'bahrain': 'BH', 'bangladesh': 'BD', 'belgium': 'BE', 'bhutan': 'BT', 'brazil': 'BR',
+  'bulgaria': 'BG', 'cambodia': 'KH', 'canada': 'CA', 'chile': 'CL', 'china': 'CN',
+  'prc': 'CN', 'colombia': 'CO', 'croatia': 'HR', 'cyprus': 'CY', 'czech republic': 'CZ',
+  'czechia': 'CZ', 'denmark': 'DK', 'egypt': 'EG', 'ethiopia': 'ET', 'finland': 'FI',
+  'france': 'FR', 'germany': 'DE', 'ghana': 'GH', 'greece': 'GR', 'hong kong': 'HK',
+  'hungary': 'HU', 'india': 'IN', 'indonesia': 'ID', 'iran': 'IR', 'iraq': 'IQ',
+  'ireland': 'IE', 'israel': 'IL', 'italy': 'IT', 'japan': 'JP', 'jordan': 'JO',
+  'kenya': 'KE', 'kuwait': 'KW', 'lebanon': 'LB', 'malaysia': 'MY', 'maldives': 'MV',
+  'mauritius': 'MU', 'mexico': 'MX', 'morocco': 'MA', 'myanmar': 'MM', 'nepal': 'NP',
+  'netherlands': 'NL', 'holland': 'NL', 'new zealand': 'NZ', 'nigeria': 'NG', 'norway': 'NO',
+  'oman': 'OM', 'pakistan': 'PK', 'peru': 'PE', 'philippines': 'PH', 'poland': 'PL',
+  'portugal': 'PT', 'qatar': 'QA', 'romania': 'RO', 'russia': 'RU', 'russian federation': 'RU',
+  'saudi arabia': 'SA', 'ksa': 'SA', 'singapore': 'SG', 'south africa': 'ZA', 'south korea': 'KR',
+  'korea': 'KR', 'republic of korea': 'KR', 'spain': 'ES', 'sri lanka': 'LK', 'sweden': 'SE',
+  'switzerland': 'CH', 'taiwan': 'TW', 'tanzania': 'TZ', 'thailand': 'TH', 'turkey': 'TR',
+  'turkiye': 'TR', 'uganda': 'UG', 'ukraine': 'UA', 'united arab emirates': 'AE', 'uae': 'AE',
+  'united kingdom': 'GB', 'uk': 'GB', 'great britain': 'GB', 'england': 'GB', 'united states': 'US',
+  'united states of america': 'US', 'usa': 'US', 'us': 'US', 'vietnam': 'VN', 'viet nam': 'VN',
+  'yemen': 'YE', 'zambia': 'ZM', 'zimbabwe': 'ZW'
+};
+
+/**
+ * ISO region for a country name or 2-letter code, if known.
+ */
+export const countryToRegion = (country?: string): CountryCode | undefined => {
+  if (!country) return undefined;
+  const key = country.trim().toLowerCase().replace(/\./g, '');
+  if (COUNTRY_REGIONS[key]) return COUNTRY_REGIONS[key];
+  return /^[a-z]{2}$/.test(key) ? (key.toUpperCase() as CountryCode) : undefined;
+};
+
+// Customs data writes international numbers as "0086 138...", "(+91) 98..." or "+44 (0)20..."
+const cleanRawNumber = (raw: string): string =>
+  raw
+    .trim()
+    .replace(/^\(\s*\+\s*(\d{1,4})\s*\)/, '+$1 ')
+    .replace(/\(0\)/g, '')
+    .replace(/^00(?=[1-9])/, '+')
+    .replace(/^\+\s+/, '+');
+
+const toPhoneType = (type?: string): PhoneType => {
+  switch (type) {
+    case 'MOBILE':
+      return 'mobile';
+    case 'FIXED_LINE':
+    case 'TOLL_FREE':
+    case 'SHARED_COST':
+    case 'PREMIUM_RATE':
+    case 'UAN':
+      // Fixed and service numbers cannot receive WhatsApp or SMS
+      return 'landline';
+    case 'VOIP':
+      return 'voip';
+    default:
+      // Includes FIXED_LINE_OR_MOBILE (e.g. US/CA), where the number plan does not tell them apart
+      return 'unknown';
+  }
+};
+
+/**
+ * E.164 normalization with the importer's country as the default region for national numbers.
+ * Returns null when the input is not a valid phone number for any region.
+ */
+export const normalizePhone = (raw: string, country?: string): NormalizedPhone | null => {
+  if (!raw || raw.includes('@')) return null;
+  const parsed = parsePhoneNumberFromString(cleanRawNumber(raw), countryToRegion(country));
+  if (!parsed || !parsed.isValid()) return null;
+  return {
+    e164: parsed.number,
+    region: parsed.country,
+    type: toPhoneType(parsed.getType()),
+    extension: parsed.ext || undefined
+  };
+};
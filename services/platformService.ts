@@ -1,3 +1,6 @@
+import { CryptoVault } from './cryptoService';
+
+const WEB_SECURE_PREFIX = 'web_secure_';
 
 // Type definition for the window object extension
 declare global {
@@ -30,14 +33,16 @@ export const PlatformService = {
   /**
    * Securely saves a value. 
    * On Desktop: Uses OS Keychain via Electron safeStorage.
-   * On Web: Uses localStorage (Base64 encoded only, not truly secure).
+   * On Web: AES-GCM encrypted in localStorage with the passphrase-derived key (see CryptoVault).
+   * Throws StorageLockedError on web while storage is locked.
    */
   secureSave: async (key: string, value: string): Promise<void> => {
     if (window.electronAPI) {
       await window.electronAPI.secureSave(key, value);
+    } else if (!value) {
+      localStorage.removeItem(`${WEB_SECURE_PREFIX}${key}`);
     } else {
-      // Web Fallback
-      localStorage.setItem(`web_secure_${key}`, btoa(value));
+      localStorage.setItem(`${WEB_SECURE_PREFIX}${key}`, await CryptoVault.encrypt(value));
     }
   },
 
@@ -45,9 +50,27 @@ export const PlatformService = {
     if (window.electronAPI) {
       return await window.electronAPI.secureLoad(key);
     } else {
-      // Web Fallback
-      const val = localStorage.getItem(`web_secure_${key}`);
-      return val ? atob(val) : null;
+      const val = localStorage.getItem(`${WEB_SECURE_PREFIX}${key}`);
+      if (!val) return null;
+      // Values written before encryption was introduced are plain base64
+      return CryptoVault.isEncryptedPayload(val) ? await CryptoVault.decrypt(val) : atob(val);
+    }
+  },
+
+  /**
+   * Re-encrypts web secure values still stored as base64. Requires unlocked storage.
+   */
+  migrateLegacySecrets: async (): Promise<void> => {
+    if (window.electronAPI) return;
+    const legacyKeys = Object.keys(localStorage).filter(k => k.startsWith(WEB_SECURE_PREFIX));
+    for (const storageKey of legacyKeys) {
+      const val = localStorage.getItem(storageKey);
+      if (!val || CryptoVault.isEncryptedPayload(val)) continue;
+      try {
+        localStorage.setItem(storageKey, await CryptoVault.encrypt(atob(val)));
+      } catch (e) {
+        console.error(`[Platform] Could not migrate ${storageKey}`, e);
+      }
     }
   },
 
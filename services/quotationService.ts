@@ -0,0 +1,212 @@
+import { ExchangeRate, Importer, Incoterm, Product, Quotation, QuotationLine } from '../types';
+import { unitPriceFor, sharedIncoterms, formatMoney } from './catalogService';
+import { rateOn } from './currencyService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuoteItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface QuoteRequest {
+  items: QuoteItem[];
+  incoterm: Incoterm;
+  port: string;
+  validityDays: number;
+  notes?: string;
+  currency?: string; // Quote in this currency, converting catalog prices at today's rate
+  reviseQuoteNumber?: string; // Issue the next version of this quotation instead of a new one
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Problems with a quote request; empty when it can be issued.
+ */
+export const checkQuoteRequest = (request: QuoteRequest, products: Product[], rates: ExchangeRate[] = [], now = Date.now()): string[] => {
+  const errors: string[] = [];
+  if (request.items.length === 0) return ['Select at least one product'];
+
+  const selected = request.items.map(item => products.find(p => p.id === item.productId));
+  if (selected.some(p => !p)) return ['A selected product is no longer in the catalog'];
+  const chosen = selected as Product[];
+
+  request.items.forEach((item, i) => {
+    const product = chosen[i];
+    if (!(item.quantity >= product.moq)) errors.push(`${product.name}: minimum order is ${product.moq} ${product.unit}`);
+    else if (unitPriceFor(product, item.quantity) === null) errors.push(`${product.name}: no price for ${item.quantity} ${product.unit}`);
+  });
+  if (!request.currency) {
+    if (new Set(chosen.map(p => p.currency)).size > 1) errors.push('Products priced in different currencies need a quotation currency');
+  } else {
+    new Set(chosen.map(p => p.currency)).forEach(currency => {
+      if (rateOn(rates, currency, request.currency!, now) === null) errors.push(`No ${currency} to ${request.currency} exchange rate for today`);
+    });
+  }
+  if (!sharedIncoterms(chosen).includes(request.incoterm)) errors.push(`Not every selected product can be quoted ${request.incoterm}`);
+  if (!request.port.trim()) errors.push(`Enter the named port or place for ${request.incoterm}`);
+  if (!(request.validityDays > 0)) errors.push('Validity must be at least one day');
+  return errors;
+};
+
+/**
+ * Next free number for the year, e.g. Q-2024-0008.
+ */
+export const nextQuoteNumber = (existing: Quotation[], now = Date.now()) => {
+  const year = new Date(now).getFullYear();
+  const prefix = `Q-${year}-`;
+  const highest = existing
+    .filter(q => q.quoteNumber.startsWith(prefix))
+    .reduce((max, q) => Math.max(max, Number(q.quoteNumber.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(highest + 1).padStart(4, '0')}`;
+};
+
+/**
+ * Prices a checked request, converting catalog prices into the quotation currency at `now`.
+ * A revision takes the next version of its quote number and returns the version it
+ * replaces, marked superseded.
+ */
+export const issueQuotation = (
+  importer: Importer,
+  products: Product[],
+  request: QuoteRequest,
+  existing: Quotation[],
+  now = Date.now(),
+  rates: ExchangeRate[] = []
+): { quotation: Quotation; superseded?: Quotation } => {
+  const currency = request.currency || products.find(p => p.id === request.items[0].productId)!.currency;
+  const fxRates: Record<string, number> = {};
+  const lines: QuotationLine[] = request.items.map(item => {
+    const product = products.find(p => p.id === item.productId)!;
+    if (product.currency !== currency) fxRates[product.currency] = rateOn(rates, product.currency, currency, now)!;
+    const unitPrice = round2(unitPriceFor(product, item.quantity)! * (fxRates[product.currency] ?? 1));
+    return {
+      productId: product.id,
+      sku: product.sku,
+      name: product.name,
+      hsCode: product.hsCode,
+      grade: product.grade,
+      packaging: product.packaging,
+      unit: product.unit,
+      quantity: item.quantity,
+      unitPrice,
+      total: round2(unitPrice * item.quantity)
+    };
+  });
+
+  const versions = request.reviseQuoteNumber ? existing.filter(q => q.quoteNumber === request.reviseQuoteNumber) : [];
+  const latest = versions.sort((a, b) => b.version - a.version)[0];
+  const quoteNumber = latest ? latest.quoteNumber : nextQuoteNumber(existing, now);
+  const version = latest ? latest.version + 1 : 1;
+
+  const quotation: Quotation = {
+    id: `${quoteNumber}-v${version}`,
+    quoteNumber,
+    version,
+    importerId: importer.id,
+    lines,
+    currency,
+    incoterm: request.incoterm,
+    port: request.port.trim(),
+    total: round2(lines.reduce((sum, line) => sum + line.total, 0)),
+    validUntil: now + request.validityDays * DAY_MS,
+    notes: request.notes?.trim() || undefined,
+    status: 'issued',
+    fxRates: Object.keys(fxRates).length > 0 ? fxRates : undefined,
+    createdAt: now
+  };
+  return { quotation, superseded: latest && latest.status === 'issued' ? { ...latest, status: 'superseded' } : undefined };
+};
+
+export const quotationTitle = (quote: Quotation) =>
+  `Quotation ${quote.quoteNumber}${quote.version > 1 ? ` (revision ${quote.version})` : ''}`;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * Short line for chat captions, with the details in the attached PDF.
+ */
+export const quotationSummary = (quote: Quotation) =>
+  `${quotationTitle(quote)}: ${formatMoney(quote.total, quote.currency)} ${quote.incoterm} ${quote.port}, valid until ${formatDate(quote.validUntil)}. Details in the attached PDF.`;
+
+/**
+ * Plain-text variant for channels without attachments and for the email body.
+ */
+export const renderQuotationText = (quote: Quotation, importer: Importer, sellerName: string) => {
+  const lines = quote.lines.map((line, i) => [
+    `${i + 1}. ${line.name}${line.grade ? ` - ${line.grade}` : ''} (SKU ${line.sku}, HS ${line.hsCode})`,
+    `   ${line.quantity} ${line.unit} x ${formatMoney(line.unitPrice, quote.currency)} = ${formatMoney(line.total, quote.currency)}`,
+    ...(line.packaging ? [`   Packaging: ${line.packaging}`] : [])
+  ].join('\n'));
+
+  return [
+    `${quotationTitle(quote)} for ${importer.companyName}`,
+    `Date: ${formatDate(quote.createdAt)} | Valid until: ${formatDate(quote.validUntil)}`,
+    '',
+    ...lines,
+    '',
+    `Total: ${formatMoney(quote.total, quote.currency)} ${quote.incoterm} ${quote.port} (Incoterms 2020)`,
+    ...(quote.notes ? ['', quote.notes] : []),
+    '',
+    `Regards,`,
+    sellerName
+  ].join('\n');
+};
+
+/**
+ * Formal PDF of the quotation. jsPDF is loaded on demand like the spreadsheet reader.
+ */
+export const generateQuotationPdf = async (quote: Quotation, importer: Importer, sellerName: string): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const money = (amount: number) => formatMoney(amount, quote.currency);
+  let y = 20;
+
+  doc.setFontSize(16);
+  doc.text(sellerName, 15, y);
+  doc.setFontSize(12);
+  doc.text(quotationTitle(quote), 195, y, { align: 'right' });
+  y += 10;
+  doc.setFontSize(9);
+  doc.text(`To: ${importer.companyName}, attn. ${importer.name} (${importer.country})`, 15, y);
+  doc.text(`Date: ${formatDate(quote.createdAt)}   Valid until: ${formatDate(quote.validUntil)}`, 195, y, { align: 'right' });
+  y += 6;
+  doc.text(`Terms: ${quote.incoterm} ${quote.port} (Incoterms 2020)   Currency: ${quote.currency}`, 15, y);
+  y += 10;
+
+  const columns = [15, 85, 110, 135, 165];
+  doc.setFont('helvetica', 'bold');
+  ['Product', 'HS code', 'Quantity', 'Unit price', 'Amount'].forEach((label, i) => doc.text(label, columns[i], y));
+  doc.line(15, y + 2, 195, y + 2);
+  doc.setFont('helvetica', 'normal');
+  y += 8;
+
+  quote.lines.forEach(line => {
+    const name = doc.splitTextToSize(`${line.name}${line.grade ? ` - ${line.grade}` : ''} (${line.sku})`, 65);
+    doc.text(name, columns[0], y);
+    doc.text(line.hsCode, columns[1], y);
+    doc.text(`${line.quantity} ${line.unit}`, columns[2], y);
+    doc.text(money(line.unitPrice), columns[3], y);
+    doc.text(money(line.total), columns[4], y);
+    y += 5 * name.length;
+    if (line.packaging) {
+      doc.setTextColor(100);
+      doc.text(doc.splitTextToSize(`Packaging: ${line.packaging}`, 110), columns[0], y);
+      doc.setTextColor(0);
+      y += 5;
+    }
+    y += 3;
+  });
+
+  doc.line(15, y, 195, y);
+  y += 7;
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Total ${quote.incoterm} ${quote.port}: ${money(quote.total)}`, 195, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  if (quote.notes) {
+    y += 10;
+    doc.text(doc.splitTextToSize(quote.notes, 180), 15, y);
+  }
+  return doc.output('blob');
+};
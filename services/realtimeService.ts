@@ -0,0 +1,111 @@
+
+import { Channel, MessageAttachment, MessageStatus } from '../types';
+import { ApiClient } from './apiClient';
+import { MessagingService } from './messagingService';
+
+// Shape of the message records persisted by the server's webhook pipeline
+interface ServerMessageRecord {
+  id: string;
+  externalId?: string;
+  localId?: string;
+  importerId?: string | null;
+  channel: Channel;
+  direction: 'inbound' | 'outbound';
+  from?: string;
+  content?: string;
+  attachments?: MessageAttachment[];
+  status?: MessageStatus;
+  timestamp: number;
+  updatedAt?: number;
+}
+
+// Emitted by the backend when it writes a record on its own (scheduler sends, enrollment changes)
+export interface RecordChange {
+  collection: 'messages' | 'enrollments' | 'calendarEvents' | 'importers';
+  id: string;
+  importerId?: string | null;
+}
+
+type RecordChangeHandler = (change: RecordChange) => void;
+
+const LAST_SYNC_KEY = 'globalreach_realtime_last_sync';
+
+let source: EventSource | null = null;
+const changeHandlers = new Set<RecordChangeHandler>();
+
+const markSynced = (timestamp: number) => {
+  const current = Number(localStorage.getItem(LAST_SYNC_KEY)) || 0;
+  if (timestamp > current) localStorage.setItem(LAST_SYNC_KEY, String(timestamp));
+};
+
+const dispatchRecord = (record: ServerMessageRecord) => {
+  if (record.direction === 'inbound' && record.from && record.content) {
+    MessagingService.receiveInbound({ channel: record.channel, contact: record.from, content: record.content, importerId: record.importerId, messageId: record.id, attachments: record.attachments });
+  } else if (record.direction === 'outbound' && record.status) {
+    MessagingService.receiveStatusUpdate(record.localId || record.externalId || record.id, record.status);
+  }
+  markSynced(record.updatedAt || record.timestamp);
+};
+
+export const RealtimeService = {
+  /**
+   * Subscribes to the backend's event stream. Anything persisted while this tab
+   * was closed is replayed first so no inbound message or receipt is missed.
+   */
+  connect: async () => {
+    if (source) return;
+
+    try {
+      const since = localStorage.getItem(LAST_SYNC_KEY) || '0';
+      const res = await fetch(`/api/messages?since=${since}`);
+      if (res.ok) {
+        const missed: ServerMessageRecord[] = await res.json();
+        missed
+          .sort((a, b) => (a.updatedAt || a.timestamp) - (b.updatedAt || b.timestamp))
+          .forEach(dispatchRecord);
+      }
+    } catch (e) {
+      console.warn('[Realtime] Catch-up sync failed', e);
+    }
+
+    source = new EventSource('/api/events');
+
+    source.addEventListener('message', (e) => {
+      dispatchRecord(JSON.parse((e as MessageEvent).data));
+    });
+
+    source.addEventListener('status', (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      MessagingService.receiveStatusUpdate(data.messageId, data.status);
+      markSynced(Date.now());
+    });
+
+    source.addEventListener('changed', (e) => {
+      const change: RecordChange = JSON.parse((e as MessageEvent).data);
+      changeHandlers.forEach(handler => handler(change));
+    });
+
+    // Sent just before the server closes the stream of a revoked session
+    source.addEventListener('sessionRevoked', () => {
+      RealtimeService.disconnect();
+      ApiClient.sessionExpired();
+    });
+
+    source.onerror = () => console.warn('[Realtime] Event stream interrupted, browser will retry');
+  },
+
+  /**
+   * Subscribe to backend-originated record changes. Returns an unsubscribe function.
+   */
+  onRecordChanged: (handler: RecordChangeHandler) => {
+    changeHandlers.add(handler);
+    return () => {
+      changeHandlers.delete(handler);
+    };
+  },
+
+  disconnect: () => {
+    source?.close();
+    source = null;
+  }
+};
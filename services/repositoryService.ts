@@ -0,0 +1,132 @@
+
+import { Importer } from '../types';
+import { ApiClient } from './apiClient';
+
+export type CollectionName = 'importers' | 'messages' | 'activity' | 'campaigns' | 'calendarEvents' | 'products' | 'quotations' | 'deals' | 'exchangeRates' | 'assignmentRules';
+
+interface Identified {
+  id: string;
+}
+
+const CHILD_COLLECTIONS: { field: 'chatHistory' | 'activityLog'; collection: CollectionName }[] = [
+  { field: 'chatHistory', collection: 'messages' },
+  { field: 'activityLog', collection: 'activity' }
+];
+
+/**
+ * React state is updated immutably, so a record whose reference did not change was not modified.
+ * This lets us turn a full `setImporters` into a handful of per-record writes.
+ */
+const diffById = <T extends Identified>(prev: T[], next: T[]) => {
+  const prevMap = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  return {
+    prevMap,
+    changed: next.filter(r => prevMap.get(r.id) !== r),
+    removed: prev.filter(r => !nextIds.has(r.id))
+  };
+};
+
+const stripChildren = (importer: Importer) => {
+  const { chatHistory, activityLog, ...rest } = importer;
+  return rest;
+};
+
+const importerFieldsChanged = (before: Importer, after: Importer): boolean => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Importer)[]);
+  keys.delete('chatHistory');
+  keys.delete('activityLog');
+  return Array.from(keys).some(k => before[k] !== after[k]);
+};
+
+const save = <T extends Identified>(collection: CollectionName, record: T) =>
+  ApiClient.put<T>(`/${collection}/${encodeURIComponent(record.id)}`, record);
+
+const remove = (collection: CollectionName, id: string) =>
+  ApiClient.delete(`/${collection}/${encodeURIComponent(id)}`);
+
+export const RepositoryService = {
+  /**
+   * True when a backend (server.js or the Electron local server) is serving /api.
+   */
+  isAvailable: async (): Promise<boolean> => {
+    try {
+      await ApiClient.get('/health');
+      return true;
+    } catch (e) {
+      return false;
+    }
+  },
+
+  list: <T>(collection: CollectionName, query = ''): Promise<T[]> => ApiClient.get<T[]>(`/${collection}${query}`),
+
+  get: <T>(collection: CollectionName, id: string): Promise<T> => ApiClient.get<T>(`/${collection}/${encodeURIComponent(id)}`),
+
+  save,
+
+  remove,
+
+  loadImporters: (): Promise<Importer[]> => ApiClient.get<Importer[]>('/importers?expand=history'),
+
+  bulkSaveImporters: (importers: Importer[]) => ApiClient.post<{ saved: number }>('/importers/_bulk', importers),
+
+  /**
+   * Persists only what changed between two snapshots of the importer list:
+   * new importers go through the bulk endpoint (inbound leads one by one, since bulk writes
+   * need importLeads), edited ones are upserted field-wise,
+   * and new/removed messages and activity entries are written as individual records.
+   */
+  syncImporters: async (prev: Importer[], next: Importer[]): Promise<void> => {
+    const { prevMap, changed, removed } = diffById(prev, next);
+    const writes: Promise<unknown>[] = [];
+    const created: Importer[] = [];
+
+    changed.forEach(imp => {
+      const before = prevMap.get(imp.id);
+      if (!before) {
+        if (imp.source !== 'inbound') {
+          created.push(imp);
+          return;
+        }
+        writes.push(save('importers', stripChildren(imp) as Identified));
+        CHILD_COLLECTIONS.forEach(({ field, collection }) => {
+          imp[field].forEach(child => writes.push(save(collection, { ...child, importerId: imp.id })));
+        });
+        return;
+      }
+
+      if (importerFieldsChanged(before, imp)) writes.push(save('importers', stripChildren(imp) as Identified));
+
+      CHILD_COLLECTIONS.forEach(({ field, collection }) => {
+        if (before[field] === imp[field]) return;
+        const children = diffById<Identified>(before[field], imp[field]);
+        children.changed.forEach(child => writes.push(save(collection, { ...child, importerId: imp.id })));
+        children.removed.forEach(child => writes.push(remove(collection, child.id)));
+      });
+    });
+
+    if (created.length > 0) writes.push(RepositoryService.bulkSaveImporters(created));
+    removed.forEach(imp => writes.push(remove('importers', imp.id)));
+
+    try {
+      await Promise.all(writes);
+    } catch (e) {
+      console.error('[Repository] Failed to sync importers', e);
+    }
+  },
+
+  /**
+   * Same diffing strategy for flat collections (campaigns, calendar events, products, quotations).
+   */
+  syncCollection: async <T extends Identified>(collection: CollectionName, prev: T[], next: T[]): Promise<void> => {
+    const { changed, removed } = diffById(prev, next);
+    try {
+      await Promise.all([
+        ...changed.map(r => save(collection, r)),
+        ...removed.map(r => remove(collection, r.id))
+      ]);
+    } catch (e) {
+      console.error(`[Repository] Failed to sync ${collection}`, e);
+    }
+  }
+};
@@ -1,5 +1,7 @@
-import { AuthSession, PlatformConnection, User } from "../types";
+import { AuditEntry, AuditIntegrity, AuthSession, ClientAuditEvent, PlatformConnection } from "../types";
 import { PlatformService } from "./platformService";
+import { AuthService } from "./authService";
+import { ApiClient } from "./apiClient";
 
 // Simple Token Bucket simulation for client-side rate limiting
 const RATE_LIMIT_WINDOW_MS = 60000; 
@@ -14,50 +16,60 @@ export const checkRateLimit = (): boolean => {
   return true;
 };
 
-export const logSecurityEvent = (eventType: string, userId: string, details: string) => {
-  console.log(`[SECURITY AUDIT] ${new Date().toISOString()} | User: ${userId} | Event: ${eventType} | ${details}`);
+/**
+ * Appends a browser-side event to the server's audit log. The server stamps the user, time
+ * and IP and records sign-ins, role changes, sends and deletions itself.
+ */
+export const logSecurityEvent = (eventType: ClientAuditEvent, details: string, target?: string) => {
+  ApiClient.post('/audit', { type: eventType, details, target })
+    .catch(err => console.warn(`[SECURITY AUDIT] Failed to record ${eventType}`, err));
 };
 
-// --- SESSION PERSISTENCE & MANAGEMENT ---
+export interface AuditFilter {
+  type?: string;
+  actorId?: string;
+  from?: number;
+  to?: number;
+  q?: string;
+}
 
-const STORAGE_KEY_USER = 'globalreach_user_session';
-const STORAGE_KEY_PLATFORMS = 'globalreach_platforms';
+/**
+ * Admin only. Entries come newest first, with the result of re-checking the hash chain.
+ */
+export const getAuditLog = (filter: AuditFilter = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return ApiClient.get<{ entries: AuditEntry[]; integrity: AuditIntegrity }>(`/audit?${params}`);
+};
 
-export const saveUserSession = async (user: User) => {
-  try {
-    const sessionData = JSON.stringify({
-      user,
-      token: `mock-jwt-${Date.now()}`,
-      expiry: Date.now() + (7 * 24 * 60 * 60 * 1000)
-    });
-    
-    // Use Secure Save if available (Electron), else LocalStorage
-    await PlatformService.secureSave(STORAGE_KEY_USER, sessionData);
-  } catch (e) {
-    console.error("Failed to save session", e);
-  }
+const csvCell = (value: string | number | null) => {
+  let text = value === null ? '' : String(value);
+  // Keep spreadsheets from evaluating cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditLogToCsv = (entries: AuditEntry[]) => {
+  const header = ['Seq', 'Time (UTC)', 'Event', 'User', 'Details', 'Target', 'IP', 'Hash'];
+  const rows = entries.map(e => [e.seq, new Date(e.at).toISOString(), e.type, e.actorName, e.details, e.target, e.ip, e.hash]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
 };
 
-export const loadUserSession = async (): Promise<User | null> => {
+// --- SESSION PERSISTENCE & MANAGEMENT ---
+
+const STORAGE_KEY_PLATFORMS = 'globalreach_platforms';
+
+// The session itself is an HttpOnly cookie issued by backend/auth.js; see AuthService.status()
+export const clearUserSession = async () => {
   try {
-    const stored = await PlatformService.secureLoad(STORAGE_KEY_USER);
-    if (!stored) return null;
-    
-    const parsed = JSON.parse(stored);
-    if (parsed.expiry < Date.now()) {
-      return null;
-    }
-    return parsed.user;
+    await AuthService.logout();
   } catch (e) {
-    return null;
+    console.error("Failed to end session", e);
   }
 };
 
-export const clearUserSession = () => {
-  // Just overwriting with empty string for simplicity across platforms
-  PlatformService.secureSave(STORAGE_KEY_USER, "");
-};
-
 export const savePlatformConnections = (connections: PlatformConnection[]) => {
   // Connections might contain tokens, so secure save is better
   PlatformService.secureSave(STORAGE_KEY_PLATFORMS, JSON.stringify(connections));
@@ -83,23 +95,12 @@ export const refreshPlatformTokens = async (connections: PlatformConnection[]):
   }));
 };
 
-export const getActiveSessions = (): AuthSession[] => {
-  return [
-    {
-      id: 'sess-current',
-      userId: 'current',
-      device: 'Desktop App (Current)',
-      ip: '192.168.1.105',
-      lastActive: Date.now(),
-      isCurrent: true
-    },
-    {
-      id: 'sess-mobile-1',
-      userId: 'current',
-      device: 'iPhone 13 Pro',
-      ip: '203.12.55.12',
-      lastActive: Date.now() - (45 * 60 * 1000),
-      isCurrent: false
-    }
-  ];
-};
\ No newline at end of file
+/**
+ * Sessions recorded by the backend: the user's own, or every user's for admins.
+ */
+export const getActiveSessions = (): Promise<AuthSession[]> => ApiClient.get<AuthSession[]>('/sessions');
+
+/**
+ * Invalidates the session's token; that device's next request sends it back to sign-in.
+ */
+export const revokeSession = (sessionId: string) => ApiClient.delete(`/sessions/${encodeURIComponent(sessionId)}`);
@@ -0,0 +1,35 @@
+import { ApiClient } from './apiClient';
+
+export interface SmsGatewayConfig {
+  accountSid: string;
+  authToken: string;
+  /** Sender number in E.164, or a messaging service SID ("MG...") */
+  from: string;
+  /** Gateway API root; defaults to Twilio's */
+  baseUrl?: string;
+  /** Public URL of this server, needed for delivery reports */
+  webhookBaseUrl?: string;
+}
+
+export interface SmsChannelStatus {
+  configured: boolean;
+  from: string | null;
+  baseUrl: string | null;
+  deliveryReports: boolean;
+  /** Saved settings with the auth token masked; sending the mask back keeps the saved token */
+  config: SmsGatewayConfig | null;
+}
+
+/**
+ * Gateway credentials live on the backend, which also receives the delivery-report webhooks.
+ */
+export const SmsChannelService = {
+  getStatus: () => ApiClient.get<SmsChannelStatus>('/channels/sms'),
+
+  /**
+   * The backend checks the credentials with the gateway before saving.
+   */
+  connect: (config: SmsGatewayConfig) => ApiClient.put<SmsChannelStatus>('/channels/sms', config),
+
+  disconnect: () => ApiClient.delete('/channels/sms')
+};
@@ -0,0 +1,93 @@
+// GSM 03.38 default alphabet (one septet each) and its extension table (escape + septet)
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '\f^{}\\[~]|€';
+
+const GSM_BASIC_SET = new Set(GSM_BASIC);
+const GSM_EXTENDED_SET = new Set(GSM_EXTENDED);
+
+// Single message / per part of a concatenated message (the UDH takes the difference)
+const LIMITS = {
+  'GSM-7': { single: 160, multi: 153 },
+  'UCS-2': { single: 70, multi: 67 }
+};
+
+// Longer texts are sent as separate messages: many handsets and carriers mangle long concatenations
+export const SMS_MAX_SEGMENTS = 3;
+
+export type SmsEncoding = keyof typeof LIMITS;
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  /** Septets (GSM-7) or UTF-16 code units (UCS-2) */
+  units: number;
+  segments: number;
+  /** Capacity of one segment at the current length */
+  perSegment: number;
+  /** Units left in the last segment */
+  remaining: number;
+}
+
+const isGsm = (text: string) => Array.from(text).every(ch => GSM_BASIC_SET.has(ch) || GSM_EXTENDED_SET.has(ch));
+
+// Cost of each character in units; a character is never split across two segments
+const unitCosts = (text: string, encoding: SmsEncoding) =>
+  Array.from(text).map(ch => (encoding === 'GSM-7' ? (GSM_EXTENDED_SET.has(ch) ? 2 : 1) : ch.length));
+
+/**
+ * Counts the segments a text is billed and delivered as. Any character outside GSM-7
+ * (emoji, Chinese, curly quotes) switches the whole message to UCS-2.
+ */
+export const analyzeSms = (text: string): SmsSegmentInfo => {
+  const encoding: SmsEncoding = isGsm(text) ? 'GSM-7' : 'UCS-2';
+  const { single, multi } = LIMITS[encoding];
+  const costs = unitCosts(text, encoding);
+  const units = costs.reduce((sum, cost) => sum + cost, 0);
+
+  if (units <= single) {
+    return { encoding, units, segments: units === 0 ? 0 : 1, perSegment: single, remaining: single - units };
+  }
+
+  let segments = 1;
+  let used = 0;
+  costs.forEach(cost => {
+    if (used + cost > multi) {
+      segments++;
+      used = 0;
+    }
+    used += cost;
+  });
+  return { encoding, units, segments, perSegment: multi, remaining: multi - used };
+};
+
+/**
+ * Splits a text into messages of at most `maxSegments` segments each, breaking between words
+ * where possible. Short texts come back as a single part.
+ */
+export const splitSms = (text: string, maxSegments = SMS_MAX_SEGMENTS): string[] => {
+  const fits = (part: string) => analyzeSms(part).segments <= maxSegments;
+  const trimmed = text.trim();
+  if (fits(trimmed)) return trimmed ? [trimmed] : [];
+
+  const parts: string[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) parts.push(current.trim());
+    current = '';
+  };
+
+  trimmed.split(/(\s+)/).forEach(token => {
+    if (fits(current + token)) {
+      current += token;
+      return;
+    }
+    flush();
+    if (/^\s+$/.test(token)) return;
+    // A single word longer than a whole message is cut by character
+    Array.from(token).forEach(ch => {
+      if (!fits(current + ch)) flush();
+      current += ch;
+    });
+  });
+  flush();
+  return parts;
+};
@@ -1,35 +1,46 @@
-
 import { Importer } from '../types';
+import { CryptoVault, StorageLockedError } from './cryptoService';
+import { PlatformService } from './platformService';
 
 const STORAGE_KEY = 'globalreach_data_encrypted';
 
-// Simple mock encryption/decryption to demonstrate secure storage intent
-// In a production app, this would use Web Crypto API or server-side encryption
-const encrypt = (data: string): string => {
-  try {
-    // Mock encryption: Base64 encode
-    return btoa(encodeURIComponent(data));
-  } catch (e) {
-    console.error("Encryption failed", e);
-    return data;
-  }
-};
-
-const decrypt = (data: string): string => {
-  try {
-    // Mock decryption
-    return decodeURIComponent(atob(data));
-  } catch (e) {
-    console.error("Decryption failed", e);
-    return "[]";
-  }
-};
+// Pre-AES format: base64 of the URI-encoded JSON. Only read for migration.
+const decodeLegacy = (data: string): string => decodeURIComponent(atob(data));
 
 export const StorageService = {
-  saveImporters: (importers: Importer[]) => {
+  isUnlocked: (): boolean => CryptoVault.isUnlocked(),
+
+  /**
+   * True until a data passphrase has been chosen on this device.
+   */
+  needsPassphraseSetup: (): boolean => !CryptoVault.isInitialized(),
+
+  /**
+   * Unlocks encrypted storage with the user's passphrase and re-encrypts any
+   * base64 data left over from earlier versions.
+   * Throws InvalidPassphraseError when the passphrase does not match.
+   */
+  unlock: async (passphrase: string): Promise<void> => {
+    await CryptoVault.unlock(passphrase);
+
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && !CryptoVault.isEncryptedPayload(stored)) {
+      try {
+        localStorage.setItem(STORAGE_KEY, await CryptoVault.encrypt(decodeLegacy(stored)));
+      } catch (e) {
+        console.error('[Storage] Legacy importer data is unreadable, leaving it untouched', e);
+      }
+    }
+    await PlatformService.migrateLegacySecrets();
+  },
+
+  lock: () => {
+    CryptoVault.lock();
+  },
+
+  saveImporters: async (importers: Importer[]) => {
     try {
-      const json = JSON.stringify(importers);
-      const encrypted = encrypt(json);
+      const encrypted = await CryptoVault.encrypt(JSON.stringify(importers));
       localStorage.setItem(STORAGE_KEY, encrypted);
       console.log(`[Storage] Saved ${importers.length} records encrypted.`);
     } catch (e) {
@@ -37,17 +48,22 @@ export const StorageService = {
     }
   },
 
-  loadImporters: (): Importer[] | null => {
-    const encrypted = localStorage.getItem(STORAGE_KEY);
-    if (!encrypted) return null;
-    
-    try {
-      const json = decrypt(encrypted);
-      return JSON.parse(json);
-    } catch (e) {
-      console.error("Failed to load importers", e);
-      return null;
+  /**
+   * Returns null when nothing is stored. Throws StorageLockedError / InvalidPassphraseError
+   * rather than returning an empty list, so callers never overwrite data they failed to read.
+   */
+  loadImporters: async (): Promise<Importer[] | null> => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    if (!CryptoVault.isEncryptedPayload(stored)) {
+      const importers: Importer[] = JSON.parse(decodeLegacy(stored));
+      if (CryptoVault.isUnlocked()) await StorageService.saveImporters(importers);
+      return importers;
     }
+
+    if (!CryptoVault.isUnlocked()) throw new StorageLockedError();
+    return JSON.parse(await CryptoVault.decrypt(stored));
   },
 
   clearStorage: () => {
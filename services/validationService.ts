@@ -1,18 +1,22 @@
-
 import { Importer, ValidationResult, Channel } from '../types';
+import { normalizePhone, countryToRegion, NormalizedPhone, PhoneType } from './phoneNumbers';
+import { ApiClient } from './apiClient';
 
-export const validateContactFormat = (contact: string): { isValid: boolean; errors: string[]; channel: Channel } => {
+/**
+ * Checks the contact format. Phones are normalized to E.164 using the importer's country as the
+ * default region for national numbers. Landlines get no channel: none of ours reaches a fixed line.
+ */
+export const validateContactFormat = (contact: string, country?: string): { isValid: boolean; errors: string[]; channel: Channel | null; phone?: NormalizedPhone } => {
   const errors: string[] = [];
-  let channel = Channel.EMAIL;
+  let channel: Channel | null = Channel.EMAIL;
   
   if (!contact || contact.trim().length === 0) {
     return { isValid: false, errors: ['Contact details missing'], channel: Channel.EMAIL };
   }
 
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  // Simple phone regex: allows +, spaces, digits, dashes. Min 7 digits.
-  const phoneRegex = /^[\+]?[(]?[0-9]{3}[)]?[-\s\.]?[0-9]{3}[-\s\.]?[0-9]{4,6}$/im;
   const hasMinDigits = (contact.match(/\d/g) || []).length >= 7;
+  let phone: NormalizedPhone | undefined;
 
   if (contact.includes('@')) {
     if (!emailRegex.test(contact)) {
@@ -20,55 +24,75 @@ export const validateContactFormat = (contact: string): { isValid: boolean; erro
     }
     channel = Channel.EMAIL;
   } else {
-    channel = Channel.WHATSAPP; // Default to WhatsApp for phone numbers
+    channel = Channel.WHATSAPP; // Default to WhatsApp for mobile numbers
+    phone = normalizePhone(contact, country) || undefined;
     if (!hasMinDigits) {
       errors.push('Phone number too short');
+    } else if (!phone) {
+      errors.push(countryToRegion(country) ? `Not a valid phone number for ${country}` : 'Invalid phone number (add the country code)');
+    } else if (phone.type === 'landline') {
+      channel = null;
     }
   }
 
   return {
     isValid: errors.length === 0,
     errors,
-    channel
+    channel,
+    phone
   };
 };
 
+interface EmailVerification {
+  deliverable: boolean | null;
+  disposable: boolean;
+  role: boolean;
+  reason?: string;
+}
+
 /**
- * Simulates an asynchronous check for MX records (Email) or WhatsApp/WeChat capability (Phone).
- * Returns a partial ValidationResult to be merged.
+ * Network reachability checks, merged into the lead's ValidationResult.
+ * Email goes to the backend's DNS/MX check; without a backend the result stays unknown (null).
+ * There is no public capability lookup for WhatsApp/WeChat, so phones stay unknown until a
+ * message is delivered, except landlines, which can never receive WhatsApp.
  */
-export const simulateNetworkValidation = async (contact: string, channel: Channel): Promise<Partial<ValidationResult>> => {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 800 + Math.random() * 1500));
-
-  const isLucky = Math.random() > 0.1; // 90% success rate for demo purposes
-
-  if (channel === Channel.EMAIL) {
-    return {
-      emailMxValid: isLucky,
-      whatsappAvailable: null,
-      wechatAvailable: null
-    };
-  } else {
-    // For phones, we simulate checking both WhatsApp and WeChat
-    return {
-      emailMxValid: null,
-      whatsappAvailable: Math.random() > 0.2, // 80% have WhatsApp
-      wechatAvailable: Math.random() > 0.8  // 20% have WeChat
-    };
+export const verifyContactReachability = async (contact: string, channel: Channel, phoneType?: PhoneType): Promise<Partial<ValidationResult>> => {
+  if (channel === Channel.EMAIL && contact.includes('@')) {
+    try {
+      const result = await ApiClient.post<EmailVerification>('/verify/email', { email: contact });
+      return {
+        emailMxValid: result.deliverable,
+        emailDisposable: result.disposable,
+        emailRole: result.role,
+        emailReason: result.reason,
+        checkedAt: Date.now()
+      };
+    } catch (e) {
+      return { emailMxValid: null, checkedAt: Date.now() };
+    }
   }
+
+  return {
+    emailMxValid: null,
+    whatsappAvailable: phoneType === 'landline' ? false : null,
+    checkedAt: Date.now()
+  };
 };
 
 /**
  * Helper to create initial validation state
  */
-export const getInitialValidationState = (contact: string): ValidationResult => {
-  const formatCheck = validateContactFormat(contact);
+export const getInitialValidationState = (contact: string, country?: string): ValidationResult => {
+  const formatCheck = validateContactFormat(contact, country);
   return {
     isValid: formatCheck.isValid,
     errors: formatCheck.errors,
+    e164: formatCheck.phone?.e164 ?? null,
+    phoneType: formatCheck.phone?.type,
+    region: formatCheck.phone?.region,
     emailMxValid: null,
-    whatsappAvailable: null,
+    // Landlines cannot receive WhatsApp, so there is nothing to check
+    whatsappAvailable: formatCheck.phone?.type === 'landline' ? false : null,
     wechatAvailable: null,
     checkedAt: Date.now()
   };
@@ -76,19 +100,20 @@ export const getInitialValidationState = (contact: string): ValidationResult =>
 
 /**
  * Determines the best channel based on validation results and priority rules.
- * Priority: WhatsApp > WeChat > Email > SMS
+ * Priority: WhatsApp > WeChat > Email > SMS. Email addresses always get EMAIL, even when the MX
+ * check failed: no other channel can reach them. Mobiles are presumed to be on WhatsApp until a
+ * send proves otherwise, then fall back to SMS. Returns null for a landline without a linked
+ * WeChat account: nothing automated reaches it, so someone has to pick the lead's channel by hand.
  */
-export const getOptimalChannel = (validation: ValidationResult): Channel => {
+export const getOptimalChannel = (validation: ValidationResult, contact: string): Channel | null => {
+  if (validation.phoneType === 'landline') {
+    return validation.wechatAvailable === true ? Channel.WECHAT : null;
+  }
+
   if (validation.whatsappAvailable === true) return Channel.WHATSAPP;
   if (validation.wechatAvailable === true) return Channel.WECHAT;
-  if (validation.emailMxValid === true) return Channel.EMAIL;
-  
-  // Fallback logic if explicit checks failed or are pending, rely on format
-  // If it looks like an email and MX check isn't explicitly false, use email
-  if (validation.emailMxValid !== false && !validation.whatsappAvailable && !validation.wechatAvailable) {
-     // Check if original format was email (implicitly handled by app logic usually, but here we default to SMS if unsure)
-     return Channel.SMS; 
-  }
-  
+  if (validation.emailMxValid === true || contact.includes('@')) return Channel.EMAIL;
+  if (validation.phoneType === 'mobile' && validation.whatsappAvailable !== false) return Channel.WHATSAPP;
+
   return Channel.SMS;
 };
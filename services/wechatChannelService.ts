@@ -0,0 +1,32 @@
+import { ApiClient } from './apiClient';
+
+export interface WeChatAccountConfig {
+  appId: string;
+  appSecret: string;
+  /** Token entered in the Official Account console's server configuration */
+  token: string;
+  /** 43-character key; set when the account uses safe mode (encrypted messages) */
+  encodingAESKey?: string;
+}
+
+export interface WeChatChannelStatus {
+  configured: boolean;
+  appId: string | null;
+  safeMode: boolean;
+  /** Saved settings with the secrets masked; sending a mask back keeps the saved value */
+  config: WeChatAccountConfig | null;
+}
+
+/**
+ * Official Account credentials live on the backend, which answers WeChat's pushes and holds the access token.
+ */
+export const WeChatChannelService = {
+  getStatus: () => ApiClient.get<WeChatChannelStatus>('/channels/wechat'),
+
+  /**
+   * The backend requests an access token before saving; wrong credentials reject with WeChat's error.
+   */
+  connect: (config: WeChatAccountConfig) => ApiClient.put<WeChatChannelStatus>('/channels/wechat', config),
+
+  disconnect: () => ApiClient.delete('/channels/wechat')
+};
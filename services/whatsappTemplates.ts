@@ -0,0 +1,93 @@
+import { Channel, Importer, WhatsAppTemplate } from '../types';
+import templates from '../backend/whatsappTemplates.json';
+
+export const WHATSAPP_SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const INTRO_TEMPLATE = 'intro_outreach';
+export const FOLLOW_UP_TEMPLATE = 'follow_up';
+
+/**
+ * Templates approved for the business account. Names, languages and bodies must match
+ * WhatsApp Manager exactly. backend/whatsapp.js reads the same file for campaign sends.
+ */
+export const WHATSAPP_TEMPLATES = templates as WhatsAppTemplate[];
+
+export const findWhatsAppTemplate = (name: string) => WHATSAPP_TEMPLATES.find(t => t.name === name);
+
+export type TemplateValues = Record<string, string>;
+
+/**
+ * Values for the {{placeholders}} shared with the intro and campaign templates.
+ */
+export const templateValues = (importer: Importer, myCompany: string, myProduct: string): TemplateValues => ({
+  importerName: importer.name,
+  companyName: importer.companyName,
+  country: importer.country,
+  productCategory: importer.productsImported,
+  myCompany,
+  myProduct
+});
+
+/**
+ * Positional parameters for the API and the text the importer will see.
+ */
+export const renderWhatsAppTemplate = (template: WhatsAppTemplate, values: TemplateValues) => {
+  const parameters = template.variables.map(variable => values[variable] || '-');
+  const preview = template.body.replace(/\{\{(\d+)\}\}/g, (match, index) => parameters[Number(index) - 1] ?? match);
+  return { parameters, preview };
+};
+
+export interface SessionWindow {
+  open: boolean;
+  lastInboundAt: number | null;
+  closesAt: number | null;
+}
+
+/**
+ * The customer service window opens with each inbound WhatsApp message and lasts 24 hours.
+ */
+export const getSessionWindow = (importer: Importer, now = Date.now()): SessionWindow => {
+  const lastInboundAt = importer.chatHistory
+    .filter(m => m.sender === 'importer' && m.channel === Channel.WHATSAPP)
+    .reduce<number | null>((latest, m) => (latest === null || m.timestamp > latest ? m.timestamp : latest), null);
+  if (lastInboundAt === null) return { open: false, lastInboundAt, closesAt: null };
+
+  const closesAt = lastInboundAt + WHATSAPP_SESSION_WINDOW_MS;
+  return { open: now < closesAt, lastInboundAt, closesAt };
+};
+
+export const formatDuration = (ms: number) => {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.round(hours / 24)} days`;
+};
+
+export const describeClosedWindow = (importer: Importer, session: SessionWindow, now = Date.now()) =>
+  session.closesAt === null
+    ? `${importer.name} has not messaged you on WhatsApp yet, so only an approved template can start the conversation.`
+    : `The 24-hour WhatsApp window closed ${formatDuration(now - session.closesAt)} ago. Free text is only delivered within 24 hours of the importer's last message; send an approved template instead.`;
+
+export type WhatsAppSendPlan =
+  | { type: 'text' }
+  | { type: 'template'; template: WhatsAppTemplate; parameters: string[]; preview: string }
+  | { type: 'blocked'; reason: string };
+
+/**
+ * Chooses how a WhatsApp message can go out: free text inside the session window, otherwise
+ * the given template, or not at all when there is none.
+ */
+export const planWhatsAppSend = (
+  importer: Importer,
+  options: { templateName?: string; values: TemplateValues; now?: number }
+): WhatsAppSendPlan => {
+  const now = options.now ?? Date.now();
+  const session = getSessionWindow(importer, now);
+  if (session.open) return { type: 'text' };
+  if (!options.templateName) return { type: 'blocked', reason: describeClosedWindow(importer, session, now) };
+
+  const template = findWhatsAppTemplate(options.templateName);
+  if (!template) return { type: 'blocked', reason: `WhatsApp template "${options.templateName}" is not registered.` };
+  return { type: 'template', template, ...renderWhatsAppTemplate(template, options.values) };
+};
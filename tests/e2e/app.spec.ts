@@ -30,8 +30,10 @@ test.describe('Electron App E2E', () => {
   test('Can login and reach dashboard', async () => {
     const window = await electronApp.firstWindow();
     
-    // Fill name
-    await window.fill('input[placeholder="Enter your name"]', 'Test Agent');
+    // Fill credentials of the account created during setup
+    await window.fill('input[placeholder="Enter your username"]', process.env.E2E_USERNAME || 'admin');
+    await window.fill('input[placeholder="Enter your password"]', process.env.E2E_PASSWORD || 'change-me-please');
+    await window.fill('input[placeholder="Enter your passphrase"]', process.env.E2E_PASSPHRASE || 'change-me-please');
     
     // Click Sign In
     await window.click('button:has-text("Sign In")');
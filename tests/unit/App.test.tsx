@@ -1,31 +1,74 @@
 
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
-import { describe, test, expect } from '@jest/globals';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, test, expect, jest } from '@jest/globals';
 import '@testing-library/jest-dom';
 import LoginScreen from '../../components/LoginScreen';
 
 describe('LoginScreen Component', () => {
-  test('renders login header and role buttons', () => {
+  const fillCredentials = () => {
+    fireEvent.change(screen.getByPlaceholderText('Enter your username'), { target: { value: 'jdoe' } });
+    fireEvent.change(screen.getByPlaceholderText('Enter your password'), { target: { value: 'long enough password' } });
+    fireEvent.change(screen.getByPlaceholderText('Enter your passphrase'), { target: { value: 'correct horse' } });
+  };
+
+  test('renders login header and credential fields', () => {
     render(<LoginScreen onLogin={() => {}} />);
     expect(screen.getByText('GlobalReach Login')).toBeInTheDocument();
     expect(screen.getByText('Secure Access Portal')).toBeInTheDocument();
-    expect(screen.getByText('Sales')).toBeInTheDocument();
-    expect(screen.getByText('Admin')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Enter your username')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Enter your password')).toBeInTheDocument();
+    expect(screen.queryByPlaceholderText('123456')).not.toBeInTheDocument();
   });
 
-  test('updates name input field', () => {
+  test('updates username input field', () => {
     render(<LoginScreen onLogin={() => {}} />);
-    const input = screen.getByPlaceholderText('Enter your name') as HTMLInputElement;
-    fireEvent.change(input, { target: { value: 'John Doe' } });
-    expect(input.value).toBe('John Doe');
+    const input = screen.getByPlaceholderText('Enter your username') as HTMLInputElement;
+    fireEvent.change(input, { target: { value: 'jdoe' } });
+    expect(input.value).toBe('jdoe');
   });
 
   test('clicking login triggers authentication state', () => {
+    global.fetch = jest.fn(() => new Promise<Response>(() => {})) as any;
     render(<LoginScreen onLogin={() => {}} />);
+    fillCredentials();
     const button = screen.getByText('Sign In');
     fireEvent.click(button);
     // It should show loading state
     expect(screen.getByText('Authenticating...')).toBeInTheDocument();
   });
+
+  test('requires credentials before signing in', () => {
+    const onLogin = jest.fn();
+    render(<LoginScreen onLogin={onLogin} />);
+    fireEvent.click(screen.getByText('Sign In'));
+    expect(screen.getByText('Enter your username and password.')).toBeInTheDocument();
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  test('requires a passphrase before signing in', () => {
+    const onLogin = jest.fn();
+    render(<LoginScreen onLogin={onLogin} />);
+    fireEvent.change(screen.getByPlaceholderText('Enter your username'), { target: { value: 'jdoe' } });
+    fireEvent.change(screen.getByPlaceholderText('Enter your password'), { target: { value: 'long enough password' } });
+    fireEvent.click(screen.getByText('Sign In'));
+    expect(screen.getByText('Enter your data passphrase to unlock encrypted storage.')).toBeInTheDocument();
+    expect(onLogin).not.toHaveBeenCalled();
+  });
+
+  test('asks for an authentication code when the account has two-factor enabled', async () => {
+    const onLogin = jest.fn();
+    global.fetch = jest.fn(async () => ({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: async () => ({ error: 'Authentication code required', code: 'totp_required' })
+    })) as any;
+    render(<LoginScreen onLogin={onLogin} />);
+    fillCredentials();
+    fireEvent.click(screen.getByText('Sign In'));
+    expect(await screen.findByPlaceholderText('123456')).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByText('Sign In')).toBeInTheDocument());
+    expect(onLogin).not.toHaveBeenCalled();
+  });
 });
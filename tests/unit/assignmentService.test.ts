@@ -0,0 +1,88 @@
+import { describe, test, expect } from '@jest/globals';
+import { AssignmentRule, Channel, Importer, LeadStatus, TeamMember } from '../../types';
+import { applyAssignmentRules, reassignLead } from '../../services/assignmentService';
+import { AnalyticsService } from '../../services/analyticsService';
+
+const importer = (id: string, country: string, productsImported: string, overrides: Partial<Importer> = {}): Importer => ({
+  id,
+  name: 'Buyer',
+  companyName: `Company ${id}`,
+  country,
+  contactDetail: `${id}@example.com`,
+  productsImported,
+  quantity: '20 MT',
+  priceRange: 'Market Rate',
+  status: LeadStatus.PENDING,
+  chatHistory: [],
+  activityLog: [],
+  preferredChannel: Channel.EMAIL,
+  validation: { isValid: true, errors: [], checkedAt: 0 },
+  ...overrides
+});
+
+const TEAM: TeamMember[] = [
+  { id: 'usr-anna', name: 'Anna', username: 'anna' },
+  { id: 'usr-li', name: 'Li', username: 'li' },
+  { id: 'usr-omar', name: 'Omar', username: 'omar' }
+];
+
+const RULES: AssignmentRule[] = [
+  { id: 'r-de', match: 'country', value: 'germany', ownerIds: ['usr-anna'], nextIndex: 0 },
+  { id: 'r-rice', match: 'product', value: 'Basmati', ownerIds: ['usr-li', 'usr-omar'], nextIndex: 1 },
+  { id: 'r-any', match: 'any', value: '', ownerIds: ['usr-gone', 'usr-li'], nextIndex: 0 }
+];
+
+describe('applyAssignmentRules', () => {
+  test('uses the first matching rule and rotates between its owners', () => {
+    const { leads, rules } = applyAssignmentRules([
+      importer('a', 'Germany', 'Basmati Rice'),
+      importer('b', 'UAE', 'Basmati Rice'),
+      importer('c', 'Kenya', '1121 basmati'),
+      importer('d', 'Kenya', 'Sugar'),
+      importer('e', 'Kenya', 'Basmati', { ownerId: 'usr-anna' })
+    ], RULES, TEAM, 1000);
+
+    expect(leads.map(l => l.ownerId)).toEqual(['usr-anna', 'usr-omar', 'usr-li', 'usr-li', 'usr-anna']);
+    expect(leads[1].activityLog).toHaveLength(1);
+    expect(leads[1].activityLog[0]).toMatchObject({ type: 'assignment', timestamp: 1000, description: 'Assigned to Omar (rule: Product: Basmati)' });
+    expect(leads[4].activityLog).toEqual([]);
+    expect(rules.map(r => r.nextIndex)).toEqual([1, 3, 1]);
+    expect(rules[0]).not.toBe(RULES[0]);
+  });
+
+  test('leaves leads unassigned when nothing matches', () => {
+    const { leads, rules } = applyAssignmentRules([importer('a', 'Peru', 'Quinoa')], RULES.slice(0, 2), TEAM);
+    expect(leads[0].ownerId).toBeUndefined();
+    expect(rules[0]).toBe(RULES[0]);
+  });
+});
+
+describe('reassignLead', () => {
+  test('records the move in the activity log', () => {
+    const lead = reassignLead(importer('a', 'Germany', 'Rice', { ownerId: 'usr-anna' }), 'usr-li', TEAM, 'Omar', 2000);
+    expect(lead.ownerId).toBe('usr-li');
+    expect(lead.activityLog[0]).toMatchObject({ type: 'assignment', description: 'Reassigned from Anna to Li by Omar' });
+    expect(reassignLead(lead, undefined, TEAM, 'Omar').activityLog[1].description).toBe('Reassigned from Li to Unassigned by Omar');
+    expect(reassignLead(lead, 'usr-li', TEAM, 'Omar')).toBe(lead);
+  });
+});
+
+describe('AnalyticsService.getTeamStats', () => {
+  test('builds the leaderboard from lead owners', () => {
+    const stats = AnalyticsService.getTeamStats([
+      importer('a', 'Germany', 'Rice', { ownerId: 'usr-anna', status: LeadStatus.CLOSED, satisfactionIndex: 90 }),
+      importer('b', 'Germany', 'Rice', { ownerId: 'usr-anna', satisfactionIndex: 70 }),
+      importer('c', 'UAE', 'Rice', { ownerId: 'usr-li' }),
+      importer('d', 'UAE', 'Rice', { ownerId: 'usr-gone', status: LeadStatus.CLOSED }),
+      importer('e', 'UAE', 'Rice')
+    ], TEAM, 'usr-li');
+
+    expect(stats.map(s => [s.name, s.leads, s.satisfaction, s.conversion])).toEqual([
+      ['Former user', 1, 50, 100],
+      ['Anna', 2, 80, 50],
+      ['Li (You)', 1, 50, 0],
+      ['Omar', 0, 0, 0],
+      ['Unassigned', 1, 50, 0]
+    ]);
+  });
+});
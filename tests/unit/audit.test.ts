@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { AuditLog, createAuditRouter } from '../../backend/audit';
+import { AuthService, createAuthRouter } from '../../backend/auth';
+import { JsonStore } from '../../backend/store';
+
+const ADMIN = { id: 'usr-1', username: 'admin', role: 'Admin' };
+
+describe('Audit log', () => {
+  let store: any;
+  let audit: any;
+
+  beforeEach(() => {
+    store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'audit-')));
+    audit = new AuditLog({ store, logger: { info: () => {} } as any });
+  });
+
+  test('chains entries and detects edited or removed ones', () => {
+    audit.record({ type: 'LOGIN_SUCCESS', actor: ADMIN, details: 'Role: Admin', ip: '10.0.0.5' }, 1000);
+    audit.record({ type: 'ROLE_CHANGED', actor: ADMIN, details: 'priya: Sales to Admin', target: 'usr-2' }, 2000);
+    audit.record({ type: 'MESSAGE_SENT', details: 'Campaign "Spring" step 1' }, 3000);
+    const [first, second, third] = audit.entries().reverse();
+    expect(second.prevHash).toBe(first.hash);
+    expect(third).toMatchObject({ seq: 3, actorId: null, actorName: 'system' });
+    expect(audit.verify()).toEqual({ valid: true, checked: 3, brokenAt: null });
+
+    store.update('auditLog', second.id, { details: 'priya: Sales to Viewer' });
+    expect(audit.verify()).toMatchObject({ valid: false, brokenAt: 2 });
+    store.update('auditLog', second.id, { details: 'priya: Sales to Admin' });
+    expect(audit.verify().valid).toBe(true);
+
+    store.remove('auditLog', first.id);
+    expect(audit.verify()).toMatchObject({ valid: false, brokenAt: 2 });
+  });
+
+  test('filters by type, actor, time range and text', () => {
+    audit.record({ type: 'LOGIN_SUCCESS', actor: ADMIN }, 1000);
+    audit.record({ type: 'LEAD_DELETED', actor: { id: 'usr-2', username: 'priya' }, details: 'Deleted Rice Traders GmbH', target: 'imp-9' }, 2000);
+    audit.record({ type: 'LOGIN_FAILED', details: 'invalid_credentials for username "priya"' }, 3000);
+    expect(audit.entries().map((e: any) => e.seq)).toEqual([3, 2, 1]);
+    expect(audit.entries({ type: 'LEAD_DELETED' }).map((e: any) => e.seq)).toEqual([2]);
+    expect(audit.entries({ actorId: 'usr-1' }).map((e: any) => e.seq)).toEqual([1]);
+    expect(audit.entries({ from: '1500', to: '2500' }).map((e: any) => e.seq)).toEqual([2]);
+    expect(audit.entries({ q: 'PRIYA' }).map((e: any) => e.seq)).toEqual([3, 2]);
+  });
+
+  test('records audited API calls and browser events with the signed-in user', async () => {
+    const auth = new AuthService({ store, logger: { info: () => {} } as any });
+    store.insert('importers', { id: 'imp-1', companyName: 'Rice Traders GmbH', contactDetail: 'buyer@rice.de' });
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createAuthRouter(auth, audit));
+    // Stands in for requireSession()
+    app.use('/api', (req: any, res, next) => { req.user = ADMIN; next(); });
+    app.use('/api', audit.auditRoutes());
+    app.use('/api', createAuditRouter(audit));
+    app.delete('/api/importers/:id', (req, res) => res.status(204).end());
+    app.put('/api/channels/email', (req, res) => res.status(400).json({ error: 'SMTP login failed' }));
+    const server = await new Promise<any>(resolve => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    const json = { 'Content-Type': 'application/json' };
+    try {
+      await fetch(`${base}/auth/login`, { method: 'POST', headers: json, body: JSON.stringify({ username: 'ghost', password: 'nope' }) });
+      await fetch(`${base}/importers/imp-1`, { method: 'DELETE' });
+      await fetch(`${base}/channels/email`, { method: 'PUT', headers: json, body: JSON.stringify({ password: 'secret' }) });
+      expect((await fetch(`${base}/audit`, { method: 'POST', headers: json, body: JSON.stringify({ type: 'DATA_EXPORT', details: 'Lead performance CSV' }) })).status).toBe(201);
+      expect((await fetch(`${base}/audit`, { method: 'POST', headers: json, body: JSON.stringify({ type: 'ROLE_CHANGED' }) })).status).toBe(400);
+
+      const { entries, integrity } = await (await fetch(`${base}/audit`)).json();
+      expect(integrity.valid).toBe(true);
+      expect(entries.map((e: any) => [e.type, e.actorName, e.details])).toEqual([
+        ['DATA_EXPORT', 'admin', 'Lead performance CSV'],
+        ['LEAD_DELETED', 'admin', 'Deleted Rice Traders GmbH (buyer@rice.de)'],
+        ['LOGIN_FAILED', 'system', 'invalid_credentials for username "ghost"']
+      ]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
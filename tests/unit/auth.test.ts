@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import {
+  AuthService, createAuthRouter, createAccountRouter, hashPassword, verifyPassword,
+  totpCode, verifyTotp, signToken, verifyToken, describeDevice, SESSION_TTL_MS
+} from '../../backend/auth';
+import { requiredPermission } from '../../backend/permissions';
+import { JsonStore } from '../../backend/store';
+
+// RFC 6238 appendix B secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const silentLogger = { info: () => {}, warn: () => {} } as any;
+
+describe('Authentication', () => {
+  let auth: any;
+
+  beforeEach(() => {
+    const store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'auth-')));
+    auth = new AuthService({ store, logger: silentLogger });
+  });
+
+  test('hashes passwords with a per-password salt', () => {
+    const first = hashPassword('correct horse battery');
+    expect(first).toMatch(/^scrypt\$/);
+    expect(hashPassword('correct horse battery')).not.toBe(first);
+    expect(verifyPassword('correct horse battery', first)).toBe(true);
+    expect(verifyPassword('correct horse battery!', first)).toBe(false);
+    expect(verifyPassword('anything', 'not-a-hash')).toBe(false);
+  });
+
+  test('generates RFC 6238 codes and accepts one step of clock drift', () => {
+    expect(totpCode(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(totpCode(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    const now = 1111111109 * 1000;
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now - 30 * 1000), now)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now - 90 * 1000), now)).toBe(false);
+  });
+
+  test('rejects tampered and expired tokens', () => {
+    const token = signToken({ sub: 'usr-1', exp: 1000 }, 'secret');
+    expect(verifyToken(token, 'secret', 999)).toMatchObject({ sub: 'usr-1' });
+    expect(verifyToken(token, 'secret', 1001)).toBeNull();
+    expect(verifyToken(token, 'other-secret', 999)).toBeNull();
+    const [, sig] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ sub: 'usr-admin', exp: 1000 })).toString('base64url')}.${sig}`;
+    expect(verifyToken(forged, 'secret', 999)).toBeNull();
+  });
+
+  test('requires the TOTP code once two-factor is enabled', () => {
+    const user = auth.createUser({ username: 'Priya', name: 'Priya', password: 'long enough password', role: 'Sales' });
+    expect(user.username).toBe('priya');
+    expect(() => auth.authenticate({ username: 'priya', password: 'wrong password' })).toThrow(expect.objectContaining({ code: 'invalid_credentials' }));
+    expect(() => auth.authenticate({ username: 'nobody', password: 'long enough password' })).toThrow(expect.objectContaining({ code: 'invalid_credentials' }));
+
+    const { secret } = auth.beginTotp(user.id);
+    const now = Date.UTC(2024, 3, 1);
+    auth.enableTotp(user.id, totpCode(secret, now), now);
+    expect(() => auth.authenticate({ username: 'priya', password: 'long enough password' }, now)).toThrow(expect.objectContaining({ code: 'totp_required' }));
+    expect(() => auth.authenticate({ username: 'priya', password: 'long enough password', code: '000000' }, now)).toThrow(expect.objectContaining({ code: 'invalid_totp' }));
+    expect(auth.authenticate({ username: 'priya', password: 'long enough password', code: totpCode(secret, now) }, now).id).toBe(user.id);
+
+    const token = auth.issueToken(user, {}, now);
+    expect(auth.userForToken(token, now + SESSION_TTL_MS - 1).id).toBe(user.id);
+    expect(auth.userForToken(token, now + SESSION_TTL_MS + 1)).toBeNull();
+  });
+
+  test('records a session per sign-in and stops honouring revoked tokens', () => {
+    const user = auth.createUser({ username: 'priya', name: 'Priya', password: 'long enough password', role: 'Sales' });
+    const now = Date.UTC(2024, 3, 1);
+    const desktop = auth.issueToken(user, { userAgent: 'Mozilla/5.0 (Windows NT 10.0) AppleWebKit/537.36 Chrome/120.0 Safari/537.36', ip: '10.0.0.5' }, now);
+    const phone = auth.issueToken(user, { userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1' }, now + 1000);
+
+    // lastActive only moves once it is a minute stale
+    auth.resolveToken(desktop, now + 30 * 1000);
+    auth.resolveToken(phone, now + 5 * 60 * 1000);
+    const sessions = auth.listSessions(user.id, now + 5 * 60 * 1000);
+    expect(sessions.map((s: any) => [s.device, s.ip, s.lastActive])).toEqual([
+      ['Safari on iPhone', null, now + 5 * 60 * 1000],
+      ['Chrome on Windows', '10.0.0.5', now]
+    ]);
+
+    const disconnected: any[] = [];
+    auth.events = { disconnect: (predicate: any, type: string) => disconnected.push([predicate({ authSession: sessions[0] }), type]) };
+    auth.revokeSession(sessions[0].id);
+    expect(auth.resolveToken(phone, now + 6 * 60 * 1000)).toBeNull();
+    expect(auth.resolveToken(desktop, now + 6 * 60 * 1000).user.id).toBe(user.id);
+    expect(disconnected).toEqual([[true, 'sessionRevoked']]);
+    expect(() => auth.revokeSession(sessions[0].id)).toThrow('not found');
+  });
+
+  test('labels devices from their user agent', () => {
+    expect(describeDevice('Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/537.36 Chrome/120.0 Safari/537.36 Edg/120.0')).toBe('Edge on macOS');
+    expect(describeDevice('Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0')).toBe('Firefox on Linux');
+    expect(describeDevice('Mozilla/5.0 (Windows NT 10.0) AppleWebKit/537.36 GlobalReach/1.0 Chrome/120.0 Electron/28.0 Safari/537.36')).toBe('GlobalReach Desktop');
+    expect(describeDevice('curl/8.4.0')).toBe('curl');
+    expect(describeDevice(undefined)).toBe('Unknown device');
+  });
+
+  test('keeps at least one admin', () => {
+    const admin = auth.createUser({ username: 'admin', name: 'Admin', password: 'long enough password', role: 'Admin' });
+    expect(() => auth.updateUser(admin.id, { role: 'Viewer' })).toThrow('last admin');
+    expect(() => auth.deleteUser(admin.id)).toThrow('last admin');
+  });
+
+  test('maps API routes to the permission they need', () => {
+    expect(requiredPermission('GET', '/importers')).toBeNull();
+    expect(requiredPermission('PUT', '/importers/imp-1')).toBe('editLeads');
+    expect(requiredPermission('DELETE', '/importers/imp-1')).toBe('deleteLeads');
+    expect(requiredPermission('POST', '/importers/_bulk')).toBe('importLeads');
+    expect(requiredPermission('POST', '/outbound')).toBe('sendMessages');
+    expect(requiredPermission('PUT', '/messages/msg-1')).toBe('sendMessages');
+    expect(requiredPermission('GET', '/messages')).toBeNull();
+    expect(requiredPermission('POST', '/enrollments/stop')).toBe('runCampaigns');
+    expect(requiredPermission('PUT', '/products/p-1')).toBe('manageCatalog');
+    expect(requiredPermission('DELETE', '/channels/email')).toBe('manageIntegrations');
+    expect(requiredPermission('GET', '/users')).toBe('manageUsers');
+    expect(requiredPermission('POST', '/verify/email')).toBeNull();
+    expect(requiredPermission('POST', '/auth/totp/setup')).toBeNull();
+    expect(requiredPermission('DELETE', '/sessions/ses-1')).toBeNull();
+  });
+
+  test('grants permissions through built-in and custom roles', () => {
+    const admin = auth.createUser({ username: 'admin', name: 'Admin', password: 'long enough password', role: 'Admin' });
+    expect(() => auth.saveRole({ name: 'Sales', permissions: [] })).toThrow('built-in');
+    expect(() => auth.saveRole({ name: 'Auditor', permissions: ['readMinds'] })).toThrow('Unknown permissions: readMinds');
+    expect(() => auth.createUser({ username: 'ana', password: 'long enough password', role: 'Auditor' })).toThrow('Unknown role');
+
+    auth.saveRole({ name: 'Auditor', permissions: ['viewAnalytics', 'exportData', 'exportData'] });
+    const analyst = auth.createUser({ username: 'ana', name: 'Ana', password: 'long enough password', role: 'Auditor' });
+    expect(auth.describeUser(analyst).permissions).toEqual(['viewAnalytics', 'exportData']);
+    expect(auth.can(analyst, 'exportData')).toBe(true);
+    expect(auth.can(analyst, 'sendMessages')).toBe(false);
+    expect(auth.can(analyst, null)).toBe(true);
+    expect(auth.listRoles().map((r: any) => [r.name, r.builtIn])).toEqual([['Admin', true], ['Sales', true], ['Viewer', true], ['Auditor', false]]);
+
+    expect(() => auth.deleteRole('Auditor')).toThrow('still have the Auditor role');
+    auth.updateUser(analyst.id, { role: 'Viewer' });
+    auth.deleteRole('Auditor');
+    expect(auth.permissionsFor('Auditor')).toBeNull();
+
+    // A custom role with manageUsers counts as an admin for the last-admin rule
+    auth.saveRole({ name: 'Ops', permissions: ['manageUsers'] });
+    auth.updateUser(analyst.id, { role: 'Ops' });
+    auth.updateUser(admin.id, { role: 'Sales' });
+    expect(() => auth.saveRole({ name: 'Ops', permissions: [] })).toThrow('last admin');
+
+    // ...even when several accounts share it: none of them would keep manageUsers
+    const second = auth.createUser({ username: 'omar', name: 'Omar', password: 'long enough password', role: 'Ops' });
+    expect(() => auth.saveRole({ name: 'Ops', permissions: ['viewAnalytics'] })).toThrow('last admin');
+    auth.updateUser(admin.id, { role: 'Admin' });
+    expect(auth.saveRole({ name: 'Ops', permissions: ['viewAnalytics'] }).permissions).toEqual(['viewAnalytics']);
+    expect(auth.can(second, 'manageUsers')).toBe(false);
+    expect(auth.permissionsFor('constructor')).toBeNull();
+  });
+
+  test('signs in over HTTP with a session cookie and enforces roles', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createAuthRouter(auth));
+    app.use('/api', auth.requireSession());
+    app.use('/api', createAccountRouter(auth));
+    app.all(['/api/importers', '/api/importers/:id'], (req, res) => res.json({ ok: true }));
+    const server = await new Promise<any>(resolve => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    const post = (url: string, body: unknown, cookie?: string) => fetch(`${base}${url}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body)
+    });
+    try {
+      expect((await fetch(`${base}/importers`)).status).toBe(401);
+
+      const setup = await post('/auth/setup', { username: 'admin', name: 'Admin', password: 'long enough password' });
+      expect(setup.status).toBe(201);
+      const adminCookie = setup.headers.get('set-cookie')!.split(';')[0];
+      expect(setup.headers.get('set-cookie')).toContain('HttpOnly');
+      expect((await post('/auth/setup', { username: 'second', password: 'long enough password' })).status).toBe(409);
+
+      expect((await post('/users', { username: 'viewer', name: 'Viewer', password: 'long enough password', role: 'Viewer' }, adminCookie)).status).toBe(201);
+      const login = await post('/auth/login', { username: 'viewer', password: 'long enough password' });
+      const viewerCookie = login.headers.get('set-cookie')!.split(';')[0];
+
+      expect((await fetch(`${base}/importers`, { headers: { Cookie: viewerCookie } })).status).toBe(200);
+      const denied = await post('/importers', {}, viewerCookie);
+      expect(denied.status).toBe(403);
+      expect(await denied.json()).toMatchObject({ code: 'forbidden' });
+      expect((await fetch(`${base}/users`, { headers: { Cookie: viewerCookie } })).status).toBe(403);
+      const team = await fetch(`${base}/team`, { headers: { Cookie: viewerCookie } }).then(r => r.json());
+      expect(team.map((m: any) => Object.keys(m).sort())).toEqual([['id', 'name', 'username'], ['id', 'name', 'username']]);
+      expect((await post('/importers', {}, adminCookie)).status).toBe(200);
+
+      // Admins see every user's sessions and can revoke them
+      const sessions = await (await fetch(`${base}/sessions`, { headers: { Cookie: adminCookie } })).json();
+      expect(sessions.map((s: any) => [s.userName, s.isCurrent])).toEqual([['Viewer', false], ['Admin', true]]);
+      expect((await fetch(`${base}/sessions`, { headers: { Cookie: viewerCookie } }).then(r => r.json())).length).toBe(1);
+      expect((await fetch(`${base}/sessions/${sessions[1].id}`, { method: 'DELETE', headers: { Cookie: viewerCookie } })).status).toBe(404);
+      expect((await fetch(`${base}/sessions/${sessions[0].id}`, { method: 'DELETE', headers: { Cookie: adminCookie } })).status).toBe(204);
+      const revoked = await fetch(`${base}/importers`, { headers: { Cookie: viewerCookie } });
+      expect(revoked.status).toBe(401);
+      expect(await revoked.json()).toMatchObject({ code: 'unauthenticated' });
+
+      // Sales edits single leads but may not bulk-import them
+      expect((await post('/users', { username: 'sales', name: 'Sales', password: 'long enough password', role: 'Sales' }, adminCookie)).status).toBe(201);
+      const salesCookie = (await post('/auth/login', { username: 'sales', password: 'long enough password' })).headers.get('set-cookie')!.split(';')[0];
+      expect((await post('/importers/_bulk', [{ id: 'imp-1' }], salesCookie)).status).toBe(403);
+      expect((await fetch(`${base}/importers/imp-1`, { method: 'PUT', headers: { 'Content-Type': 'application/json', Cookie: salesCookie }, body: '{}' })).status).toBe(200);
+      expect((await post('/importers/_bulk', [{ id: 'imp-1' }], adminCookie)).status).toBe(200);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel, MessageStatus } from '../../types';
+import { MessagingService } from '../../services/messagingService';
+import { ChannelProvider } from '../../services/channels/types';
+
+const META_PAYLOAD = {
+  entry: [{
+    changes: [{
+      value: {
+        contacts: [{ wa_id: '447700900123', profile: { name: 'Amelia' } }],
+        messages: [{ from: '447700900123', id: 'wamid.in1', timestamp: '1725184800', type: 'text', text: { body: 'Price for 1 MT?' } }],
+        statuses: [{ id: 'wamid.out1', status: 'read', timestamp: '1725184900', recipient_id: '447700900123' }]
+      }
+    }]
+  }]
+};
+
+describe('Channel providers', () => {
+  test('every channel has a provider, simulated until the backend reports a transport', () => {
+    [Channel.WHATSAPP, Channel.WECHAT, Channel.EMAIL, Channel.SMS].forEach(channel => {
+      expect(MessagingService.getProvider(channel)).toMatchObject({ channel, mode: 'simulator' });
+    });
+    expect(MessagingService.getCapabilities(Channel.WHATSAPP)).toMatchObject({ templates: true, readReceipts: true });
+    expect(MessagingService.getCapabilities(Channel.SMS)).toMatchObject({ media: false, typing: false });
+  });
+
+  test('parses a WhatsApp webhook into inbound messages and receipts for every subscriber', () => {
+    const first: any[] = [];
+    const second: any[] = [];
+    const statuses: any[] = [];
+    const unsubscribeFirst = MessagingService.onIncomingMessage(message => first.push(message));
+    const unsubscribeSecond = MessagingService.onIncomingMessage(message => second.push(message));
+    const unsubscribeStatus = MessagingService.onMessageStatusUpdate(update => statuses.push(update));
+
+    MessagingService.receiveWebhook(Channel.WHATSAPP, META_PAYLOAD);
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ channel: Channel.WHATSAPP, contact: '+447700900123', content: 'Price for 1 MT?', profileName: 'Amelia' });
+    expect(second).toHaveLength(1);
+    expect(statuses).toHaveLength(1);
+    expect(statuses[0]).toMatchObject({ messageId: 'wamid.out1', status: MessageStatus.READ });
+
+    unsubscribeFirst();
+    MessagingService.receiveWebhook(Channel.WECHAT, { FromUserName: 'oWx_123', MsgType: 'text', Content: 'Hello', MsgId: '42' });
+    expect(first).toHaveLength(1);
+    expect(second[1]).toMatchObject({ channel: Channel.WECHAT, contact: 'oWx_123', content: 'Hello' });
+
+    unsubscribeSecond();
+    unsubscribeStatus();
+  });
+
+  test('a registered provider replaces the one for its channel', async () => {
+    const sent: any[] = [];
+    const provider: ChannelProvider = {
+      channel: Channel.SMS,
+      mode: 'live',
+      capabilities: { media: false, templates: false, typing: false, readReceipts: false },
+      send: async message => {
+        sent.push(message);
+        return { success: true, externalId: 'SM1' };
+      },
+      parseInbound: () => [],
+      parseStatus: () => []
+    };
+    MessagingService.registerProvider(provider);
+
+    const result = await MessagingService.sendMessage('msg-1', '+447700900123', 'Hello', Channel.SMS, 'imp-1');
+    expect(result).toEqual({ success: true, externalId: 'SM1' });
+    expect(sent).toEqual([{ messageId: 'msg-1', to: '+447700900123', content: 'Hello', importerId: 'imp-1' }]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { CryptoVault, InvalidPassphraseError, StorageLockedError } from '../../services/cryptoService';
+import { StorageService } from '../../services/storageService';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+// Web Crypto, atob and btoa come with Node; browser storage does not. Items are own enumerable
+// properties, as on a real Storage, so Object.keys() lists them.
+const createStorage = () => {
+  const storage: Record<string, string> = {};
+  Object.defineProperties(storage, {
+    getItem: { value: (key: string) => (Object.prototype.hasOwnProperty.call(storage, key) ? storage[key] : null) },
+    setItem: { value: (key: string, value: string) => { storage[key] = String(value); } },
+    removeItem: { value: (key: string) => { delete storage[key]; } }
+  });
+  return storage;
+};
+
+describe('CryptoVault', () => {
+  beforeEach(() => {
+    CryptoVault.lock();
+    Object.assign(globalThis, { localStorage: createStorage(), window: globalThis });
+  });
+
+  test('round-trips data through AES-GCM with a fresh IV each time', async () => {
+    await CryptoVault.unlock(PASSPHRASE);
+    const first = await CryptoVault.encrypt('{"secret":"rates"}');
+    const second = await CryptoVault.encrypt('{"secret":"rates"}');
+
+    expect(CryptoVault.isEncryptedPayload(first)).toBe(true);
+    expect(first).not.toContain('rates');
+    expect(first).not.toBe(second);
+    expect(await CryptoVault.decrypt(first)).toBe('{"secret":"rates"}');
+
+    CryptoVault.lock();
+    await expect(CryptoVault.decrypt(first)).rejects.toBeInstanceOf(StorageLockedError);
+  });
+
+  test('refuses a wrong passphrase and stays locked', async () => {
+    await CryptoVault.unlock(PASSPHRASE);
+    const payload = await CryptoVault.encrypt('data');
+    CryptoVault.lock();
+
+    await expect(CryptoVault.unlock('wrong passphrase')).rejects.toBeInstanceOf(InvalidPassphraseError);
+    expect(CryptoVault.isUnlocked()).toBe(false);
+
+    await CryptoVault.unlock(PASSPHRASE);
+    expect(await CryptoVault.decrypt(payload)).toBe('data');
+  });
+
+  test('re-encrypts legacy base64 data on unlock', async () => {
+    const importers = [{ id: 'imp-1', companyName: 'Tök Inc' }];
+    localStorage.setItem('globalreach_data_encrypted', btoa(encodeURIComponent(JSON.stringify(importers))));
+    localStorage.setItem('web_secure_smtp_password', btoa('hunter2'));
+
+    await StorageService.unlock(PASSPHRASE);
+
+    expect(CryptoVault.isEncryptedPayload(localStorage.getItem('globalreach_data_encrypted')!)).toBe(true);
+    expect(await StorageService.loadImporters()).toEqual(importers);
+    const secret = localStorage.getItem('web_secure_smtp_password')!;
+    expect(CryptoVault.isEncryptedPayload(secret)).toBe(true);
+    expect(await CryptoVault.decrypt(secret)).toBe('hunter2');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, test, expect } from '@jest/globals';
+import { ExchangeRate } from '../../types';
+import { rateOn, convert, money, parseRatesCsv, mergeRates } from '../../services/currencyService';
+
+const rate = (base: string, quote: string, value: number, effectiveFrom: string): ExchangeRate => ({
+  id: `fx-${base}${quote}-${effectiveFrom}`, base, quote, rate: value, effectiveFrom: Date.parse(effectiveFrom), source: 'manual', createdAt: 0
+});
+
+const RATES = [
+  rate('USD', 'INR', 82, '2024-01-01'),
+  rate('USD', 'INR', 83.5, '2024-04-01'),
+  rate('EUR', 'USD', 1.1, '2024-01-01'),
+  rate('USD', 'CNY', 7.2, '2024-01-01')
+];
+
+describe('Exchange rates', () => {
+  test('uses the rate that was effective on the given date', () => {
+    expect(rateOn(RATES, 'USD', 'INR', Date.parse('2024-03-31'))).toBe(82);
+    expect(rateOn(RATES, 'USD', 'INR', Date.parse('2024-04-01'))).toBe(83.5);
+    expect(rateOn(RATES, 'USD', 'INR', Date.parse('2023-12-31'))).toBeNull();
+    expect(rateOn(RATES, 'USD', 'USD', 0)).toBe(1);
+  });
+
+  test('inverts pairs and crosses through a shared currency', () => {
+    expect(convert(money(8350, 'INR'), 'USD', RATES, Date.parse('2024-05-01'))).toEqual({ amount: 100, currency: 'USD' });
+    expect(convert(money(100, 'EUR'), 'INR', RATES, Date.parse('2024-05-01'))).toEqual({ amount: 9185, currency: 'INR' });
+    expect(convert(money(720, 'CNY'), 'EUR', RATES, Date.parse('2024-05-01'))).toEqual({ amount: 90.91, currency: 'EUR' });
+    expect(convert(money(100, 'GBP'), 'USD', RATES, Date.parse('2024-05-01'))).toBeNull();
+  });
+
+  test('imports CSV rows with a header and reports bad lines', () => {
+    const { rates, errors } = parseRatesCsv('date,base,quote,rate\n2024-05-01,usd,inr,83.42\n\n2024-05-01,EUR,EUR,1\n2024-13-01,EUR,USD,1.08\n2024-05-02,EUR,USD,abc', 42);
+    expect(rates).toEqual([{ id: 'fx-42-1', base: 'USD', quote: 'INR', rate: 83.42, effectiveFrom: Date.parse('2024-05-01'), source: 'csv', createdAt: 42 }]);
+    expect(errors).toEqual([
+      'Line 4: base and quote currency are the same',
+      'Line 5: invalid date "2024-13-01"',
+      'Line 6: invalid rate "abc"'
+    ]);
+  });
+
+  test('replaces a rate for the same pair and date instead of duplicating it', () => {
+    const merged = mergeRates(RATES, [rate('INR', 'USD', 0.012, '2024-04-01'), rate('USD', 'INR', 84, '2024-06-01')]);
+    expect(merged).toHaveLength(5);
+    expect(merged[0]).toMatchObject({ base: 'USD', quote: 'INR', rate: 84 });
+    expect(merged.filter(r => r.effectiveFrom === Date.parse('2024-04-01'))).toEqual([rate('INR', 'USD', 0.012, '2024-04-01')]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel, Deal, ExchangeRate, Importer, LeadStatus, Quotation } from '../../types';
+import { dealProbability, summarizePipeline, revenueByMonth, revenueByCountry, dealFromQuotation } from '../../services/dealService';
+
+const importer = (id: string, country: string, status: LeadStatus, leadScore?: number): Importer => ({
+  id,
+  name: 'Buyer',
+  companyName: `Company ${id}`,
+  country,
+  contactDetail: `${id}@example.com`,
+  productsImported: 'Basmati Rice',
+  quantity: '20 MT',
+  priceRange: 'Market Rate',
+  status,
+  chatHistory: [],
+  activityLog: [],
+  preferredChannel: Channel.EMAIL,
+  validation: { isValid: true, errors: [], checkedAt: 0 },
+  leadScore
+});
+
+const deal = (id: string, importerId: string, overrides: Partial<Deal> = {}): Deal => ({
+  id,
+  importerId,
+  product: 'Basmati Rice',
+  volume: 20,
+  unit: 'MT',
+  currency: 'USD',
+  unitPrice: 1000,
+  expectedCloseDate: Date.UTC(2024, 6, 1),
+  stage: 'open',
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides
+});
+
+const IMPORTERS = [
+  importer('de', 'Germany', LeadStatus.NEGOTIATION, 50),
+  importer('nz', 'New Zealand', LeadStatus.INTERESTED, 100),
+  importer('ae', 'UAE', LeadStatus.COLD, 90)
+];
+
+const DEALS = [
+  deal('d1', 'de'),
+  deal('d2', 'nz', { volume: 10 }),
+  deal('d3', 'ae'),
+  deal('d4', 'de', { stage: 'won', closedAt: new Date(2024, 4, 3).getTime() }),
+  deal('d5', 'nz', { stage: 'lost', closedAt: new Date(2024, 3, 20).getTime(), unitPrice: 500 }),
+  deal('d6', 'de', { currency: 'EUR' }),
+  deal('d7', 'de', { currency: 'EUR', stage: 'won', closedAt: new Date(2024, 3, 10).getTime() })
+];
+
+const rate = (effectiveFrom: string, value: number): ExchangeRate => ({
+  id: `fx-${effectiveFrom}`, base: 'EUR', quote: 'USD', rate: value, effectiveFrom: Date.parse(effectiveFrom), source: 'manual', createdAt: 0
+});
+const RATES = [rate('2024-01-01', 1.1), rate('2024-05-01', 1.2)];
+const NOW = new Date(2024, 4, 15).getTime();
+
+describe('Deals', () => {
+  test('derives the close probability from lead status and lead score', () => {
+    expect(dealProbability(DEALS[0], IMPORTERS[0])).toBe(0.7);
+    expect(dealProbability(DEALS[1], IMPORTERS[1])).toBe(0.44);
+    expect(dealProbability(DEALS[2], IMPORTERS[2])).toBe(0);
+    expect(dealProbability(deal('x', 'de'), { ...IMPORTERS[0], leadScore: 100 })).toBe(0.88);
+    expect(dealProbability(DEALS[3], IMPORTERS[0])).toBe(1);
+    expect(dealProbability(DEALS[4], IMPORTERS[1])).toBe(0);
+  });
+
+  test('summarizes pipeline, weighted forecast and won/lost value in the base currency', () => {
+    // Open EUR deal at today's 1.2, the EUR deal won in April at April's 1.1
+    expect(summarizePipeline(DEALS, IMPORTERS, 'USD', RATES, NOW)).toEqual({ pipeline: 74000, weighted: 35200, won: 42000, lost: 10000, openCount: 4, unconverted: 0 });
+    expect(summarizePipeline(DEALS, IMPORTERS, 'USD', [], NOW)).toMatchObject({ pipeline: 50000, weighted: 18400, won: 20000, unconverted: 2 });
+    expect(summarizePipeline(DEALS, IMPORTERS, 'INR', RATES, NOW)).toMatchObject({ pipeline: 0, unconverted: 7 });
+  });
+
+  test('breaks won and lost revenue down by month and country', () => {
+    const months = revenueByMonth(DEALS, 'USD', RATES, 3, NOW);
+    expect(months.map(m => m.month)).toEqual(['2024-03', '2024-04', '2024-05']);
+    expect(months[1]).toMatchObject({ won: 22000, lost: 10000 });
+    expect(months[2]).toMatchObject({ won: 20000, lost: 0 });
+
+    expect(revenueByCountry(DEALS, IMPORTERS, 'USD', RATES, NOW)).toEqual([
+      { country: 'Germany', pipeline: 44000, weighted: 30800, won: 42000, lost: 0 },
+      { country: 'New Zealand', pipeline: 10000, weighted: 4400, won: 0, lost: 10000 },
+      { country: 'UAE', pipeline: 20000, weighted: 0, won: 0, lost: 0 }
+    ]);
+  });
+
+  test('opens a deal from a quotation and re-prices it from a revision', () => {
+    const quote: Quotation = {
+      id: 'Q-2024-0001-v1', quoteNumber: 'Q-2024-0001', version: 1, importerId: 'de', currency: 'USD', incoterm: 'FOB', port: 'Mundra',
+      lines: [
+        { productId: 'p1', sku: 'A', name: 'Basmati Rice', hsCode: '1006.30', unit: 'MT', quantity: 20, unitPrice: 1100, total: 22000 },
+        { productId: 'p2', sku: 'B', name: 'Corn Poha', hsCode: '1904.10', unit: 'MT', quantity: 5, unitPrice: 900, total: 4500 }
+      ],
+      total: 26500, validUntil: 1000, status: 'issued', createdAt: 0
+    };
+    const opened = dealFromQuotation(quote, undefined, 500);
+    expect(opened).toMatchObject({ id: 'deal-500', product: 'Basmati Rice, Corn Poha', volume: 25, unitPrice: 1060, stage: 'open', quotationId: quote.id });
+
+    const revised = dealFromQuotation({ ...quote, id: 'Q-2024-0001-v2', version: 2, lines: [quote.lines[0]], total: 22000 }, opened, 900);
+    expect(revised).toMatchObject({ id: 'deal-500', productId: 'p1', volume: 20, unitPrice: 1100, createdAt: 500, updatedAt: 900, quotationId: 'Q-2024-0001-v2' });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel, Importer, LeadStatus } from '../../types';
+import { companySimilarity, contactKey, findDuplicate, sameContact } from '../../services/dedupeService';
+
+const importer = (id: string, companyName: string, country: string, contactDetail: string): Importer => ({
+  id,
+  name: 'Buyer',
+  companyName,
+  country,
+  contactDetail,
+  productsImported: 'Basmati Rice',
+  quantity: '20 MT',
+  priceRange: 'Market Rate',
+  status: LeadStatus.PENDING,
+  chatHistory: [],
+  activityLog: [],
+  preferredChannel: Channel.EMAIL,
+  validation: { isValid: true, errors: [], checkedAt: 0 }
+});
+
+describe('contactKey', () => {
+  test('normalizes emails, phones and platform ids', () => {
+    expect(contactKey(' Sarah.J@EuroFoods.de ')).toBe('email:sarah.j@eurofoods.de');
+    expect(contactKey('+64 21 123 4567')).toBe('tel:+64211234567');
+    expect(contactKey('021 123 4567', 'New Zealand')).toBe('tel:+64211234567');
+    expect(contactKey('0086 138 0013 8000')).toBe('tel:+8613800138000');
+    // No country code and no country: only the digits can be compared
+    expect(contactKey('6421000000')).toBe('tel:6421000000');
+    expect(contactKey('o6X-2a_openid')).toBe('id:o6X-2a_openid');
+    expect(contactKey('12345')).toBe('id:12345');
+    expect(contactKey('  ')).toBeNull();
+  });
+
+  test('matches a number written without its country code only on the full subscriber part', () => {
+    expect(sameContact('+64 21 123 4567', '64211234567')).toBe(true);
+    expect(sameContact('021 123 4567', '+64 21 123 4567', 'New Zealand')).toBe(true);
+    expect(sameContact('+64 21 123 4567', '1234567')).toBe(false);
+    expect(sameContact('+64 21 123 4567', '+64 21 123 4568')).toBe(false);
+  });
+});
+
+describe('companySimilarity', () => {
+  test('ignores case, punctuation, accents and legal suffixes', () => {
+    expect(companySimilarity('Tok Inc Limited', 'TOK Ltd.')).toBe(1);
+    expect(companySimilarity('Gulf Rice & Co', 'Gulf Rice and Company')).toBe(1);
+    expect(companySimilarity('Müller Foods', 'Muller Foods AG')).toBe(1);
+    expect(companySimilarity('Inc', 'Tok')).toBe(0);
+  });
+
+  test('scores near-identical names above the match threshold and different ones below', () => {
+    expect(companySimilarity('Al Noor Trading LLC', 'Al Nour Trading')).toBeGreaterThanOrEqual(0.85);
+    expect(companySimilarity('EuroFoods GmbH', 'Euro Foods')).toBeLessThan(0.85);
+    expect(companySimilarity('EuroFoods GmbH', 'EuroFood Traders')).toBeLessThan(0.85);
+  });
+});
+
+describe('findDuplicate', () => {
+  const existing = [
+    importer('a', 'Al Noor Trading LLC', 'UAE', 'buyer@alnoor.ae'),
+    importer('b', 'Tok Inc Limited', 'New Zealand', '+64 21 123 4567'),
+    importer('c', 'EuroFoods GmbH', 'Germany', 'sarah.j@eurofoods.de')
+  ];
+
+  test('prefers an exact contact match over the company name', () => {
+    expect(findDuplicate(importer('n', 'Someone Else', 'Peru', 'SARAH.J@eurofoods.de'), existing)).toMatchObject({ reason: 'email', score: 1 });
+    expect(findDuplicate(importer('n', 'Tok', 'New Zealand', '021 123 4567'), existing)?.importer.id).toBe('b');
+    expect(findDuplicate(importer('n', 'Tok', 'New Zealand', '021 123 4567'), existing)?.reason).toBe('phone');
+  });
+
+  test('matches similar company names within the same country only', () => {
+    const match = findDuplicate(importer('n', 'Al Nour Trading', 'uae', 'sales@alnour.ae'), existing);
+    expect(match?.importer.id).toBe('a');
+    expect(match?.reason).toBe('company');
+    expect(findDuplicate(importer('n', 'Al Nour Trading', 'Oman', 'sales@alnour.ae'), existing)).toBeNull();
+    // An unknown country doesn't rule a match out
+    expect(findDuplicate(importer('n', 'Al Nour Trading', 'Unknown', 'sales@alnour.ae'), existing)?.importer.id).toBe('a');
+  });
+
+  test('never matches a lead against itself or on placeholder names', () => {
+    expect(findDuplicate(existing[0], existing)).toBeNull();
+    expect(findDuplicate(importer('n', 'Unknown Co', 'UAE', 'x@y.ae'), [importer('m', 'Unknown Co', 'UAE', 'z@y.ae')])).toBeNull();
+    expect(findDuplicate(importer('n', 'EuroFood Traders', 'Germany', 'info@eft.de'), existing)).toBeNull();
+  });
+});
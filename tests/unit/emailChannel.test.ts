@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { FetchMessageObject, ImapFlow, MailboxObject } from 'imapflow';
+import { EmailChannel, splitSubject, stripQuotedReply } from '../../backend/email';
+import { JsonStore } from '../../backend/store';
+import { SECRET_MASK } from '../../backend/secrets';
+
+// The part of ImapFlow that EmailChannel.poll uses
+type ImapStandIn = Pick<ImapFlow, 'connect' | 'logout' | 'close' | 'getMailboxLock' | 'fetch'> & { mailbox: MailboxObject };
+
+// Local SMTP/IMAP stand-ins: the SMTP side records what would go on the wire, the IMAP side
+// serves raw RFC 822 messages the way imapflow's fetch() does
+const createStandIns = () => {
+  const sent: any[] = [];
+  const mailbox: MailboxObject = { path: 'INBOX', delimiter: '/', flags: new Set(), uidValidity: BigInt(7), uidNext: 1, exists: 0 };
+  const messages: FetchMessageObject[] = [];
+  const deliver = (raw: string) => {
+    messages.push({ seq: messages.length + 1, uid: mailbox.uidNext, source: Buffer.from(raw.replace(/\n/g, '\r\n')) });
+    mailbox.uidNext++;
+    mailbox.exists++;
+  };
+  const createTransport = () => ({
+    verify: async () => true,
+    sendMail: async (mail: any) => {
+      sent.push(mail);
+      return { messageId: mail.messageId };
+    }
+  });
+  const createImapClient = () => {
+    const client: ImapStandIn = {
+      mailbox,
+      connect: async () => {},
+      logout: async () => {},
+      close: () => {},
+      getMailboxLock: async (lockPath) => ({ path: String(lockPath), release: () => {} }),
+      fetch: async function* (range) {
+        const start = Number(String(range).split(':')[0]);
+        const matching = messages.filter(m => m.uid >= start);
+        // Real servers answer "n:*" with the newest message when nothing is at or above n
+        yield* (matching.length ? matching : messages.slice(-1));
+      }
+    };
+    return client as ImapFlow;
+  };
+  return { sent, deliver, createTransport, createImapClient };
+};
+
+const CONFIG = {
+  from: 'sales@globalreach.test',
+  smtp: { host: 'smtp.local', port: 2525, secure: false, user: 'sales', pass: 'secret' },
+  imap: { host: 'imap.local', port: 1143, secure: false, user: 'sales', pass: 'secret' }
+};
+
+describe('EmailChannel', () => {
+  let store: any;
+  let standIns: ReturnType<typeof createStandIns>;
+  let channel: any;
+  const broadcasts: { type: string; data: any }[] = [];
+
+  beforeEach(async () => {
+    store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'email-channel-')));
+    store.insert('importers', { id: 'imp-1', name: 'Chen', companyName: 'Tok Inc', contactDetail: 'chen@tok.nz', status: 'Contacted' });
+    standIns = createStandIns();
+    broadcasts.length = 0;
+    channel = new EmailChannel({
+      store,
+      events: { broadcast: (type: string, data: any) => broadcasts.push({ type, data }) },
+      outbound: null,
+      scheduler: { stopForImporter: () => {} },
+      createTransport: standIns.createTransport,
+      createImapClient: standIns.createImapClient
+    });
+    await channel.connect(CONFIG);
+  });
+
+  test('splits the generated Subject line into the header', () => {
+    expect(splitSubject('**Subject:** Premium Poha for NZ\n\nDear Chen,\nHello')).toEqual({ subject: 'Premium Poha for NZ', body: 'Dear Chen,\nHello' });
+    expect(splitSubject('Hi again', 'Re: Poha').subject).toBe('Re: Poha');
+    expect(stripQuotedReply('Sounds good.\n\nOn Mon, 1 Sep 2025 Sales wrote:\n> Dear Chen')).toBe('Sounds good.');
+  });
+
+  test('threads a reply from another address to the importer via In-Reply-To', async () => {
+    await channel.send({ to: 'chen@tok.nz', content: 'Subject: Premium Poha\n\nDear Chen,', importerId: 'imp-1', messageId: 'msg-1' });
+    const intro = standIns.sent[0];
+    expect(intro.subject).toBe('Premium Poha');
+    expect(intro.text).toBe('Dear Chen,');
+
+    standIns.deliver([
+      'From: Purchasing <purchasing@tok.nz>',
+      'To: sales@globalreach.test',
+      'Subject: Re: Premium Poha',
+      'Message-ID: <reply-1@tok.nz>',
+      `In-Reply-To: ${intro.messageId}`,
+      `References: ${intro.messageId}`,
+      'Date: Mon, 1 Sep 2025 10:00:00 +1200',
+      '',
+      'Please send a quote for 2 containers.',
+      '',
+      'On Mon, 1 Sep 2025 Sales wrote:',
+      '> Dear Chen,'
+    ].join('\n'));
+
+    expect(await channel.poll()).toBe(1);
+    const inbound = store.list('messages', (m: any) => m.direction === 'inbound');
+    expect(inbound).toHaveLength(1);
+    expect(inbound[0].importerId).toBe('imp-1');
+    expect(inbound[0].content).toBe('Please send a quote for 2 containers.');
+    expect(broadcasts.some(b => b.type === 'message')).toBe(true);
+
+    // Nothing new: the same message is not stored twice
+    expect(await channel.poll()).toBe(0);
+
+    await channel.send({ to: 'chen@tok.nz', content: 'Quote attached.', importerId: 'imp-1', messageId: 'msg-2' });
+    const followUp = standIns.sent[1];
+    expect(followUp.subject).toBe('Re: Premium Poha');
+    expect(followUp.inReplyTo).toBe('<reply-1@tok.nz>');
+    expect(followUp.references).toEqual([intro.messageId, '<reply-1@tok.nz>']);
+  });
+
+  test('creates an inbound lead for an unknown sender', async () => {
+    standIns.deliver([
+      'From: Ravi Kumar <ravi@spices.example>',
+      'To: sales@globalreach.test',
+      'Subject: Enquiry: turmeric',
+      'Message-ID: <enquiry-1@spices.example>',
+      '',
+      'Do you export turmeric?'
+    ].join('\n'));
+
+    expect(await channel.poll()).toBe(1);
+    const lead = store.findOne('importers', (i: any) => i.contactDetail === 'ravi@spices.example');
+    expect(lead).toMatchObject({ name: 'Ravi Kumar', needsTriage: true, preferredChannel: 'Email' });
+  });
+
+  test('masks the passwords it returns and keeps them when the mask comes back', async () => {
+    const { config } = channel.status();
+    expect(config.smtp).toEqual({ ...CONFIG.smtp, pass: SECRET_MASK });
+    expect(config.imap.pass).toBe(SECRET_MASK);
+
+    await channel.connect({ ...config, fromName: 'GlobalReach Sales' });
+    expect(store.get('channelConfig', 'email').config).toMatchObject({ fromName: 'GlobalReach Sales', smtp: { pass: 'secret' }, imap: { pass: 'secret' } });
+
+    await channel.connect({ ...config, smtp: { ...config.smtp, pass: 'rotated' } });
+    expect(channel.config.smtp.pass).toBe('rotated');
+    expect(channel.config.imap.pass).toBe('secret');
+  });
+});
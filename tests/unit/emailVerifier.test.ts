@@ -0,0 +1,84 @@
+import { describe, test, expect } from '@jest/globals';
+import { EmailVerifier } from '../../backend/emailVerifier';
+
+const dnsError = (code: string) => Object.assign(new Error(code), { code });
+
+// Stands in for dns.promises.Resolver: answers from a fixed zone table and counts MX queries
+const stubResolver = (zones: Record<string, { mx?: { exchange: string; priority: number }[]; a?: string[]; error?: string }>) => {
+  const calls: string[] = [];
+  return {
+    calls,
+    resolveMx: async (domain: string) => {
+      calls.push(domain);
+      const zone = zones[domain];
+      if (!zone) throw dnsError('ENOTFOUND');
+      if (zone.error) throw dnsError(zone.error);
+      if (!zone.mx) throw dnsError('ENODATA');
+      return zone.mx;
+    },
+    resolve4: async (domain: string) => {
+      const zone = zones[domain];
+      if (!zone || !zone.a) throw dnsError('ENODATA');
+      return zone.a;
+    }
+  };
+};
+
+const silentLogger = { warn: () => {} };
+
+describe('EmailVerifier', () => {
+  test('accepts a domain with MX records and orders hosts by priority', async () => {
+    const resolver = stubResolver({ 'tok.nz': { mx: [{ exchange: 'mx2.tok.nz', priority: 20 }, { exchange: 'mx1.tok.nz', priority: 10 }] } });
+    const result = await new EmailVerifier({ resolver }).verify('Buyer@Tok.nz');
+    expect(result).toMatchObject({ email: 'buyer@tok.nz', syntaxValid: true, mxValid: true, deliverable: true, role: false, disposable: false });
+    expect(result.mxHosts).toEqual(['mx1.tok.nz', 'mx2.tok.nz']);
+  });
+
+  test('rejects bad syntax without querying DNS', async () => {
+    const resolver = stubResolver({});
+    const result = await new EmailVerifier({ resolver }).verify('buyer@@tok');
+    expect(result.syntaxValid).toBe(false);
+    expect(result.deliverable).toBe(false);
+    expect(resolver.calls).toHaveLength(0);
+  });
+
+  test('flags missing domains, null MX and A-record fallback', async () => {
+    const resolver = stubResolver({
+      'nomail.com': { mx: [{ exchange: '.', priority: 0 }] },
+      'legacy.in': { a: ['203.0.113.5'] }
+    });
+    const verifier = new EmailVerifier({ resolver });
+    expect((await verifier.verify('a@missing.example')).reason).toBe('Domain does not exist');
+    expect((await verifier.verify('a@nomail.com')).mxValid).toBe(false);
+    expect(await verifier.verify('a@legacy.in')).toMatchObject({ mxValid: true, mxHosts: ['legacy.in'] });
+  });
+
+  test('flags disposable domains and role accounts', async () => {
+    const resolver = stubResolver({
+      'mailinator.com': { mx: [{ exchange: 'mail.mailinator.com', priority: 10 }] },
+      'acme.de': { mx: [{ exchange: 'mx.acme.de', priority: 10 }] }
+    });
+    const verifier = new EmailVerifier({ resolver });
+    expect(await verifier.verify('x@mailinator.com')).toMatchObject({ disposable: true, deliverable: false });
+    expect(await verifier.verify('sales+eu@acme.de')).toMatchObject({ role: true, deliverable: true });
+  });
+
+  test('caches per domain until the TTL expires', async () => {
+    let now = 1000;
+    const resolver = stubResolver({ 'acme.de': { mx: [{ exchange: 'mx.acme.de', priority: 10 }] } });
+    const verifier = new EmailVerifier({ resolver, ttlMs: 60000, now: () => now });
+    await verifier.verify('a@acme.de');
+    await verifier.verify('b@acme.de');
+    expect(resolver.calls).toEqual(['acme.de']);
+    now += 60001;
+    await verifier.verify('c@acme.de');
+    expect(resolver.calls).toEqual(['acme.de', 'acme.de']);
+  });
+
+  test('reports transient DNS failures as unknown', async () => {
+    const resolver = stubResolver({ 'flaky.cn': { error: 'ETIMEOUT' } });
+    const result = await new EmailVerifier({ resolver, logger: silentLogger }).verify('a@flaky.cn');
+    expect(result.mxValid).toBeNull();
+    expect(result.deliverable).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel, Importer, LeadStatus, StatusTransition } from '../../types';
+import { fitTransitionModel, forecastConversions, backtestForecast, statusAt } from '../../services/forecastService';
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 4, 13);
+
+// A lead created `createdWeeksAgo` weeks before NOW that moved through `moves` ([status, weeks ago])
+const lead = (id: string, createdWeeksAgo: number, moves: [LeadStatus, number][] = [], initial = LeadStatus.PENDING): Importer => {
+  const history: StatusTransition[] = [];
+  let from = initial;
+  moves.forEach(([to, weeksAgo]) => {
+    history.push({ from, to, at: NOW - weeksAgo * WEEK, actor: 'user' });
+    from = to;
+  });
+  return {
+    id,
+    name: 'Buyer',
+    companyName: `Company ${id}`,
+    country: 'Germany',
+    contactDetail: `${id}@example.com`,
+    productsImported: 'Basmati Rice',
+    quantity: '20 MT',
+    priceRange: 'Market Rate',
+    status: from,
+    statusHistory: history,
+    chatHistory: [],
+    activityLog: [{ id: `${id}-created`, timestamp: NOW - createdWeeksAgo * WEEK, type: 'system', description: 'Lead imported' }],
+    preferredChannel: Channel.EMAIL,
+    validation: { isValid: true, errors: [], checkedAt: 0 }
+  };
+};
+
+describe('Sales forecast', () => {
+  test('falls back to the default stage rates when there is no history', () => {
+    const model = fitTransitionModel([], NOW);
+    expect(model.transitions).toBe(0);
+    expect(model.weekly[LeadStatus.NEGOTIATION]).toEqual({ [LeadStatus.CLOSED]: 0.15, [LeadStatus.COLD]: 0.05 });
+    expect(model.weekly[LeadStatus.CLOSED]).toEqual({});
+
+    const [week1, week2] = forecastConversions([lead('a', 1, [], LeadStatus.NEGOTIATION)], { now: NOW, model });
+    expect(week1).toMatchObject({ weekStart: NOW, predictedConversions: 0.15, lower: 0, confidence: 0.9 });
+    expect(week2.predictedConversions).toBe(0.12); // 0.8 still negotiating x 0.15
+  });
+
+  test('learns transition rates from time spent in each status', () => {
+    // Both leads spent 2 weeks negotiating; one closed, the other is still there
+    const importers = [
+      lead('won', 10, [[LeadStatus.NEGOTIATION, 4], [LeadStatus.CLOSED, 2]]),
+      lead('open', 10, [[LeadStatus.NEGOTIATION, 2]])
+    ];
+    const model = fitTransitionModel(importers, NOW);
+    expect(model.transitions).toBe(3);
+    expect(model.exposureWeeks[LeadStatus.NEGOTIATION]).toBe(4);
+    // (1 close + 2 weeks x 0.15 prior) / (4 + 2 weeks)
+    expect(model.weekly[LeadStatus.NEGOTIATION][LeadStatus.CLOSED]).toBeCloseTo(1.3 / 6);
+  });
+
+  test('is deterministic and skips leads that already closed or went cold', () => {
+    const importers = [
+      lead('a', 6, [[LeadStatus.CONTACTED, 5], [LeadStatus.ENGAGED, 3]]),
+      lead('b', 6, [[LeadStatus.NEGOTIATION, 2]]),
+      lead('c', 6, [[LeadStatus.COLD, 1]]),
+      lead('d', 6, [[LeadStatus.NEGOTIATION, 3], [LeadStatus.CLOSED, 1]])
+    ];
+    const forecast = forecastConversions(importers, { now: NOW, weeks: 6 });
+    expect(forecast).toEqual(forecastConversions(importers, { now: NOW, weeks: 6 }));
+    expect(forecast).toHaveLength(6);
+    expect(forecast[0].date).toBe('May 13');
+    forecast.forEach(week => {
+      expect(week.lower).toBeLessThanOrEqual(week.predictedConversions);
+      expect(week.upper).toBeGreaterThanOrEqual(week.predictedConversions);
+      expect(week.upper).toBeLessThanOrEqual(2); // Only a and b are still open
+    });
+  });
+
+  test('backtests against the conversions that actually happened', () => {
+    const importers = [
+      lead('a', 10, [[LeadStatus.NEGOTIATION, 6], [LeadStatus.CLOSED, 3.5]]),
+      lead('b', 10, [[LeadStatus.NEGOTIATION, 5], [LeadStatus.CLOSED, 0.5]]),
+      lead('c', 10, [[LeadStatus.NEGOTIATION, 5], [LeadStatus.COLD, 2]]),
+      lead('late', 2)
+    ];
+    expect(statusAt(importers[0], NOW - 4 * WEEK)).toBe(LeadStatus.NEGOTIATION);
+    expect(statusAt(importers[3], NOW - 4 * WEEK)).toBeUndefined();
+
+    const result = backtestForecast(importers, { now: NOW, weeks: 4 });
+    expect(result.asOf).toBe(NOW - 4 * WEEK);
+    expect(result.leads).toBe(3);
+    expect(result.points.map(p => p.actual)).toEqual([1, 0, 0, 1]);
+    expect(result.coverage).toBeGreaterThanOrEqual(0);
+    expect(result.coverage).toBeLessThanOrEqual(1);
+    expect(result.meanAbsoluteError).toBeGreaterThan(0);
+  });
+});
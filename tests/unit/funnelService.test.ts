@@ -0,0 +1,72 @@
+import { describe, test, expect } from '@jest/globals';
+import { Campaign, Channel, Importer, LeadStatus, StatusActor, StatusTransition } from '../../types';
+import { summarizeFunnel, compareCohorts } from '../../services/funnelService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 3, 1);
+
+// A lead created at START that moved through `moves` ([status, day, actor])
+const lead = (id: string, country: string, moves: [LeadStatus, number, StatusActor?][], overrides: Partial<Importer> = {}): Importer => {
+  const history: StatusTransition[] = [];
+  let from = LeadStatus.PENDING;
+  moves.forEach(([to, day, actor = 'user']) => {
+    history.push({ from, to, at: START + day * DAY, actor });
+    from = to;
+  });
+  return {
+    id,
+    name: 'Buyer',
+    companyName: `Company ${id}`,
+    country,
+    contactDetail: `${id}@example.com`,
+    productsImported: 'Basmati Rice',
+    quantity: '20 MT',
+    priceRange: 'Market Rate',
+    status: from,
+    statusHistory: history,
+    chatHistory: [],
+    activityLog: [{ id: `${id}-created`, timestamp: START, type: 'system', description: 'Lead imported' }],
+    preferredChannel: Channel.EMAIL,
+    validation: { isValid: true, errors: [], checkedAt: 0 },
+    ...overrides
+  };
+};
+
+const IMPORTERS = [
+  lead('won', 'Germany', [[LeadStatus.CONTACTED, 1, 'campaign'], [LeadStatus.ENGAGED, 3, 'ai'], [LeadStatus.SAMPLE_SENT, 5], [LeadStatus.NEGOTIATION, 15], [LeadStatus.CLOSED, 20]], { campaignId: 'c1' }),
+  lead('sample', 'Germany', [[LeadStatus.CONTACTED, 1, 'campaign'], [LeadStatus.ENGAGED, 2, 'ai'], [LeadStatus.INTERESTED, 4, 'ai'], [LeadStatus.SAMPLE_SENT, 6]], { campaignId: 'c1' }),
+  lead('cold', 'UAE', [[LeadStatus.CONTACTED, 2], [LeadStatus.COLD, 9, 'ai']], { preferredChannel: Channel.WHATSAPP }),
+  lead('new', 'UAE', [])
+];
+
+describe('Funnel analytics', () => {
+  test('counts leads through each stage, including stages they skipped', () => {
+    const { stages } = summarizeFunnel(IMPORTERS);
+    const byStage = Object.fromEntries(stages.map(s => [s.stage, s]));
+    expect(stages.map(s => s.reached)).toEqual([4, 3, 2, 2, 2, 1, 1]);
+    expect(byStage[LeadStatus.CONTACTED]).toMatchObject({ conversionRate: 0.667, lost: 1, current: 0 });
+    expect(byStage[LeadStatus.SAMPLE_SENT]).toMatchObject({ conversionRate: 0.5, current: 1 });
+    expect(byStage[LeadStatus.CLOSED].conversionRate).toBeNull();
+  });
+
+  test('reports median time in stage over finished stays and who moved the leads', () => {
+    const summary = summarizeFunnel(IMPORTERS);
+    const days = Object.fromEntries(summary.stages.map(s => [s.stage, s.medianDays]));
+    expect(days[LeadStatus.CONTACTED]).toBe(2); // Stays of 2, 1 and 7 days
+    expect(days[LeadStatus.SAMPLE_SENT]).toBe(10); // The open stay is not counted
+    expect(days[LeadStatus.CLOSED]).toBeNull();
+    expect(summary.transitions).toBe(11);
+    expect(summary.byActor).toEqual({ ai: 4, user: 5, campaign: 2, system: 0 });
+  });
+
+  test('compares cohorts by country, channel and campaign', () => {
+    expect(compareCohorts(IMPORTERS, 'country')).toEqual([
+      { cohort: 'Germany', leads: 2, engagedRate: 1, negotiationRate: 0.5, wonRate: 0.5, lostRate: 0, medianDaysToWin: 20 },
+      { cohort: 'UAE', leads: 2, engagedRate: 0, negotiationRate: 0, wonRate: 0, lostRate: 0.5, medianDaysToWin: null }
+    ]);
+    expect(compareCohorts(IMPORTERS, 'channel').map(r => [r.cohort, r.leads])).toEqual([[Channel.EMAIL, 3], [Channel.WHATSAPP, 1]]);
+
+    const campaigns: Campaign[] = [{ id: 'c1', name: 'Spring Rice', steps: [], status: 'active', createdAt: 0 }];
+    expect(compareCohorts(IMPORTERS, 'campaign', campaigns).map(r => [r.cohort, r.wonRate])).toEqual([['No campaign', 0], ['Spring Rice', 0.5]]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+  parseDelimited, detectDelimiter, detectHeader, toSheet, guessMapping,
+  applyPreset, toPreset, missingRequiredFields, buildImporters
+} from '../../services/importParser';
+
+describe('importParser', () => {
+  test('parses quoted fields with commas, escaped quotes and embedded newlines', () => {
+    const text = 'Name,Company\r\n"Chen, David","Tok ""Best"" Inc"\n"Multi\nLine",Acme\n';
+    expect(parseDelimited(text)).toEqual([
+      ['Name', 'Company'],
+      ['Chen, David', 'Tok "Best" Inc'],
+      ['Multi\nLine', 'Acme']
+    ]);
+  });
+
+  test('detects semicolon and tab delimiters', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\tc\n1,5\t2\t3')).toBe('\t');
+  });
+
+  test('detects header rows and maps them by alias', () => {
+    const rows = parseDelimited('Importer Name,Destination Country,Email,Commodity\nTok Inc,New Zealand,buyer@tok.nz,Corn Poha');
+    expect(detectHeader(rows)).toBe(true);
+    const sheet = toSheet(rows);
+    expect(sheet.rows).toHaveLength(1);
+    const mapping = guessMapping(sheet);
+    expect(mapping.companyName).toBe(0);
+    expect(mapping.country).toBe(1);
+    expect(mapping.contactDetail).toBe(2);
+    expect(mapping.productsImported).toBe(3);
+    expect(missingRequiredFields(mapping)).toEqual([]);
+  });
+
+  test('falls back to the legacy column order without a header', () => {
+    const sheet = toSheet(parseDelimited('David Chen,"Tok Inc, Ltd",New Zealand,+64211234567,Corn Poha'));
+    expect(sheet.hasHeader).toBe(false);
+    const [lead] = buildImporters(sheet, guessMapping(sheet));
+    expect(lead.companyName).toBe('Tok Inc, Ltd');
+    expect(lead.country).toBe('New Zealand');
+    expect(lead.contactDetail).toBe('+64211234567');
+  });
+
+  test('round-trips a mapping preset by header label', () => {
+    const sheet = toSheet(parseDelimited('Phone,Buyer\n+64211234567,Tok Inc'), true);
+    const mapping = guessMapping(sheet);
+    const reordered = toSheet(parseDelimited('buyer,phone\nTok Inc,+64211234567'), true);
+    const applied = applyPreset(toPreset('Customs export', mapping, sheet), reordered);
+    expect(applied.companyName).toBe(0);
+    expect(applied.contactDetail).toBe(1);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { MediaStore, createMediaRouter, MAX_MEDIA_BYTES } from '../../backend/media';
+import { OutboundService } from '../../backend/outbound';
+import { WhatsAppCloudTransport } from '../../backend/whatsapp';
+import { JsonStore } from '../../backend/store';
+
+const PDF = Buffer.from('%PDF-1.4 price list');
+
+describe('Media attachments', () => {
+  let store: any;
+  let media: any;
+
+  beforeEach(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-'));
+    store = new JsonStore(dir);
+    media = new MediaStore({ store, dir: path.join(dir, 'media') });
+  });
+
+  test('stores allowed files and refuses empty, oversized or unsafe ones', () => {
+    const record = media.save({ data: PDF, fileName: '../Price list 2024.pdf', mimeType: 'application/pdf; charset=binary' });
+    expect(record).toMatchObject({ fileName: '.._Price list 2024.pdf', mimeType: 'application/pdf', size: PDF.length });
+    expect(fs.readFileSync(media.pathFor(record.id))).toEqual(PDF);
+    expect(media.toAttachment(record, 'FOB prices')).toEqual({
+      id: record.id, fileName: record.fileName, mimeType: 'application/pdf', size: PDF.length, url: `/api/media/${record.id}`, caption: 'FOB prices'
+    });
+
+    expect(() => media.save({ data: Buffer.alloc(0), fileName: 'a.pdf', mimeType: 'application/pdf' })).toThrow('File is empty');
+    expect(() => media.save({ data: Buffer.alloc(MAX_MEDIA_BYTES + 1), fileName: 'a.pdf', mimeType: 'application/pdf' })).toThrow('larger than');
+    expect(() => media.save({ data: Buffer.from('<svg/>'), fileName: 'a.svg', mimeType: 'image/svg+xml' })).toThrow('cannot be attached');
+    expect(() => media.resolve([{ id: 'media-missing' }])).toThrow('not found');
+  });
+
+  test('uploads over /api/media and serves the file back', async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createMediaRouter(media));
+    const server = await new Promise<any>(resolve => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    try {
+      const upload = await fetch(`${base}/media`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'image/png', 'X-File-Name': encodeURIComponent('sample photo.png') },
+        body: Buffer.from('png-bytes')
+      });
+      expect(upload.status).toBe(201);
+      const attachment = await upload.json();
+      expect(attachment).toMatchObject({ fileName: 'sample photo.png', mimeType: 'image/png', size: 9 });
+
+      const file = await fetch(`${base.replace(/\/api$/, '')}${attachment.url}`);
+      expect(file.headers.get('content-type')).toBe('image/png');
+      expect(file.headers.get('content-disposition')).toContain('inline');
+      expect(await file.text()).toBe('png-bytes');
+
+      const rejected = await fetch(`${base}/media`, { method: 'POST', headers: { 'Content-Type': 'application/x-msdownload' }, body: 'MZ' });
+      expect(rejected.status).toBe(400);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  test('sends attachments through WhatsApp as uploaded media with the text as caption', async () => {
+    const calls: { url: string; body: any }[] = [];
+    const fetchImpl = async (url: string, options: any) => {
+      calls.push({ url, body: options.body });
+      const data = url.endsWith('/media') ? { id: 'wa-media-1' } : { messages: [{ id: 'wamid.1' }] };
+      return { ok: true, status: 200, json: async () => data } as any;
+    };
+    const outbound = new OutboundService({ store, events: { broadcast: () => {} }, media, logger: { warn: () => {} } as any });
+    outbound.register('WhatsApp', new WhatsAppCloudTransport({ store, phoneNumberId: '123', accessToken: 'token', fetchImpl } as any));
+    store.insert('messages', { importerId: 'imp-1', channel: 'WhatsApp', direction: 'inbound', timestamp: Date.now() });
+
+    const attachment = media.toAttachment(media.save({ data: PDF, fileName: 'specs.pdf', mimeType: 'application/pdf' }));
+    const result = await outbound.send({ importerId: 'imp-1', to: '+91 98000 00000', channel: 'WhatsApp', content: 'Spec sheet attached', attachments: [attachment] } as any);
+
+    expect(result.success).toBe(true);
+    expect(result.message.attachments).toEqual([attachment]);
+    expect(calls[0].url).toBe('https://graph.facebook.com/v19.0/123/media');
+    expect(calls[0].body.get('file').name).toBe('specs.pdf');
+    expect(JSON.parse(calls[1].body)).toEqual({
+      messaging_product: 'whatsapp',
+      to: '919800000000',
+      type: 'document',
+      document: { id: 'wa-media-1', caption: 'Spec sheet attached', filename: 'specs.pdf' }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel } from '../../types';
+import { countryToRegion, normalizePhone } from '../../services/phoneNumbers';
+import { getInitialValidationState, getOptimalChannel, validateContactFormat, verifyContactReachability } from '../../services/validationService';
+
+describe('normalizePhone', () => {
+  test('uses the lead country as the region for national numbers', () => {
+    expect(normalizePhone('021 123 4567', 'New Zealand')).toEqual({ e164: '+64211234567', region: 'NZ', type: 'mobile', extension: undefined });
+    expect(normalizePhone('0171 1234567', 'Germany')?.e164).toBe('+491711234567');
+    expect(normalizePhone('(212) 555-0123', 'USA')).toMatchObject({ e164: '+12125550123', region: 'US', type: 'unknown' });
+    expect(normalizePhone('021 123 4567', 'NZ')?.region).toBe('NZ');
+  });
+
+  test('reads the international prefixes found in customs exports', () => {
+    expect(normalizePhone('0086 138 0013 8000')).toMatchObject({ e164: '+8613800138000', region: 'CN', type: 'mobile' });
+    expect(normalizePhone('(+91) 98765 43210')).toMatchObject({ e164: '+919876543210', region: 'IN' });
+    expect(normalizePhone('+44 (0)20 7946 0958')?.e164).toBe('+442079460958');
+  });
+
+  test('classifies fixed lines and service numbers as landlines', () => {
+    expect(normalizePhone('030 123456', 'Germany')).toMatchObject({ e164: '+4930123456', region: 'DE', type: 'landline' });
+    expect(normalizePhone('+44 20 7946 0958')?.type).toBe('landline');
+    expect(normalizePhone('+1 800 555 0199')?.type).toBe('landline');
+  });
+
+  test('rejects emails and numbers that are invalid for the region', () => {
+    expect(normalizePhone('buyer@tok.nz')).toBeNull();
+    expect(normalizePhone('12345', 'Germany')).toBeNull();
+    expect(normalizePhone('0301234567')).toBeNull();
+  });
+
+  test('maps country names and aliases to regions', () => {
+    expect(countryToRegion('United Arab Emirates')).toBe('AE');
+    expect(countryToRegion(' u.s. ')).toBe('US');
+    expect(countryToRegion('de')).toBe('DE');
+    expect(countryToRegion('Atlantis')).toBeUndefined();
+  });
+});
+
+describe('landline leads', () => {
+  test('get no automated channel unless a WeChat account is linked', () => {
+    expect(validateContactFormat('030 123456', 'Germany')).toMatchObject({ isValid: true, channel: null });
+    expect(validateContactFormat('0171 1234567', 'Germany').channel).toBe(Channel.WHATSAPP);
+
+    const validation = getInitialValidationState('030 123456', 'Germany');
+    expect(validation).toMatchObject({ e164: '+4930123456', phoneType: 'landline', whatsappAvailable: false });
+    expect(getOptimalChannel(validation, '030 123456')).toBeNull();
+    expect(getOptimalChannel({ ...validation, wechatAvailable: true }, '030 123456')).toBe(Channel.WECHAT);
+  });
+});
+
+describe('mobile leads', () => {
+  test('go to WhatsApp once their phone type reaches the reachability check', async () => {
+    const validation = getInitialValidationState('0171 1234567', 'Germany');
+    expect(validation.phoneType).toBe('mobile');
+
+    const checked = { ...validation, ...await verifyContactReachability('0171 1234567', Channel.WHATSAPP, validation.phoneType) };
+    expect(checked.whatsappAvailable).toBeNull();
+    expect(getOptimalChannel(checked, '0171 1234567')).toBe(Channel.WHATSAPP);
+    expect(getOptimalChannel({ ...checked, whatsappAvailable: false }, '0171 1234567')).toBe(Channel.SMS);
+
+    expect(await verifyContactReachability('030 123456', Channel.WHATSAPP, 'landline')).toMatchObject({ whatsappAvailable: false });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel, ExchangeRate, Importer, LeadStatus, Product } from '../../types';
+import { unitPriceFor, validateProduct } from '../../services/catalogService';
+import { QuoteRequest, checkQuoteRequest, issueQuotation, nextQuoteNumber, renderQuotationText } from '../../services/quotationService';
+
+const RICE: Product = {
+  id: 'prod-rice',
+  sku: 'BR-1121',
+  name: 'Basmati Rice',
+  grade: '1121 Steam',
+  hsCode: '1006.30',
+  unit: 'MT',
+  moq: 20,
+  currency: 'USD',
+  priceTiers: [{ minQuantity: 20, unitPrice: 1150 }, { minQuantity: 100, unitPrice: 1090 }],
+  incoterms: ['FOB', 'CIF'],
+  packaging: '25 kg PP bags',
+  updatedAt: 0
+};
+
+const POHA: Product = { ...RICE, id: 'prod-poha', sku: 'CP-500', name: 'Corn Poha', grade: undefined, hsCode: '1904.10', moq: 5, priceTiers: [{ minQuantity: 5, unitPrice: 900 }], incoterms: ['FOB'], packaging: undefined };
+
+const IMPORTER: Importer = {
+  id: 'imp-1',
+  name: 'Sarah Johnson',
+  companyName: 'EuroFoods GmbH',
+  country: 'Germany',
+  contactDetail: 'sarah.j@eurofoods.de',
+  productsImported: 'Basmati Rice',
+  quantity: '20 MT',
+  priceRange: 'Market Rate',
+  status: LeadStatus.ENGAGED,
+  chatHistory: [],
+  activityLog: [],
+  preferredChannel: Channel.EMAIL,
+  channelSelectionMode: 'auto',
+  validation: { isValid: true, errors: [], checkedAt: 0 }
+};
+
+const NOW = Date.UTC(2024, 4, 10);
+const request = (overrides: Partial<QuoteRequest> = {}): QuoteRequest => ({
+  items: [{ productId: RICE.id, quantity: 120 }],
+  incoterm: 'FOB',
+  port: 'Mundra',
+  validityDays: 14,
+  ...overrides
+});
+
+describe('Product catalog', () => {
+  test('prices an order at the highest tier it reaches and refuses quantities below the MOQ', () => {
+    expect(unitPriceFor(RICE, 20)).toBe(1150);
+    expect(unitPriceFor(RICE, 99)).toBe(1150);
+    expect(unitPriceFor(RICE, 100)).toBe(1090);
+    expect(unitPriceFor(RICE, 19)).toBeNull();
+  });
+
+  test('validates products before they can be quoted', () => {
+    expect(validateProduct(RICE, [RICE])).toEqual([]);
+    expect(validateProduct({ ...RICE, id: 'other', sku: 'br-1121' }, [RICE])).toContain('SKU br-1121 is already in the catalog');
+    expect(validateProduct({ ...RICE, hsCode: '10063' })).toContain('HS code must have 6, 8 or 10 digits');
+    expect(validateProduct({ ...RICE, priceTiers: [{ minQuantity: 50, unitPrice: 1000 }] })).toContain('The lowest price tier must start at or below the MOQ');
+    expect(validateProduct({ ...RICE, incoterms: [] })).toContain('Select at least one Incoterm');
+  });
+});
+
+describe('Quotations', () => {
+  test('reports what keeps a request from being issued', () => {
+    expect(checkQuoteRequest(request(), [RICE, POHA])).toEqual([]);
+    expect(checkQuoteRequest(request({ items: [] }), [RICE])).toEqual(['Select at least one product']);
+    expect(checkQuoteRequest(request({ items: [{ productId: RICE.id, quantity: 10 }] }), [RICE])).toContain('Basmati Rice: minimum order is 20 MT');
+    expect(checkQuoteRequest(request({ incoterm: 'CIF', items: [{ productId: RICE.id, quantity: 20 }, { productId: POHA.id, quantity: 5 }] }), [RICE, POHA]))
+      .toContain('Not every selected product can be quoted CIF');
+    expect(checkQuoteRequest(request({ port: ' ' }), [RICE])).toContain('Enter the named port or place for FOB');
+  });
+
+  test('numbers quotations per year and versions revisions, superseding the previous one', () => {
+    const { quotation: first } = issueQuotation(IMPORTER, [RICE], request(), [], NOW);
+    expect(first).toMatchObject({ id: 'Q-2024-0001-v1', quoteNumber: 'Q-2024-0001', version: 1, total: 130800, currency: 'USD', status: 'issued' });
+    expect(first.lines[0]).toMatchObject({ sku: 'BR-1121', quantity: 120, unitPrice: 1090, total: 130800 });
+    expect(nextQuoteNumber([first], NOW)).toBe('Q-2024-0002');
+    expect(nextQuoteNumber([first], Date.UTC(2025, 0, 2))).toBe('Q-2025-0001');
+
+    const { quotation: revision, superseded } = issueQuotation(IMPORTER, [RICE], request({ reviseQuoteNumber: 'Q-2024-0001', items: [{ productId: RICE.id, quantity: 60 }] }), [first], NOW);
+    expect(revision).toMatchObject({ id: 'Q-2024-0001-v2', version: 2, total: 69000 });
+    expect(superseded).toEqual({ ...first, status: 'superseded' });
+  });
+
+  test('quotes in another currency at the rate of the issue date', () => {
+    const usdInr: ExchangeRate = { id: 'fx-1', base: 'USD', quote: 'INR', rate: 83.5, effectiveFrom: Date.UTC(2024, 0, 1), source: 'csv', createdAt: 0 };
+    const inInr = request({ currency: 'INR' });
+    expect(checkQuoteRequest(inInr, [RICE], [], NOW)).toEqual(['No USD to INR exchange rate for today']);
+    expect(checkQuoteRequest(inInr, [RICE], [usdInr], NOW)).toEqual([]);
+
+    const { quotation } = issueQuotation(IMPORTER, [RICE], inInr, [], NOW, [usdInr]);
+    expect(quotation).toMatchObject({ currency: 'INR', total: 10921800, fxRates: { USD: 83.5 } });
+    expect(quotation.lines[0].unitPrice).toBe(91015);
+  });
+
+  test('renders the plain-text variant with lines, terms and validity', () => {
+    const { quotation } = issueQuotation(IMPORTER, [RICE], request({ notes: '30% advance' }), [], NOW);
+    const text = renderQuotationText(quotation, IMPORTER, 'Global Exports');
+    expect(text.split('\n')[0]).toBe('Quotation Q-2024-0001 for EuroFoods GmbH');
+    expect(text).toContain('Date: 2024-05-10 | Valid until: 2024-05-24');
+    expect(text).toContain('1. Basmati Rice - 1121 Steam (SKU BR-1121, HS 1006.30)');
+    expect(text).toContain('120 MT x $1,090.00 = $130,800.00');
+    expect(text).toContain('Total: $130,800.00 FOB Mundra (Incoterms 2020)');
+    expect(text).toContain('30% advance');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { createInboundImporter, createRepositoryRouter } from '../../backend/repository';
+import { JsonStore } from '../../backend/store';
+
+describe('Repository routes', () => {
+  let store: any;
+  let server: any;
+  let base: string;
+
+  const put = (url: string, body: unknown) =>
+    fetch(`${base}${url}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }).then(r => r.json());
+
+  beforeEach(async () => {
+    store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'repo-')));
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createRepositoryRouter(store));
+    server = await new Promise<any>(resolve => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(() => new Promise(resolve => server.close(resolve)));
+
+  test('keeps server-written message fields when the browser saves its copy', async () => {
+    store.insert('messages', {
+      id: 'msg-1', importerId: 'imp-1', content: 'Hello', sender: 'importer', status: 'delivered',
+      direction: 'inbound', externalId: 'wamid.ABC', from: '6421000000', updatedAt: 500
+    });
+
+    const saved = await put('/messages/msg-1', { id: 'msg-1', importerId: 'imp-1', content: 'Hello', sender: 'importer', status: 'read' });
+
+    expect(saved).toMatchObject({ status: 'read', direction: 'inbound', externalId: 'wamid.ABC', from: '6421000000', updatedAt: 500 });
+    expect(store.get('messages', 'msg-1').externalId).toBe('wamid.ABC');
+  });
+
+  test('merges bulk importer saves and their children', async () => {
+    store.insert('importers', { id: 'imp-1', companyName: 'Rice Traders', ownerId: 'usr-1', updatedAt: 500 });
+    store.insert('messages', { id: 'msg-1', importerId: 'imp-1', content: 'Hi', externalId: 'wamid.1' });
+
+    await fetch(`${base}/importers/_bulk`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ id: 'imp-1', companyName: 'Rice Traders GmbH', chatHistory: [{ id: 'msg-1', content: 'Hi' }], activityLog: [] }])
+    });
+
+    expect(store.get('importers', 'imp-1')).toMatchObject({ companyName: 'Rice Traders GmbH', ownerId: 'usr-1', updatedAt: 500 });
+    expect(store.get('messages', 'msg-1').externalId).toBe('wamid.1');
+  });
+
+  test('clears a field the browser sets to null', async () => {
+    store.insert('importers', { id: 'imp-1', companyName: 'Rice Traders', ownerId: 'usr-1' });
+    expect((await put('/importers/imp-1', { id: 'imp-1', companyName: 'Rice Traders', ownerId: null })).ownerId).toBeNull();
+  });
+});
+
+describe('createInboundImporter', () => {
+  test('assigns the new lead by rule and advances the round-robin', () => {
+    const store: any = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'repo-')));
+    store.insert('users', { id: 'usr-anna', name: 'Anna', username: 'anna' });
+    store.insert('users', { id: 'usr-li', name: 'Li', username: 'li' });
+    store.insert('assignmentRules', { id: 'r-de', match: 'country', value: 'Germany', ownerIds: ['usr-anna'], nextIndex: 0 });
+    store.insert('assignmentRules', { id: 'r-any', match: 'any', value: '', ownerIds: ['usr-gone', 'usr-anna', 'usr-li'], nextIndex: 1 });
+
+    const lead = createInboundImporter(store, { contact: '+6421000000', channel: 'WhatsApp', profileName: 'Buyer' });
+
+    expect(lead.ownerId).toBe('usr-li');
+    expect(store.get('importers', lead.id).ownerId).toBe('usr-li');
+    expect(store.get('assignmentRules', 'r-any').nextIndex).toBe(2);
+    expect(store.list('activity', (a: any) => a.importerId === lead.id).map((a: any) => a.description))
+      .toEqual(['Lead created from inbound WhatsApp message', 'Assigned to Li (rule: Any lead)']);
+  });
+
+  test('leaves the lead unassigned when no rule matches', () => {
+    const store: any = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'repo-')));
+    store.insert('assignmentRules', { id: 'r-de', match: 'country', value: 'Germany', ownerIds: ['usr-anna'], nextIndex: 0 });
+    expect(createInboundImporter(store, { contact: 'buyer@example.com', channel: 'Email', profileName: 'Buyer' }).ownerId).toBeUndefined();
+  });
+});
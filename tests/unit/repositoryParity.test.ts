@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AssignmentRule, Channel, Importer, TeamMember } from '../../types';
+import { sameContact as backendSameContact, assignOwner, createInboundImporter } from '../../backend/repository';
+import { JsonStore } from '../../backend/store';
+import { sameContact } from '../../services/dedupeService';
+import { applyAssignmentRules } from '../../services/assignmentService';
+import { buildInboundLead } from '../../services/inboundLeadService';
+
+// backend/repository.js keeps its own copies of these browser helpers; both must decide alike
+
+const CONTACT_PAIRS: [string, string][] = [
+  ['+64 21 123 4567', '64211234567'],
+  ['+64 21 123 4567', '+64211234567'],
+  ['+64 21 123 4567', '1234567'],
+  ['+64 21 123 4567', '+64 21 123 4568'],
+  ['+64 21 123 4567', '+44 21 123 4567'],
+  ['0086 138 0013 8000', '8613800138000'],
+  ['0086 138 0013 8000', '13800138000'],
+  ['Sarah.J@EuroFoods.de', 'sarah.j@eurofoods.de'],
+  ['sarah.j@eurofoods.de', 'sarah@eurofoods.de'],
+  ['o6X-2a_openid', 'o6X-2a_openid'],
+  ['o6X-2a_openid', '+64 21 123 4567'],
+  ['', '+64 21 123 4567']
+];
+
+const TEAM: TeamMember[] = [
+  { id: 'usr-anna', name: 'Anna', username: 'anna' },
+  { id: 'usr-li', name: 'Li', username: 'li' },
+  { id: 'usr-omar', name: 'Omar', username: 'omar' }
+];
+
+const RULES: AssignmentRule[] = [
+  { id: 'r-de', match: 'country', value: 'germany', ownerIds: ['usr-anna'], nextIndex: 0 },
+  { id: 'r-rice', match: 'product', value: 'Basmati', ownerIds: ['usr-li', 'usr-omar'], nextIndex: 1 },
+  { id: 'r-any', match: 'any', value: '', ownerIds: ['usr-gone', 'usr-li'], nextIndex: 0 }
+];
+
+const LEADS: Pick<Importer, 'id' | 'country' | 'productsImported'>[] = [
+  { id: 'a', country: 'Germany', productsImported: 'Basmati Rice' },
+  { id: 'b', country: 'UAE', productsImported: 'Basmati Rice' },
+  { id: 'c', country: 'Kenya', productsImported: '1121 basmati' },
+  { id: 'd', country: 'Kenya', productsImported: 'Sugar' }
+];
+
+describe('backend and browser lead logic', () => {
+  let store: any;
+
+  beforeEach(() => {
+    store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'parity-')));
+    TEAM.forEach(member => store.insert('users', member));
+    RULES.forEach(rule => store.insert('assignmentRules', { ...rule }));
+  });
+
+  test('match the same contacts', () => {
+    CONTACT_PAIRS.forEach(([a, b]) => {
+      expect([a, b, backendSameContact(a, b)]).toEqual([a, b, sameContact(a, b)]);
+    });
+  });
+
+  test('assign the same owners and advance the same cursors', () => {
+    const browser = applyAssignmentRules(LEADS.map(lead => ({ ...lead, activityLog: [] }) as unknown as Importer), RULES, TEAM, 1000);
+
+    const server = LEADS.map(lead => assignOwner(store, store.insert('importers', lead), 1000));
+    expect(server.map((lead: any) => lead.ownerId)).toEqual(browser.leads.map(lead => lead.ownerId));
+    expect(store.list('assignmentRules').map((r: any) => r.nextIndex)).toEqual(browser.rules.map(r => r.nextIndex));
+
+    const serverLog = LEADS.map(lead => store.list('activity', (a: any) => a.importerId === lead.id).map((a: any) => [a.type, a.description]));
+    expect(serverLog).toEqual(browser.leads.map(lead => lead.activityLog.map(a => [a.type, a.description])));
+  });
+
+  test('create the same inbound lead', () => {
+    store.removeWhere('assignmentRules', () => true);
+    [Channel.WHATSAPP, Channel.WECHAT, Channel.SMS].forEach(channel => {
+      const browser = buildInboundLead('+64211234567', channel, 'Chen');
+      const server = createInboundImporter(store, { contact: '+64211234567', channel, profileName: 'Chen' });
+
+      const { id, chatHistory, activityLog, validation, lastContacted, ...fields } = browser;
+      expect(server).toMatchObject(fields);
+      expect(server.validation).toMatchObject({
+        isValid: validation.isValid,
+        whatsappAvailable: validation.whatsappAvailable,
+        wechatAvailable: validation.wechatAvailable
+      });
+      expect(store.list('activity', (a: any) => a.importerId === server.id).map((a: any) => [a.type, a.description]))
+        .toEqual(activityLog.map(a => [a.type, a.description]));
+    });
+  });
+});
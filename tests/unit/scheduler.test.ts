@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { CampaignScheduler, createSchedulerRouter } from '../../backend/scheduler';
+import { JsonStore } from '../../backend/store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 8, 1, 9);
+
+const CAMPAIGN = {
+  id: 'cmp-1',
+  name: 'Spring Rice',
+  status: 'active',
+  steps: [
+    { id: 'step-1', dayOffset: 0, channel: 'Email', template: 'Hello {{importerName}}' },
+    { id: 'step-2', dayOffset: 2, channel: 'Email', template: 'Following up on {{productCategory}}' },
+    { id: 'step-3', dayOffset: 5, channel: 'Email', template: 'Last call from {{myCompany}}' }
+  ]
+};
+
+describe('CampaignScheduler', () => {
+  let dataDir: string;
+  let store: any;
+  let sent: any[];
+  let clock: number;
+
+  const quiet = { info: () => {}, warn: () => {}, error: () => {} };
+  const outbound = {
+    send: async (message: any) => {
+      sent.push(message);
+      return { success: true, message: { id: `out-${sent.length}` } };
+    }
+  };
+  const createScheduler = () => new CampaignScheduler({ store, outbound, events: { broadcast: () => {} }, logger: quiet as any });
+  const advanceClock = (ms: number) => { clock += ms; };
+
+  beforeEach(() => {
+    clock = START;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-'));
+    store = new JsonStore(dataDir);
+    store.insert('campaigns', CAMPAIGN);
+    store.insert('importers', { id: 'imp-1', name: 'Chen', companyName: 'Tok Inc', contactDetail: 'chen@tok.nz', productsImported: 'Basmati Rice', status: 'Pending' });
+    sent = [];
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  test('sends each step once and follows the day offsets', async () => {
+    const scheduler = createScheduler();
+    const enrollment = scheduler.enroll('imp-1', 'cmp-1');
+
+    await scheduler.tick();
+    await scheduler.tick();
+    expect(sent.map(m => m.content)).toEqual(['Hello Chen']);
+    expect(store.get('campaignRuns', `${enrollment.id}:0`)).toMatchObject({ status: 'sent', messageId: 'out-1' });
+    expect(store.get('enrollments', enrollment.id)).toMatchObject({ currentStepIndex: 1, nextRunTime: START + 2 * DAY_MS });
+    expect(store.get('importers', 'imp-1').status).toBe('Contacted');
+
+    advanceClock(2 * DAY_MS - 1);
+    await scheduler.tick();
+    expect(sent).toHaveLength(1);
+    advanceClock(1);
+    await scheduler.tick();
+    expect(sent.map(m => m.content)).toEqual(['Hello Chen', 'Following up on Basmati Rice']);
+  });
+
+  test('skips a step left pending by a crash instead of sending it twice', async () => {
+    const scheduler = createScheduler();
+    const enrollment = scheduler.enroll('imp-1', 'cmp-1');
+    store.upsert('campaignRuns', { id: `${enrollment.id}:0`, enrollmentId: enrollment.id, stepId: 'step-1', status: 'pending', startedAt: START });
+
+    await scheduler.tick();
+    expect(sent).toEqual([]);
+    expect(store.get('enrollments', enrollment.id).currentStepIndex).toBe(1);
+  });
+
+  test('retries a failed send and pauses after the third failure', async () => {
+    const failing = { send: async () => ({ success: false, error: 'SMTP down' }) };
+    const scheduler = new CampaignScheduler({ store, outbound: failing, events: { broadcast: () => {} }, logger: quiet as any });
+    const enrollment = scheduler.enroll('imp-1', 'cmp-1');
+
+    await scheduler.tick();
+    expect(store.get('enrollments', enrollment.id)).toMatchObject({ status: 'active', attempts: 1, lastError: 'SMTP down' });
+    advanceClock(15 * 60 * 1000);
+    await scheduler.tick();
+    advanceClock(15 * 60 * 1000);
+    await scheduler.tick();
+    expect(store.get('enrollments', enrollment.id)).toMatchObject({ status: 'paused', attempts: 3, currentStepIndex: 0 });
+  });
+
+  test('catches up after downtime without firing the later steps back-to-back', async () => {
+    const enrollment = createScheduler().enroll('imp-1', 'cmp-1');
+    await createScheduler().tick();
+    store.flush();
+
+    // The process is down for ten days, then starts again on the persisted store
+    advanceClock(10 * DAY_MS);
+    store = new JsonStore(dataDir);
+    const restarted = createScheduler();
+    await restarted.tick();
+    expect(sent.map(m => m.content)).toEqual(['Hello Chen', 'Following up on Basmati Rice']);
+    expect(store.get('enrollments', enrollment.id)).toMatchObject({ currentStepIndex: 2, nextRunTime: START + 13 * DAY_MS });
+
+    advanceClock(3 * DAY_MS);
+    await restarted.tick();
+    expect(sent).toHaveLength(3);
+    expect(store.get('enrollments', enrollment.id).status).toBe('completed');
+  });
+
+  test('pauses, resumes and reschedules enrollments over HTTP', async () => {
+    const scheduler = createScheduler();
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createSchedulerRouter(scheduler));
+    const server = await new Promise<any>(resolve => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    const post = (url: string, body: unknown = {}) =>
+      fetch(`${base}${url}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+    try {
+      const enrollment = await (await post('/enrollments', { importerId: 'imp-1', campaignId: 'cmp-1' })).json();
+      expect((await (await post(`/enrollments/${enrollment.id}/pause`)).json()).status).toBe('paused');
+      expect((await post(`/enrollments/${enrollment.id}/pause`)).status).toBe(409);
+      await scheduler.tick();
+      expect(sent).toEqual([]);
+
+      expect((await (await post(`/enrollments/${enrollment.id}/resume`)).json()).status).toBe('active');
+      expect((await post(`/enrollments/${enrollment.id}/reschedule`, { nextRunTime: START + DAY_MS })).status).toBe(200);
+      await scheduler.tick();
+      expect(sent).toEqual([]);
+
+      advanceClock(DAY_MS);
+      await scheduler.tick();
+      expect(sent.map(m => m.content)).toEqual(['Hello Chen']);
+      expect((await post(`/enrollments/${enrollment.id}/reschedule`, {})).status).toBe(400);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
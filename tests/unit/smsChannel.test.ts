@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { SmsChannel, createSmsWebhookRouter } from '../../backend/sms';
+import { JsonStore } from '../../backend/store';
+import { SECRET_MASK } from '../../backend/secrets';
+
+const AUTH_TOKEN = 'twilio-auth-token';
+const CONFIG = { accountSid: 'AC123', authToken: AUTH_TOKEN, from: '+15005550006' };
+
+const twilioSignature = (url: string, params: Record<string, string>) => {
+  const data = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+  return crypto.createHmac('sha1', AUTH_TOKEN).update(data).digest('base64');
+};
+
+describe('SMS webhooks', () => {
+  let store: any;
+  let channel: any;
+
+  const quiet = { info: () => {}, warn: () => {}, error: () => {} };
+
+  const postInbound = async (params: Record<string, string>, signature?: string) => {
+    const app = express();
+    app.use(express.urlencoded({ extended: true }));
+    app.use('/webhooks/sms', createSmsWebhookRouter(channel));
+    const server = await new Promise<any>(resolve => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+      if (signature) headers['X-Twilio-Signature'] = signature;
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/sms`;
+      return await fetch(url, { method: 'POST', headers, body: new URLSearchParams(params).toString() });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'sms-')));
+    channel = new SmsChannel({ store, events: { broadcast: () => {} }, outbound: null, scheduler: null, logger: quiet as any });
+  });
+
+  test('refuses every callback until a public URL and auth token are configured', async () => {
+    const params = { From: '+64211234567', Body: 'Price?', MessageSid: 'SM1' };
+    expect((await postInbound(params)).status).toBe(503);
+
+    channel.configure(CONFIG);
+    expect(channel.acceptsWebhooks()).toBe(false);
+    expect((await postInbound(params, twilioSignature('/webhooks/sms', params))).status).toBe(503);
+    expect(store.list('messages')).toEqual([]);
+  });
+
+  test('accepts only callbacks signed for the public URL', async () => {
+    channel.configure({ ...CONFIG, webhookBaseUrl: 'https://crm.example.com/' });
+    const params = { From: '+64211234567', Body: 'Price?', MessageSid: 'SM1' };
+
+    expect((await postInbound(params, twilioSignature('https://crm.example.com/webhooks/sms', { ...params, Body: 'Forged' }))).status).toBe(403);
+    expect((await postInbound(params, twilioSignature('https://crm.example.com/webhooks/sms', params))).status).toBe(200);
+    expect(store.list('messages')).toEqual([expect.objectContaining({ externalId: 'SM1', channel: 'SMS', content: 'Price?' })]);
+  });
+});
+
+describe('SMS gateway settings', () => {
+  test('mask the auth token and keep it when the mask comes back', async () => {
+    const logins: string[] = [];
+    const fetchImpl = async (url: string, init: any) => {
+      logins.push(init.headers.Authorization);
+      return new Response('{}', { status: 200 });
+    };
+    const store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'sms-')));
+    const channel = new SmsChannel({ store, events: null, outbound: null, scheduler: null, logger: { warn: () => {} } as any, fetchImpl: fetchImpl as any });
+
+    await channel.connect(CONFIG);
+    const { config } = channel.status();
+    expect(config).toEqual({ ...CONFIG, authToken: SECRET_MASK, baseUrl: undefined });
+
+    await channel.connect({ ...config, from: '+15005550007' });
+    expect(logins[1]).toBe(logins[0]);
+    expect(store.get('channelConfig', 'sms').config).toMatchObject({ authToken: AUTH_TOKEN, from: '+15005550007' });
+
+    channel.disconnect();
+    await expect(channel.connect({ ...CONFIG, authToken: SECRET_MASK })).rejects.toThrow('authToken');
+  });
+});
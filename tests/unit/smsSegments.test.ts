@@ -0,0 +1,41 @@
+import { describe, test, expect } from '@jest/globals';
+import { analyzeSms, splitSms, SMS_MAX_SEGMENTS } from '../../services/smsSegments';
+
+describe('SMS segment counting', () => {
+  test('GSM-7 fits 160 characters in one segment and 153 per part after that', () => {
+    expect(analyzeSms('a'.repeat(160))).toMatchObject({ encoding: 'GSM-7', units: 160, segments: 1, remaining: 0 });
+    expect(analyzeSms('a'.repeat(161))).toMatchObject({ encoding: 'GSM-7', segments: 2, perSegment: 153 });
+    expect(analyzeSms('a'.repeat(306)).segments).toBe(2);
+    expect(analyzeSms('a'.repeat(307)).segments).toBe(3);
+    expect(analyzeSms('').segments).toBe(0);
+  });
+
+  test('extension characters take two septets and never straddle a segment boundary', () => {
+    expect(analyzeSms('Price: 120€ [FOB]')).toMatchObject({ encoding: 'GSM-7', units: 20 });
+    expect(analyzeSms('€'.repeat(80)).segments).toBe(1);
+    // 152 septets + "€" would need 154: the euro moves to the next segment
+    expect(analyzeSms('a'.repeat(152) + '€' + 'a'.repeat(10)).segments).toBe(2);
+    expect(analyzeSms('a'.repeat(152) + '€' + 'a'.repeat(152)).segments).toBe(3);
+  });
+
+  test('any character outside GSM-7 switches the message to UCS-2', () => {
+    expect(analyzeSms('Hello 你好')).toMatchObject({ encoding: 'UCS-2', units: 8, perSegment: 70 });
+    expect(analyzeSms('x'.repeat(70) + '’')).toMatchObject({ encoding: 'UCS-2', segments: 2, perSegment: 67 });
+    // Emoji are surrogate pairs: two code units, never split across segments
+    expect(analyzeSms('😀'.repeat(35))).toMatchObject({ units: 70, segments: 1 });
+    expect(analyzeSms('ab' + '😀'.repeat(66))).toMatchObject({ units: 134, segments: 3 });
+  });
+
+  test('splits long replies between words into parts within the segment limit', () => {
+    expect(splitSms('  Thanks, we ship weekly.  ')).toEqual(['Thanks, we ship weekly.']);
+
+    const reply = Array.from({ length: 120 }, (_, i) => `word${i}`).join(' ');
+    const parts = splitSms(reply);
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(analyzeSms(part).segments).toBeLessThan(SMS_MAX_SEGMENTS + 1));
+    expect(parts.join(' ')).toBe(reply);
+
+    const single = splitSms('x'.repeat(200), 1);
+    expect(single).toEqual(['x'.repeat(160), 'x'.repeat(40)]);
+  });
+});
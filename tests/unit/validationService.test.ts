@@ -0,0 +1,36 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel, ValidationResult } from '../../types';
+import { getOptimalChannel } from '../../services/validationService';
+
+const validation = (overrides: Partial<ValidationResult> = {}): ValidationResult => ({
+  isValid: true,
+  errors: [],
+  emailMxValid: null,
+  whatsappAvailable: null,
+  wechatAvailable: null,
+  checkedAt: 0,
+  ...overrides
+});
+
+describe('getOptimalChannel', () => {
+  test('prefers a confirmed WhatsApp or WeChat account', () => {
+    expect(getOptimalChannel(validation({ phoneType: 'mobile', whatsappAvailable: true, wechatAvailable: true }), '+8613800138000')).toBe(Channel.WHATSAPP);
+    expect(getOptimalChannel(validation({ phoneType: 'mobile', whatsappAvailable: false, wechatAvailable: true }), '+8613800138000')).toBe(Channel.WECHAT);
+  });
+
+  test('sends email addresses to EMAIL whatever the MX check said', () => {
+    expect(getOptimalChannel(validation({ emailMxValid: true }), 'sarah.j@eurofoods.de')).toBe(Channel.EMAIL);
+    expect(getOptimalChannel(validation({ emailMxValid: null }), 'sarah.j@eurofoods.de')).toBe(Channel.EMAIL);
+    expect(getOptimalChannel(validation({ emailMxValid: false }), 'sarah.j@eurofoods.de')).toBe(Channel.EMAIL);
+  });
+
+  test('routes mobiles to WhatsApp and falls back to SMS once WhatsApp is ruled out', () => {
+    const mobile = validation({ e164: '+64211234567', phoneType: 'mobile' });
+    expect(getOptimalChannel(mobile, '+64 21 123 4567')).toBe(Channel.WHATSAPP);
+    expect(getOptimalChannel({ ...mobile, whatsappAvailable: false }, '+64 21 123 4567')).toBe(Channel.SMS);
+  });
+
+  test('uses SMS for numbers of unknown type', () => {
+    expect(getOptimalChannel(validation({ e164: '+12125550123', phoneType: 'unknown' }), '(212) 555-0123')).toBe(Channel.SMS);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { WeChatChannel, WeChatCrypto, buildXml, parseXml, signature } from '../../backend/wechat';
+import { JsonStore } from '../../backend/store';
+import { SECRET_MASK } from '../../backend/secrets';
+
+const APP_ID = 'wx1234567890abcdef';
+const AES_KEY = 'abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG';
+const TOKEN = 'globalreach';
+const OPEN_ID = 'oUser_openid_1';
+
+// Local stand-in for api.weixin.qq.com: access tokens and the customer-service send API
+const createMockWeChatApi = () => {
+  const calls = { tokens: 0, sent: [] as any[] };
+  let expireNextToken = false;
+  const app = express();
+  app.use(express.json());
+  app.get('/cgi-bin/token', (req, res) => {
+    if (req.query.secret !== 'secret') return res.json({ errcode: 40125, errmsg: 'invalid appsecret' });
+    calls.tokens++;
+    res.json({ access_token: `token-${calls.tokens}`, expires_in: 7200 });
+  });
+  app.post('/cgi-bin/message/custom/send', (req, res) => {
+    if (expireNextToken) {
+      expireNextToken = false;
+      return res.json({ errcode: 40001, errmsg: 'invalid credential, access_token is invalid or not latest' });
+    }
+    calls.sent.push({ token: req.query.access_token, body: req.body });
+    res.json({ errcode: 0, errmsg: 'ok' });
+  });
+  return { app, calls, expireToken: () => { expireNextToken = true; } };
+};
+
+const pushXml = (fields: Record<string, string | number>) => buildXml({
+  ToUserName: 'gh_account',
+  FromUserName: OPEN_ID,
+  CreateTime: 1725184800,
+  MsgType: 'text',
+  ...fields
+});
+
+const signedQuery = (extra: Record<string, string> = {}) => {
+  const timestamp = '1725184800';
+  const nonce = 'n0nce';
+  return { timestamp, nonce, signature: signature(TOKEN, timestamp, nonce), ...extra };
+};
+
+describe('WeChatChannel', () => {
+  let server: Server;
+  let api: ReturnType<typeof createMockWeChatApi>;
+  let store: any;
+  let channel: any;
+
+  beforeEach(async () => {
+    api = createMockWeChatApi();
+    server = await new Promise<Server>(resolve => {
+      const s = api.app.listen(0, () => resolve(s));
+    });
+    store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'wechat-channel-')));
+    store.insert('importers', { id: 'imp-1', name: 'Li Wei', contactDetail: OPEN_ID, status: 'Contacted' });
+    channel = new WeChatChannel({
+      store,
+      events: { broadcast: () => {} },
+      outbound: null,
+      scheduler: { stopForImporter: () => {} },
+      logger: { warn: () => {}, info: () => {} } as any,
+      passiveWindowMs: 100
+    });
+    await channel.connect({
+      appId: APP_ID,
+      appSecret: 'secret',
+      token: TOKEN,
+      apiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    });
+  });
+
+  afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  test('parses push XML and round-trips safe-mode encryption', () => {
+    expect(parseXml('<xml><Content><![CDATA[报价 <FOB>]]></Content><CreateTime>1725184800</CreateTime></xml>'))
+      .toEqual({ Content: '报价 <FOB>', CreateTime: '1725184800' });
+    expect(parseXml(buildXml({ Content: 'a]]>b' }))).toEqual({ Content: 'a]]>b' });
+
+    const cipher = new WeChatCrypto({ encodingAESKey: AES_KEY, appId: APP_ID });
+    expect(cipher.decrypt(cipher.encrypt('<xml>你好</xml>'))).toBe('<xml>你好</xml>');
+    expect(() => new WeChatCrypto({ encodingAESKey: AES_KEY, appId: 'wxother' }).decrypt(cipher.encrypt('x'))).toThrow();
+  });
+
+  test('a send inside the 5-second window goes out as the passive reply', async () => {
+    const pending = channel.handlePush(signedQuery(), pushXml({ Content: 'Do you ship to Shanghai?', MsgId: '1001' }));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await channel.send({ to: OPEN_ID, content: 'Yes, CIF Shanghai.' });
+
+    const reply = parseXml(await pending);
+    expect(reply).toMatchObject({ ToUserName: OPEN_ID, FromUserName: 'gh_account', MsgType: 'text', Content: 'Yes, CIF Shanghai.' });
+    expect(api.calls.sent).toHaveLength(0);
+
+    const inbound = store.list('messages', (m: any) => m.direction === 'inbound');
+    expect(inbound).toHaveLength(1);
+    expect(inbound[0]).toMatchObject({ importerId: 'imp-1', content: 'Do you ship to Shanghai?', externalId: '1001' });
+
+    // WeChat retries a push it did not see answered: stored once, acknowledged with "success"
+    expect(await channel.handlePush(signedQuery(), pushXml({ Content: 'Do you ship to Shanghai?', MsgId: '1001' }))).toBe('success');
+    expect(store.list('messages', (m: any) => m.direction === 'inbound')).toHaveLength(1);
+  });
+
+  test('decrypts safe-mode pushes and sends late replies through the customer-service API', async () => {
+    await channel.connect({
+      appId: APP_ID,
+      appSecret: 'secret',
+      token: TOKEN,
+      encodingAESKey: AES_KEY,
+      apiBaseUrl: channel.config.apiBaseUrl
+    });
+    const cipher = new WeChatCrypto({ encodingAESKey: AES_KEY, appId: APP_ID });
+    const encrypted = cipher.encrypt(pushXml({ Content: 'Price for 5 MT?', MsgId: '2002' }));
+    const query = signedQuery({ encrypt_type: 'aes', msg_signature: signature(TOKEN, '1725184800', 'n0nce', encrypted) });
+
+    // Nothing sent within the window: plain acknowledgement
+    expect(await channel.handlePush(query, buildXml({ ToUserName: 'gh_account', Encrypt: encrypted }))).toBe('success');
+    expect(store.findOne('messages', (m: any) => m.externalId === '2002').content).toBe('Price for 5 MT?');
+
+    // Tampered signature is rejected
+    expect(await channel.handlePush({ ...query, msg_signature: 'bad' }, buildXml({ Encrypt: encrypted }))).toBeNull();
+
+    // An expired token is refreshed once and the send retried
+    api.expireToken();
+    const tokensBefore = api.calls.tokens;
+    await channel.send({ to: OPEN_ID, content: 'USD 820/MT CIF.' });
+    expect(api.calls.tokens).toBe(tokensBefore + 1);
+    expect(api.calls.sent).toEqual([{ token: `token-${tokensBefore + 1}`, body: { touser: OPEN_ID, msgtype: 'text', text: { content: 'USD 820/MT CIF.' } } }]);
+  });
+
+  test('masks the secrets it returns and keeps them when the mask comes back', async () => {
+    const { config } = channel.status();
+    expect(config).toMatchObject({ appId: APP_ID, appSecret: SECRET_MASK, token: SECRET_MASK });
+    expect(JSON.stringify(channel.status())).not.toContain('secret');
+
+    await channel.connect({ ...config, appSecret: SECRET_MASK, token: SECRET_MASK });
+    expect(store.get('channelConfig', 'wechat').config).toMatchObject({ appSecret: 'secret', token: TOKEN });
+    await expect(channel.connect({ ...config, appSecret: SECRET_MASK, token: 'new-token' })).resolves.toMatchObject({ configured: true });
+    expect(channel.config.token).toBe('new-token');
+  });
+
+  test('rejects wrong credentials on connect', async () => {
+    await expect(channel.connect({ appId: APP_ID, appSecret: 'wrong', token: TOKEN, apiBaseUrl: channel.config.apiBaseUrl }))
+      .rejects.toThrow('invalid appsecret');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test, expect } from '@jest/globals';
+import { Channel, Importer, LeadStatus, Message } from '../../types';
+import {
+  getSessionWindow,
+  planWhatsAppSend,
+  renderWhatsAppTemplate,
+  findWhatsAppTemplate,
+  templateValues,
+  INTRO_TEMPLATE,
+  FOLLOW_UP_TEMPLATE,
+  WHATSAPP_SESSION_WINDOW_MS
+} from '../../services/whatsappTemplates';
+
+const NOW = Date.UTC(2024, 8, 1, 12);
+const HOUR = 60 * 60 * 1000;
+
+const message = (sender: Message['sender'], channel: Channel, hoursAgo: number): Message => ({
+  id: `m-${sender}-${hoursAgo}`,
+  content: 'hi',
+  sender,
+  channel,
+  timestamp: NOW - hoursAgo * HOUR
+});
+
+const importer = (chatHistory: Message[]) => ({
+  id: 'imp-1',
+  name: 'Rahul',
+  companyName: 'Spice Traders',
+  country: 'India',
+  productsImported: 'Spices',
+  contactDetail: '+919800000000',
+  status: LeadStatus.CONTACTED,
+  chatHistory
+} as unknown as Importer);
+
+const values = templateValues(importer([]), 'Global Exports', 'Agri-Products');
+
+describe('WhatsApp session window', () => {
+  test('opens with the last inbound WhatsApp message and closes 24 hours later', () => {
+    const history = [message('importer', Channel.WHATSAPP, 30), message('importer', Channel.WHATSAPP, 5), message('agent', Channel.WHATSAPP, 1)];
+    expect(getSessionWindow(importer(history), NOW)).toEqual({
+      open: true,
+      lastInboundAt: NOW - 5 * HOUR,
+      closesAt: NOW - 5 * HOUR + WHATSAPP_SESSION_WINDOW_MS
+    });
+    // Replies on other channels and our own messages do not count
+    expect(getSessionWindow(importer([message('importer', Channel.EMAIL, 1), message('agent', Channel.WHATSAPP, 1)]), NOW).open).toBe(false);
+    expect(getSessionWindow(importer([message('importer', Channel.WHATSAPP, 25)]), NOW).open).toBe(false);
+  });
+
+  test('sends free text inside the window and a template outside it', () => {
+    const open = importer([message('importer', Channel.WHATSAPP, 2)]);
+    expect(planWhatsAppSend(open, { templateName: FOLLOW_UP_TEMPLATE, values, now: NOW })).toEqual({ type: 'text' });
+
+    const plan = planWhatsAppSend(importer([]), { templateName: INTRO_TEMPLATE, values, now: NOW });
+    expect(plan).toMatchObject({
+      type: 'template',
+      parameters: ['Rahul', 'Global Exports', 'Agri-Products', 'Spices'],
+      preview: 'Hello Rahul, this is Global Exports. We supply Agri-Products to importers of Spices. May I share our current prices and samples?'
+    });
+  });
+
+  test('blocks free text outside the window with a reason', () => {
+    const closed = importer([message('importer', Channel.WHATSAPP, 50)]);
+    const plan = planWhatsAppSend(closed, { values, now: NOW });
+    expect(plan.type).toBe('blocked');
+    expect(plan.type === 'blocked' && plan.reason).toContain('closed 26 h ago');
+
+    expect(planWhatsAppSend(closed, { templateName: 'spring_sale', values, now: NOW }))
+      .toEqual({ type: 'blocked', reason: 'WhatsApp template "spring_sale" is not registered.' });
+  });
+
+  test('fills missing variables with a placeholder so the API call stays valid', () => {
+    const { parameters } = renderWhatsAppTemplate(findWhatsAppTemplate(FOLLOW_UP_TEMPLATE)!, { importerName: 'Rahul' });
+    expect(parameters).toEqual(['Rahul', '-', '-']);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { createWhatsAppWebhookRouter, isStatusAdvance, parseWebhook, verifySignature } from '../../backend/whatsapp';
+import { JsonStore } from '../../backend/store';
+
+const APP_SECRET = 'meta-app-secret';
+
+const sign = (body: string, secret = APP_SECRET) => `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const envelope = (value: object) => ({
+  object: 'whatsapp_business_account',
+  entry: [{ id: 'waba-1', changes: [{ field: 'messages', value: { metadata: { phone_number_id: 'pn-1' }, ...value } }] }]
+});
+
+describe('verifySignature', () => {
+  const body = Buffer.from('{"object":"whatsapp_business_account"}');
+
+  test('accepts the HMAC of the raw body and nothing else', () => {
+    expect(verifySignature(body, sign(body.toString()), APP_SECRET)).toBe(true);
+    expect(verifySignature(body, sign(body.toString(), 'other-secret'), APP_SECRET)).toBe(false);
+    expect(verifySignature(Buffer.from('{}'), sign(body.toString()), APP_SECRET)).toBe(false);
+  });
+
+  test('refuses malformed headers without throwing', () => {
+    expect(verifySignature(body, `sha256=${'z'.repeat(64)}`, APP_SECRET)).toBe(false);
+    expect(verifySignature(body, 'sha256=abcd', APP_SECRET)).toBe(false);
+    expect(verifySignature(body, sign(body.toString()).slice('sha256='.length), APP_SECRET)).toBe(false);
+    expect(verifySignature(body, undefined, APP_SECRET)).toBe(false);
+    expect(verifySignature(undefined, sign(body.toString()), APP_SECRET)).toBe(false);
+  });
+});
+
+describe('parseWebhook', () => {
+  test('flattens messages with their sender profile and media', () => {
+    const { messages, statuses } = parseWebhook(envelope({
+      contacts: [{ wa_id: '64211234567', profile: { name: 'Chen' } }],
+      messages: [
+        { id: 'wamid.1', from: '64211234567', timestamp: '1756717200', type: 'text', text: { body: 'Price for 20 MT?' } },
+        { id: 'wamid.2', from: '64211234567', timestamp: '1756717260', type: 'image', image: { id: 'media-1', mime_type: 'image/jpeg', caption: 'Our spec' } }
+      ]
+    }));
+
+    expect(statuses).toEqual([]);
+    expect(messages[0]).toMatchObject({ externalId: 'wamid.1', from: '64211234567', profileName: 'Chen', phoneNumberId: 'pn-1', content: 'Price for 20 MT?', timestamp: 1756717200000 });
+    expect(messages[1]).toMatchObject({ content: 'Our spec', media: { id: 'media-1', mimeType: 'image/jpeg', caption: 'Our spec' } });
+  });
+
+  test('reads delivery receipts and their first error', () => {
+    const { statuses } = parseWebhook(envelope({
+      statuses: [{ id: 'wamid.9', status: 'failed', recipient_id: '64211234567', timestamp: '1756717200', errors: [{ title: 'Re-engagement message' }] }]
+    }));
+    expect(statuses).toEqual([{ externalId: 'wamid.9', status: 'failed', recipient: '64211234567', timestamp: 1756717200000, error: 'Re-engagement message' }]);
+  });
+
+  test('ignores payloads from other Meta products', () => {
+    expect(parseWebhook({ object: 'page', entry: [] })).toEqual({ messages: [], statuses: [] });
+    expect(parseWebhook(undefined)).toEqual({ messages: [], statuses: [] });
+  });
+});
+
+describe('isStatusAdvance', () => {
+  test('only moves statuses forward, with failed as the terminal state', () => {
+    expect(isStatusAdvance(undefined, 'sent')).toBe(true);
+    expect(isStatusAdvance('sent', 'delivered')).toBe(true);
+    expect(isStatusAdvance('read', 'delivered')).toBe(false);
+    expect(isStatusAdvance('delivered', 'delivered')).toBe(false);
+    expect(isStatusAdvance('read', 'failed')).toBe(true);
+    expect(isStatusAdvance('failed', 'read')).toBe(false);
+  });
+});
+
+describe('createWhatsAppWebhookRouter', () => {
+  let store: any;
+  let broadcasts: any[];
+
+  const quiet = { info: () => {}, warn: () => {}, error: () => {} };
+
+  const withServer = async (appSecret: string | undefined, run: (post: (payload: object, signature?: string) => Promise<Response>) => Promise<void>) => {
+    const app = express();
+    app.use(express.json({ verify: (req: any, res, buf) => { req.rawBody = buf; } }));
+    app.use('/webhooks/whatsapp', createWhatsAppWebhookRouter({
+      store,
+      events: { broadcast: (type: string, data: unknown) => broadcasts.push({ type, data }) },
+      scheduler: { stopForImporter: () => {} },
+      appSecret,
+      verifyToken: 'verify-me',
+      logger: quiet as any
+    }));
+    const server = await new Promise<any>(resolve => {
+      const s = app.listen(0, () => resolve(s));
+    });
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/whatsapp`;
+    const post = (payload: object, signature?: string) => {
+      const body = JSON.stringify(payload);
+      return fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': signature ?? sign(body) }, body });
+    };
+    try {
+      await run(post);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    store = new JsonStore(fs.mkdtempSync(path.join(os.tmpdir(), 'whatsapp-')));
+    store.insert('importers', { id: 'imp-1', name: 'Chen', companyName: 'Tok Inc', contactDetail: '+64 21 123 4567', status: 'Contacted' });
+    broadcasts = [];
+  });
+
+  test('refuses every post while no app secret is configured', async () => {
+    await withServer(undefined, async post => {
+      const res = await post(envelope({ messages: [{ id: 'wamid.1', from: '64211234567', timestamp: '1', type: 'text', text: { body: 'Hi' } }] }), 'sha256=');
+      expect(res.status).toBe(503);
+      expect(store.list('messages')).toEqual([]);
+    });
+  });
+
+  test('rejects a forged or malformed signature', async () => {
+    await withServer(APP_SECRET, async post => {
+      expect((await post(envelope({}), sign('{}', 'other-secret'))).status).toBe(401);
+      expect((await post(envelope({}), `sha256=${'z'.repeat(64)}`)).status).toBe(401);
+    });
+  });
+
+  test('stores inbound messages once against the matching lead', async () => {
+    await withServer(APP_SECRET, async post => {
+      const payload = envelope({ messages: [{ id: 'wamid.1', from: '64211234567', timestamp: '1756717200', type: 'text', text: { body: 'Price for 20 MT?' } }] });
+      expect((await post(payload)).status).toBe(200);
+      expect((await post(payload)).status).toBe(200);
+      expect(store.list('messages')).toEqual([expect.objectContaining({ id: 'wa-wamid.1', importerId: 'imp-1', direction: 'inbound', content: 'Price for 20 MT?' })]);
+    });
+  });
+
+  test('applies receipts to known messages and drops the rest', async () => {
+    store.insert('messages', { id: 'msg-1', importerId: 'imp-1', externalId: 'wamid.out', channel: 'WhatsApp', direction: 'outbound', status: 'sent' });
+    await withServer(APP_SECRET, async post => {
+      const receipt = (id: string, status: string) => ({ id, status, recipient_id: '64211234567', timestamp: '1756717200' });
+      expect((await post(envelope({ statuses: [receipt('wamid.out', 'read'), receipt('wamid.other', 'delivered')] }))).status).toBe(200);
+      expect((await post(envelope({ statuses: [receipt('wamid.out', 'delivered')] }))).status).toBe(200);
+    });
+    expect(store.list('messages')).toEqual([expect.objectContaining({ id: 'msg-1', status: 'read' })]);
+    expect(broadcasts).toEqual([{ type: 'status', data: { messageId: 'msg-1', externalId: 'wamid.out', status: 'read', error: undefined } }]);
+  });
+});
@@ -17,12 +17,73 @@ export enum LeadStatus {
   COLD = 'Cold', // Not interested
 }
 
+// Built-in roles; admins can add custom ones (RoleDefinition) next to them
 export enum UserRole {
   ADMIN = 'Admin',
   SALES = 'Sales',
   VIEWER = 'Viewer'
 }
 
+// Mirrors PERMISSIONS in backend/permissions.js, which enforces them per API route
+export enum Permission {
+  EDIT_LEADS = 'editLeads',
+  IMPORT_LEADS = 'importLeads',
+  DELETE_LEADS = 'deleteLeads',
+  SEND_MESSAGES = 'sendMessages',
+  RUN_CAMPAIGNS = 'runCampaigns',
+  EDIT_TEMPLATES = 'editTemplates',
+  VIEW_ANALYTICS = 'viewAnalytics',
+  EXPORT_DATA = 'exportData',
+  MANAGE_INTEGRATIONS = 'manageIntegrations',
+  MANAGE_CATALOG = 'manageCatalog',
+  MANAGE_USERS = 'manageUsers'
+}
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  [Permission.EDIT_LEADS]: 'Edit leads',
+  [Permission.IMPORT_LEADS]: 'Import leads',
+  [Permission.DELETE_LEADS]: 'Delete leads',
+  [Permission.SEND_MESSAGES]: 'Send messages',
+  [Permission.RUN_CAMPAIGNS]: 'Run campaigns',
+  [Permission.EDIT_TEMPLATES]: 'Edit templates',
+  [Permission.VIEW_ANALYTICS]: 'View analytics',
+  [Permission.EXPORT_DATA]: 'Export data',
+  [Permission.MANAGE_INTEGRATIONS]: 'Manage integrations',
+  [Permission.MANAGE_CATALOG]: 'Manage catalog & currency',
+  [Permission.MANAGE_USERS]: 'Manage users & roles'
+};
+
+export const BUILT_IN_ROLES: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.SALES]: [Permission.EDIT_LEADS, Permission.DELETE_LEADS, Permission.SEND_MESSAGES, Permission.RUN_CAMPAIGNS, Permission.VIEW_ANALYTICS],
+  [UserRole.VIEWER]: [Permission.VIEW_ANALYTICS]
+};
+
+// Account as shown to colleagues (owner pickers, leaderboard); GET /api/team
+export interface TeamMember {
+  id: string;
+  name: string;
+  username: string;
+}
+
+/**
+ * Routes new leads (imports and inbound) to owners. Rules are tried in order and the first
+ * match wins; a rule with several owners rotates between them.
+ */
+export interface AssignmentRule {
+  id: string;
+  match: 'country' | 'product' | 'any';
+  value: string; // Country name, or a keyword of the imported products; unused for 'any'
+  ownerIds: string[];
+  nextIndex: number; // Round-robin cursor, advanced on every assignment
+}
+
+export interface RoleDefinition {
+  name: string;
+  permissions: Permission[];
+  builtIn: boolean;
+}
+
 export enum PlatformStatus {
   DISCONNECTED = 'Disconnected',
   CONNECTING = 'Connecting',
@@ -43,27 +104,58 @@ export interface PlatformConnection {
   status: PlatformStatus;
   accountName?: string; // e.g., +1 (555) 123-4567 or user@example.com
   connectedAt?: number;
-  provider?: 'google' | 'microsoft' | 'custom' | 'whatsapp' | 'wechat';
+  provider?: 'google' | 'microsoft' | 'custom' | 'whatsapp' | 'wechat' | 'twilio' | 'sms-gateway';
   lastTested?: number;
   healthStatus?: 'healthy' | 'error';
 }
 
 export interface User {
   id: string;
+  username?: string; // Sign-in name of the server account
   name: string;
-  role: UserRole;
+  role: string; // A UserRole or the name of a custom role
+  permissions?: Permission[]; // Resolved by the server at sign-in
   avatar?: string;
+  totpEnabled?: boolean;
 }
 
 export interface AuthSession {
   id: string;
   userId: string;
-  device: string;
-  ip: string;
+  userName: string;
+  device: string; // e.g. "Chrome on Windows", derived from the User-Agent at sign-in
+  ip: string | null;
+  createdAt: number;
   lastActive: number;
   isCurrent: boolean;
 }
 
+// Browser-side events accepted by POST /api/audit (CLIENT_EVENTS in backend/audit.js)
+export type ClientAuditEvent =
+  | 'SESSION_RESTORE' | 'SESSION_LOCK' | 'SESSION_UNLOCK'
+  | 'DATA_EXPORT' | 'BACKUP_CREATED' | 'DATA_RESTORE'
+  | 'SETTINGS_CHANGED' | 'LEAD_MERGE';
+
+export interface AuditEntry {
+  id: string;
+  seq: number;
+  at: number;
+  type: string; // ClientAuditEvent or a server-recorded event such as LOGIN_FAILED, ROLE_CHANGED
+  actorId: string | null; // null for the system (campaign sends, failed sign-ins)
+  actorName: string;
+  details: string;
+  target: string | null;
+  ip: string | null;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditIntegrity {
+  valid: boolean;
+  checked: number;
+  brokenAt: number | null; // seq of the first entry that no longer fits the chain
+}
+
 export type Language = 'en' | 'es' | 'zh';
 export type SentimentLabel = 'Positive' | 'Neutral' | 'Negative' | 'Critical';
 export type EmotionLabel = 'Frustration' | 'Confusion' | 'Enthusiasm' | 'Urgency' | 'Skepticism' | 'Gratitude';
@@ -79,6 +171,15 @@ export interface EmotionData {
   confidence: number; // 0.0 to 1.0
 }
 
+export interface MessageAttachment {
+  id: string; // Media record on the backend
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
+  url: string; // Local file reference served by the backend (/api/media/:id)
+  caption?: string;
+}
+
 export interface Message {
   id: string;
   sender: 'agent' | 'importer' | 'system';
@@ -86,23 +187,51 @@ export interface Message {
   timestamp: number;
   channel: Channel;
   status?: MessageStatus;
+  externalId?: string; // Provider message id (e.g. WhatsApp wamid) used to match delivery receipts
+  templateName?: string; // WhatsApp template it was sent as (outside the 24-hour window)
+  attachments?: MessageAttachment[]; // Photos, spec sheets, price lists; `content` is then the caption
   sentiment?: SentimentData; // Granular sentiment per message
   feedback?: 'helpful' | 'unhelpful'; // User feedback for AI optimization
 }
 
+// Extras for an outgoing chat message besides its text and channel
+export interface SendOptions {
+  templateName?: string; // WhatsApp template to use if the 24-hour window is closed
+  attachments?: MessageAttachment[];
+}
+
 export interface ActivityLogEntry {
   id: string;
   timestamp: number;
-  type: 'status_change' | 'note' | 'validation' | 'system';
+  type: 'status_change' | 'note' | 'validation' | 'system' | 'assignment';
   description: string;
 }
 
+export type StatusActor = 'ai' | 'user' | 'campaign' | 'system';
+
+/**
+ * One status move of a lead. Funnel analytics and the sales forecast are computed from these.
+ */
+export interface StatusTransition {
+  from: LeadStatus;
+  to: LeadStatus;
+  at: number;
+  actor: StatusActor; // Who moved it: lead analysis, a person, or a campaign send
+  campaignId?: string; // Set when actor is 'campaign'
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
-  emailMxValid?: boolean | null; // null = checking, true = valid, false = invalid
+  emailMxValid?: boolean | null; // null = unknown/checking, true = deliverable domain, false = undeliverable
+  emailDisposable?: boolean; // Throwaway mailbox provider (mailinator, yopmail, ...)
+  emailRole?: boolean; // Shared mailbox such as info@ or sales@
+  emailReason?: string; // Why the address is not deliverable, when known
   whatsappAvailable?: boolean | null;
   wechatAvailable?: boolean | null;
+  e164?: string | null; // Normalized phone number, null when not a valid phone
+  phoneType?: 'mobile' | 'landline' | 'voip' | 'unknown';
+  region?: string; // ISO 3166 region of the phone number
   checkedAt: number;
 }
 
@@ -121,14 +250,21 @@ export interface Importer {
   conversationSummary?: string;
   nextStep?: string;
   status: LeadStatus;
+  statusHistory?: StatusTransition[]; // Oldest first; absent on leads that never moved
   chatHistory: Message[];
   activityLog: ActivityLogEntry[];
   
   // Channel Preferences
-  preferredChannel: Channel;
+  preferredChannel: Channel | null; // null for a landline-only lead until someone picks its channel
   channelSelectionMode?: 'auto' | 'manual';
 
   needsHumanReview?: boolean; // New: Escalation flag
+
+  // Origin of the record; inbound leads wait in the "New inbound" queue until reviewed
+  source?: 'import' | 'inbound' | 'manual';
+  needsTriage?: boolean;
+  campaignId?: string; // Campaign the lead was last enrolled in
+  ownerId?: string | null; // Account responsible for the lead; null (or absent) when unassigned
   
   // Intelligent Insights & Scoring
   leadScore?: number; // 0-100 (Buying Likelihood)
@@ -182,12 +318,16 @@ export interface ReportConfig {
   };
   exportSchedule: 'daily' | 'weekly' | 'monthly' | 'never';
   emailRecipients: string;
+  baseCurrency: string; // Amounts in other currencies are converted into this one
 }
 
 export interface SalesForecast {
-  date: string;
-  predictedConversions: number;
-  confidence: number; // 0-1
+  date: string; // Week label, e.g. 'May 13'
+  weekStart: number;
+  predictedConversions: number; // Expected number of leads reaching Closed that week
+  lower: number;
+  upper: number;
+  confidence: number; // Level of the lower-upper interval, e.g. 0.9
 }
 
 export interface WebhookConfig {
@@ -208,14 +348,32 @@ export interface CampaignStep {
   dayOffset: number; // Days after enrollment
   channel: Channel;
   template: string; // With placeholders
+  whatsappTemplate?: string; // Approved template sent instead when the WhatsApp 24-hour window is closed
+}
+
+/**
+ * A message template approved in WhatsApp Manager. Outside the 24-hour customer service
+ * window the Business API only delivers templates.
+ */
+export interface WhatsAppTemplate {
+  name: string; // As approved, e.g. 'intro_outreach'
+  language: string; // Approved language code, e.g. 'en' or 'en_US'
+  category: 'MARKETING' | 'UTILITY';
+  body: string; // Approved text with positional slots {{1}}, {{2}}, ...
+  variables: string[]; // Placeholder filling each slot in order: 'importerName', 'myProduct', ...
 }
 
 export interface Enrollment {
+  id: string;
   importerId: string;
   campaignId: string;
   currentStepIndex: number; // 0 = waiting for step 0
   nextRunTime: number; // Timestamp
-  status: 'active' | 'completed' | 'stopped';
+  status: 'active' | 'paused' | 'completed' | 'stopped';
+  enrolledAt?: number;
+  attempts?: number; // Failed send attempts for the current step
+  lastError?: string | null;
+  stoppedReason?: string;
 }
 
 export interface CalendarEvent {
@@ -228,6 +386,107 @@ export interface CalendarEvent {
   status: 'pending' | 'done';
 }
 
+// --- MONEY ---
+
+// Offered first in currency pickers; any ISO 4217 code is accepted
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'CNY', 'INR'];
+
+export interface Money {
+  amount: number;
+  currency: string; // ISO 4217
+}
+
+// 1 `base` = `rate` `quote`, from `effectiveFrom` until a later rate for the same pair
+export interface ExchangeRate {
+  id: string;
+  base: string;
+  quote: string;
+  rate: number;
+  effectiveFrom: number;
+  source: 'manual' | 'csv';
+  createdAt: number;
+}
+
+export const INCOTERMS = ['EXW', 'FCA', 'FAS', 'FOB', 'CFR', 'CIF', 'CPT', 'CIP', 'DAP', 'DPU', 'DDP'] as const;
+export type Incoterm = typeof INCOTERMS[number];
+
+export interface PriceTier {
+  minQuantity: number; // Applies from this quantity upwards (in the product's unit)
+  unitPrice: number;
+}
+
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  description?: string;
+  hsCode: string; // Harmonized System code used on customs documents
+  grade?: string;
+  unit: string; // e.g. 'MT', 'kg', 'carton'
+  moq: number; // Minimum order quantity, in `unit`
+  currency: string; // ISO 4217, e.g. 'USD'
+  priceTiers: PriceTier[];
+  incoterms: Incoterm[]; // Terms this product can be quoted on
+  packaging?: string; // e.g. '25 kg PP bags, 20 MT per 20ft container'
+  updatedAt: number;
+}
+
+export interface QuotationLine {
+  productId: string;
+  sku: string;
+  name: string;
+  hsCode: string;
+  grade?: string;
+  packaging?: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+/**
+ * One version of a quotation. Revisions share `quoteNumber`; the previous version is
+ * marked superseded when a new one is issued.
+ */
+export interface Quotation {
+  id: string; // `${quoteNumber}-v${version}`
+  quoteNumber: string; // e.g. 'Q-2024-0007'
+  version: number;
+  importerId: string;
+  lines: QuotationLine[];
+  currency: string;
+  incoterm: Incoterm;
+  port: string; // Named place for the Incoterm, e.g. 'Mundra' for FOB or 'Rotterdam' for CIF
+  total: number;
+  validUntil: number;
+  notes?: string;
+  status: 'issued' | 'superseded';
+  messageId?: string; // Chat message it was sent with
+  fxRates?: Record<string, number>; // Product currency -> rate into `currency`, when prices were converted
+  createdAt: number;
+}
+
+// --- DEALS ---
+
+export type DealStage = 'open' | 'won' | 'lost';
+
+export interface Deal {
+  id: string;
+  importerId: string;
+  product: string; // Free text, or the product names from the quotation it came from
+  productId?: string; // Catalog product, when the deal is for a single one
+  quotationId?: string; // Latest quotation version backing the deal
+  volume: number;
+  unit: string;
+  currency: string;
+  unitPrice: number;
+  expectedCloseDate: number;
+  stage: DealStage;
+  closedAt?: number; // When it was marked won or lost
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface OptimizationInsight {
     strengths: string[];
     weaknesses: string[];
@@ -311,6 +570,12 @@ export const DEFAULT_NOTIFICATIONS: NotificationConfig = {
   criticalAlerts: true
 };
 
-export const canEditSettings = (role: UserRole) => role === UserRole.ADMIN;
-export const canExportData = (role: UserRole) => role === UserRole.ADMIN;
-export const canSendMessages = (role: UserRole) => role === UserRole.ADMIN || role === UserRole.SALES;
+/**
+ * UI-side permission check. The server enforces the same permissions per route, so this only
+ * decides what to show. Falls back to the built-in role when the permissions weren't loaded.
+ */
+export const hasPermission = (user: Pick<User, 'role' | 'permissions'> | null | undefined, permission: Permission) => {
+  if (!user) return false;
+  const granted = user.permissions ?? BUILT_IN_ROLES[user.role as UserRole] ?? [];
+  return granted.includes(permission);
+};
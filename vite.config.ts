@@ -15,6 +15,10 @@ export default defineConfig({
     sourcemap: true
   },
   server: {
-    port: 3000
+    port: 3000,
+    // Forward data API calls to the local Express backend (server.js / Electron)
+    proxy: {
+      '/api': 'http://localhost:4000'
+    }
   }
 });
\ No newline at end of file